@@ -4,11 +4,21 @@
  * TokenCentric CLI - Manage AI coding assistant configurations
  *
  * Usage:
- *   npx tokencentric scan [--tool claude|all]
- *   npx tokencentric info [--tool claude|all]
- *   npx tokencentric install <pack.tcpack> [--dry-run]
- *   npx tokencentric export [-o output.tcpack]
- *   npx tokencentric validate [--tool claude|all]
+ *   npx tokencentric scan [paths...] [--tool <id>|all]
+ *   npx tokencentric info [paths...]
+ *   npx tokencentric install <pack.tcpack|pack id> [--project <dir>] [--dry-run]
+ *   npx tokencentric uninstall <id> [--project <dir>] [--force] [--dry-run]
+ *   npx tokencentric upgrade <pack.tcpack|pack id> [--project <dir>] [--force] [--dry-run]
+ *   npx tokencentric export [-o output.tcpack] [--project <dir>]
+ *   npx tokencentric validate [paths...] [--fail-on error|warning|info] [--max-warnings <n>]
+ *   npx tokencentric tools
+ *   npx tokencentric tokenizers
+ *   npx tokencentric count <files...> [--tokenizer <id|tokenizer.json>]
+ *   npx tokencentric convert <file> --to <format> [--name <name>] [--globs <globs>] [--force] [--dry-run]
+ *   npx tokencentric sync [paths...] [--check] [--force]
+ *   npx tokencentric pack list | add <pack.tcpack> | remove <id> | status [id]
+ *
+ * Every command accepts --format table|json|ndjson (see docs/CLI.md).
  */
 
 import fs from 'fs/promises';
@@ -19,11 +29,82 @@ import {
   readClaudeSettings,
   readClaudePermissions,
   readMcpServers,
-  readDepartments,
   getClaudeDir,
   exportCurrentConfig,
 } from '../shared/configReader';
-import { StarterPack } from '../shared/types';
+import {
+  readAppSettings,
+  readToolProfiles,
+  getAppSettingsPaths,
+  getPackLibraryDir,
+} from '../shared/appSettings';
+import { defaultExclusions } from '../shared/defaultProfiles';
+import { matchToolProfile, scanDirectories, ScanTarget } from '../shared/scanner';
+import { getBudgetStatus, resolveTokenBudget } from '../shared/budgets';
+import {
+  PROJECT_CONFIG_FILE,
+  findMissingSections,
+  findProjectConfigFor,
+  getRequiredSections,
+  getToolProfilesFor,
+} from '../shared/projectConfig';
+import { findProjectConfigs } from '../shared/projectConfigReader';
+import {
+  INHERITANCE_STRATEGIES,
+  getInheritanceStrategy,
+  getInheritedFiles,
+} from '../shared/inheritance';
+import { resolveClaudeMemory } from '../shared/claudeMemoryReader';
+import { CONTEXT_FORMATS, ContextFormat, getContextFormat, isContextFormat, parseGlobs } from '../shared/contextFormats';
+import { convertContextFile, writeConvertedFile } from '../shared/contextFormatsWriter';
+import { syncProject } from '../shared/syncWriter';
+import { describeSettingsChange } from '../shared/settingsMerge';
+import { analyzeContextFiles } from '../shared/contextAnalysisReader';
+import {
+  addLibraryPack,
+  findPack,
+  getPackSlug,
+  listLibraryPacks,
+  readPackFile,
+  removeLibraryPack,
+} from '../shared/packLibrary';
+import {
+  installPack,
+  listInstalledPacks,
+  uninstallPack,
+  upgradePack,
+} from '../shared/packInstaller';
+import { getPackToolName } from '../shared/packTools';
+import { StarterPackMeta, builtinPacks } from '../shared/builtinPacks';
+import {
+  builtinTokenizers,
+  countTokens,
+  getTokenizerInfo,
+  isTokenizerType,
+  localTokenizerId,
+  validateLocalTokenizer,
+} from '../shared/tokenizers';
+import {
+  AppSettings,
+  BudgetThresholds,
+  ContextAnalysis,
+  InstalledPackStatus,
+  IssueSeverity,
+  PackInstallAction,
+  PackUninstallResult,
+  PackUpgradeAction,
+  PackUpgradePlan,
+  ProjectSyncStatus,
+  SettingsMergeAction,
+  SettingsMergeChange,
+  SectionFinding,
+  StarterPack,
+  SyncFileStatus,
+  ToolProfile,
+  TokenizerType,
+  ValidationIssue,
+} from '../shared/types';
+import { OUTPUT_FORMATS, OutputFormat, isOutputFormat, printOutput } from './output';
 
 // ============================================================
 // Helpers
@@ -34,17 +115,56 @@ function printUsage() {
 TokenCentric CLI v1.0.0
 
 Usage:
-  tokencentric scan [--tool claude|all]       Scan and list all config files
-  tokencentric info [--tool claude|all]       Show detailed config information
-  tokencentric install <file.tcpack> [--dry-run]  Install a starter pack
-  tokencentric export [-o file.tcpack]        Export current config as a pack
-  tokencentric validate [--tool claude|all]   Validate config files
+  tokencentric scan [paths...] [--tool <id>]  Scan directories for context files and count tokens
+  tokencentric info [paths...]                Show config details and drift between context files
+  tokencentric install <file.tcpack|id> [--project <dir>] [--dry-run]
+                                              Install a starter pack (a file, or a pack by id)
+  tokencentric uninstall <id> [--project <dir>] [--force] [--dry-run]
+                                              Remove the files an installed pack wrote
+  tokencentric upgrade <file.tcpack|id> [--project <dir>] [--force] [--dry-run]
+                                              Upgrade an installed pack, merging your changes
+  tokencentric export [-o file.tcpack] [--project <dir>]
+                                              Export current config, with every tool's rules, as a pack
+  tokencentric validate [paths...] [--fail-on <severity>] [--max-warnings <n>]
+                                              Validate config files, token budgets and required sections
+  tokencentric tools                          List tool profiles from the app settings
+  tokencentric tokenizers                     List available tokenizers
+  tokencentric count <files...> [--tokenizer <id>]  Count tokens in files
+  tokencentric convert <file> --to <format> [--name <name>] [--globs <globs>] [--force]
+                                              Convert a context file to another tool's format
+  tokencentric sync [paths...] [--check] [--force]
+                                              Generate tool files from each project's canonical file
+  tokencentric pack list                      List built-in packs and the packs in your library
+  tokencentric pack add <file.tcpack>         Add a pack to your library
+  tokencentric pack remove <id>               Remove a pack from your library
+  tokencentric pack status [id]               List installed packs and the files changed since install
 
 Options:
   --tool <tool>   Filter by tool (default: all)
+                  Paths (scan, validate, sync, info) default to the app's scan paths, or the current directory
+                  The .tokencentric.json in or above a scanned directory is applied
   --dry-run       Preview without making changes
+  --project <dir> Install, uninstall, upgrade or export a pack in a project (default: ~/.claude)
+  --tokenizer <id>  Tokenizer id or path to a tokenizer.json
+                  (default: the tokenizer of the file's tool profile)
   -o <file>       Output file path
+  --format <fmt>  Output format: table (default), json or ndjson
+  --fail-on <severity>  Fail validation on error (default), warning or info
+  --max-warnings <n>    Fail validation when there are more than n warnings
+  --to <format>   Target format for convert: ${CONTEXT_FORMATS.map((f) => f.id).join(', ')}
+  --name <name>   Rule name for Cursor rules and Copilot path instructions
+  --globs <globs> Comma-separated paths the converted rule applies to (default: the source's)
+  --force         Replace the converted file if it exists; sync: replace files edited by hand;
+                  uninstall: also delete changed files; upgrade: write conflict markers
+  --check         Only check that generated files are in sync (for CI)
   --help          Show this help message
+
+Exit codes:
+  0  Success
+  1  Validation failed (issues at or above --fail-on), generated files out of sync,
+     or an upgrade has conflicts
+  2  Error (bad arguments, unreadable files)
+  3  Validation found more warnings than --max-warnings
 `);
 }
 
@@ -62,212 +182,922 @@ function shortenPath(p: string): string {
   return p;
 }
 
+// Flags that take a value, so the value isn't mistaken for a positional argument
+const VALUE_FLAGS = [
+  '--tool',
+  '--tokenizer',
+  '--format',
+  '-o',
+  '--fail-on',
+  '--max-warnings',
+  '--to',
+  '--name',
+  '--globs',
+  '--project',
+];
+
+// Process exit codes (documented in docs/CLI.md)
+const ExitCode = {
+  Ok: 0,
+  // validate found issues at or above --fail-on, or sync found files out of sync
+  ValidationFailed: 1,
+  // Bad arguments, unreadable input or an unexpected error
+  Error: 2,
+  // validate found more warnings than --max-warnings allows
+  TooManyWarnings: 3,
+} as const;
+
+const SEVERITIES: IssueSeverity[] = ['error', 'warning', 'info'];
+
+/**
+ * Arguments that aren't flags or flag values, e.g. the paths in `scan a b --tool claude`.
+ */
+function getPositionalArgs(args: string[], valueFlags: string[]): string[] {
+  const positional: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    if (valueFlags.includes(args[i])) {
+      i++;
+    } else if (!args[i].startsWith('-')) {
+      positional.push(args[i]);
+    }
+  }
+  return positional;
+}
+
+function getFlagValue(args: string[], flag: string): string | null {
+  const idx = args.indexOf(flag);
+  return idx >= 0 && idx + 1 < args.length ? args[idx + 1] : null;
+}
+
+async function isDirectory(p: string): Promise<boolean> {
+  try {
+    return (await fs.stat(p)).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The project a file belongs to: the nearest enclosing repository (a directory
+ * containing `.git`) below the scan root, or the scan root itself.
+ */
+async function findProjectRoot(filePath: string, rootPath: string, cache: Map<string, string>): Promise<string> {
+  const visited: string[] = [];
+  let dir = path.dirname(filePath);
+  let project = rootPath;
+
+  while (dir.startsWith(rootPath)) {
+    const cached = cache.get(dir);
+    if (cached) {
+      project = cached;
+      break;
+    }
+    visited.push(dir);
+    try {
+      await fs.access(path.join(dir, '.git'));
+      project = dir;
+      break;
+    } catch {
+      // Not a repository root
+    }
+    if (dir === rootPath) break;
+    dir = path.dirname(dir);
+  }
+
+  for (const d of visited) cache.set(d, project);
+  return project;
+}
+
+/**
+ * The directories to scan: the given paths, or the app's enabled scan paths,
+ * or the current directory. Explicit paths pick up per-directory settings
+ * saved in the app for the same path.
+ */
+async function resolveScanTargets(paths: string[], settings: Partial<AppSettings>): Promise<ScanTarget[]> {
+  const savedRoots = settings.scanPaths || [];
+  if (paths.length === 0) {
+    const enabled = savedRoots.filter((root) => root.enabled);
+    return enabled.length > 0 ? enabled : [{ path: process.cwd() }];
+  }
+
+  const roots: ScanTarget[] = [];
+  for (const p of paths) {
+    const resolved = path.resolve(p);
+    if (!(await isDirectory(resolved))) {
+      console.error(`Error: Not a directory: ${p}`);
+      process.exit(ExitCode.Error);
+    }
+    const saved = savedRoots.find((root) => root.path === resolved);
+    roots.push(saved ? { ...saved, enabled: true } : { path: resolved });
+  }
+  return roots;
+}
+
 // ============================================================
 // Commands
 // ============================================================
 
-async function cmdScan() {
+interface ScanFileOutput {
+  path: string;
+  project: string;
+  tool: string;
+  tokenizer: TokenizerType;
+  tokens: number;
+  size: number;
+  lastModified: number;
+}
+
+interface ScanGroupOutput {
+  id: string;
+  files: number;
+  tokens: number;
+}
+
+interface ClaudeItemOutput {
+  name: string;
+  path: string;
+  size: number;
+  tokens: number;
+}
+
+interface ClaudeGlobalOutput {
+  commands: Array<ClaudeItemOutput & { slashCommand: string }>;
+  agents: Array<ClaudeItemOutput & { department: string }>;
+  configFiles: Array<{ name: string; path: string; size: number | null }>;
+  mcpServers: { projects: number; servers: number };
+}
+
+interface ScanOutput {
+  roots: string[];
+  files: ScanFileOutput[];
+  summary: {
+    files: number;
+    tokens: number;
+    projects: ScanGroupOutput[];
+    tools: ScanGroupOutput[];
+  };
+  claude?: ClaudeGlobalOutput;
+}
+
+function summarize(files: ScanFileOutput[], key: 'project' | 'tool'): ScanGroupOutput[] {
+  const groups = new Map<string, ScanGroupOutput>();
+  for (const file of files) {
+    const group = groups.get(file[key]) || { id: file[key], files: 0, tokens: 0 };
+    group.files++;
+    group.tokens += file.tokens;
+    groups.set(file[key], group);
+  }
+  return Array.from(groups.values()).sort((a, b) => a.id.localeCompare(b.id));
+}
+
+async function cmdScan(paths: string[], toolFilter: string, format: OutputFormat) {
+  const settings = await readAppSettings();
+  const profiles = await readToolProfiles();
+  if (toolFilter !== 'all' && !profiles.some((p) => p.id === toolFilter)) {
+    console.error(`Error: Unknown tool "${toolFilter}". Run "tokencentric tools" to list them.`);
+    process.exit(ExitCode.Error);
+  }
+
+  const roots = await resolveScanTargets(paths, settings);
+  // Files are matched against every profile, as in an unfiltered scan, so
+  // --tool only keeps the files another profile wouldn't claim first
+  const scanned = await scanDirectories(roots, {
+    toolProfiles: profiles,
+    exclusions: settings.exclusions || defaultExclusions,
+    respectIgnoreFiles: settings.respectIgnoreFiles,
+    countTokens,
+  });
+  const files =
+    toolFilter === 'all' ? scanned.files : scanned.files.filter((f) => f.toolId === toolFilter);
+  const configs = await findProjectConfigs(files.map((f) => f.path));
+
+  const projectCache = new Map<string, string>();
+  const fileOutputs: ScanFileOutput[] = [];
+  // Tools in settings order, then tools only defined in project configs
+  const tableProfiles = [...profiles];
+  for (const file of files.sort((a, b) => a.path.localeCompare(b.path))) {
+    const root = roots.find((r) => file.path.startsWith(r.path + '/')) || roots[0];
+    const profile = getToolProfilesFor(file.path, profiles, configs).find((p) => p.id === file.toolId);
+    if (profile && !tableProfiles.some((p) => p.id === profile.id)) {
+      tableProfiles.push(profile);
+    }
+    fileOutputs.push({
+      path: file.path,
+      project: await findProjectRoot(file.path, root.path, projectCache),
+      tool: file.toolId,
+      tokenizer: profile?.tokenizer || 'openai',
+      tokens: file.tokens || 0,
+      size: file.size,
+      lastModified: file.lastModified,
+    });
+  }
+
+  const result: ScanOutput = {
+    roots: roots.map((r) => r.path),
+    files: fileOutputs,
+    summary: {
+      files: fileOutputs.length,
+      tokens: fileOutputs.reduce((sum, f) => sum + f.tokens, 0),
+      projects: summarize(fileOutputs, 'project'),
+      tools: summarize(fileOutputs, 'tool'),
+    },
+  };
+  if (toolFilter === 'all' || toolFilter === 'claude') {
+    result.claude = await readClaudeGlobalConfig();
+  }
+
+  printOutput(format, {
+    command: 'scan',
+    result,
+    records: (r) => [
+      ...r.files.map((file) => ({ type: 'file', ...file })),
+      ...(r.claude?.commands || []).map((item) => ({ type: 'claude-command', ...item })),
+      ...(r.claude?.agents || []).map((item) => ({ type: 'claude-agent', ...item })),
+      { type: 'summary', roots: r.roots, ...r.summary },
+    ],
+    table: (r) => printScanTable(r, tableProfiles),
+  });
+}
+
+function printScanTable(result: ScanOutput, profiles: ToolProfile[]) {
+  console.log('\nContext Files');
+  console.log('='.repeat(50));
+  console.log(`  ${result.roots.map(shortenPath).join(', ')}`);
+  console.log(`  ${result.summary.files} file(s), ${result.summary.tokens.toLocaleString()} tokens`);
+
+  // Group by project, then by tool
+  for (const project of result.summary.projects) {
+    console.log(`\n${shortenPath(project.id)}  (${project.tokens.toLocaleString()} tok)`);
+    const projectFiles = result.files.filter((f) => f.project === project.id);
+
+    for (const profile of profiles) {
+      const toolFiles = projectFiles.filter((f) => f.tool === profile.id);
+      if (toolFiles.length === 0) continue;
+      console.log(`  ${profile.name} (${getTokenizerInfo(toolFiles[0].tokenizer).name})`);
+      for (const file of toolFiles) {
+        const tokens = file.tokens.toLocaleString().padStart(10);
+        console.log(`  ${tokens}  ${path.relative(project.id, file.path)}  ${formatSize(file.size)}`);
+      }
+    }
+  }
+
+  if (result.claude) {
+    printClaudeGlobalConfig(result.claude);
+  }
+}
+
+async function readClaudeGlobalConfig(): Promise<ClaudeGlobalOutput> {
   const claudeDir = getClaudeDir();
+  const countClaudeTokens = (content: string) => countTokens(content, 'anthropic');
+
+  const commands = await readClaudeCommands(countClaudeTokens);
+  const agents = await readClaudeAgents(countClaudeTokens);
 
-  console.log('\nClaude Code Configuration Files');
+  const configFiles: ClaudeGlobalOutput['configFiles'] = [];
+  for (const name of ['settings.json', 'settings.local.json', 'keybindings.json', 'CLAUDE.md']) {
+    const filePath = path.join(claudeDir, name);
+    try {
+      const stats = await fs.stat(filePath);
+      configFiles.push({ name, path: filePath, size: stats.size });
+    } catch {
+      configFiles.push({ name, path: filePath, size: null });
+    }
+  }
+
+  const mcpServers = await readMcpServers();
+
+  return {
+    commands: commands.map((cmd) => ({
+      name: cmd.name,
+      slashCommand: cmd.metadata.slashCommand as string,
+      path: cmd.path,
+      size: cmd.size,
+      tokens: cmd.tokens,
+    })),
+    agents: agents.map((agent) => ({
+      name: agent.name,
+      department: (agent.metadata.department as string) || '',
+      path: agent.path,
+      size: agent.size,
+      tokens: agent.tokens,
+    })),
+    configFiles,
+    mcpServers: {
+      projects: Object.keys(mcpServers).length,
+      servers: Object.values(mcpServers).reduce((s, p) => s + Object.keys(p).length, 0),
+    },
+  };
+}
+
+function printClaudeGlobalConfig(config: ClaudeGlobalOutput) {
+  console.log('\nClaude Code Configuration Files (~/.claude)');
   console.log('='.repeat(50));
 
   // Commands
-  const commands = await readClaudeCommands();
-  console.log(`\nCommands (${commands.length}):`);
-  if (commands.length === 0) {
+  console.log(`\nCommands (${config.commands.length}):`);
+  if (config.commands.length === 0) {
     console.log('  (none)');
   } else {
-    for (const cmd of commands) {
-      console.log(`  ${cmd.metadata.slashCommand as string}  ${formatSize(cmd.size)}  ~${Math.ceil(cmd.size / 4)} tok`);
+    for (const cmd of config.commands) {
+      console.log(`  ${cmd.slashCommand}  ${formatSize(cmd.size)}  ${cmd.tokens.toLocaleString()} tok`);
     }
   }
 
   // Agents
-  const agents = await readClaudeAgents();
-  const departments = await readDepartments();
-  console.log(`\nAgents (${agents.length}):`);
-  if (agents.length === 0) {
+  console.log(`\nAgents (${config.agents.length}):`);
+  if (config.agents.length === 0) {
     console.log('  (none)');
   } else {
+    const departments = Array.from(new Set(config.agents.map((a) => a.department)));
     for (const dept of departments) {
-      const deptAgents = agents.filter((a) => a.metadata.department === dept);
-      if (deptAgents.length === 0) continue;
       console.log(`  ${dept}/`);
-      for (const agent of deptAgents) {
-        console.log(`    ${agent.name}  ${formatSize(agent.size)}  ~${Math.ceil(agent.size / 4)} tok`);
+      for (const agent of config.agents.filter((a) => a.department === dept)) {
+        console.log(`    ${agent.name}  ${formatSize(agent.size)}  ${agent.tokens.toLocaleString()} tok`);
       }
     }
   }
 
   // Settings files
   console.log('\nConfig Files:');
-  const configFiles = [
-    { name: 'settings.json', path: path.join(claudeDir, 'settings.json') },
-    { name: 'settings.local.json', path: path.join(claudeDir, 'settings.local.json') },
-    { name: 'keybindings.json', path: path.join(claudeDir, 'keybindings.json') },
-    { name: 'CLAUDE.md', path: path.join(claudeDir, 'CLAUDE.md') },
-  ];
-
-  for (const f of configFiles) {
-    try {
-      const stats = await fs.stat(f.path);
-      console.log(`  ${f.name}  ${formatSize(stats.size)}`);
-    } catch {
-      console.log(`  ${f.name}  (not found)`);
-    }
+  for (const f of config.configFiles) {
+    console.log(`  ${f.name}  ${f.size === null ? '(not found)' : formatSize(f.size)}`);
   }
 
   // MCP Servers
-  const mcpServers = await readMcpServers();
-  const projectCount = Object.keys(mcpServers).length;
-  const serverCount = Object.values(mcpServers).reduce((s, p) => s + Object.keys(p).length, 0);
-  console.log(`\nMCP Servers: ${serverCount} across ${projectCount} project(s)`);
+  console.log(`\nMCP Servers: ${config.mcpServers.servers} across ${config.mcpServers.projects} project(s)`);
 }
 
-async function cmdInfo() {
-  console.log('\nClaude Code Configuration Info');
-  console.log('='.repeat(50));
+interface InfoOutput {
+  settings: { plugins: string[]; hooks: string[] };
+  permissions: { allow: number; deny: number; ask: number } | null;
+  mcpServers: Array<{ project: string; name: string; target: string | null }>;
+  contextFiles: ContextAnalysis;
+}
+
+const FINDING_LABELS: Record<SectionFinding['kind'], string> = {
+  conflict: 'CONFLICT ',
+  missing: 'MISSING  ',
+  duplicate: 'DUPLICATE',
+};
 
+function describeFinding(finding: SectionFinding): string {
+  const files = finding.files.map(shortenPath).join(', ');
+  switch (finding.kind) {
+    case 'conflict':
+      return `${files} (${Math.round((finding.similarity ?? 0) * 100)}% of lines shared)`;
+    case 'missing':
+      return `in ${files}, not in ${(finding.missingFrom || []).map(shortenPath).join(', ')}`;
+    default:
+      return files + (finding.crossProject ? ' (across projects)' : '');
+  }
+}
+
+async function cmdInfo(paths: string[], format: OutputFormat) {
   // Settings
   const settings = await readClaudeSettings();
-  console.log('\nSettings (settings.json):');
-  const plugins = settings.enabledPlugins as Record<string, boolean> | undefined;
-  if (plugins) {
-    const enabled = Object.entries(plugins).filter(([, v]) => v);
-    console.log(`  Plugins: ${enabled.length > 0 ? enabled.map(([k]) => k.split('@')[0]).join(', ') : 'none'}`);
-  }
-  const hooks = settings.hooks as Record<string, unknown[]> | undefined;
-  if (hooks) {
-    console.log(`  Hooks: ${Object.keys(hooks).join(', ') || 'none'}`);
-  }
+  const plugins = (settings.enabledPlugins as Record<string, boolean> | undefined) || {};
+  const hooks = (settings.hooks as Record<string, unknown[]> | undefined) || {};
 
   // Permissions
   const perms = await readClaudePermissions();
   const permData = perms.permissions as { allow?: string[]; deny?: string[]; ask?: string[] } | undefined;
-  if (permData) {
-    console.log('\nPermissions (settings.local.json):');
-    console.log(`  Allow: ${permData.allow?.length || 0} rules`);
-    console.log(`  Deny: ${permData.deny?.length || 0} rules`);
-    console.log(`  Ask: ${permData.ask?.length || 0} rules`);
-  }
 
   // MCP Servers
   const mcpServers = await readMcpServers();
-  if (Object.keys(mcpServers).length > 0) {
-    console.log('\nMCP Servers:');
-    for (const [projectPath, servers] of Object.entries(mcpServers)) {
-      console.log(`  ${shortenPath(projectPath)}`);
-      for (const [name, config] of Object.entries(servers)) {
-        const cfg = config as Record<string, unknown>;
-        console.log(`    ${name}: ${cfg.command || cfg.url || '(unknown)'}`);
-      }
+  const servers: InfoOutput['mcpServers'] = [];
+  for (const [projectPath, projectServers] of Object.entries(mcpServers)) {
+    for (const [name, config] of Object.entries(projectServers)) {
+      const cfg = config as Record<string, unknown>;
+      servers.push({ project: projectPath, name, target: ((cfg.command || cfg.url) as string) || null });
     }
   }
+
+  // Drift between the context files under the given paths
+  const appSettings = await readAppSettings();
+  const roots = await resolveScanTargets(paths, appSettings);
+  const { files } = await scanDirectories(roots, {
+    toolProfiles: await readToolProfiles(),
+    exclusions: appSettings.exclusions || defaultExclusions,
+    respectIgnoreFiles: appSettings.respectIgnoreFiles,
+    countTokens,
+  });
+
+  const result: InfoOutput = {
+    settings: {
+      plugins: Object.entries(plugins)
+        .filter(([, v]) => v)
+        .map(([k]) => k.split('@')[0]),
+      hooks: Object.keys(hooks),
+    },
+    permissions: permData
+      ? { allow: permData.allow?.length || 0, deny: permData.deny?.length || 0, ask: permData.ask?.length || 0 }
+      : null,
+    mcpServers: servers,
+    contextFiles: await analyzeContextFiles(files.map((f) => f.path)),
+  };
+
+  printOutput(format, {
+    command: 'info',
+    result,
+    records: (r) => [
+      { type: 'settings', ...r.settings },
+      ...(r.permissions ? [{ type: 'permissions', ...r.permissions }] : []),
+      ...r.mcpServers.map((server) => ({ type: 'mcp-server', ...server })),
+      ...r.contextFiles.findings.map((finding) => ({ type: 'finding', ...finding })),
+    ],
+    table: (r) => {
+      console.log('\nClaude Code Configuration Info');
+      console.log('='.repeat(50));
+
+      console.log('\nSettings (settings.json):');
+      console.log(`  Plugins: ${r.settings.plugins.length > 0 ? r.settings.plugins.join(', ') : 'none'}`);
+      console.log(`  Hooks: ${r.settings.hooks.join(', ') || 'none'}`);
+
+      if (r.permissions) {
+        console.log('\nPermissions (settings.local.json):');
+        console.log(`  Allow: ${r.permissions.allow} rules`);
+        console.log(`  Deny: ${r.permissions.deny} rules`);
+        console.log(`  Ask: ${r.permissions.ask} rules`);
+      }
+
+      if (r.mcpServers.length > 0) {
+        console.log('\nMCP Servers:');
+        let lastProject: string | null = null;
+        for (const server of r.mcpServers) {
+          if (server.project !== lastProject) {
+            console.log(`  ${shortenPath(server.project)}`);
+            lastProject = server.project;
+          }
+          console.log(`    ${server.name}: ${server.target || '(unknown)'}`);
+        }
+      }
+
+      const { files: compared, generated, findings } = r.contextFiles;
+      console.log(
+        `\nContext File Drift (${compared.length} files compared` +
+          (generated.length > 0 ? `, ${generated.length} generated skipped)` : ')') +
+          ':'
+      );
+      if (findings.length === 0) {
+        console.log('  No duplicated, conflicting or missing sections');
+      }
+      for (const finding of findings) {
+        console.log(`  ${FINDING_LABELS[finding.kind]}  ${finding.heading}: ${describeFinding(finding)}`);
+      }
+    },
+  });
 }
 
-async function cmdInstall(packPath: string, dryRun: boolean) {
-  console.log(`\nInstalling pack: ${packPath}`);
-  if (dryRun) console.log('(dry run - no files will be written)');
-  console.log('='.repeat(50));
+interface InstallOutput {
+  id: string;
+  pack: { name: string; version: string; author: string; description: string };
+  project: string | null; // null when installed in ~/.claude
+  dryRun: boolean;
+  actions: PackInstallAction[];
+  settings: SettingsMergeChange[];
+  errors: string[];
+}
 
-  const content = await fs.readFile(packPath, 'utf-8');
-  const pack = JSON.parse(content) as StarterPack;
+const SETTINGS_LABELS: Record<SettingsMergeAction, string> = {
+  add: 'ADD     ',
+  append: 'APPEND  ',
+  conflict: 'CONFLICT',
+  unchanged: 'SAME    ',
+};
 
-  if (!pack.tcpack || !pack.name || !pack.tools) {
-    console.error('Error: Invalid .tcpack file format');
-    process.exit(1);
+// How a pack's settings merge into settings.json, one line per key
+function printSettingsChanges(changes: SettingsMergeChange[]) {
+  if (changes.length === 0) return;
+  console.log('\nsettings.json:');
+  for (const change of changes) {
+    console.log(`  ${SETTINGS_LABELS[change.action]}  ${change.key} ${describeSettingsChange(change)}`);
   }
+}
 
-  console.log(`Pack: ${pack.name} v${pack.version}`);
-  console.log(`Author: ${pack.author}`);
-  console.log(`Description: ${pack.description}`);
+// A .tcpack file, or a built-in or library pack by id. Packs from a file are
+// recorded as installed under their name's slug.
+async function resolvePack(packArg: string): Promise<{ id: string; pack: StarterPack }> {
+  try {
+    const pack = await readPackFile(packArg);
+    return { id: getPackSlug(pack.name), pack };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  }
+  const packMeta = await findPack(await getPackLibraryDir(), packArg);
+  if (!packMeta) {
+    console.error(`Error: No pack file or pack with id "${packArg}". Run "tokencentric pack list" to list them.`);
+    process.exit(ExitCode.Error);
+  }
+  return { id: packMeta.id, pack: packMeta.pack };
+}
 
-  const claudeDir = getClaudeDir();
+// The --project a pack is installed in, or null for ~/.claude
+async function getProjectOption(args: string[]): Promise<string | null> {
+  const project = getFlagValue(args, '--project');
+  if (!project) return null;
+  const resolved = path.resolve(project);
+  if (!(await isDirectory(resolved))) {
+    console.error(`Error: Not a directory: ${project}`);
+    process.exit(ExitCode.Error);
+  }
+  return resolved;
+}
+
+// The flag that selects the same install again, for the hints printed after a command
+const getProjectFlag = (project: string | null) =>
+  project ? ` --project ${shortenPath(project)}` : '';
+
+async function cmdInstall(
+  packPath: string,
+  options: { dryRun: boolean; project: string | null },
+  format: OutputFormat
+) {
+  const { dryRun, project } = options;
+  const { id, pack } = await resolvePack(packPath);
+  const { actions, settings, errors } = await installPack(await getPackLibraryDir(), id, pack, {
+    dryRun,
+    project,
+  });
+
+  const result: InstallOutput = {
+    id,
+    pack: { name: pack.name, version: pack.version, author: pack.author, description: pack.description },
+    project,
+    dryRun,
+    actions,
+    settings,
+    errors,
+  };
 
-  for (const [toolId, toolData] of Object.entries(pack.tools)) {
-    console.log(`\nTool: ${toolId}`);
+  printOutput(format, {
+    command: 'install',
+    result,
+    records: (r) => [
+      { type: 'pack', id: r.id, ...r.pack, project: r.project, dryRun: r.dryRun },
+      ...r.actions.map((action) => ({ type: 'action', ...action })),
+      ...r.settings.map((change) => ({ type: 'setting', ...change })),
+      ...r.errors.map((message) => ({ type: 'error', message })),
+    ],
+    table: (r) => {
+      console.log(`\nInstalling pack: ${packPath}`);
+      if (r.dryRun) console.log('(dry run - no files will be written)');
+      console.log('='.repeat(50));
+      console.log(`Pack: ${r.pack.name} v${r.pack.version}`);
+      console.log(`Author: ${r.pack.author}`);
+      console.log(`Description: ${r.pack.description}`);
+      console.log(`Into: ${r.project ? shortenPath(r.project) : '~/.claude'}`);
 
-    for (const file of toolData.configFiles || []) {
-      const targetPath = path.join(claudeDir, file.filename);
-      let exists = false;
-      try {
-        await fs.access(targetPath);
-        exists = true;
-      } catch {
-        // doesn't exist
+      const labels: Record<PackInstallAction['action'], string> = {
+        install: 'INSTALL',
+        overwrite: 'OVERWRITE',
+        skip: 'SKIP (exists)',
+        merge: 'MERGE  ',
+        'needs-project': 'SKIP (needs --project)',
+        unsupported: 'SKIP (unsupported)',
+      };
+      let lastTool: string | null = null;
+      for (const action of r.actions) {
+        if (action.tool !== lastTool) {
+          console.log(`\nTool: ${action.tool}`);
+          lastTool = action.tool;
+        }
+        console.log(`  ${labels[action.action]}  ${action.file}`);
+      }
+      if (r.actions.some((a) => a.action === 'needs-project')) {
+        console.log('\nSome tools only read their files in a project. Install with --project <dir> to get them.');
+      }
+      if (r.actions.some((a) => a.action === 'unsupported')) {
+        console.log("\nSome files are named so their tool doesn't read them, and were left out.");
+      }
+      printSettingsChanges(r.settings);
+      if (r.settings.some((c) => c.action === 'conflict')) {
+        console.log('Conflicting settings keep your values.');
+      }
+      for (const error of r.errors) {
+        console.log(`  ERROR  ${error}`);
       }
 
-      const status = exists ? 'SKIP (exists)' : 'INSTALL';
-      console.log(`  ${status}  ${file.filename}`);
+      if (r.dryRun) {
+        console.log('\nDry run complete. No files were modified.');
+      } else if (r.errors.length > 0) {
+        console.log('\nInstallation incomplete: see the errors above.');
+      } else {
+        console.log(
+          `\nInstallation complete. Uninstall it with "tokencentric uninstall ${r.id}${getProjectFlag(r.project)}".`
+        );
+      }
+    },
+  });
+
+  if (errors.length > 0) process.exitCode = ExitCode.Error;
+}
+
+interface UninstallOutput extends PackUninstallResult {
+  id: string;
+  project: string | null;
+  dryRun: boolean;
+}
+
+async function cmdUninstall(
+  id: string,
+  options: { force: boolean; dryRun: boolean; project: string | null },
+  format: OutputFormat
+) {
+  const result = await uninstallPack(await getPackLibraryDir(), id, options);
 
-      if (!dryRun && !exists) {
-        await fs.mkdir(path.dirname(targetPath), { recursive: true });
-        await fs.writeFile(targetPath, file.content, 'utf-8');
+  printOutput<UninstallOutput>(format, {
+    command: 'uninstall',
+    result: { id, project: options.project, dryRun: options.dryRun, ...result },
+    records: (r) => [
+      ...r.removed.map((item) => ({ type: 'removed', path: item })),
+      ...r.kept.map((item) => ({ type: 'kept', path: item })),
+    ],
+    table: (r) => {
+      console.log(`\nUninstalling pack: ${r.id}${r.project ? ` from ${shortenPath(r.project)}` : ''}`);
+      if (r.dryRun) console.log('(dry run - no files will be removed)');
+      console.log('='.repeat(50));
+      for (const item of r.removed) console.log(`  REMOVE  ${shortenPath(item)}`);
+      for (const item of r.kept) console.log(`  KEEP    ${shortenPath(item)} (changed since install)`);
+      if (r.kept.length > 0 && !r.dryRun) {
+        console.log('\nFiles changed since install were kept. Use --force to remove them too.');
       }
-    }
+    },
+  });
+}
 
-    if (toolData.settings) {
-      console.log(`  MERGE   settings.json`);
-      if (!dryRun) {
-        const settingsPath = path.join(claudeDir, 'settings.json');
-        let current: Record<string, unknown> = {};
-        try {
-          const raw = await fs.readFile(settingsPath, 'utf-8');
-          current = JSON.parse(raw);
-        } catch {
-          // No existing settings
-        }
-        const merged = { ...current, ...toolData.settings };
-        await fs.writeFile(settingsPath, JSON.stringify(merged, null, 2) + '\n', 'utf-8');
+const UPGRADE_LABELS: Record<PackUpgradeAction, string> = {
+  unchanged: 'UNCHANGED',
+  update: 'UPDATE',
+  add: 'ADD',
+  remove: 'REMOVE',
+  keep: 'KEEP',
+  merge: 'MERGE',
+  conflict: 'CONFLICT',
+};
+
+interface UpgradeOutput {
+  plan: PackUpgradePlan;
+  dryRun: boolean;
+  applied: boolean;
+}
+
+/**
+ * Upgrades an installed pack, merging the changes made to its files since
+ * install. Conflicting changes leave everything as it is, unless --force
+ * writes them with conflict markers.
+ */
+async function cmdUpgrade(
+  packArg: string,
+  options: { force: boolean; dryRun: boolean; project: string | null },
+  format: OutputFormat
+) {
+  const { id, pack } = await resolvePack(packArg);
+  const plan = await upgradePack(await getPackLibraryDir(), id, pack, options);
+  const applied = !options.dryRun && (plan.conflicts === 0 || options.force);
+
+  printOutput<UpgradeOutput>(format, {
+    command: 'upgrade',
+    result: { plan, dryRun: options.dryRun, applied },
+    // Without the file contents, which the json output includes
+    records: (r) => [
+      { type: 'upgrade', packId: r.plan.packId, from: r.plan.from, to: r.plan.to, applied: r.applied },
+      ...r.plan.files.map((f) => ({
+        type: 'file',
+        path: f.path,
+        action: f.action,
+        conflicts: f.conflicts ?? 0,
+      })),
+      ...r.plan.settings.map((change) => ({ type: 'setting', ...change })),
+    ],
+    table: (r) => {
+      console.log(`\nUpgrading pack: ${r.plan.name} v${r.plan.from} -> v${r.plan.to}`);
+      if (r.dryRun) console.log('(dry run - no files will be written)');
+      console.log('='.repeat(50));
+      for (const file of r.plan.files) {
+        const conflicts = file.conflicts ? ` (${file.conflicts} conflict(s))` : '';
+        console.log(`  ${UPGRADE_LABELS[file.action].padEnd(9)}  ${shortenPath(file.path)}${conflicts}`);
       }
-    }
-  }
+      printSettingsChanges(r.plan.settings.filter((c) => c.action !== 'unchanged'));
+      if (r.applied) {
+        console.log(r.plan.conflicts > 0 ? '\nUpgraded. Resolve the conflict markers in the files above.' : '\nUpgrade complete.');
+      } else if (!r.dryRun) {
+        console.log('\nNothing was changed: your changes conflict with the new version. Use --force to write them with conflict markers.');
+      }
+    },
+  });
+
+  // Set rather than exit, so piped output is flushed first
+  if (plan.conflicts > 0 && !options.force) process.exitCode = ExitCode.ValidationFailed;
+}
 
-  console.log(dryRun ? '\nDry run complete. No files were modified.' : '\nInstallation complete.');
+interface ExportOutput {
+  output: string;
+  project: string | null; // null for the user config
+  files: number;
+  tools: Record<string, number>; // Files per tool
+  settings: boolean;
 }
 
-async function cmdExport(outputPath: string | null) {
+async function cmdExport(outputPath: string | null, project: string | null, format: OutputFormat) {
   const defaultName = 'my-claude-setup';
   const defaultOutput = outputPath || `${defaultName}.tcpack`;
 
-  console.log('\nExporting current Claude Code configuration...');
-  console.log('='.repeat(50));
-
   const pack = await exportCurrentConfig({
     name: defaultName,
     description: 'Exported Claude Code configuration',
     includeCommands: true,
     includeAgents: true,
     includeSettings: true,
+    includeContext: true,
+    project,
   });
 
-  const fileCount = pack.tools.claude?.configFiles?.length || 0;
-  const hasSettings = !!pack.tools.claude?.settings;
+  await fs.writeFile(defaultOutput, JSON.stringify(pack, null, 2), 'utf-8');
 
-  console.log(`Files: ${fileCount}`);
-  console.log(`Settings: ${hasSettings ? 'included' : 'none'}`);
+  const tools = Object.fromEntries(
+    Object.entries(pack.tools).map(([toolId, toolData]) => [
+      toolId,
+      (toolData.contextFiles?.length || 0) + (toolData.configFiles?.length || 0),
+    ])
+  );
 
-  await fs.writeFile(defaultOutput, JSON.stringify(pack, null, 2), 'utf-8');
-  console.log(`\nExported to: ${defaultOutput}`);
+  printOutput<ExportOutput>(format, {
+    command: 'export',
+    result: {
+      output: path.resolve(defaultOutput),
+      project,
+      files: Object.values(tools).reduce((sum, n) => sum + n, 0),
+      tools,
+      settings: !!pack.tools.claude?.settings,
+    },
+    records: (r) => [{ type: 'export', ...r }],
+    table: (r) => {
+      console.log(`\nExporting current configuration from ${r.project ? shortenPath(r.project) : '~'}...`);
+      console.log('='.repeat(50));
+      console.log(`Files: ${r.files}`);
+      for (const [toolId, count] of Object.entries(r.tools)) {
+        console.log(`  ${getPackToolName(toolId)}: ${count}`);
+      }
+      console.log(`Settings: ${r.settings ? 'included' : 'none'}`);
+      console.log(`\nExported to: ${defaultOutput}`);
+    },
+  });
 }
 
-async function cmdValidate() {
-  console.log('\nValidating Claude Code configuration...');
-  console.log('='.repeat(50));
+interface ValidateOptions {
+  // Directories whose context files are checked against the token budgets
+  paths: string[];
+  // Lowest severity that fails validation
+  failOn: IssueSeverity;
+  // Fail when there are more warnings than this (null: unlimited)
+  maxWarnings: number | null;
+}
 
-  let issues = 0;
+interface ValidateOutput {
+  roots: string[];
+  files: number;
+  issues: ValidationIssue[];
+  summary: Record<IssueSeverity, number>;
+  passed: boolean;
+  exitCode: number;
+  failOn: IssueSeverity;
+  maxWarnings: number | null;
+}
+
+/**
+ * Decides the exit code for a validation run. Failing on a severity also fails
+ * on everything more severe (--fail-on warning fails on errors too).
+ */
+function getValidateExitCode(summary: Record<IssueSeverity, number>, options: ValidateOptions): number {
+  const failing = SEVERITIES.slice(0, SEVERITIES.indexOf(options.failOn) + 1);
+  if (failing.some((severity) => summary[severity] > 0)) {
+    return ExitCode.ValidationFailed;
+  }
+  if (options.maxWarnings !== null && summary.warning > options.maxWarnings) {
+    return ExitCode.TooManyWarnings;
+  }
+  return ExitCode.Ok;
+}
+
+function checkBudget(
+  tokens: number,
+  thresholds: BudgetThresholds,
+  kind: 'file' | 'context',
+  filePath: string
+): ValidationIssue | null {
+  const status = getBudgetStatus(tokens, thresholds);
+  if (status === 'ok') return null;
+
+  const what = kind === 'file' ? 'file' : 'total context';
+  const name = shortenPath(filePath);
+  return status === 'over'
+    ? {
+        severity: 'error',
+        code: `${kind}-over-budget`,
+        message: `${name}: ${tokens.toLocaleString()} tokens, over the ${thresholds.limit.toLocaleString()} token ${what} budget`,
+        path: filePath,
+      }
+    : {
+        severity: 'warning',
+        code: `${kind}-near-budget`,
+        message: `${name}: ${tokens.toLocaleString()} tokens, above the ${thresholds.warning.toLocaleString()} token ${what} warning`,
+        path: filePath,
+      };
+}
+
+/**
+ * Checks each context file against its token budget (app settings overridden
+ * by the nearest .tokencentric.json), both on its own and together with the
+ * files it inherits: ~/.claude/CLAUDE.md and context files of the same tool in
+ * parent directories, as in the app. Files must also have the headings their
+ * .tokencentric.json requires.
+ */
+async function checkContextFiles(
+  roots: ScanTarget[],
+  settings: Partial<AppSettings>
+): Promise<{ files: number; issues: ValidationIssue[] }> {
+  const profiles = await readToolProfiles();
+  const { files } = await scanDirectories(roots, {
+    toolProfiles: profiles,
+    exclusions: settings.exclusions || defaultExclusions,
+    respectIgnoreFiles: settings.respectIgnoreFiles,
+    countTokens,
+  });
+
+  const issues: ValidationIssue[] = [];
+  const configs = await findProjectConfigs(files.map((f) => f.path));
+  for (const config of configs) {
+    for (const error of config.errors) {
+      issues.push({
+        severity: 'error',
+        code: 'invalid-project-config',
+        message: `${shortenPath(config.path)}: ${error}`,
+        path: config.path,
+      });
+    }
+  }
+
+  const readFile = (filePath: string) => fs.readFile(filePath, 'utf-8');
+  const knownFiles = files.map((f) => f.path);
+
+  for (const file of files.sort((a, b) => a.path.localeCompare(b.path))) {
+    const tokens = file.tokens || 0;
+    const projectConfig = findProjectConfigFor(file.path, configs);
+    const budget = resolveTokenBudget(file.toolId, [settings.budgets, projectConfig?.config.budgets]);
+
+    const requiredSections = getRequiredSections(projectConfig?.config, file.toolId);
+    if (requiredSections.length > 0) {
+      const content = await fs.readFile(file.path, 'utf-8');
+      for (const section of findMissingSections(content, requiredSections)) {
+        issues.push({
+          severity: 'warning',
+          code: 'missing-section',
+          message: `${shortenPath(file.path)}: missing required section "${section}"`,
+          path: file.path,
+        });
+      }
+    }
+
+    const fileIssue = checkBudget(tokens, budget.file, 'file', file.path);
+    if (fileIssue) issues.push(fileIssue);
+
+    const profile = getToolProfilesFor(file.path, profiles, configs).find((p) => p.id === file.toolId);
+    const strategy = getInheritanceStrategy(profile || { id: file.toolId });
+    let total: number;
+    if (strategy === 'claude') {
+      // Everything Claude Code loads with the file, @imports and CLAUDE.local.md included
+      const tokenizer = profile?.tokenizer || 'anthropic';
+      const memory = await resolveClaudeMemory(file.path, { tokenizer, countTokens, knownFiles });
+      total = memory.tokens;
+    } else {
+      const { inherited } = await getInheritedFiles(file, files, strategy, readFile);
+      total = tokens + inherited.reduce((sum, parent) => sum + (parent.tokens || 0), 0);
+    }
+    if (total > tokens) {
+      const contextIssue = checkBudget(total, budget.total, 'context', file.path);
+      if (contextIssue) issues.push(contextIssue);
+    }
+  }
+
+  return { files: files.length, issues };
+}
+
+async function cmdValidate(options: ValidateOptions, format: OutputFormat) {
+  const issues: ValidationIssue[] = [];
 
   // Check commands
   const commands = await readClaudeCommands();
   for (const cmd of commands) {
     if (cmd.content.trim().length === 0) {
-      console.log(`  WARNING: Empty command: ${cmd.name}`);
-      issues++;
+      issues.push({ severity: 'warning', code: 'empty-command', message: `Empty command: ${cmd.name}`, path: cmd.path });
     }
     if (cmd.size > 50000) {
-      console.log(`  WARNING: Large command (${formatSize(cmd.size)}): ${cmd.name}`);
-      issues++;
+      issues.push({
+        severity: 'warning',
+        code: 'large-command',
+        message: `Large command (${formatSize(cmd.size)}): ${cmd.name}`,
+        path: cmd.path,
+      });
     }
   }
 
@@ -275,16 +1105,31 @@ async function cmdValidate() {
   const agents = await readClaudeAgents();
   for (const agent of agents) {
     if (agent.content.trim().length === 0) {
-      console.log(`  WARNING: Empty agent: ${agent.name}`);
-      issues++;
+      issues.push({ severity: 'warning', code: 'empty-agent', message: `Empty agent: ${agent.name}`, path: agent.path });
     }
     if (!agent.content.startsWith('---')) {
-      console.log(`  WARNING: Agent missing frontmatter: ${agent.name}`);
-      issues++;
+      issues.push({
+        severity: 'warning',
+        code: 'missing-frontmatter',
+        message: `Agent missing frontmatter: ${agent.name}`,
+        path: agent.path,
+      });
+    }
+    if (agent.content.startsWith('---') && !agent.metadata.description) {
+      issues.push({
+        severity: 'info',
+        code: 'missing-description',
+        message: `Agent has no description (Claude uses it to decide when to delegate): ${agent.name}`,
+        path: agent.path,
+      });
     }
     if (agent.size > 50000) {
-      console.log(`  WARNING: Large agent (${formatSize(agent.size)}): ${agent.name}`);
-      issues++;
+      issues.push({
+        severity: 'warning',
+        code: 'large-agent',
+        message: `Large agent (${formatSize(agent.size)}): ${agent.name}`,
+        path: agent.path,
+      });
     }
   }
 
@@ -292,20 +1137,529 @@ async function cmdValidate() {
   const claudeDir = getClaudeDir();
   const jsonFiles = ['settings.json', 'settings.local.json'];
   for (const name of jsonFiles) {
+    const filePath = path.join(claudeDir, name);
     try {
-      const content = await fs.readFile(path.join(claudeDir, name), 'utf-8');
+      const content = await fs.readFile(filePath, 'utf-8');
       JSON.parse(content);
     } catch (error) {
       if ((error as NodeJS.ErrnoException).code === 'ENOENT') continue;
-      console.log(`  ERROR: Invalid JSON in ${name}: ${(error as Error).message}`);
-      issues++;
+      issues.push({
+        severity: 'error',
+        code: 'invalid-json',
+        message: `Invalid JSON in ${name}: ${(error as Error).message}`,
+        path: filePath,
+      });
     }
   }
 
-  if (issues === 0) {
-    console.log('\n  All checks passed.');
-  } else {
-    console.log(`\n  ${issues} issue(s) found.`);
+  // Check context files against the token budgets and required sections
+  const settings = await readAppSettings();
+  const roots = await resolveScanTargets(options.paths, settings);
+  const fileCheck = await checkContextFiles(roots, settings);
+  issues.push(...fileCheck.issues);
+
+  // Most severe first (stable, so issues keep their order within a severity)
+  issues.sort((a, b) => SEVERITIES.indexOf(a.severity) - SEVERITIES.indexOf(b.severity));
+
+  const summary: ValidateOutput['summary'] = { error: 0, warning: 0, info: 0 };
+  for (const issue of issues) summary[issue.severity]++;
+  const exitCode = getValidateExitCode(summary, options);
+
+  printOutput<ValidateOutput>(format, {
+    command: 'validate',
+    result: {
+      roots: roots.map((r) => r.path),
+      files: fileCheck.files,
+      issues,
+      summary,
+      passed: exitCode === ExitCode.Ok,
+      exitCode,
+      failOn: options.failOn,
+      maxWarnings: options.maxWarnings,
+    },
+    records: (r) => [
+      ...r.issues.map((issue) => ({ type: 'issue', ...issue })),
+      {
+        type: 'summary',
+        roots: r.roots,
+        files: r.files,
+        ...r.summary,
+        passed: r.passed,
+        exitCode: r.exitCode,
+        failOn: r.failOn,
+        maxWarnings: r.maxWarnings,
+      },
+    ],
+    table: (r) => {
+      console.log('\nValidating Claude Code configuration and context files...');
+      console.log('='.repeat(50));
+      console.log(`  ${r.files} context file(s) in ${r.roots.map(shortenPath).join(', ')}\n`);
+      for (const issue of r.issues) {
+        console.log(`  ${issue.severity.toUpperCase()}: ${issue.message}`);
+      }
+      if (r.issues.length === 0) {
+        console.log('\n  All checks passed.');
+        return;
+      }
+
+      const counts = `${r.summary.error} error(s), ${r.summary.warning} warning(s), ${r.summary.info} info`;
+      if (r.exitCode === ExitCode.ValidationFailed) {
+        console.log(`\n  Failed: ${counts} (--fail-on ${r.failOn})`);
+      } else if (r.exitCode === ExitCode.TooManyWarnings) {
+        console.log(`\n  Failed: ${counts} (more than --max-warnings ${r.maxWarnings})`);
+      } else {
+        console.log(`\n  Passed with ${counts}`);
+      }
+    },
+  });
+
+  // Set rather than exit, so piped output is flushed first
+  process.exitCode = exitCode;
+}
+
+function parseValidateOptions(args: string[]): ValidateOptions {
+  const failOn = getFlagValue(args, '--fail-on') || 'error';
+  if (!(SEVERITIES as string[]).includes(failOn)) {
+    console.error(`Error: --fail-on must be one of: ${SEVERITIES.join(', ')}`);
+    process.exit(ExitCode.Error);
+  }
+
+  const maxWarningsArg = getFlagValue(args, '--max-warnings');
+  const maxWarnings = maxWarningsArg === null ? null : Number(maxWarningsArg);
+  if (maxWarnings !== null && (!Number.isInteger(maxWarnings) || maxWarnings < 0)) {
+    console.error('Error: --max-warnings must be a non-negative integer');
+    process.exit(ExitCode.Error);
+  }
+
+  return { paths: getPositionalArgs(args.slice(1), VALUE_FLAGS), failOn: failOn as IssueSeverity, maxWarnings };
+}
+
+async function cmdTools(format: OutputFormat) {
+  const profiles = (await readToolProfiles()).map((profile) => ({
+    ...profile,
+    inheritance: getInheritanceStrategy(profile),
+  }));
+
+  printOutput(format, {
+    command: 'tools',
+    result: { tools: profiles },
+    records: (r) => r.tools.map((profile) => ({ type: 'tool', ...profile })),
+    table: (r) => {
+      console.log('\nTool Profiles');
+      console.log('='.repeat(50));
+      console.log(`  (from ${shortenPath(getAppSettingsPaths()[0])} or built-in defaults)`);
+
+      for (const profile of r.tools) {
+        const status = profile.enabled ? '' : '  (disabled)';
+        console.log(`\n  ${profile.name} [${profile.id}]${status}`);
+        console.log(`    Tokenizer: ${getTokenizerInfo(profile.tokenizer).name}`);
+        console.log(`    Patterns:  ${profile.patterns.join(', ') || '(none)'}`);
+        console.log(
+          `    Inherits:  ${INHERITANCE_STRATEGIES.find((s) => s.id === profile.inheritance)?.description}`
+        );
+        if (profile.docsUrl) {
+          console.log(`    Docs:      ${profile.docsUrl}`);
+        }
+      }
+    },
+  });
+}
+
+function cmdTokenizers(format: OutputFormat) {
+  printOutput(format, {
+    command: 'tokenizers',
+    result: { tokenizers: builtinTokenizers },
+    records: (r) => r.tokenizers.map((tokenizer) => ({ type: 'tokenizer', ...tokenizer })),
+    table: (r) => {
+      console.log('\nTokenizers');
+      console.log('='.repeat(50));
+
+      for (const tokenizer of r.tokenizers) {
+        console.log(`  ${tokenizer.id.padEnd(12)}  ${tokenizer.name} - ${tokenizer.description}`);
+      }
+      console.log('\n  Local Hugging Face tokenizer.json files (byte-level BPE) can be used');
+      console.log('  with --tokenizer <path/to/tokenizer.json>.');
+    },
+  });
+}
+
+function resolveTokenizerArg(value: string): TokenizerType {
+  if (value.endsWith('.json')) {
+    const error = validateLocalTokenizer(value);
+    if (error) {
+      console.error(`Error: Cannot load tokenizer ${value}: ${error}`);
+      process.exit(ExitCode.Error);
+    }
+    return localTokenizerId(value);
+  }
+  if (!isTokenizerType(value)) {
+    console.error(`Error: Unknown tokenizer "${value}". Run "tokencentric tokenizers" to list them.`);
+    process.exit(ExitCode.Error);
+  }
+  return value;
+}
+
+interface CountOutput {
+  files: Array<{ path: string; tokenizer: TokenizerType; tokens: number }>;
+  total: number;
+  errors: Array<{ path: string; message: string }>; // Files that couldn't be read; exit code 2
+}
+
+async function cmdCount(files: string[], tokenizer: TokenizerType | null, format: OutputFormat) {
+  const profiles = tokenizer ? [] : await readToolProfiles();
+  const configs = tokenizer ? [] : await findProjectConfigs(files.map((file) => path.resolve(file)));
+  const counted: CountOutput['files'] = [];
+  const errors: CountOutput['errors'] = [];
+
+  for (const file of files) {
+    let content: string;
+    try {
+      content = await fs.readFile(file, 'utf-8');
+    } catch (error) {
+      errors.push({ path: file, message: (error as Error).message });
+      continue;
+    }
+
+    const filePath = path.resolve(file);
+    const fileProfiles = getToolProfilesFor(filePath, profiles, configs);
+    const fileTokenizer = tokenizer || matchToolProfile(filePath, fileProfiles)?.tokenizer || 'anthropic';
+    counted.push({ path: file, tokenizer: fileTokenizer, tokens: countTokens(content, fileTokenizer) });
+  }
+
+  printOutput<CountOutput>(format, {
+    command: 'count',
+    result: { files: counted, total: counted.reduce((sum, f) => sum + f.tokens, 0), errors },
+    records: (r) => [
+      ...r.files.map((file) => ({ type: 'file', ...file })),
+      ...r.errors.map((error) => ({ type: 'error', ...error })),
+      { type: 'summary', total: r.total },
+    ],
+    table: (r) => {
+      for (const error of r.errors) {
+        console.error(`  ERROR: Cannot read ${error.path}: ${error.message}`);
+      }
+      for (const file of r.files) {
+        const name = getTokenizerInfo(file.tokenizer).name;
+        console.log(`  ${file.tokens.toLocaleString().padStart(10)}  ${file.path}  (${name})`);
+      }
+      if (r.files.length > 1) {
+        console.log(`  ${r.total.toLocaleString().padStart(10)}  total`);
+      }
+    },
+  });
+
+  // Set rather than exit, so piped output is flushed first
+  if (errors.length > 0) process.exitCode = ExitCode.Error;
+}
+
+interface ConvertOutput {
+  source: string;
+  from: ContextFormat;
+  to: ContextFormat;
+  path: string;
+  written: boolean;
+  warnings: string[];
+  content: string;
+}
+
+interface ConvertArgs {
+  file: string;
+  to: ContextFormat;
+  name: string | null;
+  globs: string | null;
+  force: boolean;
+  dryRun: boolean;
+}
+
+async function cmdConvert(options: ConvertArgs, format: OutputFormat) {
+  const converted = await convertContextFile(path.resolve(options.file), options.to, {
+    ...(options.name ? { name: options.name } : {}),
+    ...(options.globs !== null ? { globs: parseGlobs(options.globs) } : {}),
+  });
+
+  if (!options.dryRun) {
+    if (converted.exists && !options.force) {
+      console.error(`Error: ${shortenPath(converted.path)} already exists (use --force to replace it)`);
+      process.exit(ExitCode.Error);
+    }
+    await writeConvertedFile(converted, options.force);
+  }
+
+  printOutput<ConvertOutput>(format, {
+    command: 'convert',
+    result: {
+      source: converted.sourcePath,
+      from: converted.from,
+      to: converted.to,
+      path: converted.path,
+      written: !options.dryRun,
+      warnings: converted.warnings,
+      content: converted.content,
+    },
+    records: (r) => [
+      ...r.warnings.map((message) => ({ type: 'warning', message })),
+      { type: 'convert', source: r.source, from: r.from, to: r.to, path: r.path, written: r.written },
+    ],
+    table: (r) => {
+      const from = getContextFormat(r.from).name;
+      const to = getContextFormat(r.to).name;
+      console.log(`\n${shortenPath(r.source)} (${from}) -> ${shortenPath(r.path)} (${to})`);
+      for (const warning of r.warnings) {
+        console.log(`  WARN  ${warning}`);
+      }
+      if (r.written) {
+        console.log('\nConverted.');
+      } else {
+        console.log('\n(dry run - no files were written)\n');
+        console.log(r.content);
+      }
+    },
+  });
+}
+
+function parseConvertArgs(args: string[]): ConvertArgs {
+  const file = getPositionalArgs(args.slice(1), VALUE_FLAGS)[0];
+  if (!file) {
+    console.error('Error: Please provide a context file to convert');
+    process.exit(ExitCode.Error);
+  }
+  const to = getFlagValue(args, '--to');
+  if (!to || !isContextFormat(to)) {
+    console.error(`Error: --to must be one of: ${CONTEXT_FORMATS.map((f) => f.id).join(', ')}`);
+    process.exit(ExitCode.Error);
+  }
+  return {
+    file,
+    to,
+    name: getFlagValue(args, '--name'),
+    globs: getFlagValue(args, '--globs'),
+    force: args.includes('--force'),
+    dryRun: args.includes('--dry-run'),
+  };
+}
+
+interface SyncOutput {
+  roots: string[];
+  check: boolean;
+  projects: ProjectSyncStatus[];
+  passed: boolean;
+  exitCode: number;
+}
+
+interface SyncArgs {
+  paths: string[];
+  check: boolean;
+  force: boolean;
+}
+
+const SYNC_LABELS: Record<SyncFileStatus, string> = {
+  'in-sync': 'OK      ',
+  outdated: 'OUTDATED',
+  missing: 'MISSING ',
+  edited: 'EDITED  ',
+  untracked: 'EXISTS  ',
+};
+
+/**
+ * Checks, or brings up to date, the files generated from the canonical file
+ * of each project (`sync` in .tokencentric.json) under the given paths.
+ */
+async function cmdSync(options: SyncArgs, format: OutputFormat) {
+  const settings = await readAppSettings();
+  const roots = await resolveScanTargets(options.paths, settings);
+  const { files } = await scanDirectories(roots, {
+    toolProfiles: await readToolProfiles(),
+    exclusions: settings.exclusions || defaultExclusions,
+    respectIgnoreFiles: settings.respectIgnoreFiles,
+    countTokens,
+  });
+  // The configs above and in each root apply even if their canonical file wasn't scanned
+  const configs = await findProjectConfigs([
+    ...roots.map((root) => path.join(root.path, PROJECT_CONFIG_FILE)),
+    ...files.map((f) => f.path),
+  ]);
+
+  const projects: ProjectSyncStatus[] = [];
+  for (const config of configs.sort((a, b) => a.path.localeCompare(b.path))) {
+    const project = await syncProject(config, { write: !options.check, force: options.force });
+    if (project) projects.push(project);
+  }
+
+  const passed = projects.every(
+    (project) =>
+      !project.error && project.targets.every((t) => t.status === 'in-sync' || t.written)
+  );
+  const exitCode = passed ? ExitCode.Ok : ExitCode.ValidationFailed;
+
+  printOutput<SyncOutput>(format, {
+    command: 'sync',
+    result: { roots: roots.map((r) => r.path), check: options.check, projects, passed, exitCode },
+    records: (r) => [
+      ...r.projects.flatMap((project) => [
+        ...(project.error
+          ? [{ type: 'error', configPath: project.configPath, canonical: project.canonical, message: project.error }]
+          : []),
+        ...project.targets.map((target) => ({ type: 'target', canonical: project.canonical, ...target })),
+      ]),
+      { type: 'summary', roots: r.roots, check: r.check, projects: r.projects.length, passed: r.passed, exitCode: r.exitCode },
+    ],
+    table: (r) => {
+      if (r.projects.length === 0) {
+        console.log('\nNo canonical files. Set "sync" in a .tokencentric.json to generate tool files from one file.');
+        return;
+      }
+      for (const project of r.projects) {
+        console.log(`\nCanonical: ${shortenPath(project.canonical)}`);
+        if (project.error) {
+          console.log(`  ERROR     ${project.error}`);
+          continue;
+        }
+        for (const target of project.targets) {
+          const label = target.written ? 'UPDATED ' : SYNC_LABELS[target.status];
+          console.log(`  ${label}  ${path.relative(path.dirname(project.configPath), target.path)}`);
+        }
+      }
+      if (r.passed) {
+        console.log(r.check ? '\nAll generated files are in sync.' : '\nSync complete.');
+      } else if (r.check) {
+        console.log('\nGenerated files are out of sync. Run "tokencentric sync" to update them.');
+      } else {
+        console.log('\nFiles edited by hand were kept. Move the changes to the canonical file, or use --force to replace them.');
+      }
+    },
+  });
+
+  // Set rather than exit, so piped output is flushed first
+  process.exitCode = exitCode;
+}
+
+interface PackOutput {
+  id: string;
+  name: string;
+  version: string;
+  author: string;
+  builtin: boolean;
+  source: string | null;
+  importedAt: number | null;
+}
+
+interface PackListOutput {
+  library: string;
+  packs: PackOutput[];
+}
+
+const toPackOutput = (packMeta: StarterPackMeta): PackOutput => ({
+  id: packMeta.id,
+  name: packMeta.pack.name,
+  version: packMeta.pack.version,
+  author: packMeta.pack.author,
+  builtin: packMeta.builtin,
+  source: packMeta.source ?? null,
+  importedAt: packMeta.importedAt ?? null,
+});
+
+/** Lists, adds and removes the packs in the app's pack library, and shows the installed ones */
+async function cmdPack(args: string[], format: OutputFormat) {
+  const [subcommand, target] = getPositionalArgs(args.slice(1), VALUE_FLAGS);
+  const library = await getPackLibraryDir();
+
+  switch (subcommand) {
+    case 'list': {
+      const packs = [...builtinPacks, ...(await listLibraryPacks(library))].map(toPackOutput);
+      printOutput<PackListOutput>(format, {
+        command: 'pack list',
+        result: { library, packs },
+        records: (r) => r.packs.map((pack) => ({ type: 'pack', ...pack })),
+        table: (r) => {
+          console.log(`\nPack library: ${shortenPath(r.library)}`);
+          console.log('='.repeat(50));
+          for (const pack of r.packs) {
+            const origin = pack.builtin ? 'built-in' : `from ${shortenPath(pack.source || '(unknown)')}`;
+            console.log(`  ${pack.id.padEnd(24)} ${pack.name} v${pack.version} (${origin})`);
+          }
+          console.log('\nInstall one with "tokencentric install <id>".');
+        },
+      });
+      break;
+    }
+    case 'add': {
+      if (!target) {
+        console.error('Error: Please provide a .tcpack file path');
+        process.exit(ExitCode.Error);
+      }
+      const added = toPackOutput(await addLibraryPack(library, target));
+      printOutput(format, {
+        command: 'pack add',
+        result: { library, pack: added },
+        records: (r) => [{ type: 'pack', ...r.pack }],
+        table: (r) => console.log(`Added "${r.pack.name}" to the pack library as ${r.pack.id}`),
+      });
+      break;
+    }
+    case 'remove': {
+      if (!target) {
+        console.error('Error: Please provide the id of a pack in the library');
+        process.exit(ExitCode.Error);
+      }
+      if (builtinPacks.some((p) => p.id === target)) {
+        console.error(`Error: "${target}" is a built-in pack and can't be removed`);
+        process.exit(ExitCode.Error);
+      }
+      await removeLibraryPack(library, target);
+      printOutput(format, {
+        command: 'pack remove',
+        result: { library, removed: target },
+        records: (r) => [{ type: 'removed', id: r.removed }],
+        table: (r) => console.log(`Removed ${r.removed} from the pack library`),
+      });
+      break;
+    }
+    case 'status': {
+      const installs = (await listInstalledPacks(library)).filter(
+        (i) => !target || i.install.packId === target
+      );
+      if (target && installs.length === 0) {
+        console.error(`Error: Pack "${target}" is not installed`);
+        process.exit(ExitCode.Error);
+      }
+      printOutput<{ installs: InstalledPackStatus[] }>(format, {
+        command: 'pack status',
+        result: { installs },
+        records: (r) =>
+          r.installs.flatMap(({ install, files, settings }) => [
+            {
+              type: 'install',
+              packId: install.packId,
+              name: install.name,
+              version: install.version,
+              installedAt: install.installedAt,
+              project: install.project ?? null,
+            },
+            ...files.map((f) => ({ type: 'file', packId: install.packId, ...f })),
+            ...settings.map((s) => ({ type: 'setting', packId: install.packId, ...s })),
+          ]),
+        table: (r) => {
+          console.log('\nInstalled packs');
+          console.log('='.repeat(50));
+          if (r.installs.length === 0) console.log('  No packs installed');
+          for (const { install, files, settings } of r.installs) {
+            const date = new Date(install.installedAt).toLocaleDateString();
+            const place = install.project ? shortenPath(install.project) : '~/.claude';
+            console.log(`\n  ${install.packId}: ${install.name} v${install.version} (installed in ${place} ${date})`);
+            const changed = [
+              ...files.filter((f) => f.status !== 'unchanged').map((f) => [f.status, shortenPath(f.path)]),
+              ...settings.filter((s) => s.status !== 'unchanged').map((s) => [s.status, `settings.json: ${s.key}`]),
+            ];
+            if (changed.length === 0) console.log('    No changes since install');
+            for (const [status, item] of changed) console.log(`    ${status.toUpperCase().padEnd(8)}  ${item}`);
+          }
+        },
+      });
+      break;
+    }
+    default:
+      console.error('Error: Use "pack list", "pack add <file.tcpack>", "pack remove <id>" or "pack status [id]"');
+      process.exit(ExitCode.Error);
   }
 }
 
@@ -322,40 +1676,96 @@ async function main() {
     return;
   }
 
+  const format = getFlagValue(args, '--format') || 'table';
+  if (!isOutputFormat(format)) {
+    console.error(`Error: Unknown format "${format}". Use one of: ${OUTPUT_FORMATS.join(', ')}`);
+    process.exit(ExitCode.Error);
+  }
+
   switch (command) {
     case 'scan':
-      await cmdScan();
+      await cmdScan(
+        getPositionalArgs(args.slice(1), VALUE_FLAGS),
+        getFlagValue(args, '--tool') || 'all',
+        format
+      );
       break;
     case 'info':
-      await cmdInfo();
+      await cmdInfo(getPositionalArgs(args.slice(1), VALUE_FLAGS), format);
       break;
     case 'install': {
-      const packPath = args[1];
+      const packPath = getPositionalArgs(args.slice(1), VALUE_FLAGS)[0];
       if (!packPath) {
-        console.error('Error: Please provide a .tcpack file path');
-        process.exit(1);
+        console.error('Error: Please provide a .tcpack file path or pack id');
+        process.exit(ExitCode.Error);
       }
-      const dryRun = args.includes('--dry-run');
-      await cmdInstall(packPath, dryRun);
+      const options = { dryRun: args.includes('--dry-run'), project: await getProjectOption(args) };
+      await cmdInstall(packPath, options, format);
       break;
     }
-    case 'export': {
-      const oIdx = args.indexOf('-o');
-      const outputPath = oIdx >= 0 ? args[oIdx + 1] : null;
-      await cmdExport(outputPath);
+    case 'uninstall':
+    case 'upgrade': {
+      const target = getPositionalArgs(args.slice(1), VALUE_FLAGS)[0];
+      if (!target) {
+        console.error(`Error: Please provide ${command === 'upgrade' ? 'a .tcpack file path or ' : 'the '}pack id`);
+        process.exit(ExitCode.Error);
+      }
+      const options = {
+        force: args.includes('--force'),
+        dryRun: args.includes('--dry-run'),
+        project: await getProjectOption(args),
+      };
+      if (command === 'uninstall') await cmdUninstall(target, options, format);
+      else await cmdUpgrade(target, options, format);
       break;
     }
+    case 'export':
+      await cmdExport(getFlagValue(args, '-o'), await getProjectOption(args), format);
+      break;
     case 'validate':
-      await cmdValidate();
+      await cmdValidate(parseValidateOptions(args), format);
+      break;
+    case 'tools':
+      await cmdTools(format);
+      break;
+    case 'tokenizers':
+      cmdTokenizers(format);
+      break;
+    case 'count': {
+      const tokenizerArg = getFlagValue(args, '--tokenizer');
+      const tokenizer = tokenizerArg ? resolveTokenizerArg(tokenizerArg) : null;
+      const files = getPositionalArgs(args.slice(1), VALUE_FLAGS);
+      if (files.length === 0) {
+        console.error('Error: Please provide at least one file');
+        process.exit(ExitCode.Error);
+      }
+      await cmdCount(files, tokenizer, format);
+      break;
+    }
+    case 'convert':
+      await cmdConvert(parseConvertArgs(args), format);
+      break;
+    case 'sync':
+      await cmdSync(
+        {
+          paths: getPositionalArgs(args.slice(1), VALUE_FLAGS),
+          check: args.includes('--check'),
+          force: args.includes('--force'),
+        },
+        format
+      );
+      break;
+    case 'pack':
+      await cmdPack(args, format);
       break;
     default:
       console.error(`Unknown command: ${command}`);
       printUsage();
-      process.exit(1);
+      process.exit(ExitCode.Error);
   }
 }
 
 main().catch((error) => {
   console.error('Error:', error.message);
-  process.exit(1);
+  process.exit(ExitCode.Error);
 });
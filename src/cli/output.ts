@@ -0,0 +1,46 @@
+/**
+ * CLI output formats.
+ *
+ * Every command builds a plain result object and renders it as:
+ * - table:  human-readable text (default)
+ * - json:   one JSON document `{ schemaVersion, command, ...result }`
+ * - ndjson: one JSON record per line, each with a `type` field
+ *
+ * The JSON and NDJSON shapes are documented in docs/CLI.md. Bump
+ * OUTPUT_SCHEMA_VERSION when a field is removed or changes meaning.
+ * Errors are always printed to stderr, so stdout stays parseable.
+ */
+
+export type OutputFormat = 'table' | 'json' | 'ndjson';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['table', 'json', 'ndjson'];
+
+export const OUTPUT_SCHEMA_VERSION = 1;
+
+export type OutputRecord = { type: string } & Record<string, unknown>;
+
+export interface CommandOutput<T extends object> {
+  command: string;
+  result: T;
+  /** NDJSON records, in output order */
+  records: (result: T) => OutputRecord[];
+  /** Human-readable output */
+  table: (result: T) => void;
+}
+
+export function isOutputFormat(value: string): value is OutputFormat {
+  return (OUTPUT_FORMATS as string[]).includes(value);
+}
+
+export function printOutput<T extends object>(format: OutputFormat, output: CommandOutput<T>): void {
+  if (format === 'json') {
+    const document = { schemaVersion: OUTPUT_SCHEMA_VERSION, command: output.command, ...output.result };
+    console.log(JSON.stringify(document, null, 2));
+  } else if (format === 'ndjson') {
+    for (const record of output.records(output.result)) {
+      console.log(JSON.stringify(record));
+    }
+  } else {
+    output.table(output.result);
+  }
+}
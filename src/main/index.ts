@@ -1,8 +1,11 @@
 import { app, BrowserWindow, nativeTheme } from 'electron';
 import path from 'path';
-import { setupIpcHandlers, setupUpdaterIpcHandlers } from './ipc';
+import { setupIpcHandlers, setupUpdaterIpcHandlers, startContextFileWatcher } from './ipc';
 import { createMenu } from './menu';
 import { initAutoUpdater, checkForUpdates } from './updater';
+import { stopFileWatcher } from './watcher';
+import { stopTokenizerPool } from './tokenizerPool';
+import { freeTokenizers } from '../shared/tokenizers';
 
 let mainWindow: BrowserWindow | null = null;
 
@@ -46,6 +49,11 @@ app.whenReady().then(() => {
   setupIpcHandlers();
   setupUpdaterIpcHandlers();
 
+  // Watch scan roots and ~/.claude for external changes
+  if (mainWindow) {
+    startContextFileWatcher(mainWindow);
+  }
+
   // Initialize auto-updater in production
   if (!isDev && mainWindow) {
     initAutoUpdater(mainWindow);
@@ -58,10 +66,19 @@ app.whenReady().then(() => {
   app.on('activate', () => {
     if (BrowserWindow.getAllWindows().length === 0) {
       createWindow();
+      if (mainWindow) {
+        startContextFileWatcher(mainWindow);
+      }
     }
   });
 });
 
+app.on('will-quit', () => {
+  stopFileWatcher();
+  stopTokenizerPool();
+  freeTokenizers();
+});
+
 app.on('window-all-closed', () => {
   if (process.platform !== 'darwin') {
     app.quit();
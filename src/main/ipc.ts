@@ -1,10 +1,26 @@
-import { ipcMain, dialog, shell, app, BrowserWindow } from 'electron';
+import { ipcMain, dialog, shell, app, BrowserWindow, WebContents } from 'electron';
 import fs from 'fs/promises';
 import path from 'path';
 import os from 'os';
 import Store from 'electron-store';
-import { AppSettings, ContextFile, ToolProfile, TokenizerType, GlobalConfigFile, GlobalConfigFileType, defaultAISettings, AIProvider, AIProviderConfig, AIAction, AIStreamChunk, EditorStatePersisted, ToolModule, ConfigArea, ConfigItem, StarterPack } from '../shared/types';
+import { AppSettings, ContextFile, ExclusionReason, MemoryResolution, PatternTestResult, ProjectConfigFile, ProjectSyncStatus, ContextAnalysis, ScanProgress, ScanRoot, ToolProfile, TokenizerType, TokenizerInfo, GlobalConfigFile, GlobalConfigFileType, defaultAISettings, AIProvider, AIProviderConfig, AIAction, AIStreamChunk, EditorStatePersisted, ContextFileEvent, ContextFileEventScope, ContextFileEventType, ToolModule, ConfigArea, ConfigItem, InstalledPackStatus, PackInstallResult, PackUninstallResult, PackExportOptions, PackUpgradePlan } from '../shared/types';
 import { builtinPacks, StarterPackMeta } from '../shared/builtinPacks';
+import {
+  PACK_LIBRARY_DIR,
+  addLibraryPack,
+  findPack,
+  listLibraryPacks,
+  reimportLibraryPack,
+  removeLibraryPack,
+  renameLibraryPack,
+} from '../shared/packLibrary';
+import {
+  installPack,
+  listInstalledPacks,
+  planPackUpgrade,
+  uninstallPack,
+  upgradePack,
+} from '../shared/packInstaller';
 import {
   readClaudeCommands,
   readClaudeAgents,
@@ -19,7 +35,36 @@ import {
 } from '../shared/configReader';
 import Anthropic from '@anthropic-ai/sdk';
 import OpenAI from 'openai';
-import { defaultToolProfiles, defaultExclusions } from '../shared/defaultProfiles';
+import { defaultToolProfiles, defaultExclusions, addMissingDefaultPatterns } from '../shared/defaultProfiles';
+import {
+  scanDirectories,
+  scanFile,
+  explainExclusion,
+  testToolPatterns,
+  mergeScanIndex,
+  ScanIndex,
+  createScanRoot,
+  dedupeRoots,
+  findScanRoot,
+  isUnderRoots,
+  normalizeScanRoots,
+} from '../shared/scanner';
+import { findProjectConfigs, readProjectConfig } from '../shared/projectConfigReader';
+import { PROJECT_CONFIG_FILE, getToolProfilesFor } from '../shared/projectConfig';
+import { resolveClaudeMemory } from '../shared/claudeMemoryReader';
+import { ContextFormat, ConvertOptions, getContextFormat } from '../shared/contextFormats';
+import { ConvertedFile, convertContextFile, writeConvertedFile } from '../shared/contextFormatsWriter';
+import { setCanonicalFile, syncProject } from '../shared/syncWriter';
+import { analyzeContextFiles } from '../shared/contextAnalysisReader';
+import { initFileWatcher, updateWatchedRoots } from './watcher';
+import { countTokensInPool, getTokenizerPoolSize } from './tokenizerPool';
+import {
+  countTokens,
+  builtinTokenizers,
+  getTokenizerInfo,
+  localTokenizerId,
+  validateLocalTokenizer,
+} from '../shared/tokenizers';
 import { trackEvent } from './analytics';
 import { checkForUpdates, downloadUpdate, installUpdate } from './updater';
 import { AIService } from './services/ai';
@@ -37,26 +82,18 @@ function getAIService(): AIService {
   return aiService;
 }
 
-// Tokenizer imports
-import { countTokens as countAnthropicTokens } from '@anthropic-ai/tokenizer';
-import { encoding_for_model } from 'tiktoken';
-
-// Initialize tiktoken encoder (lazily loaded)
-let tiktokenEncoder: ReturnType<typeof encoding_for_model> | null = null;
-
-function getTiktokenEncoder() {
-  if (!tiktokenEncoder) {
-    tiktokenEncoder = encoding_for_model('gpt-4');
-  }
-  return tiktokenEncoder;
-}
-
 // Initialize store with defaults
-const store = new Store<{ settings: AppSettings; files: ContextFile[]; hasCompletedOnboarding: boolean }>({
+const store = new Store<{
+  settings: AppSettings;
+  files: ContextFile[];
+  scanIndex: ScanIndex;
+  hasCompletedOnboarding: boolean;
+}>({
   defaults: {
     settings: {
       scanPaths: [],
       exclusions: defaultExclusions,
+      respectIgnoreFiles: false,
       theme: 'system',
       editorFontSize: 14,
       analyticsEnabled: true,
@@ -64,32 +101,211 @@ const store = new Store<{ settings: AppSettings; files: ContextFile[]; hasComple
       ai: defaultAISettings,
     },
     files: [],
+    scanIndex: {},
     hasCompletedOnboarding: false,
   },
 });
 
 /**
- * Count tokens using the specified tokenizer
- * Falls back to estimate (4 chars per token) if tokenizer fails
+ * Turns a raw watcher event into a context file event, keeping the cached
+ * file list and scan index in sync with what's on disk.
  */
-function countTokensForContent(content: string, tokenizer: TokenizerType): number {
+async function resolveWatchEvent(
+  type: ContextFileEventType,
+  filePath: string,
+  scope: ContextFileEventScope
+): Promise<ContextFileEvent | null> {
+  if (scope === 'global') {
+    // Global config is read on demand by the renderer; just forward md/json changes
+    return /\.(md|json)$/i.test(filePath) ? { type, path: filePath, scope } : null;
+  }
+
+  // Project configs change which files match and how; the renderer rescans
+  if (path.basename(filePath) === PROJECT_CONFIG_FILE) {
+    return findScanRoot(filePath, getEnabledScanRoots()) ? { type, path: filePath, scope } : null;
+  }
+
+  const files = store.get('files');
+  const existing = files.some((f) => f.path === filePath);
+
+  if (type === 'unlink') {
+    if (!existing) return null;
+    const index = store.get('scanIndex');
+    delete index[filePath];
+    store.set('scanIndex', index);
+    store.set('files', files.filter((f) => f.path !== filePath));
+    return { type, path: filePath, scope };
+  }
+
+  const settings = store.get('settings');
+  const root = findScanRoot(filePath, getEnabledScanRoots());
+  if (!root) return null;
+
+  const index = store.get('scanIndex');
+  const file = await scanFile(
+    filePath,
+    {
+      toolProfiles: settings.toolProfiles,
+      exclusions: settings.exclusions,
+      respectIgnoreFiles: settings.respectIgnoreFiles,
+      countTokens: countTokensInPool,
+      index,
+    },
+    root
+  );
+  if (!file) return null;
+
+  store.set('scanIndex', index);
+  store.set('files', existing ? files.map((f) => (f.path === filePath ? file : f)) : [...files, file]);
+  return { type: existing ? 'change' : 'add', path: filePath, scope, file };
+}
+
+function getEnabledScanRoots(): ScanRoot[] {
+  return store.get('settings').scanPaths.filter((root) => root.enabled);
+}
+
+// Written by "Edit Project Config" when a folder has no .tokencentric.json yet
+const PROJECT_CONFIG_TEMPLATE = {
+  budgets: { default: {}, tools: {} },
+  exclusions: [],
+  requiredSections: { default: [] },
+  toolProfiles: [],
+};
+
+// A file's tool profile, including overrides from the .tokencentric.json above it
+async function findFileToolProfile(filePath: string, toolId: string): Promise<ToolProfile | undefined> {
+  const configs = await findProjectConfigs([filePath]);
+  const profiles = getToolProfilesFor(filePath, store.get('settings').toolProfiles, configs);
+  return profiles.find((p) => p.id === toolId);
+}
+
+function refreshWatchedRoots() {
+  const settings = store.get('settings');
+  const roots = dedupeRoots(getEnabledScanRoots()).map((root) => root.path);
+  updateWatchedRoots(roots, settings.exclusions, getClaudeDir()).catch((error) => {
+    console.error('Failed to update file watcher:', error);
+  });
+}
+
+/**
+ * Older versions stored scan paths as plain strings and never recorded the
+ * directories picked via Scan, so rescans guessed roots from the parent
+ * directories of cached files. Convert both to explicit scan roots once.
+ */
+function migrateScanRoots() {
+  const settings = store.get('settings');
+  let scanPaths = normalizeScanRoots(settings.scanPaths || []);
+
+  if (scanPaths.length === 0) {
+    const cachedDirs = new Set(store.get('files').map((file) => path.dirname(file.path)));
+    scanPaths = dedupeRoots(Array.from(cachedDirs).map(createScanRoot));
+  }
+
+  store.set('settings', { ...settings, scanPaths });
+}
+
+/**
+ * Built-in profiles are saved on first run. Add the default patterns added to
+ * them since to the saved copies, keeping the user's own edits.
+ */
+function migrateToolProfiles() {
+  const settings = store.get('settings');
+  const toolProfiles = addMissingDefaultPatterns(settings.toolProfiles);
+  if (toolProfiles !== settings.toolProfiles) {
+    store.set('settings', { ...settings, toolProfiles });
+  }
+}
+
+// Scans in progress, aborted by 'cancel-scan'
+const activeScans = new Set<AbortController>();
+
+// The walk reports every directory; the renderer only needs a few updates a second
+const SCAN_PROGRESS_INTERVAL_MS = 100;
+
+/**
+ * Scans the given roots, records their last scanned time and replaces the
+ * cached files under them. Files outside enabled roots are dropped.
+ * Progress is sent to `sender` as 'scan-progress' events. A cancelled scan
+ * keeps the cached files it didn't get to and doesn't update lastScanned.
+ */
+async function scanRoots(rootPaths: string[], sender?: WebContents): Promise<ContextFile[]> {
+  const settings = store.get('settings');
+  const enabledRoots = getEnabledScanRoots();
+  const targets = enabledRoots.filter((root) => rootPaths.includes(root.path));
+  const previousIndex = store.get('scanIndex');
+
+  const controller = new AbortController();
+  activeScans.add(controller);
+  let lastProgressAt = 0;
+  let lastPhase: ScanProgress['phase'] | null = null;
+
+  let result;
   try {
-    if (tokenizer === 'anthropic') {
-      return countAnthropicTokens(content);
-    } else if (tokenizer === 'openai') {
-      const encoder = getTiktokenEncoder();
-      const tokens = encoder.encode(content);
-      return tokens.length;
-    }
-  } catch (error) {
-    console.error(`Tokenizer error (${tokenizer}):`, error);
+    result = await scanDirectories(targets, {
+      toolProfiles: settings.toolProfiles,
+      exclusions: settings.exclusions,
+      respectIgnoreFiles: settings.respectIgnoreFiles,
+      countTokens: (content, tokenizer) => countTokensInPool(content, tokenizer, controller.signal),
+      index: previousIndex,
+      concurrency: getTokenizerPoolSize(),
+      signal: controller.signal,
+      onProgress: (progress: ScanProgress) => {
+        if (!sender || sender.isDestroyed()) return;
+        const now = Date.now();
+        const isLast = progress.phase === 'tokenizing' && progress.filesTokenized === progress.filesMatched;
+        if (progress.phase === lastPhase && !isLast && now - lastProgressAt < SCAN_PROGRESS_INTERVAL_MS) {
+          return;
+        }
+        lastProgressAt = now;
+        lastPhase = progress.phase;
+        sender.send('scan-progress', progress);
+      },
+    });
+  } finally {
+    activeScans.delete(controller);
   }
 
-  // Fallback: rough estimate of ~4 chars per token
-  return Math.ceil(content.length / 4);
+  const { files: scannedFiles, index, cancelled } = result;
+  const targetPaths = targets.map((root) => root.path);
+  const scannedPaths = new Set(scannedFiles.map((file) => file.path));
+  const keptFiles = store
+    .get('files')
+    .filter(
+      (file) =>
+        isUnderRoots(file.path, enabledRoots) &&
+        (cancelled ? !scannedPaths.has(file.path) : !isUnderRoots(file.path, targets))
+    );
+  const files = [...keptFiles, ...scannedFiles];
+
+  // Re-read settings: they may have changed while the scan was running
+  const latest = store.get('settings');
+  const now = Date.now();
+  store.set(
+    'scanIndex',
+    cancelled ? { ...previousIndex, ...index } : mergeScanIndex(previousIndex, targetPaths, index)
+  );
+  store.set('files', files);
+  if (!cancelled) {
+    store.set('settings', {
+      ...latest,
+      scanPaths: latest.scanPaths.map((root) =>
+        targetPaths.includes(root.path) ? { ...root, lastScanned: now } : root
+      ),
+    });
+  }
+  return files;
+}
+
+// Start pushing live file changes for the configured scan roots and ~/.claude
+export function startContextFileWatcher(window: BrowserWindow) {
+  initFileWatcher(window, resolveWatchEvent);
+  refreshWatchedRoots();
 }
 
 export function setupIpcHandlers() {
+  migrateScanRoots();
+  migrateToolProfiles();
+
   // Get onboarding status
   ipcMain.handle('get-onboarding-status', () => {
     return store.get('hasCompletedOnboarding');
@@ -109,6 +325,14 @@ export function setupIpcHandlers() {
   ipcMain.handle('set-settings', (_event, settings: Partial<AppSettings>) => {
     const current = store.get('settings');
     store.set('settings', { ...current, ...settings });
+    if (settings.scanPaths) {
+      // Forget files from roots that were removed or disabled
+      const enabledRoots = getEnabledScanRoots();
+      store.set('files', store.get('files').filter((file) => isUnderRoots(file.path, enabledRoots)));
+    }
+    if (settings.scanPaths || settings.exclusions) {
+      refreshWatchedRoots();
+    }
   });
 
   // Get editor state
@@ -145,111 +369,16 @@ export function setupIpcHandlers() {
     return validFiles;
   });
 
-  // Re-scan all previously scanned directories (for startup refresh)
-  ipcMain.handle('rescan-cached-paths', async () => {
-    const settings = store.get('settings');
-    const cachedFiles = store.get('files');
-
-    if (cachedFiles.length === 0) return [];
-
-    // Derive unique root scan directories from cached file paths
-    // Group files by their top-level scanned directory
-    const scanRoots = new Set<string>();
-    for (const file of cachedFiles) {
-      // Walk up from the file path to find a reasonable root
-      // Use the deepest common ancestor that contains context files
-      const parts = file.path.split('/');
-      // Heuristic: scan root is likely 2-4 levels above the file
-      // For /Users/x/code/project/CLAUDE.md -> /Users/x/code/project
-      // For /Users/x/code/project/subdir/CLAUDE.md -> /Users/x/code/project
-      const dirPath = parts.slice(0, -1).join('/');
-      scanRoots.add(dirPath);
-    }
-
-    // Deduplicate: remove child paths if a parent is already in the set
-    const roots = Array.from(scanRoots).sort((a, b) => a.length - b.length);
-    const dedupedRoots: string[] = [];
-    for (const root of roots) {
-      const isChild = dedupedRoots.some(parent => root.startsWith(parent + '/'));
-      if (!isChild) {
-        dedupedRoots.push(root);
-      }
-    }
-
-    // Re-scan all roots
-    const allFiles: ContextFile[] = [];
-    const toolProfileMap = new Map<string, ToolProfile>();
-    for (const profile of settings.toolProfiles) {
-      toolProfileMap.set(profile.id, profile);
-    }
-
-    async function scanDir(dir: string) {
-      try {
-        const entries = await fs.readdir(dir, { withFileTypes: true });
-
-        for (const entry of entries) {
-          const fullPath = path.join(dir, entry.name);
-
-          if (settings.exclusions.some((ex) => entry.name === ex || fullPath.includes(`/${ex}/`))) {
-            continue;
-          }
-
-          if (entry.isDirectory()) {
-            await scanDir(fullPath);
-          } else if (entry.isFile()) {
-            for (const profile of settings.toolProfiles) {
-              if (!profile.enabled) continue;
-
-              const matches = profile.patterns.some((pattern) => {
-                if (pattern.includes('/')) {
-                  return fullPath.endsWith(pattern);
-                }
-                return entry.name.toLowerCase() === pattern.toLowerCase();
-              });
-
-              if (matches) {
-                const stats = await fs.stat(fullPath);
-                allFiles.push({
-                  id: fullPath,
-                  path: fullPath,
-                  name: entry.name,
-                  toolId: profile.id,
-                  lastModified: stats.mtimeMs,
-                  size: stats.size,
-                });
-                break;
-              }
-            }
-          }
-        }
-      } catch {
-        // Skip directories we can't read
-      }
-    }
-
-    for (const root of dedupedRoots) {
-      try {
-        await fs.access(root);
-        await scanDir(root);
-      } catch {
-        // Skip roots that no longer exist
-      }
-    }
+  // Re-scan every enabled scan root (for startup refresh)
+  ipcMain.handle('rescan-scan-paths', async (event) => {
+    return scanRoots(getEnabledScanRoots().map((root) => root.path), event.sender);
+  });
 
-    // Count tokens for all files
-    for (const file of allFiles) {
-      try {
-        const content = await fs.readFile(file.path, 'utf-8');
-        const profile = toolProfileMap.get(file.toolId);
-        const tokenizer = profile?.tokenizer || 'openai';
-        file.tokens = countTokensForContent(content, tokenizer);
-      } catch {
-        file.tokens = Math.ceil(file.size / 4);
-      }
+  // Stop running scans; they resolve with the files counted so far
+  ipcMain.handle('cancel-scan', () => {
+    for (const controller of activeScans) {
+      controller.abort();
     }
-
-    store.set('files', allFiles);
-    return allFiles;
   });
 
   // Read file
@@ -302,15 +431,14 @@ export function setupIpcHandlers() {
       }
 
       // Create with provided content or minimal template
-      const settings = store.get('settings');
-      const profile = settings.toolProfiles.find((p) => p.id === toolId);
+      const profile = await findFileToolProfile(fullPath, toolId);
       const tokenizer = profile?.tokenizer || 'openai';
 
       const initialContent = content || `# ${fileName}\n\n`;
       await fs.writeFile(fullPath, initialContent, 'utf-8');
 
       const stats = await fs.stat(fullPath);
-      const tokens = countTokensForContent(initialContent, tokenizer);
+      const tokens = await countTokensInPool(initialContent, tokenizer);
 
       const newFile: ContextFile = {
         id: fullPath,
@@ -363,10 +491,9 @@ export function setupIpcHandlers() {
 
     const stats = await fs.stat(copyPath);
     const content = await fs.readFile(copyPath, 'utf-8');
-    const settings = store.get('settings');
-    const profile = settings.toolProfiles.find((p) => p.id === toolId);
+    const profile = await findFileToolProfile(copyPath, toolId);
     const tokenizer = profile?.tokenizer || 'openai';
-    const tokens = countTokensForContent(content, tokenizer);
+    const tokens = await countTokensInPool(content, tokenizer);
 
     const newFile: ContextFile = {
       id: copyPath,
@@ -384,6 +511,50 @@ export function setupIpcHandlers() {
     return newFile;
   });
 
+  // Convert a context file to another tool's format, without writing it
+  ipcMain.handle(
+    'preview-context-conversion',
+    async (_event, sourcePath: string, to: ContextFormat, options?: ConvertOptions): Promise<ConvertedFile> => {
+      return convertContextFile(sourcePath, to, options);
+    }
+  );
+
+  // Convert a context file to another tool's format and write it next to the source
+  ipcMain.handle(
+    'convert-context-file',
+    async (
+      _event,
+      sourcePath: string,
+      to: ContextFormat,
+      options?: ConvertOptions,
+      overwrite?: boolean
+    ): Promise<ContextFile> => {
+      const converted = await convertContextFile(sourcePath, to, options);
+      await writeConvertedFile(converted, overwrite);
+
+      const toolId = getContextFormat(to).toolId;
+      const profile = await findFileToolProfile(converted.path, toolId);
+      const stats = await fs.stat(converted.path);
+      const tokens = await countTokensInPool(converted.content, profile?.tokenizer || 'openai');
+
+      const newFile: ContextFile = {
+        id: converted.path,
+        path: converted.path,
+        name: path.basename(converted.path),
+        toolId,
+        lastModified: stats.mtimeMs,
+        size: stats.size,
+        tokens,
+      };
+
+      // Add to cache, replacing the file when it was overwritten
+      const files = store.get('files').filter((f) => f.path !== newFile.path);
+      store.set('files', [...files, newFile]);
+
+      return newFile;
+    }
+  );
+
   // Select directory
   ipcMain.handle('select-directory', async () => {
     const result = await dialog.showOpenDialog({
@@ -392,9 +563,32 @@ export function setupIpcHandlers() {
     return result.canceled ? null : result.filePaths[0];
   });
 
+  // List the built-in tokenizers (local tokenizer files are added per profile)
+  ipcMain.handle('get-tokenizers', (): TokenizerInfo[] => {
+    return builtinTokenizers;
+  });
+
+  // Pick a local tokenizer.json and check that it loads
+  ipcMain.handle(
+    'select-tokenizer-file',
+    async (): Promise<{ tokenizer: TokenizerInfo } | { error: string } | null> => {
+      const result = await dialog.showOpenDialog({
+        title: 'Select Tokenizer',
+        filters: [{ name: 'Hugging Face tokenizer', extensions: ['json'] }],
+        properties: ['openFile'],
+      });
+      if (result.canceled || result.filePaths.length === 0) return null;
+
+      const filePath = result.filePaths[0];
+      const error = validateLocalTokenizer(filePath);
+      if (error) return { error };
+      return { tokenizer: getTokenizerInfo(localTokenizerId(filePath)) };
+    }
+  );
+
   // Count tokens using real tokenizers
   ipcMain.handle('count-tokens', async (_event, content: string, tokenizer: TokenizerType) => {
-    return countTokensForContent(content, tokenizer);
+    return countTokensInPool(content, tokenizer);
   });
 
   // Count tokens for multiple files at once
@@ -407,7 +601,7 @@ export function setupIpcHandlers() {
         filePaths.map(async (filePath) => {
           try {
             const content = await fs.readFile(filePath, 'utf-8');
-            results[filePath] = countTokensForContent(content, tokenizer);
+            results[filePath] = await countTokensInPool(content, tokenizer);
           } catch (error) {
             console.error(`Failed to count tokens for: ${filePath}`, error);
             // Try to get file size for fallback estimate
@@ -426,81 +620,105 @@ export function setupIpcHandlers() {
   );
 
   // Scan directory
-  ipcMain.handle('scan-directory', async (_event, scanPath: string) => {
+  ipcMain.handle('scan-directory', async (event, scanPath: string) => {
+    // Remember the directory as a scan root so rescans pick it up
     const settings = store.get('settings');
-    const files: ContextFile[] = [];
+    const existing = settings.scanPaths.find((root) => root.path === scanPath);
+    const scanPaths = existing
+      ? settings.scanPaths.map((root) => (root.path === scanPath ? { ...root, enabled: true } : root))
+      : [...settings.scanPaths, createScanRoot(scanPath)];
+    store.set('settings', { ...settings, scanPaths });
+    refreshWatchedRoots();
+
+    return scanRoots([scanPath], event.sender);
+  });
 
-    // Create a map of tool profiles for quick lookup
-    const toolProfileMap = new Map<string, ToolProfile>();
-    for (const profile of settings.toolProfiles) {
-      toolProfileMap.set(profile.id, profile);
+  // Explain why a file is left out of scans. Unsaved settings from the
+  // settings dialog can be passed in to preview their effect.
+  ipcMain.handle(
+    'explain-exclusion',
+    async (_event, filePath: string, overrides?: Partial<AppSettings>): Promise<ExclusionReason | null> => {
+      const settings = { ...store.get('settings'), ...overrides };
+      return explainExclusion(
+        filePath,
+        {
+          toolProfiles: settings.toolProfiles,
+          exclusions: settings.exclusions,
+          respectIgnoreFiles: settings.respectIgnoreFiles,
+        },
+        settings.scanPaths
+      );
     }
+  );
 
-    async function scanDir(dir: string) {
-      try {
-        const entries = await fs.readdir(dir, { withFileTypes: true });
+  // Preview which files under a folder a set of tool patterns would match
+  ipcMain.handle(
+    'test-tool-patterns',
+    async (_event, dir: string, patterns: string[]): Promise<PatternTestResult> => {
+      const settings = store.get('settings');
+      return testToolPatterns(dir, patterns, {
+        exclusions: settings.exclusions,
+        respectIgnoreFiles: settings.respectIgnoreFiles,
+      });
+    }
+  );
 
-        for (const entry of entries) {
-          const fullPath = path.join(dir, entry.name);
+  // Project configs (.tokencentric.json) that apply to the given files
+  ipcMain.handle('get-project-configs', async (_event, filePaths: string[]): Promise<ProjectConfigFile[]> => {
+    return findProjectConfigs(filePaths);
+  });
 
-          // Check exclusions
-          if (settings.exclusions.some((ex) => entry.name === ex || fullPath.includes(`/${ex}/`))) {
-            continue;
-          }
+  // How the files generated from each project's canonical file compare with the ones on disk
+  ipcMain.handle('get-sync-statuses', async (_event, configPaths: string[]): Promise<ProjectSyncStatus[]> => {
+    const statuses: ProjectSyncStatus[] = [];
+    for (const configPath of configPaths) {
+      const configFile = await readProjectConfig(path.dirname(configPath));
+      const status = configFile && (await syncProject(configFile));
+      if (status) statuses.push(status);
+    }
+    return statuses;
+  });
 
-          if (entry.isDirectory()) {
-            await scanDir(fullPath);
-          } else if (entry.isFile()) {
-            // Check if file matches any tool pattern
-            for (const profile of settings.toolProfiles) {
-              if (!profile.enabled) continue;
-
-              const matches = profile.patterns.some((pattern) => {
-                if (pattern.includes('/')) {
-                  return fullPath.endsWith(pattern);
-                }
-                return entry.name.toLowerCase() === pattern.toLowerCase();
-              });
-
-              if (matches) {
-                const stats = await fs.stat(fullPath);
-                files.push({
-                  id: fullPath,
-                  path: fullPath,
-                  name: entry.name,
-                  toolId: profile.id,
-                  lastModified: stats.mtimeMs,
-                  size: stats.size,
-                });
-                break;
-              }
-            }
-          }
-        }
-      } catch (error) {
-        // Skip directories we can't read
-        console.error(`Cannot read directory: ${dir}`);
-      }
+  // Regenerate a project's files from its canonical file; force also replaces files edited by hand
+  ipcMain.handle(
+    'sync-project',
+    async (_event, configPath: string, force?: boolean): Promise<ProjectSyncStatus | null> => {
+      const configFile = await readProjectConfig(path.dirname(configPath));
+      return configFile && syncProject(configFile, { write: true, force });
     }
+  );
 
-    await scanDir(scanPath);
+  // Make a context file the canonical file of its project; returns the .tokencentric.json path
+  ipcMain.handle('set-canonical-file', async (_event, filePath: string): Promise<string> => {
+    return setCanonicalFile(filePath);
+  });
 
-    // Count tokens for all scanned files
-    for (const file of files) {
-      try {
-        const content = await fs.readFile(file.path, 'utf-8');
-        const profile = toolProfileMap.get(file.toolId);
-        const tokenizer = profile?.tokenizer || 'openai';
-        file.tokens = countTokensForContent(content, tokenizer);
-      } catch (error) {
-        console.error(`Failed to count tokens for: ${file.path}`, error);
-        // Use file size as fallback estimate (1 token per 4 bytes)
-        file.tokens = Math.ceil(file.size / 4);
-      }
+  // Compare context files section by section for duplicated, conflicting and missing sections
+  ipcMain.handle('analyze-context-files', async (_event, filePaths: string[]): Promise<ContextAnalysis> => {
+    return analyzeContextFiles(filePaths);
+  });
+
+  // Open a folder's .tokencentric.json for editing, creating an empty one if needed
+  ipcMain.handle('open-project-config', async (_event, dirPath: string): Promise<ContextFile> => {
+    const configPath = path.join(dirPath, PROJECT_CONFIG_FILE);
+    try {
+      await fs.writeFile(configPath, JSON.stringify(PROJECT_CONFIG_TEMPLATE, null, 2) + '\n', {
+        encoding: 'utf-8',
+        flag: 'wx',
+      });
+    } catch (e: unknown) {
+      if ((e as NodeJS.ErrnoException).code !== 'EEXIST') throw e;
     }
 
-    store.set('files', files);
-    return files;
+    const stats = await fs.stat(configPath);
+    return {
+      id: configPath,
+      path: configPath,
+      name: PROJECT_CONFIG_FILE,
+      toolId: 'project-config',
+      lastModified: stats.mtimeMs,
+      size: stats.size,
+    };
   });
 
   // Get app info (for About dialog)
@@ -520,6 +738,18 @@ export function setupIpcHandlers() {
   });
 
   // Get global context file (~/.claude/CLAUDE.md) with token count
+  // Claude Code memory loaded with a file: CLAUDE.md files, CLAUDE.local.md and @imports
+  ipcMain.handle(
+    'resolve-claude-memory',
+    async (_event, filePath: string, tokenizer: TokenizerType = 'anthropic'): Promise<MemoryResolution> => {
+      return resolveClaudeMemory(filePath, {
+        tokenizer,
+        countTokens: countTokensInPool,
+        knownFiles: store.get('files').map((file) => file.path),
+      });
+    }
+  );
+
   ipcMain.handle(
     'get-global-context-file',
     async (_event, tokenizer: TokenizerType = 'anthropic'): Promise<GlobalConfigFile | null> => {
@@ -529,7 +759,7 @@ export function setupIpcHandlers() {
         await fs.access(claudeMdPath);
         const stats = await fs.stat(claudeMdPath);
         const content = await fs.readFile(claudeMdPath, 'utf-8');
-        const tokens = countTokensForContent(content, tokenizer);
+        const tokens = await countTokensInPool(content, tokenizer);
 
         return {
           id: claudeMdPath,
@@ -877,7 +1107,7 @@ export function setupIpcHandlers() {
     'get-module-config-items',
     async (_event, toolId: string, areaId: string): Promise<ConfigItem[]> => {
       if (toolId === 'claude') {
-        const tokenizer = (content: string) => countTokensForContent(content, 'anthropic');
+        const tokenizer = (content: string) => countTokens(content, 'anthropic');
         if (areaId === 'commands') {
           return await readClaudeCommands(tokenizer);
         }
@@ -1070,13 +1300,14 @@ export function setupIpcHandlers() {
   // Starter Packs (Phase 5)
   // ============================================================
 
+  // Imported packs are kept in the userData directory, where the CLI finds them too
+  const getPackLibraryDir = () => path.join(app.getPath('userData'), PACK_LIBRARY_DIR);
+
   // List all available starter packs (built-in + user-imported)
   ipcMain.handle(
     'get-starter-packs',
     async (): Promise<StarterPackMeta[]> => {
-      // For now, return built-in packs only
-      // User-imported packs could be stored in electron-store or a local directory
-      return builtinPacks;
+      return [...builtinPacks, ...(await listLibraryPacks(getPackLibraryDir()))];
     }
   );
 
@@ -1086,83 +1317,61 @@ export function setupIpcHandlers() {
     async (
       _event,
       packId: string,
-      selectedFiles: string[], // filenames to install (subset of pack files)
-      overwriteExisting: boolean
+      selectedFiles: string[], // getPackFileKey keys of the files to install (subset of pack files)
+      overwriteExisting: boolean,
+      project: string | null // null installs into ~/.claude
     ): Promise<{ installed: string[]; skipped: string[]; errors: string[] }> => {
-      const packMeta = builtinPacks.find((p) => p.id === packId);
+      const packMeta = await findPack(getPackLibraryDir(), packId);
       if (!packMeta) throw new Error(`Pack "${packId}" not found`);
 
-      const pack = packMeta.pack;
-      const installed: string[] = [];
-      const skipped: string[] = [];
-      const errors: string[] = [];
-      const claudeDir = path.join(os.homedir(), '.claude');
-
-      for (const [_toolId, toolData] of Object.entries(pack.tools)) {
-        const configFiles = toolData.configFiles || [];
-
-        for (const file of configFiles) {
-          if (selectedFiles.length > 0 && !selectedFiles.includes(file.filename)) {
-            continue;
-          }
-
-          const targetPath = path.join(claudeDir, file.filename);
-
-          try {
-            // Ensure directory exists
-            await fs.mkdir(path.dirname(targetPath), { recursive: true });
-
-            // Check for existing file
-            let exists = false;
-            try {
-              await fs.access(targetPath);
-              exists = true;
-            } catch {
-              // File doesn't exist, safe to create
-            }
-
-            if (exists && !overwriteExisting) {
-              skipped.push(file.filename);
-              continue;
-            }
-
-            await fs.writeFile(targetPath, file.content, 'utf-8');
-            installed.push(file.filename);
-          } catch (error) {
-            errors.push(`${file.filename}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-          }
-        }
-
-        // Apply settings if present
-        if (toolData.settings) {
-          try {
-            const settingsPath = path.join(claudeDir, 'settings.json');
-            let current: Record<string, unknown> = {};
-            try {
-              const content = await fs.readFile(settingsPath, 'utf-8');
-              current = JSON.parse(content);
-            } catch {
-              // File doesn't exist
-            }
-            const merged = { ...current, ...toolData.settings };
-            await fs.writeFile(settingsPath, JSON.stringify(merged, null, 2) + '\n', 'utf-8');
-            installed.push('settings.json (merged)');
-          } catch (error) {
-            errors.push(`settings: ${error instanceof Error ? error.message : 'Unknown error'}`);
-          }
-        }
-      }
-
+      const { actions, errors } = await installPack(getPackLibraryDir(), packId, packMeta.pack, {
+        selectedFiles,
+        overwrite: overwriteExisting,
+        project,
+      });
+      const isSkipped = (a: { action: string }) =>
+        a.action === 'skip' || a.action === 'needs-project' || a.action === 'unsupported';
+      const installed = actions
+        .filter((a) => !isSkipped(a))
+        .map((a) => (a.action === 'merge' ? `${a.file} (merged)` : a.file));
+      const skipped = actions.filter(isSkipped).map((a) =>
+        a.action === 'needs-project'
+          ? `${a.file} (needs a project)`
+          : a.action === 'unsupported'
+            ? `${a.file} (unsupported)`
+            : a.file
+      );
       return { installed, skipped, errors };
     }
   );
 
+  // What installing a pack would do, including how its settings merge into settings.json
+  ipcMain.handle(
+    'preview-pack-install',
+    async (
+      _event,
+      packId: string,
+      selectedFiles: string[],
+      overwriteExisting: boolean,
+      project: string | null
+    ): Promise<PackInstallResult> => {
+      const packMeta = await findPack(getPackLibraryDir(), packId);
+      if (!packMeta) throw new Error(`Pack "${packId}" not found`);
+      return installPack(getPackLibraryDir(), packId, packMeta.pack, {
+        selectedFiles,
+        overwrite: overwriteExisting,
+        project,
+        dryRun: true,
+      });
+    }
+  );
+
   // Export current config as a .tcpack file - uses shared exportCurrentConfig
   ipcMain.handle(
     'export-starter-pack',
     async (
       _event,
-      options: { name: string; description: string; includeCommands: boolean; includeAgents: boolean; includeSettings: boolean }
+      options: PackExportOptions
     ): Promise<string> => {
       const pack = await exportCurrentConfig(options);
 
@@ -1182,7 +1391,26 @@ export function setupIpcHandlers() {
     }
   );
 
-  // Import a .tcpack file via file picker
+  // Save a generated document (e.g. a file's effective context); null when cancelled
+  ipcMain.handle(
+    'export-text-file',
+    async (_event, content: string, defaultPath: string): Promise<string | null> => {
+      const result = await dialog.showSaveDialog({
+        title: 'Export',
+        defaultPath,
+        filters: [{ name: 'Markdown', extensions: ['md'] }],
+      });
+
+      if (result.canceled || !result.filePath) {
+        return null;
+      }
+
+      await fs.writeFile(result.filePath, content, 'utf-8');
+      return result.filePath;
+    }
+  );
+
+  // Import a .tcpack file via file picker into the pack library
   ipcMain.handle(
     'import-starter-pack',
     async (): Promise<StarterPackMeta | null> => {
@@ -1196,19 +1424,82 @@ export function setupIpcHandlers() {
         return null;
       }
 
-      const content = await fs.readFile(result.filePaths[0], 'utf-8');
-      const pack = JSON.parse(content) as StarterPack;
+      return addLibraryPack(getPackLibraryDir(), result.filePaths[0]);
+    }
+  );
 
-      // Basic validation
-      if (!pack.tcpack || !pack.name || !pack.tools) {
-        throw new Error('Invalid .tcpack file format');
+  // Replace a library pack with a newer copy of its file, picked starting from where it came from
+  ipcMain.handle(
+    'reimport-starter-pack',
+    async (_event, packId: string, source: string | null): Promise<StarterPackMeta | null> => {
+      const result = await dialog.showOpenDialog({
+        title: 'Re-import Starter Pack',
+        defaultPath: source || undefined,
+        filters: [{ name: 'TokenCentric Pack', extensions: ['tcpack'] }],
+        properties: ['openFile'],
+      });
+
+      if (result.canceled || result.filePaths.length === 0) {
+        return null;
       }
 
-      return {
-        id: `imported-${Date.now()}`,
-        builtin: false,
-        pack,
-      };
+      return reimportLibraryPack(getPackLibraryDir(), packId, result.filePaths[0]);
+    }
+  );
+
+  ipcMain.handle(
+    'rename-starter-pack',
+    async (_event, packId: string, name: string): Promise<StarterPackMeta> => {
+      return renameLibraryPack(getPackLibraryDir(), packId, name);
+    }
+  );
+
+  ipcMain.handle('remove-starter-pack', async (_event, packId: string): Promise<void> => {
+    await removeLibraryPack(getPackLibraryDir(), packId);
+  });
+
+  // Installed packs, in ~/.claude and in projects, with the files modified since they were installed
+  ipcMain.handle('get-installed-packs', async (): Promise<InstalledPackStatus[]> => {
+    return listInstalledPacks(getPackLibraryDir());
+  });
+
+  ipcMain.handle(
+    'uninstall-starter-pack',
+    async (
+      _event,
+      packId: string,
+      force: boolean,
+      project: string | null
+    ): Promise<PackUninstallResult> => {
+      return uninstallPack(getPackLibraryDir(), packId, { force, project });
+    }
+  );
+
+  // Upgrade an installed pack to the version of it in the library
+  const getUpgradePack = async (packId: string) => {
+    const packMeta = await findPack(getPackLibraryDir(), packId);
+    if (!packMeta) throw new Error(`Pack "${packId}" not found`);
+    return packMeta.pack;
+  };
+
+  ipcMain.handle(
+    'preview-pack-upgrade',
+    async (_event, packId: string, project: string | null): Promise<PackUpgradePlan> => {
+      const pack = await getUpgradePack(packId);
+      return planPackUpgrade(getPackLibraryDir(), packId, pack, project);
+    }
+  );
+
+  ipcMain.handle(
+    'upgrade-starter-pack',
+    async (
+      _event,
+      packId: string,
+      force: boolean,
+      project: string | null
+    ): Promise<PackUpgradePlan> => {
+      const pack = await getUpgradePack(packId);
+      return upgradePack(getPackLibraryDir(), packId, pack, { force, project });
     }
   );
 }
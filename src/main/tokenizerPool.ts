@@ -0,0 +1,171 @@
+import { Worker } from 'worker_threads';
+import os from 'os';
+import path from 'path';
+import log from 'electron-log';
+import { countTokens } from '../shared/tokenizers';
+import { TokenizerType } from '../shared/types';
+import type { TokenizeRequest, TokenizeResponse } from './tokenizerWorker';
+
+// Leave a core for the main process and renderer
+const POOL_SIZE = Math.max(1, Math.min(4, os.cpus().length - 1));
+
+interface Task {
+  id: number;
+  content: string;
+  tokenizer: TokenizerType;
+  signal?: AbortSignal;
+  resolve: (tokens: number) => void;
+  reject: (error: unknown) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  task: Task | null;
+  ready: boolean; // Set by its first message: the worker script loaded
+}
+
+// Worker threads can't load scripts from the app's asar archive, so the worker
+// and the modules it loads are unpacked next to it (asarUnpack in package.json)
+const WORKER_PATH = path
+  .join(__dirname, 'tokenizerWorker.js')
+  .replace(`app.asar${path.sep}`, `app.asar.unpacked${path.sep}`);
+
+let workers: PoolWorker[] = [];
+let queue: Task[] = [];
+let nextTaskId = 1;
+// Set when workers can't be started or fail before their first message (e.g. a
+// missing worker script); counts in-process instead
+let workersUnavailable = false;
+
+function createWorker(): PoolWorker | null {
+  try {
+    const poolWorker: PoolWorker = {
+      worker: new Worker(WORKER_PATH),
+      task: null,
+      ready: false,
+    };
+
+    poolWorker.worker.on('message', (response: TokenizeResponse) => {
+      poolWorker.ready = true;
+      const task = poolWorker.task;
+      poolWorker.task = null;
+      if (task && task.id === response.id) {
+        task.resolve(response.tokens);
+      }
+      runNext();
+    });
+
+    poolWorker.worker.on('error', (error) => {
+      log.error('Tokenizer worker failed:', error);
+      removeWorker(poolWorker, error);
+    });
+
+    poolWorker.worker.on('exit', (code) => {
+      if (code !== 0) {
+        removeWorker(poolWorker, new Error(`Tokenizer worker exited with code ${code}`));
+      }
+    });
+
+    return poolWorker;
+  } catch (error) {
+    log.error('Failed to start tokenizer worker, counting on the main thread:', error);
+    workersUnavailable = true;
+    return null;
+  }
+}
+
+function removeWorker(poolWorker: PoolWorker, error: unknown): void {
+  if (!workers.includes(poolWorker)) return;
+  workers = workers.filter((w) => w !== poolWorker);
+  if (!poolWorker.ready) {
+    // Every new worker would fail the same way: count in-process from now on,
+    // starting with this worker's task
+    log.error('Tokenizer worker failed to start, counting on the main thread');
+    workersUnavailable = true;
+    if (poolWorker.task) queue.unshift(poolWorker.task);
+  } else {
+    poolWorker.task?.reject(error);
+  }
+  poolWorker.task = null;
+  runNext();
+}
+
+function takeTask(): Task | null {
+  while (queue.length > 0) {
+    const task = queue.shift() as Task;
+    if (!task.signal?.aborted) return task;
+    task.reject(task.signal.reason);
+  }
+  return null;
+}
+
+function getIdleWorker(): PoolWorker | null {
+  const idle = workers.find((w) => !w.task);
+  if (idle) return idle;
+  if (workers.length >= POOL_SIZE || workersUnavailable) return null;
+
+  const created = createWorker();
+  if (created) workers.push(created);
+  return created;
+}
+
+function runNext(): void {
+  while (queue.length > 0) {
+    const poolWorker = getIdleWorker();
+    if (!poolWorker) break;
+
+    const task = takeTask();
+    if (!task) break;
+
+    poolWorker.task = task;
+    const request: TokenizeRequest = { id: task.id, content: task.content, tokenizer: task.tokenizer };
+    poolWorker.worker.postMessage(request);
+  }
+
+  if (workersUnavailable && workers.length === 0) {
+    // Drain the queue synchronously as a last resort
+    let task = takeTask();
+    while (task) {
+      task.resolve(countTokens(task.content, task.tokenizer));
+      task = takeTask();
+    }
+  }
+}
+
+/**
+ * Counts tokens on a worker thread so large scans don't block the main process.
+ * Rejects with the signal's reason when the signal is aborted before the
+ * content reaches a worker.
+ */
+export function countTokensInPool(
+  content: string,
+  tokenizer: TokenizerType,
+  signal?: AbortSignal
+): Promise<number> {
+  if (signal?.aborted) {
+    return Promise.reject(signal.reason);
+  }
+
+  return new Promise((resolve, reject) => {
+    queue.push({ id: nextTaskId++, content, tokenizer, signal, resolve, reject });
+    runNext();
+  });
+}
+
+/**
+ * Number of files worth tokenizing concurrently to keep every worker busy.
+ */
+export function getTokenizerPoolSize(): number {
+  return POOL_SIZE;
+}
+
+export function stopTokenizerPool(): void {
+  const error = new Error('Tokenizer pool stopped');
+  for (const task of queue) task.reject(error);
+  queue = [];
+  for (const poolWorker of workers) {
+    poolWorker.task?.reject(error);
+    poolWorker.worker.terminate();
+  }
+  workers = [];
+}
@@ -0,0 +1,27 @@
+/**
+ * Worker thread entry point for the tokenizer pool (tokenizerPool.ts).
+ * Each worker keeps its own tokenizer instances, so they are only loaded once
+ * per worker.
+ */
+import { parentPort } from 'worker_threads';
+import { countTokens } from '../shared/tokenizers';
+import { TokenizerType } from '../shared/types';
+
+export interface TokenizeRequest {
+  id: number;
+  content: string;
+  tokenizer: TokenizerType;
+}
+
+export interface TokenizeResponse {
+  id: number;
+  tokens: number;
+}
+
+parentPort?.on('message', (request: TokenizeRequest) => {
+  const response: TokenizeResponse = {
+    id: request.id,
+    tokens: countTokens(request.content, request.tokenizer),
+  };
+  parentPort?.postMessage(response);
+});
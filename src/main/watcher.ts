@@ -0,0 +1,147 @@
+import chokidar, { FSWatcher } from 'chokidar';
+import { Stats } from 'fs';
+import { BrowserWindow } from 'electron';
+import log from 'electron-log';
+import path from 'path';
+import { CompiledPattern, compilePatterns } from '../shared/glob';
+import { findScanRoot, isExcluded } from '../shared/scanner';
+import { ContextFileEvent, ContextFileEventScope, ContextFileEventType } from '../shared/types';
+
+// Events are batched so a `git pull` touching many files sends one update
+const BATCH_DELAY_MS = 150;
+
+// ~/.claude holds large session/todo directories; only watch config we display
+const GLOBAL_WATCH_DIRS = ['commands', 'agents'];
+const GLOBAL_WATCH_DEPTH = 2;
+
+/**
+ * Resolves a raw filesystem event into a context file event.
+ * Returns null when the path isn't a context file we care about.
+ */
+export type WatchEventResolver = (
+  type: ContextFileEventType,
+  filePath: string,
+  scope: ContextFileEventScope
+) => Promise<ContextFileEvent | null>;
+
+let mainWindow: BrowserWindow | null = null;
+let resolveEvent: WatchEventResolver | null = null;
+let projectWatcher: FSWatcher | null = null;
+let globalWatcher: FSWatcher | null = null;
+let watchedRoots: string[] = [];
+let watchedExclusions: string[] = [];
+let exclusionPatterns: CompiledPattern[] = [];
+
+let pendingEvents: ContextFileEvent[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+function flushEvents(): void {
+  flushTimer = null;
+  if (pendingEvents.length === 0) return;
+
+  const events = pendingEvents;
+  pendingEvents = [];
+
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send('context-files-changed', events);
+  }
+}
+
+function queueEvent(type: ContextFileEventType, filePath: string, scope: ContextFileEventScope): void {
+  if (!resolveEvent) return;
+
+  resolveEvent(type, filePath, scope)
+    .then((event) => {
+      if (!event) return;
+      // Later events for the same path supersede earlier ones in the batch
+      pendingEvents = pendingEvents.filter((e) => e.path !== event.path);
+      pendingEvents.push(event);
+      if (!flushTimer) {
+        flushTimer = setTimeout(flushEvents, BATCH_DELAY_MS);
+      }
+    })
+    .catch((error) => {
+      log.error(`File watcher failed to handle ${type} for ${filePath}:`, error);
+    });
+}
+
+function attachListeners(watcher: FSWatcher, scope: ContextFileEventScope): void {
+  watcher.on('add', (filePath) => queueEvent('add', filePath, scope));
+  watcher.on('change', (filePath) => queueEvent('change', filePath, scope));
+  watcher.on('unlink', (filePath) => queueEvent('unlink', filePath, scope));
+  watcher.on('error', (error) => log.error(`File watcher error (${scope}):`, error));
+}
+
+// Per-root exclusions, ignore files and depth limits are checked when resolving events
+function isIgnored(testPath: string, stats?: Stats): boolean {
+  const root = findScanRoot(testPath, watchedRoots.map((rootPath) => ({ path: rootPath })));
+  if (!root || root.path === testPath) return false;
+  const relativePath = path.relative(root.path, testPath).split(path.sep).join('/');
+  return isExcluded(relativePath, stats?.isDirectory() ?? false, exclusionPatterns);
+}
+
+export function initFileWatcher(window: BrowserWindow, resolver: WatchEventResolver): void {
+  mainWindow = window;
+  resolveEvent = resolver;
+}
+
+/**
+ * Starts watching the given project roots and the global config directory.
+ * Calling again with a different set of roots or exclusions re-creates the watcher.
+ */
+export async function updateWatchedRoots(
+  roots: string[],
+  exclusions: string[],
+  globalConfigDir: string
+): Promise<void> {
+  const rootsChanged = roots.join('\n') !== watchedRoots.join('\n');
+  const exclusionsChanged = exclusions.join('\n') !== watchedExclusions.join('\n');
+
+  if (projectWatcher && !rootsChanged && !exclusionsChanged) return;
+
+  watchedRoots = [...roots];
+  watchedExclusions = [...exclusions];
+  exclusionPatterns = compilePatterns(exclusions);
+
+  if (projectWatcher) {
+    await projectWatcher.close();
+    projectWatcher = null;
+  }
+
+  if (roots.length > 0) {
+    log.info(`Watching ${roots.length} scan root(s) for context file changes`);
+    projectWatcher = chokidar.watch(roots, {
+      ignored: isIgnored,
+      ignoreInitial: true,
+      awaitWriteFinish: { stabilityThreshold: 200, pollInterval: 50 },
+    });
+    attachListeners(projectWatcher, 'project');
+  }
+
+  if (!globalWatcher) {
+    globalWatcher = chokidar.watch(globalConfigDir, {
+      ignored: (testPath: string) => {
+        const relative = path.relative(globalConfigDir, testPath);
+        if (!relative || !relative.includes(path.sep)) return false;
+        return !GLOBAL_WATCH_DIRS.includes(relative.split(path.sep)[0]);
+      },
+      ignoreInitial: true,
+      depth: GLOBAL_WATCH_DEPTH,
+      awaitWriteFinish: { stabilityThreshold: 200, pollInterval: 50 },
+    });
+    attachListeners(globalWatcher, 'global');
+  }
+}
+
+export async function stopFileWatcher(): Promise<void> {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  pendingEvents = [];
+  watchedRoots = [];
+
+  await Promise.all([projectWatcher?.close(), globalWatcher?.close()]);
+  projectWatcher = null;
+  globalWatcher = null;
+}
@@ -1,6 +1,8 @@
 import { contextBridge, ipcRenderer } from 'electron';
-import { AppSettings, ContextFile, TokenizerType, GlobalConfigFile, AIProvider, AIProviderConfig, AIAction, AIStreamChunk, EditorStatePersisted, ToolModule, ConfigItem } from '../shared/types';
+import { AppSettings, ContextFile, ContextFileEvent, ExclusionReason, MemoryResolution, PatternTestResult, ProjectConfigFile, ProjectSyncStatus, ContextAnalysis, ScanProgress, TokenizerType, TokenizerInfo, GlobalConfigFile, AIProvider, AIProviderConfig, AIAction, AIStreamChunk, EditorStatePersisted, ToolModule, ConfigItem, InstalledPackStatus, PackInstallResult, PackUninstallResult, PackExportOptions, PackUpgradePlan } from '../shared/types';
 import { StarterPackMeta } from '../shared/builtinPacks';
+import { ContextFormat, ConvertOptions } from '../shared/contextFormats';
+import { ConvertedFile } from '../shared/contextFormatsWriter';
 
 // Expose protected methods to the renderer process
 contextBridge.exposeInMainWorld('electronAPI', {
@@ -25,14 +27,50 @@ contextBridge.exposeInMainWorld('electronAPI', {
     ipcRenderer.invoke('write-file', path, content),
   scanDirectory: (path: string): Promise<ContextFile[]> =>
     ipcRenderer.invoke('scan-directory', path),
-  rescanCachedPaths: (): Promise<ContextFile[]> =>
-    ipcRenderer.invoke('rescan-cached-paths'),
+  rescanScanPaths: (): Promise<ContextFile[]> =>
+    ipcRenderer.invoke('rescan-scan-paths'),
+  cancelScan: (): Promise<void> => ipcRenderer.invoke('cancel-scan'),
+  onScanProgress: (callback: (progress: ScanProgress) => void): (() => void) => {
+    const listener = (_event: Electron.IpcRendererEvent, progress: ScanProgress) => callback(progress);
+    ipcRenderer.on('scan-progress', listener);
+    return () => {
+      ipcRenderer.removeListener('scan-progress', listener);
+    };
+  },
+  explainExclusion: (filePath: string, overrides?: Partial<AppSettings>): Promise<ExclusionReason | null> =>
+    ipcRenderer.invoke('explain-exclusion', filePath, overrides),
+  testToolPatterns: (dir: string, patterns: string[]): Promise<PatternTestResult> =>
+    ipcRenderer.invoke('test-tool-patterns', dir, patterns),
+  getProjectConfigs: (filePaths: string[]): Promise<ProjectConfigFile[]> =>
+    ipcRenderer.invoke('get-project-configs', filePaths),
+  openProjectConfig: (dirPath: string): Promise<ContextFile> =>
+    ipcRenderer.invoke('open-project-config', dirPath),
+  getSyncStatuses: (configPaths: string[]): Promise<ProjectSyncStatus[]> =>
+    ipcRenderer.invoke('get-sync-statuses', configPaths),
+  syncProject: (configPath: string, force?: boolean): Promise<ProjectSyncStatus | null> =>
+    ipcRenderer.invoke('sync-project', configPath, force),
+  setCanonicalFile: (filePath: string): Promise<string> => ipcRenderer.invoke('set-canonical-file', filePath),
+  analyzeContextFiles: (filePaths: string[]): Promise<ContextAnalysis> =>
+    ipcRenderer.invoke('analyze-context-files', filePaths),
+  exportTextFile: (content: string, defaultPath: string): Promise<string | null> =>
+    ipcRenderer.invoke('export-text-file', content, defaultPath),
+  // Returns an unsubscribe function (several components listen for file changes)
+  onContextFilesChanged: (callback: (events: ContextFileEvent[]) => void): (() => void) => {
+    const listener = (_event: Electron.IpcRendererEvent, events: ContextFileEvent[]) => callback(events);
+    ipcRenderer.on('context-files-changed', listener);
+    return () => {
+      ipcRenderer.removeListener('context-files-changed', listener);
+    };
+  },
 
   // Tokens
   countTokens: (content: string, tokenizer: TokenizerType): Promise<number> =>
     ipcRenderer.invoke('count-tokens', content, tokenizer),
   countTokensBatch: (filePaths: string[], tokenizer: TokenizerType): Promise<Record<string, number>> =>
     ipcRenderer.invoke('count-tokens-batch', filePaths, tokenizer),
+  getTokenizers: (): Promise<TokenizerInfo[]> => ipcRenderer.invoke('get-tokenizers'),
+  selectTokenizerFile: (): Promise<{ tokenizer: TokenizerInfo } | { error: string } | null> =>
+    ipcRenderer.invoke('select-tokenizer-file'),
 
   // System
   showInFolder: (path: string): Promise<void> => ipcRenderer.invoke('show-in-folder', path),
@@ -41,6 +79,10 @@ contextBridge.exposeInMainWorld('electronAPI', {
   createFile: (dirPath: string, fileName: string, toolId: string, content?: string): Promise<ContextFile> =>
     ipcRenderer.invoke('create-file', dirPath, fileName, toolId, content),
   duplicateFile: (path: string): Promise<ContextFile> => ipcRenderer.invoke('duplicate-file', path),
+  previewContextConversion: (sourcePath: string, to: ContextFormat, options?: ConvertOptions): Promise<ConvertedFile> =>
+    ipcRenderer.invoke('preview-context-conversion', sourcePath, to, options),
+  convertContextFile: (sourcePath: string, to: ContextFormat, options?: ConvertOptions, overwrite?: boolean): Promise<ContextFile> =>
+    ipcRenderer.invoke('convert-context-file', sourcePath, to, options, overwrite),
 
   // App info
   getAppInfo: (): Promise<{
@@ -54,6 +96,8 @@ contextBridge.exposeInMainWorld('electronAPI', {
   // Global config (~/.claude)
   getGlobalConfigPath: (): Promise<string> => ipcRenderer.invoke('get-global-config-path'),
   getGlobalConfigFiles: (): Promise<GlobalConfigFile[]> => ipcRenderer.invoke('get-global-config-files'),
+  resolveClaudeMemory: (filePath: string, tokenizer?: TokenizerType): Promise<MemoryResolution> =>
+    ipcRenderer.invoke('resolve-claude-memory', filePath, tokenizer),
   getGlobalContextFile: (tokenizer?: TokenizerType): Promise<GlobalConfigFile | null> =>
     ipcRenderer.invoke('get-global-context-file', tokenizer),
 
@@ -121,12 +165,26 @@ contextBridge.exposeInMainWorld('electronAPI', {
   // Starter Packs (Phase 5)
   getStarterPacks: (): Promise<StarterPackMeta[]> =>
     ipcRenderer.invoke('get-starter-packs'),
-  installStarterPack: (packId: string, selectedFiles: string[], overwriteExisting: boolean): Promise<{ installed: string[]; skipped: string[]; errors: string[] }> =>
-    ipcRenderer.invoke('install-starter-pack', packId, selectedFiles, overwriteExisting),
-  exportStarterPack: (options: { name: string; description: string; includeCommands: boolean; includeAgents: boolean; includeSettings: boolean }): Promise<string> =>
+  installStarterPack: (packId: string, selectedFiles: string[], overwriteExisting: boolean, project: string | null): Promise<{ installed: string[]; skipped: string[]; errors: string[] }> =>
+    ipcRenderer.invoke('install-starter-pack', packId, selectedFiles, overwriteExisting, project),
+  previewPackInstall: (packId: string, selectedFiles: string[], overwriteExisting: boolean, project: string | null): Promise<PackInstallResult> =>
+    ipcRenderer.invoke('preview-pack-install', packId, selectedFiles, overwriteExisting, project),
+  exportStarterPack: (options: PackExportOptions): Promise<string> =>
     ipcRenderer.invoke('export-starter-pack', options),
   importStarterPack: (): Promise<StarterPackMeta | null> =>
     ipcRenderer.invoke('import-starter-pack'),
+  reimportStarterPack: (packId: string, source: string | null): Promise<StarterPackMeta | null> =>
+    ipcRenderer.invoke('reimport-starter-pack', packId, source),
+  renameStarterPack: (packId: string, name: string): Promise<StarterPackMeta> =>
+    ipcRenderer.invoke('rename-starter-pack', packId, name),
+  removeStarterPack: (packId: string): Promise<void> => ipcRenderer.invoke('remove-starter-pack', packId),
+  getInstalledPacks: (): Promise<InstalledPackStatus[]> => ipcRenderer.invoke('get-installed-packs'),
+  uninstallStarterPack: (packId: string, force: boolean, project: string | null): Promise<PackUninstallResult> =>
+    ipcRenderer.invoke('uninstall-starter-pack', packId, force, project),
+  previewPackUpgrade: (packId: string, project: string | null): Promise<PackUpgradePlan> =>
+    ipcRenderer.invoke('preview-pack-upgrade', packId, project),
+  upgradeStarterPack: (packId: string, force: boolean, project: string | null): Promise<PackUpgradePlan> =>
+    ipcRenderer.invoke('upgrade-starter-pack', packId, force, project),
 
   // Events from main process
   onThemeChanged: (callback: (isDark: boolean) => void) => {
@@ -191,14 +249,30 @@ declare global {
       readFile: (path: string) => Promise<string>;
       writeFile: (path: string, content: string) => Promise<void>;
       scanDirectory: (path: string) => Promise<ContextFile[]>;
-      rescanCachedPaths: () => Promise<ContextFile[]>;
+      rescanScanPaths: () => Promise<ContextFile[]>;
+      cancelScan: () => Promise<void>;
+      onScanProgress: (callback: (progress: ScanProgress) => void) => () => void;
+      explainExclusion: (filePath: string, overrides?: Partial<AppSettings>) => Promise<ExclusionReason | null>;
+      testToolPatterns: (dir: string, patterns: string[]) => Promise<PatternTestResult>;
+      getProjectConfigs: (filePaths: string[]) => Promise<ProjectConfigFile[]>;
+      openProjectConfig: (dirPath: string) => Promise<ContextFile>;
+      getSyncStatuses: (configPaths: string[]) => Promise<ProjectSyncStatus[]>;
+      syncProject: (configPath: string, force?: boolean) => Promise<ProjectSyncStatus | null>;
+      setCanonicalFile: (filePath: string) => Promise<string>;
+      analyzeContextFiles: (filePaths: string[]) => Promise<ContextAnalysis>;
+      exportTextFile: (content: string, defaultPath: string) => Promise<string | null>;
+      onContextFilesChanged: (callback: (events: ContextFileEvent[]) => void) => () => void;
       countTokens: (content: string, tokenizer: TokenizerType) => Promise<number>;
       countTokensBatch: (filePaths: string[], tokenizer: TokenizerType) => Promise<Record<string, number>>;
+      getTokenizers: () => Promise<TokenizerInfo[]>;
+      selectTokenizerFile: () => Promise<{ tokenizer: TokenizerInfo } | { error: string } | null>;
       showInFolder: (path: string) => Promise<void>;
       selectDirectory: () => Promise<string | null>;
       deleteFile: (path: string) => Promise<void>;
       createFile: (dirPath: string, fileName: string, toolId: string, content?: string) => Promise<ContextFile>;
       duplicateFile: (path: string) => Promise<ContextFile>;
+      previewContextConversion: (sourcePath: string, to: ContextFormat, options?: ConvertOptions) => Promise<ConvertedFile>;
+      convertContextFile: (sourcePath: string, to: ContextFormat, options?: ConvertOptions, overwrite?: boolean) => Promise<ContextFile>;
       getAppInfo: () => Promise<{
         version: string;
         platform: string;
@@ -230,12 +304,21 @@ declare global {
       claudeGetKeybindings: () => Promise<Record<string, unknown> | null>;
       // Starter Packs (Phase 5)
       getStarterPacks: () => Promise<StarterPackMeta[]>;
-      installStarterPack: (packId: string, selectedFiles: string[], overwriteExisting: boolean) => Promise<{ installed: string[]; skipped: string[]; errors: string[] }>;
-      exportStarterPack: (options: { name: string; description: string; includeCommands: boolean; includeAgents: boolean; includeSettings: boolean }) => Promise<string>;
+      installStarterPack: (packId: string, selectedFiles: string[], overwriteExisting: boolean, project: string | null) => Promise<{ installed: string[]; skipped: string[]; errors: string[] }>;
+      previewPackInstall: (packId: string, selectedFiles: string[], overwriteExisting: boolean, project: string | null) => Promise<PackInstallResult>;
+      exportStarterPack: (options: PackExportOptions) => Promise<string>;
       importStarterPack: () => Promise<StarterPackMeta | null>;
+      reimportStarterPack: (packId: string, source: string | null) => Promise<StarterPackMeta | null>;
+      renameStarterPack: (packId: string, name: string) => Promise<StarterPackMeta>;
+      removeStarterPack: (packId: string) => Promise<void>;
+      getInstalledPacks: () => Promise<InstalledPackStatus[]>;
+      uninstallStarterPack: (packId: string, force: boolean, project: string | null) => Promise<PackUninstallResult>;
+      previewPackUpgrade: (packId: string, project: string | null) => Promise<PackUpgradePlan>;
+      upgradeStarterPack: (packId: string, force: boolean, project: string | null) => Promise<PackUpgradePlan>;
       // Global config
       getGlobalConfigPath: () => Promise<string>;
       getGlobalConfigFiles: () => Promise<GlobalConfigFile[]>;
+      resolveClaudeMemory: (filePath: string, tokenizer?: TokenizerType) => Promise<MemoryResolution>;
       getGlobalContextFile: (tokenizer?: TokenizerType) => Promise<GlobalConfigFile | null>;
       // AI
       testAiConnection: (provider: AIProvider, config: AIProviderConfig) => Promise<{ success: boolean; message: string }>;
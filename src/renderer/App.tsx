@@ -1,5 +1,5 @@
-import { useEffect, useState } from 'react';
-import { ContextFile, AppSettings, AppView, ToolModule } from '../shared/types';
+import { useEffect, useRef, useState } from 'react';
+import { ContextFile, ContextFileEvent, AppSettings, AppView, ScanProgress, ToolModule } from '../shared/types';
 import { SettingsDialog } from './components/SettingsDialog';
 import { AboutDialog } from './components/AboutDialog';
 import { WelcomeScreen } from './components/WelcomeScreen';
@@ -8,6 +8,9 @@ import { ErrorBoundary } from './components/ErrorBoundary';
 import { ToastContainer, useToast } from './components/Toast';
 import { UpdateNotification } from './components/UpdateNotification';
 import { useEditorStore } from './store/editorStore';
+import { useProjectConfigStore } from './store/projectConfigStore';
+import { PROJECT_CONFIG_FILE } from '../shared/projectConfig';
+import { syncChangedProjects } from './utils/syncStatus';
 import { ContextFilesView } from './views/ContextFilesView';
 import { AppTabBar } from './components/AppTabBar';
 import { ToolModuleView } from './views/ToolModuleView';
@@ -15,6 +18,24 @@ import { StarterPacksView } from './views/StarterPacksView';
 import { GlobalSearch } from './components/GlobalSearch';
 import { ConfigItem } from '../shared/types';
 
+/**
+ * Applies watcher events to the file list, keeping existing order for changed files
+ */
+function applyContextFileEvents(files: ContextFile[], events: ContextFileEvent[]): ContextFile[] {
+  let next = files;
+  for (const event of events) {
+    if (event.type === 'unlink') {
+      next = next.filter((f) => f.path !== event.path);
+    } else if (event.file) {
+      const updated = event.file;
+      next = next.some((f) => f.path === event.path)
+        ? next.map((f) => (f.path === event.path ? updated : f))
+        : [...next, updated];
+    }
+  }
+  return next;
+}
+
 function App() {
   const [isDark, setIsDark] = useState(false);
   const [files, setFiles] = useState<ContextFile[]>([]);
@@ -22,6 +43,13 @@ function App() {
   const [isLoading, setIsLoading] = useState(true);
   const [showWelcome, setShowWelcome] = useState(false);
 
+  // Scan progress (null when no scan is running)
+  const [scanProgress, setScanProgress] = useState<ScanProgress | null>(null);
+  const runningScans = useRef(0);
+  const scanCancelled = useRef(false);
+  // Lets listeners registered on mount start a rescan
+  const refreshScanPathsRef = useRef<(() => Promise<void>) | null>(null);
+
   // View routing
   const [activeView, setActiveView] = useState<AppView>('context-files');
   const [activeModuleId, setActiveModuleId] = useState<string | null>(null);
@@ -71,12 +99,9 @@ function App() {
           filesCount: loadedFiles.length,
         });
 
-        // Background re-scan
-        if (loadedFiles.length > 0) {
-          window.electronAPI
-            .rescanCachedPaths()
-            .then((freshFiles) => setFiles(freshFiles))
-            .catch((err) => console.error('Background rescan failed:', err));
+        // Background re-scan of the configured scan roots
+        if (loadedSettings.scanPaths.some((root) => root.enabled)) {
+          refreshScanPaths().catch((err) => console.error('Background rescan failed:', err));
         }
       } catch (error) {
         console.error('Failed to initialize:', error);
@@ -122,27 +147,99 @@ function App() {
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [closeActiveTab, nextTab, previousTab]);
 
+  // Live updates from the file watcher (e.g. after a git pull)
+  useEffect(() => {
+    return window.electronAPI.onContextFilesChanged((events) => {
+      const projectEvents = events.filter((e) => e.scope === 'project');
+      if (projectEvents.length > 0) {
+        setFiles((prev) => applyContextFileEvents(prev, projectEvents));
+      }
+      // Exclusions and tool profiles in a .tokencentric.json change which files match
+      if (projectEvents.some((e) => e.path.endsWith(`/${PROJECT_CONFIG_FILE}`))) {
+        refreshScanPathsRef.current?.().catch((err) => console.error('Rescan after project config change failed:', err));
+      }
+      // Regenerate the files of projects whose canonical file changed
+      syncChangedProjects(projectEvents).catch((err) => console.error('Sync after change failed:', err));
+      useEditorStore.getState().applyExternalChanges(events);
+    });
+  }, []);
+
+  // Progress of running scans
+  useEffect(() => {
+    return window.electronAPI.onScanProgress((progress) => {
+      // Ignore events arriving after the scan resolved
+      if (runningScans.current > 0) {
+        setScanProgress(progress);
+      }
+    });
+  }, []);
+
+  // Budgets, tool profiles and required sections from the .tokencentric.json files above the scanned files
+  useEffect(() => {
+    useProjectConfigStore.getState().loadConfigs(files);
+  }, [files]);
+
+  /**
+   * Runs a scan with progress reporting. Cancelled scans resolve with the
+   * files counted so far, which are kept.
+   */
+  const runScan = async (scan: () => Promise<ContextFile[]>): Promise<ContextFile[]> => {
+    runningScans.current++;
+    scanCancelled.current = false;
+    setScanProgress({ phase: 'walking', directoriesVisited: 0, filesMatched: 0, filesTokenized: 0 });
+    try {
+      const scannedFiles = await scan();
+      setFiles(scannedFiles);
+      setSettings(await window.electronAPI.getSettings());
+      if (scanCancelled.current) {
+        toast.info('Scan cancelled', 'Files counted before cancelling were kept');
+      }
+      return scannedFiles;
+    } finally {
+      runningScans.current--;
+      if (runningScans.current === 0) {
+        setScanProgress(null);
+      }
+    }
+  };
+
+  const handleCancelScan = () => {
+    scanCancelled.current = true;
+    window.electronAPI.cancelScan();
+  };
+
+  // Rescans every enabled scan root; settings are reloaded for the new lastScanned times
+  const refreshScanPaths = async () => {
+    await runScan(() => window.electronAPI.rescanScanPaths());
+  };
+  refreshScanPathsRef.current = refreshScanPaths;
+
   const handleScanDirectory = async () => {
     const path = await window.electronAPI.selectDirectory();
     if (path) {
-      setIsLoading(true);
       try {
-        const scannedFiles = await window.electronAPI.scanDirectory(path);
-        setFiles(scannedFiles);
+        const scannedFiles = await runScan(() => window.electronAPI.scanDirectory(path));
         window.electronAPI.trackEvent('scan_completed', { filesFound: scannedFiles.length });
       } catch (error) {
         console.error('Scan failed:', error);
-      } finally {
-        setIsLoading(false);
       }
     }
   };
 
   const handleSaveSettings = async (newSettings: Partial<AppSettings>) => {
+    // The settings dialog sends every field, so rescan only when the ones that change what's scanned did
+    const scanSettingsChanged = (['scanPaths', 'exclusions', 'respectIgnoreFiles'] as const).some(
+      (key) =>
+        newSettings[key] !== undefined && JSON.stringify(newSettings[key]) !== JSON.stringify(settings?.[key])
+    );
     try {
       await window.electronAPI.setSettings(newSettings);
       setSettings((prev) => (prev ? { ...prev, ...newSettings } : prev));
 
+      if (scanSettingsChanged) {
+        await refreshScanPaths();
+      }
+
       if (newSettings.theme) {
         const prefersDark = window.matchMedia('(prefers-color-scheme: dark)').matches;
         const shouldBeDark =
@@ -224,6 +321,8 @@ function App() {
           settings={settings}
           isDark={isDark}
           onScanDirectory={handleScanDirectory}
+          scanProgress={scanProgress}
+          onCancelScan={handleCancelScan}
           onOpenSettings={() => setIsSettingsOpen(true)}
           onSaveSettings={handleSaveSettings}
         />
@@ -234,7 +333,7 @@ function App() {
       )}
 
       {activeView === 'starter-packs' && (
-        <StarterPacksView isDark={isDark} />
+        <StarterPacksView files={files} isDark={isDark} />
       )}
 
       {/* Settings dialog */}
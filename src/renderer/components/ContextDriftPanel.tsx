@@ -0,0 +1,161 @@
+import { useEffect, useMemo, useState } from 'react';
+import { ContextAnalysis, ContextFile, SectionFinding } from '../../shared/types';
+import { getFileFindings } from '../../shared/contextAnalysis';
+import { simplifyPath } from '../utils/findInheritanceChain';
+
+interface ContextDriftPanelProps {
+  selectedFile: ContextFile | null;
+  allFiles: ContextFile[];
+  onSelectFile: (file: ContextFile) => void;
+}
+
+const KIND_LABELS: Record<SectionFinding['kind'], string> = {
+  conflict: 'differs',
+  missing: 'missing',
+  duplicate: 'duplicated',
+};
+
+const KIND_COLORS: Record<SectionFinding['kind'], string> = {
+  conflict: 'text-amber-600 dark:text-amber-400',
+  missing: 'text-orange-600 dark:text-orange-400',
+  duplicate: 'text-content-tertiary',
+};
+
+// Sibling files by name, files elsewhere by path
+function getFileLabel(filePath: string, selectedPath: string): string {
+  const dir = selectedPath.substring(0, selectedPath.lastIndexOf('/') + 1);
+  return filePath.startsWith(dir) ? filePath.substring(dir.length) : simplifyPath(filePath);
+}
+
+/**
+ * Sections of the selected file that drifted from its sibling context files
+ * (the other tools' files for the same project), and sections repeated in
+ * other files, in this project or others.
+ */
+export function ContextDriftPanel({
+  selectedFile,
+  allFiles,
+  onSelectFile,
+}: ContextDriftPanelProps) {
+  const [analysis, setAnalysis] = useState<ContextAnalysis | null>(null);
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    window.electronAPI
+      .analyzeContextFiles(allFiles.map((f) => f.path))
+      .then((result) => {
+        if (!cancelled) setAnalysis(result);
+      })
+      .catch((error) => {
+        console.error('Failed to analyze context files:', error);
+        if (!cancelled) setAnalysis(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [allFiles]);
+
+  const findings = useMemo(
+    () => (analysis && selectedFile ? getFileFindings(analysis.findings, selectedFile.path) : []),
+    [analysis, selectedFile]
+  );
+
+  if (!selectedFile || findings.length === 0) {
+    return null;
+  }
+
+  const counts = (['conflict', 'missing', 'duplicate'] as const)
+    .map((kind) => [kind, findings.filter((f) => f.kind === kind).length] as const)
+    .filter(([, count]) => count > 0)
+    .map(([kind, count]) => `${count} ${KIND_LABELS[kind]}`);
+
+  const renderFiles = (paths: string[]) =>
+    paths
+      .filter((p) => p !== selectedFile.path)
+      .map((p, index) => {
+        const file = allFiles.find((f) => f.path === p);
+        return (
+          <span key={p}>
+            {index > 0 && ', '}
+            <span
+              className={`font-mono ${file ? 'cursor-pointer hover:underline' : ''}`}
+              title={simplifyPath(p)}
+              onClick={() => file && onSelectFile(file)}
+            >
+              {getFileLabel(p, selectedFile.path)}
+            </span>
+          </span>
+        );
+      });
+
+  const describeFinding = (finding: SectionFinding) => {
+    switch (finding.kind) {
+      case 'conflict': {
+        const shared = Math.round((finding.similarity ?? 0) * 100);
+        return (
+          <>
+            Differs from {renderFiles(finding.files)} ({shared}% of lines shared)
+          </>
+        );
+      }
+      case 'missing':
+        return finding.missingFrom?.includes(selectedFile.path) ? (
+          <>Not in this file; in {renderFiles(finding.files)}</>
+        ) : (
+          <>Not in {renderFiles(finding.missingFrom || [])}</>
+        );
+      default:
+        return (
+          <>
+            Same text in {renderFiles(finding.files)}
+            {finding.crossProject && ' (other projects)'}
+          </>
+        );
+    }
+  };
+
+  return (
+    <div className="border-b border-light-border dark:border-surface-border bg-light-surface/50 dark:bg-surface-card/20">
+      {/* Header - always visible */}
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full px-3 py-1.5 flex items-center justify-between hover:bg-light-surface dark:hover:bg-surface-card/50 transition-colors"
+      >
+        <div className="flex items-center gap-2 text-sm">
+          <svg
+            className={`w-3.5 h-3.5 text-gray-400 transition-transform ${isExpanded ? 'rotate-90' : ''}`}
+            fill="none"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+          </svg>
+          <span className="font-medium text-gray-700 dark:text-content-secondary">Drift</span>
+        </div>
+        <span className="text-xs text-content-tertiary">{counts.join(', ')}</span>
+      </button>
+
+      {isExpanded && (
+        <div className="px-3 pb-2 space-y-1">
+          {findings.map((finding) => (
+            <div
+              key={`${finding.kind}:${finding.heading}:${finding.files.join(',')}`}
+              className="flex items-baseline gap-2 text-xs"
+            >
+              <span
+                className={`flex-shrink-0 w-16 text-[10px] uppercase font-medium ${KIND_COLORS[finding.kind]}`}
+              >
+                {KIND_LABELS[finding.kind]}
+              </span>
+              <span className="flex-shrink-0 font-medium text-gray-700 dark:text-content-secondary">
+                {finding.heading}
+              </span>
+              <span className="min-w-0 text-content-tertiary">{describeFinding(finding)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
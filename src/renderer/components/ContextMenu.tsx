@@ -1,7 +1,16 @@
 import { useEffect, useRef } from 'react';
 import { ContextFile } from '../../shared/types';
+import { detectContextFormat } from '../../shared/contextFormats';
+import { useProjectConfigStore } from '../store/projectConfigStore';
+import { FileSyncRole, getFileSyncRole } from '../utils/syncStatus';
 
-export type ContextMenuAction = 'edit' | 'delete' | 'reveal' | 'duplicate';
+export type ContextMenuAction =
+  | 'edit'
+  | 'delete'
+  | 'reveal'
+  | 'duplicate'
+  | 'make-canonical'
+  | 'sync';
 
 interface ContextMenuProps {
   x: number;
@@ -17,17 +26,32 @@ interface MenuItem {
   icon: string;
   shortcut?: string;
   danger?: boolean;
+  visible?: (file: ContextFile, syncRole: FileSyncRole | null) => boolean;
 }
 
 const menuItems: MenuItem[] = [
   { action: 'edit', label: 'Edit', icon: 'M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z' },
   { action: 'reveal', label: 'Reveal in Finder', icon: 'M5 19a2 2 0 01-2-2V7a2 2 0 012-2h4l2 2h4a2 2 0 012 2v1M5 19h14a2 2 0 002-2v-5a2 2 0 00-2-2H9a2 2 0 00-2 2v5a2 2 0 01-2 2z', shortcut: '⌘⇧R' },
   { action: 'duplicate', label: 'Duplicate', icon: 'M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z', shortcut: '⌘D' },
+  {
+    action: 'make-canonical',
+    label: 'Make Canonical',
+    icon: 'M11.049 2.927c.3-.921 1.603-.921 1.902 0l1.519 4.674a1 1 0 00.95.69h4.915c.969 0 1.371 1.24.588 1.81l-3.976 2.888a1 1 0 00-.363 1.118l1.518 4.674c.3.922-.755 1.688-1.538 1.118l-3.976-2.888a1 1 0 00-1.176 0l-3.976 2.888c-.783.57-1.838-.197-1.538-1.118l1.518-4.674a1 1 0 00-.363-1.118l-3.976-2.888c-.784-.57-.38-1.81.588-1.81h4.914a1 1 0 00.951-.69l1.519-4.674z',
+    visible: (file, syncRole) => syncRole?.kind !== 'canonical' && !!detectContextFormat(file.path),
+  },
+  {
+    action: 'sync',
+    label: 'Sync Generated Files',
+    icon: 'M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15',
+    visible: (_, syncRole) => !!syncRole,
+  },
   { action: 'delete', label: 'Delete', icon: 'M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16', shortcut: '⌘⌫', danger: true },
 ];
 
 export function ContextMenu({ x, y, file, onAction, onClose }: ContextMenuProps) {
   const menuRef = useRef<HTMLDivElement>(null);
+  const syncStatuses = useProjectConfigStore((state) => state.syncStatuses);
+  const syncRole = getFileSyncRole(file.path, syncStatuses);
 
   // Close on click outside
   useEffect(() => {
@@ -78,7 +102,7 @@ export function ContextMenu({ x, y, file, onAction, onClose }: ContextMenuProps)
       className="fixed z-50 min-w-[180px] py-1 bg-light-bg dark:bg-surface-card rounded-lg shadow-lg border border-light-border dark:border-surface-border"
       style={{ left: x, top: y }}
     >
-      {menuItems.map((item, index) => (
+      {menuItems.filter((item) => !item.visible || item.visible(file, syncRole)).map((item, index) => (
         <div key={item.action}>
           {item.danger && index > 0 && (
             <div className="my-1 border-t border-light-border dark:border-surface-border" />
@@ -0,0 +1,242 @@
+import { useEffect, useState } from 'react';
+import { ContextFile } from '../../shared/types';
+import {
+  CONTEXT_FORMATS,
+  ContextFormat,
+  ConvertOptions,
+  DEFAULT_RULE_NAME,
+  detectContextFormat,
+  getContextFormat,
+  getRuleName,
+  parseGlobs,
+} from '../../shared/contextFormats';
+import { ConvertedFile } from '../../shared/contextFormatsWriter';
+import { simplifyPath } from '../utils/findInheritanceChain';
+import { Modal } from './Modal';
+
+interface ConvertDialogProps {
+  sources: ContextFile[] | null; // Files that can be converted; the first one is selected
+  onConvert: (
+    sourcePath: string,
+    target: ContextFormat,
+    options: ConvertOptions,
+    overwrite: boolean
+  ) => Promise<void>;
+  onClose: () => void;
+}
+
+const inputClass =
+  'w-full px-3 py-2 text-sm bg-light-surface dark:bg-surface-bg border border-light-border dark:border-surface-border rounded-md text-gray-700 dark:text-content-secondary';
+const labelClass = 'block text-sm font-medium text-gray-700 dark:text-content-secondary mb-1';
+
+// Name and globs only apply to scoped formats; empty globs keep the source's scope
+function getConvertOptions(scoped: boolean, name: string, globs: string): ConvertOptions {
+  if (!scoped) return {};
+  return { name, ...(globs.trim() ? { globs: parseGlobs(globs) } : {}) };
+}
+
+/**
+ * Converts a context file to another tool's format, with a preview of the
+ * converted file and what the target format can't express.
+ */
+export function ConvertDialog({ sources, onConvert, onClose }: ConvertDialogProps) {
+  const [sourcePath, setSourcePath] = useState('');
+  const [target, setTarget] = useState<ContextFormat>('agents');
+  const [name, setName] = useState('');
+  const [globs, setGlobs] = useState('');
+  const [overwrite, setOverwrite] = useState(false);
+  const [preview, setPreview] = useState<ConvertedFile | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isConverting, setIsConverting] = useState(false);
+
+  const sourceFormat = sourcePath ? detectContextFormat(sourcePath) : null;
+  const targetFormat = getContextFormat(target);
+
+  // Start from the first source, converting to the first other format
+  useEffect(() => {
+    if (!sources || sources.length === 0) return;
+    const first = sources[0].path;
+    const format = detectContextFormat(first);
+    setSourcePath(first);
+    setTarget(CONTEXT_FORMATS.find((f) => f.id !== format)!.id);
+    setName((format && getRuleName(first, format)) || DEFAULT_RULE_NAME);
+    setGlobs('');
+    setOverwrite(false);
+  }, [sources]);
+
+  useEffect(() => {
+    if (!sources || !sourcePath) return;
+    let cancelled = false;
+    window.electronAPI
+      .previewContextConversion(
+        sourcePath,
+        target,
+        getConvertOptions(targetFormat.scoped, name, globs)
+      )
+      .then((converted) => {
+        if (cancelled) return;
+        setPreview(converted);
+        setError(null);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setPreview(null);
+        setError(err instanceof Error ? err.message : 'Conversion failed');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [sources, sourcePath, target, targetFormat.scoped, name, globs]);
+
+  if (!sources) return null;
+
+  const handleConvert = async () => {
+    if (!preview) return;
+    setIsConverting(true);
+    try {
+      await onConvert(
+        sourcePath,
+        target,
+        getConvertOptions(targetFormat.scoped, name, globs),
+        overwrite
+      );
+    } finally {
+      setIsConverting(false);
+    }
+  };
+
+  const handleSelectSource = (filePath: string) => {
+    const format = detectContextFormat(filePath);
+    setSourcePath(filePath);
+    if (format === target) setTarget(CONTEXT_FORMATS.find((f) => f.id !== format)!.id);
+    const ruleName = format && getRuleName(filePath, format);
+    if (ruleName) setName(ruleName);
+    setOverwrite(false);
+  };
+
+  const canConvert = !!preview && !isConverting && (!preview.exists || overwrite);
+
+  return (
+    <Modal isOpen={!!sources} onClose={onClose} title="Convert to…" width="lg">
+      <div className="space-y-4">
+        <div>
+          <label className={labelClass}>Source</label>
+          {sources.length > 1 ? (
+            <select
+              value={sourcePath}
+              onChange={(e) => handleSelectSource(e.target.value)}
+              className={inputClass}
+            >
+              {sources.map((file) => (
+                <option key={file.path} value={file.path}>
+                  {simplifyPath(file.path)}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <div className="text-sm font-mono text-gray-700 dark:text-content-secondary break-all">
+              {simplifyPath(sourcePath)}
+            </div>
+          )}
+        </div>
+
+        <div>
+          <label className={labelClass}>Convert to</label>
+          <select
+            value={target}
+            onChange={(e) => {
+              setTarget(e.target.value as ContextFormat);
+              setOverwrite(false);
+            }}
+            className={inputClass}
+          >
+            {CONTEXT_FORMATS.filter((format) => format.id !== sourceFormat).map((format) => (
+              <option key={format.id} value={format.id}>
+                {format.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {targetFormat.scoped && (
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>Name</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Applies to</label>
+              <input
+                type="text"
+                value={globs}
+                onChange={(e) => setGlobs(e.target.value)}
+                placeholder="Same as the source"
+                className={inputClass}
+                title="Comma-separated globs, e.g. src/**/*.ts, tests/**"
+              />
+            </div>
+          </div>
+        )}
+
+        {preview && (
+          <>
+            <div className="bg-light-surface dark:bg-surface-bg rounded-md p-3 border border-light-border dark:border-surface-border">
+              <div className="text-xs text-content-tertiary mb-1">Creates:</div>
+              <div className="text-sm font-mono text-gray-700 dark:text-content-secondary break-all">
+                {simplifyPath(preview.path)}
+              </div>
+            </div>
+
+            {preview.warnings.length > 0 && (
+              <ul className="space-y-1 text-sm text-amber-600 dark:text-amber-400 list-disc pl-5">
+                {preview.warnings.map((warning) => (
+                  <li key={warning}>{warning}</li>
+                ))}
+              </ul>
+            )}
+
+            <div className="bg-light-surface dark:bg-surface-bg rounded-md border border-light-border dark:border-surface-border max-h-[240px] overflow-auto">
+              <pre className="p-3 text-xs font-mono text-gray-700 dark:text-content-secondary whitespace-pre-wrap">
+                {preview.content}
+              </pre>
+            </div>
+
+            {preview.exists && (
+              <label className="flex items-center gap-2 text-sm text-amber-600 dark:text-amber-400">
+                <input
+                  type="checkbox"
+                  checked={overwrite}
+                  onChange={(e) => setOverwrite(e.target.checked)}
+                />
+                The file already exists. Replace it
+              </label>
+            )}
+          </>
+        )}
+
+        {error && <p className="text-sm text-red-500 dark:text-red-400">{error}</p>}
+
+        <div className="flex justify-end gap-2 pt-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-content-secondary bg-light-surface dark:bg-surface-hover hover:bg-light-border dark:hover:bg-surface-hover rounded-md transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleConvert}
+            disabled={!canConvert}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-500 hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed rounded-md transition-colors"
+          >
+            Convert
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -1,6 +1,6 @@
 import { useEffect, useRef } from 'react';
 
-export type FolderContextMenuAction = 'add-file' | 'reveal' | 'remove';
+export type FolderContextMenuAction = 'add-file' | 'convert' | 'project-config' | 'reveal' | 'remove';
 
 interface FolderContextMenuProps {
   x: number;
@@ -24,6 +24,16 @@ const menuItems: MenuItem[] = [
     label: 'New File Here',
     icon: 'M12 4v16m8-8H4',
   },
+  {
+    action: 'convert',
+    label: 'Convert to…',
+    icon: 'M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4',
+  },
+  {
+    action: 'project-config',
+    label: 'Edit Project Config',
+    icon: 'M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065zM15 12a3 3 0 11-6 0 3 3 0 016 0z',
+  },
   {
     action: 'reveal',
     label: 'Reveal in Finder',
@@ -42,6 +42,13 @@ export function GlobalConfigSection({
       }
     }
     loadConfig();
+
+    // Reload when files under ~/.claude change on disk
+    return window.electronAPI.onContextFilesChanged((events) => {
+      if (events.some((e) => e.scope === 'global')) {
+        loadConfig();
+      }
+    });
   }, []);
 
   // Toggle directory expansion
@@ -1,6 +1,16 @@
-import { useEffect, useState, useCallback } from 'react';
-import { ContextFile, InheritanceChainItem, AppSettings } from '../../shared/types';
-import { getInheritanceChainWithTokens, calculateTotalTokens } from '../utils/findInheritanceChain';
+import { useEffect, useState, useCallback, ReactNode } from 'react';
+import {
+  ContextFile,
+  InheritanceChainItem,
+  AppSettings,
+  MemoryFile,
+  MemoryFileStatus,
+} from '../../shared/types';
+import { getContextCost, calculateTotalTokens, simplifyPath } from '../utils/findInheritanceChain';
+import { describeBudget, getBudgetColorClass, getFileBudget } from '../utils/tokenBudgets';
+import { getBudgetStatus } from '../../shared/budgets';
+import { useProjectConfigStore } from '../store/projectConfigStore';
+import { getFileToolProfile } from '../utils/toolProfiles';
 
 interface HierarchicalCostPanelProps {
   selectedFile: ContextFile | null;
@@ -9,6 +19,33 @@ interface HierarchicalCostPanelProps {
   onSelectFile: (file: ContextFile | null) => void;
 }
 
+// Imports that weren't read, and why
+const IMPORT_STATUS_LABELS: Partial<Record<MemoryFileStatus, string>> = {
+  missing: 'not found',
+  cycle: 'import cycle',
+  'depth-limit': 'too deep',
+  duplicate: 'already loaded',
+};
+
+function countLoadedImports(imports: MemoryFile[]): number {
+  return imports.reduce(
+    (count, file) => count + (file.status === 'loaded' ? 1 : 0) + countLoadedImports(file.imports),
+    0
+  );
+}
+
+// Imported files are Claude memory, whether or not a scan found them
+function toMemoryContextFile(file: MemoryFile): ContextFile {
+  return {
+    id: file.path,
+    path: file.path,
+    name: file.path.split('/').pop() || file.path,
+    toolId: 'claude',
+    lastModified: Date.now(),
+    size: 0,
+  };
+}
+
 export function HierarchicalCostPanel({
   selectedFile,
   allFiles,
@@ -16,50 +53,55 @@ export function HierarchicalCostPanel({
   onSelectFile,
 }: HierarchicalCostPanelProps) {
   const [chain, setChain] = useState<InheritanceChainItem[]>([]);
+  const [onDemand, setOnDemand] = useState<InheritanceChainItem[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isExpanded, setIsExpanded] = useState(true);
 
+  const projectConfigs = useProjectConfigStore((state) => state.configs);
+
   // Load inheritance chain when selected file changes
   useEffect(() => {
     async function loadChain() {
       if (!selectedFile) {
         setChain([]);
+        setOnDemand([]);
         return;
       }
 
       setIsLoading(true);
       try {
-        const profile = settings?.toolProfiles.find((p) => p.id === selectedFile.toolId);
-        const tokenizer = profile?.tokenizer || 'anthropic';
-        const inheritanceChain = await getInheritanceChainWithTokens(selectedFile, allFiles, tokenizer);
-        setChain(inheritanceChain);
+        const profile = getFileToolProfile(selectedFile.path, selectedFile.toolId, settings, projectConfigs);
+        const cost = await getContextCost(selectedFile, allFiles, profile);
+        setChain(cost.chain);
+        setOnDemand(cost.onDemand);
       } catch (error) {
         console.error('Failed to load inheritance chain:', error);
         setChain([]);
+        setOnDemand([]);
       } finally {
         setIsLoading(false);
       }
     }
 
     loadChain();
-  }, [selectedFile, allFiles, settings]);
+  }, [selectedFile, allFiles, settings, projectConfigs]);
 
   const totalTokens = calculateTotalTokens(chain);
-  const hasInheritedFiles = chain.length > 1;
-
-  // Get token color based on thresholds
-  const getTokenColor = useCallback((tokens: number) => {
-    if (tokens < 5000) return 'text-green-600 dark:text-green-400';
-    if (tokens < 20000) return 'text-yellow-600 dark:text-yellow-400';
-    return 'text-red-600 dark:text-red-400';
-  }, []);
+  const fileCount = chain.reduce((count, item) => count + countLoadedImports(item.imports || []), chain.length);
+  const hasInheritedFiles = fileCount > 1;
 
-  // Get total token color with higher thresholds
-  const getTotalTokenColor = useCallback((tokens: number) => {
-    if (tokens < 10000) return 'text-green-600 dark:text-green-400';
-    if (tokens < 50000) return 'text-yellow-600 dark:text-yellow-400';
-    return 'text-red-600 dark:text-red-400';
-  }, []);
+  // Each file in the chain is checked against its own file budget (the
+  // global file uses the selected file's tool), the total against the
+  // selected file's total budget
+  const getItemBudget = useCallback(
+    (item: InheritanceChainItem) =>
+      getFileBudget(item.path, item.file?.toolId ?? selectedFile?.toolId, settings, projectConfigs),
+    [selectedFile, settings, projectConfigs]
+  );
+  const totalBudget = selectedFile
+    ? getFileBudget(selectedFile.path, selectedFile.toolId, settings, projectConfigs).total
+    : null;
+  const totalStatus = totalBudget ? getBudgetStatus(totalTokens, totalBudget) : 'ok';
 
   // Format token count
   const formatTokens = useCallback((tokens: number) => {
@@ -81,6 +123,47 @@ export function HierarchicalCostPanel({
     [onSelectFile]
   );
 
+  // Imports, indented under the file that imports them
+  const renderImports = (imports: MemoryFile[] | undefined, depth: number): ReactNode =>
+    imports?.map((imported) => {
+      const statusLabel = IMPORT_STATUS_LABELS[imported.status];
+      return (
+        <div key={`${depth}:${imported.path}`}>
+          <div
+            className={`flex items-center gap-2 text-xs px-2 py-0.5 -mx-2 ${
+              statusLabel
+                ? ''
+                : 'cursor-pointer hover:bg-light-surface dark:hover:bg-surface-card rounded'
+            }`}
+            style={{ paddingLeft: `${depth * 16 + 8}px` }}
+            onClick={() => !statusLabel && onSelectFile(toMemoryContextFile(imported))}
+          >
+            <span className="text-content-tertiary flex-shrink-0">&#8627;</span>
+            <span
+              className={`truncate flex-1 font-mono ${
+                statusLabel ? 'text-content-tertiary line-through' : 'text-gray-600 dark:text-content-tertiary'
+              }`}
+              title={simplifyPath(imported.path)}
+            >
+              @{imported.reference}
+            </span>
+            {statusLabel ? (
+              <span className="flex-shrink-0 text-amber-600 dark:text-amber-400 text-[10px] uppercase font-medium">
+                {statusLabel}
+              </span>
+            ) : (
+              imported.tokens !== undefined && (
+                <span className="flex-shrink-0 font-mono text-content-tertiary">
+                  {formatTokens(imported.tokens)}
+                </span>
+              )
+            )}
+          </div>
+          {renderImports(imported.imports, depth + 1)}
+        </div>
+      );
+    });
+
   if (!selectedFile || chain.length === 0) {
     return null;
   }
@@ -104,7 +187,7 @@ export function HierarchicalCostPanel({
           <span className="font-medium text-gray-700 dark:text-content-secondary">Context Cost</span>
           {hasInheritedFiles && (
             <span className="text-xs text-content-tertiary">
-              ({chain.length} files)
+              ({fileCount} files)
             </span>
           )}
         </div>
@@ -112,7 +195,10 @@ export function HierarchicalCostPanel({
           {isLoading ? (
             <span className="text-xs text-content-tertiary">Loading...</span>
           ) : (
-            <span className={`text-sm font-medium ${getTotalTokenColor(totalTokens)}`}>
+            <span
+              className={`text-sm font-medium ${getBudgetColorClass(totalStatus)}`}
+              title={totalBudget ? describeBudget(totalTokens, totalBudget) : undefined}
+            >
               {formatTokens(totalTokens)} tokens total
             </span>
           )}
@@ -123,101 +209,143 @@ export function HierarchicalCostPanel({
       {isExpanded && !isLoading && (
         <div className="px-4 pb-3">
           <div className="space-y-1">
-            {chain.map((item, index) => (
-              <div
-                key={item.path}
-                className={`flex items-center gap-2 text-xs ${
-                  item.file && !item.isCurrent
-                    ? 'cursor-pointer hover:bg-light-surface dark:hover:bg-surface-card rounded px-2 py-1 -mx-2'
-                    : 'px-2 py-1 -mx-2'
-                }`}
-                onClick={() => item.file && !item.isCurrent && handleFileClick(item)}
-              >
-                {/* Connector line */}
-                <div className="flex items-center w-4 justify-center">
-                  {index === chain.length - 1 ? (
-                    <div className="w-2 h-2 rounded-full bg-blue-500" />
+            {chain.map((item) => (
+              <div key={item.path}>
+                <div
+                  className={`flex items-center gap-2 text-xs ${
+                    item.file && !item.isCurrent
+                      ? 'cursor-pointer hover:bg-light-surface dark:hover:bg-surface-card rounded px-2 py-1 -mx-2'
+                      : 'px-2 py-1 -mx-2'
+                  }`}
+                  onClick={() => item.file && !item.isCurrent && handleFileClick(item)}
+                >
+                  {/* Connector line */}
+                  <div className="flex items-center w-4 justify-center">
+                    {item.isCurrent ? (
+                      <div className="w-2 h-2 rounded-full bg-blue-500" />
+                    ) : (
+                      <div className="w-1.5 h-1.5 rounded-full bg-light-border dark:bg-surface-border" />
+                    )}
+                  </div>
+
+                  {/* File icon */}
+                  {item.isGlobal ? (
+                    <svg
+                      className="w-3.5 h-3.5 text-ai flex-shrink-0"
+                      fill="none"
+                      viewBox="0 0 24 24"
+                      stroke="currentColor"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M3 12l2-2m0 0l7-7 7 7M5 10v10a1 1 0 001 1h3m10-11l2 2m-2-2v10a1 1 0 01-1 1h-3m-6 0a1 1 0 001-1v-4a1 1 0 011-1h2a1 1 0 011 1v4a1 1 0 001 1m-6 0h6"
+                      />
+                    </svg>
                   ) : (
-                    <div className="w-1.5 h-1.5 rounded-full bg-light-border dark:bg-surface-border" />
+                    <svg
+                      className={`w-3.5 h-3.5 flex-shrink-0 ${
+                        item.isCurrent ? 'text-blue-500' : 'text-content-tertiary'
+                      }`}
+                      fill="none"
+                      viewBox="0 0 24 24"
+                      stroke="currentColor"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
+                      />
+                    </svg>
                   )}
-                </div>
 
-                {/* File icon */}
-                {item.isGlobal ? (
-                  <svg
-                    className="w-3.5 h-3.5 text-ai flex-shrink-0"
-                    fill="none"
-                    viewBox="0 0 24 24"
-                    stroke="currentColor"
-                  >
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      strokeWidth={2}
-                      d="M3 12l2-2m0 0l7-7 7 7M5 10v10a1 1 0 001 1h3m10-11l2 2m-2-2v10a1 1 0 01-1 1h-3m-6 0a1 1 0 001-1v-4a1 1 0 011-1h2a1 1 0 011 1v4a1 1 0 001 1m-6 0h6"
-                    />
-                  </svg>
-                ) : (
-                  <svg
-                    className={`w-3.5 h-3.5 flex-shrink-0 ${
-                      item.isCurrent ? 'text-blue-500' : 'text-content-tertiary'
+                  {/* Path */}
+                  <span
+                    className={`truncate flex-1 ${
+                      item.isCurrent
+                        ? 'font-medium text-gray-900 dark:text-content-primary'
+                        : item.isGlobal
+                          ? 'text-ai-deep dark:text-ai-light'
+                          : 'text-gray-600 dark:text-content-tertiary'
                     }`}
-                    fill="none"
-                    viewBox="0 0 24 24"
-                    stroke="currentColor"
+                    title={item.path}
                   >
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      strokeWidth={2}
-                      d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
-                    />
-                  </svg>
-                )}
-
-                {/* Path */}
-                <span
-                  className={`truncate flex-1 ${
-                    item.isCurrent
-                      ? 'font-medium text-gray-900 dark:text-content-primary'
-                      : item.isGlobal
-                        ? 'text-ai-deep dark:text-ai-light'
-                        : 'text-gray-600 dark:text-content-tertiary'
-                  }`}
-                  title={item.path}
-                >
-                  {item.displayPath}
-                </span>
-
-                {/* Tokens */}
-                {item.tokens !== undefined && (
-                  <span className={`flex-shrink-0 font-mono ${getTokenColor(item.tokens)}`}>
-                    {formatTokens(item.tokens)}
+                    {item.displayPath}
                   </span>
-                )}
 
-                {/* Current indicator */}
-                {item.isCurrent && (
-                  <span className="flex-shrink-0 text-blue-500 dark:text-blue-400 text-[10px] uppercase font-medium">
-                    current
-                  </span>
-                )}
+                  {/* Tokens */}
+                  {item.tokens !== undefined && (
+                    <span
+                      className={`flex-shrink-0 font-mono ${getBudgetColorClass(getBudgetStatus(item.tokens, getItemBudget(item).file))}`}
+                      title={describeBudget(item.tokens, getItemBudget(item).file)}
+                    >
+                      {formatTokens(item.tokens)}
+                    </span>
+                  )}
+
+                  {/* Current indicator */}
+                  {item.isCurrent && (
+                    <span className="flex-shrink-0 text-blue-500 dark:text-blue-400 text-[10px] uppercase font-medium">
+                      current
+                    </span>
+                  )}
+                </div>
+                {renderImports(item.imports, 1)}
               </div>
             ))}
           </div>
 
+          {/* Files loaded for some paths only: nested CLAUDE.md files, scoped rules */}
+          {onDemand.length > 0 && (
+            <div className="mt-2 pt-2 border-t border-light-border dark:border-surface-border">
+              <div className="text-xs text-content-tertiary mb-1">
+                Loaded on demand (not in total)
+              </div>
+              <div className="space-y-1">
+                {onDemand.map((item) => (
+                  <div key={item.path}>
+                    <div
+                      className={`flex items-center gap-2 text-xs px-2 py-1 -mx-2 ${
+                        item.file ? 'cursor-pointer hover:bg-light-surface dark:hover:bg-surface-card rounded' : ''
+                      }`}
+                      onClick={() => handleFileClick(item)}
+                    >
+                      <span className="truncate flex-1 text-gray-600 dark:text-content-tertiary" title={item.path}>
+                        {item.displayPath}
+                      </span>
+                      <span className="flex-shrink-0 font-mono text-content-tertiary">
+                        {formatTokens((item.tokens || 0) + (item.importTokens || 0))}
+                      </span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Summary */}
           {hasInheritedFiles && (
             <div className="mt-2 pt-2 border-t border-light-border dark:border-surface-border flex items-center justify-between text-xs">
               <span className="text-content-tertiary">
                 Total context loaded with this file
               </span>
-              <span className={`font-medium ${getTotalTokenColor(totalTokens)}`}>
+              <span className={`font-medium ${getBudgetColorClass(totalStatus)}`}>
                 {totalTokens.toLocaleString()} tokens
               </span>
             </div>
           )}
 
+          {/* Budget */}
+          {totalBudget && totalStatus !== 'ok' && (
+            <div className={`mt-2 text-xs ${getBudgetColorClass(totalStatus)}`}>
+              {totalStatus === 'over'
+                ? `${(totalTokens - totalBudget.limit).toLocaleString()} tokens over the ${totalBudget.limit.toLocaleString()} token budget`
+                : `Close to the ${totalBudget.limit.toLocaleString()} token budget`}
+            </div>
+          )}
+
           {/* Model fit indicator */}
           <div className="mt-2 text-xs">
             {totalTokens < 50000 ? (
@@ -5,6 +5,7 @@ import { ContextFile, AppSettings } from '../../shared/types';
 import { Breadcrumb } from './Breadcrumb';
 import { AIActionsToolbar } from './AIActionsToolbar';
 import { HierarchicalCostPanel } from './HierarchicalCostPanel';
+import { ContextDriftPanel } from './ContextDriftPanel';
 
 // Configure Monaco to load from CDN (more reliable in Electron)
 loader.config({
@@ -161,6 +162,13 @@ export function MainContent({ selectedFile, allFiles, onSelectFile, settings, is
         onSelectFile={onSelectFile}
       />
 
+      {/* Drift Panel - sections that differ from or repeat other context files */}
+      <ContextDriftPanel
+        selectedFile={selectedFile}
+        allFiles={allFiles}
+        onSelectFile={onSelectFile}
+      />
+
       {/* File header */}
       <div className="px-4 py-2 border-b border-light-border dark:border-surface-border bg-light-surface dark:bg-surface-card/50 flex items-center justify-between">
         <div className="flex items-center gap-2 min-w-0">
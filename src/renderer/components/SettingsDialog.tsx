@@ -1,7 +1,19 @@
 import { useState, useEffect } from 'react';
 import { Modal } from './Modal';
 import { ToolIcon } from './ToolIcon';
-import { AppSettings, AISettings, AIProvider, defaultAISettings } from '../../shared/types';
+import { ToolProfilesEditor } from './ToolProfilesEditor';
+import { TokenBudgetsEditor } from './TokenBudgetsEditor';
+import {
+  AppSettings,
+  AISettings,
+  AIProvider,
+  BudgetPolicy,
+  ExclusionReason,
+  PatternTestResult,
+  ScanRoot,
+  ToolProfile,
+  defaultAISettings,
+} from '../../shared/types';
 
 interface SettingsDialogProps {
   isOpen: boolean;
@@ -10,13 +22,23 @@ interface SettingsDialogProps {
   onSaveSettings: (settings: Partial<AppSettings>) => void;
 }
 
-type Tab = 'scan' | 'tools' | 'appearance' | 'ai' | 'privacy';
+type Tab = 'scan' | 'profiles' | 'patterns' | 'tools' | 'budgets' | 'appearance' | 'ai' | 'privacy';
 
 export function SettingsDialog({ isOpen, onClose, settings, onSaveSettings }: SettingsDialogProps) {
   const [activeTab, setActiveTab] = useState<Tab>('scan');
-  const [scanPaths, setScanPaths] = useState<string[]>([]);
+  const [scanPaths, setScanPaths] = useState<ScanRoot[]>([]);
   const [exclusions, setExclusions] = useState<string[]>([]);
   const [newExclusion, setNewExclusion] = useState('');
+  const [respectIgnoreFiles, setRespectIgnoreFiles] = useState(false);
+  const [explainPath, setExplainPath] = useState('');
+  const [explainResult, setExplainResult] = useState<{ path: string; reason: ExclusionReason | null } | null>(null);
+  const [toolProfiles, setToolProfiles] = useState<ToolProfile[]>([]);
+  const [patternProfileId, setPatternProfileId] = useState('');
+  const [patternDraft, setPatternDraft] = useState('');
+  const [patternTestDir, setPatternTestDir] = useState<string | null>(null);
+  const [patternTestResult, setPatternTestResult] = useState<PatternTestResult | null>(null);
+  const [isTestingPatterns, setIsTestingPatterns] = useState(false);
+  const [budgets, setBudgets] = useState<BudgetPolicy>({});
   const [theme, setTheme] = useState<'system' | 'light' | 'dark'>('system');
   const [editorFontSize, setEditorFontSize] = useState(14);
   const [analyticsEnabled, setAnalyticsEnabled] = useState(true);
@@ -30,6 +52,13 @@ export function SettingsDialog({ isOpen, onClose, settings, onSaveSettings }: Se
     if (isOpen && settings) {
       setScanPaths(settings.scanPaths || []);
       setExclusions(settings.exclusions || []);
+      setRespectIgnoreFiles(settings.respectIgnoreFiles ?? false);
+      setExplainResult(null);
+      setToolProfiles(settings.toolProfiles);
+      setPatternProfileId(settings.toolProfiles[0]?.id || '');
+      setPatternDraft(settings.toolProfiles[0]?.patterns.join('\n') || '');
+      setPatternTestResult(null);
+      setBudgets(settings.budgets || {});
       setTheme(settings.theme);
       setEditorFontSize(settings.editorFontSize);
       setAnalyticsEnabled(settings.analyticsEnabled ?? true);
@@ -41,17 +70,35 @@ export function SettingsDialog({ isOpen, onClose, settings, onSaveSettings }: Se
 
   const handleAddScanPath = async () => {
     const path = await window.electronAPI.selectDirectory();
-    if (path && !scanPaths.includes(path)) {
-      setScanPaths([...scanPaths, path]);
+    if (path && !scanPaths.some((root) => root.path === path)) {
+      setScanPaths([...scanPaths, { path, enabled: true, exclusions: [] }]);
       setHasChanges(true);
     }
   };
 
   const handleRemoveScanPath = (pathToRemove: string) => {
-    setScanPaths(scanPaths.filter((p) => p !== pathToRemove));
+    setScanPaths(scanPaths.filter((root) => root.path !== pathToRemove));
     setHasChanges(true);
   };
 
+  const handleUpdateScanPath = (pathToUpdate: string, changes: Partial<ScanRoot>) => {
+    setScanPaths(scanPaths.map((root) => (root.path === pathToUpdate ? { ...root, ...changes } : root)));
+    setHasChanges(true);
+  };
+
+  const handleScanDepthChange = (pathToUpdate: string, value: string) => {
+    const depth = parseInt(value, 10);
+    handleUpdateScanPath(pathToUpdate, { maxDepth: isNaN(depth) || depth < 0 ? undefined : depth });
+  };
+
+  const handleScanExclusionsChange = (pathToUpdate: string, value: string) => {
+    const rootExclusions = value
+      .split(',')
+      .map((e) => e.trim())
+      .filter(Boolean);
+    handleUpdateScanPath(pathToUpdate, { exclusions: rootExclusions });
+  };
+
   const handleAddExclusion = () => {
     const trimmed = newExclusion.trim();
     if (trimmed && !exclusions.includes(trimmed)) {
@@ -66,6 +113,79 @@ export function SettingsDialog({ isOpen, onClose, settings, onSaveSettings }: Se
     setHasChanges(true);
   };
 
+  const handleRespectIgnoreFilesChange = (enabled: boolean) => {
+    setRespectIgnoreFiles(enabled);
+    setHasChanges(true);
+  };
+
+  // Uses the unsaved exclusions so the effect of edits can be checked before saving
+  const handleExplainExclusion = async () => {
+    const filePath = explainPath.trim();
+    if (!filePath) return;
+    try {
+      const reason = await window.electronAPI.explainExclusion(filePath, {
+        scanPaths,
+        exclusions,
+        respectIgnoreFiles,
+      });
+      setExplainResult({ path: filePath, reason });
+    } catch (error) {
+      console.error('Failed to explain exclusion:', error);
+    }
+  };
+
+  const handleToolProfilesChange = (profiles: ToolProfile[]) => {
+    setToolProfiles(profiles);
+    setHasChanges(true);
+    if (!profiles.some((p) => p.id === patternProfileId)) {
+      setPatternProfileId(profiles[0]?.id || '');
+      setPatternDraft(profiles[0]?.patterns.join('\n') || '');
+    }
+  };
+
+  const parsePatternDraft = () =>
+    patternDraft
+      .split('\n')
+      .map((p) => p.trim())
+      .filter(Boolean);
+
+  const handlePatternProfileChange = (profileId: string) => {
+    setPatternProfileId(profileId);
+    setPatternDraft(toolProfiles.find((p) => p.id === profileId)?.patterns.join('\n') || '');
+    setPatternTestResult(null);
+  };
+
+  const handleSelectPatternTestDir = async () => {
+    const dir = await window.electronAPI.selectDirectory();
+    if (dir) {
+      setPatternTestDir(dir);
+      setPatternTestResult(null);
+    }
+  };
+
+  const handleTestPatterns = async () => {
+    if (!patternTestDir) return;
+    setIsTestingPatterns(true);
+    try {
+      setPatternTestResult(await window.electronAPI.testToolPatterns(patternTestDir, parsePatternDraft()));
+    } catch (error) {
+      console.error('Pattern test failed:', error);
+    } finally {
+      setIsTestingPatterns(false);
+    }
+  };
+
+  const handleApplyPatterns = () => {
+    const patterns = parsePatternDraft();
+    setToolProfiles(toolProfiles.map((p) => (p.id === patternProfileId ? { ...p, patterns } : p)));
+    setHasChanges(true);
+  };
+
+  const handleBudgetsChange = (policy: BudgetPolicy) => {
+    setBudgets(policy);
+    setHasChanges(true);
+  };
+
   const handleThemeChange = (newTheme: 'system' | 'light' | 'dark') => {
     setTheme(newTheme);
     setHasChanges(true);
@@ -169,6 +289,9 @@ export function SettingsDialog({ isOpen, onClose, settings, onSaveSettings }: Se
     onSaveSettings({
       scanPaths,
       exclusions,
+      respectIgnoreFiles,
+      toolProfiles,
+      budgets,
       theme,
       editorFontSize,
       analyticsEnabled,
@@ -180,7 +303,10 @@ export function SettingsDialog({ isOpen, onClose, settings, onSaveSettings }: Se
 
   const tabs: { id: Tab; label: string }[] = [
     { id: 'scan', label: 'Scan Paths' },
+    { id: 'profiles', label: 'Tools' },
+    { id: 'patterns', label: 'File Patterns' },
     { id: 'tools', label: 'Exclusions' },
+    { id: 'budgets', label: 'Budgets' },
     { id: 'appearance', label: 'Appearance' },
     { id: 'ai', label: 'AI Providers' },
     { id: 'privacy', label: 'Privacy' },
@@ -223,7 +349,8 @@ export function SettingsDialog({ isOpen, onClose, settings, onSaveSettings }: Se
                 </h3>
                 <p className="text-xs text-content-tertiary mb-3">
                   Add directories to scan for AI context files. Tokencentric will search these
-                  locations for CLAUDE.md, .cursorrules, and other context files.
+                  locations for CLAUDE.md, .cursorrules, and other context files. Leave depth
+                  empty to scan all subdirectories.
                 </p>
                 <button
                   onClick={handleAddScanPath}
@@ -235,23 +362,75 @@ export function SettingsDialog({ isOpen, onClose, settings, onSaveSettings }: Se
 
               {scanPaths.length > 0 ? (
                 <div className="space-y-2">
-                  {scanPaths.map((path) => (
+                  {scanPaths.map((root) => (
                     <div
-                      key={path}
-                      className="flex items-center justify-between p-3 bg-light-surface dark:bg-surface-bg rounded-md border border-light-border dark:border-surface-border"
+                      key={root.path}
+                      className="p-3 bg-light-surface dark:bg-surface-bg rounded-md border border-light-border dark:border-surface-border"
                     >
-                      <span className="text-sm font-mono text-gray-700 dark:text-content-secondary truncate flex-1 mr-2">
-                        {path}
-                      </span>
-                      <button
-                        onClick={() => handleRemoveScanPath(path)}
-                        className="p-1 text-gray-400 hover:text-red-500 transition-colors"
-                        title="Remove"
-                      >
-                        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                        </svg>
-                      </button>
+                      <div className="flex items-center justify-between">
+                        <button
+                          type="button"
+                          role="switch"
+                          aria-checked={root.enabled}
+                          onClick={() => handleUpdateScanPath(root.path, { enabled: !root.enabled })}
+                          className={`relative flex-shrink-0 w-9 h-5 mr-3 rounded-full transition-colors ${
+                            root.enabled
+                              ? 'bg-blue-500'
+                              : 'bg-light-border dark:bg-surface-border'
+                          }`}
+                          title={root.enabled ? 'Disable' : 'Enable'}
+                        >
+                          <span
+                            className={`absolute top-0.5 left-0.5 w-4 h-4 bg-light-bg rounded-full shadow transition-transform ${
+                              root.enabled ? 'translate-x-4' : 'translate-x-0'
+                            }`}
+                          />
+                        </button>
+                        <span
+                          className={`text-sm font-mono truncate flex-1 mr-2 ${
+                            root.enabled
+                              ? 'text-gray-700 dark:text-content-secondary'
+                              : 'text-content-tertiary line-through'
+                          }`}
+                        >
+                          {root.path}
+                        </span>
+                        <button
+                          onClick={() => handleRemoveScanPath(root.path)}
+                          className="p-1 text-gray-400 hover:text-red-500 transition-colors"
+                          title="Remove"
+                        >
+                          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                          </svg>
+                        </button>
+                      </div>
+                      <div className="flex gap-2 mt-2">
+                        <label className="flex items-center gap-1 text-xs text-content-tertiary">
+                          Depth
+                          <input
+                            type="number"
+                            min={0}
+                            value={root.maxDepth ?? ''}
+                            onChange={(e) => handleScanDepthChange(root.path, e.target.value)}
+                            placeholder="∞"
+                            className="w-14 px-2 py-1 text-xs bg-light-bg dark:bg-surface-card border border-light-border dark:border-surface-border rounded text-gray-700 dark:text-content-secondary"
+                          />
+                        </label>
+                        <input
+                          type="text"
+                          key={root.exclusions.join(',')}
+                          defaultValue={root.exclusions.join(', ')}
+                          onBlur={(e) => handleScanExclusionsChange(root.path, e.target.value)}
+                          placeholder="Extra exclusions, e.g. fixtures, vendor"
+                          className="flex-1 px-2 py-1 text-xs bg-light-bg dark:bg-surface-card border border-light-border dark:border-surface-border rounded text-gray-700 dark:text-content-secondary"
+                        />
+                      </div>
+                      <p className="mt-2 text-xs text-content-tertiary">
+                        {root.lastScanned
+                          ? `Last scanned ${new Date(root.lastScanned).toLocaleString()}`
+                          : 'Not scanned yet'}
+                      </p>
                     </div>
                   ))}
                 </div>
@@ -273,6 +452,8 @@ export function SettingsDialog({ isOpen, onClose, settings, onSaveSettings }: Se
                 </h3>
                 <p className="text-xs text-content-tertiary mb-3">
                   Directories and files matching these patterns will be skipped during scanning.
+                  Patterns use .gitignore syntax, e.g. <code>packages/*/fixtures</code> or{' '}
+                  <code>**/*.snap</code>; prefix with <code>!</code> to re-include.
                 </p>
                 <div className="flex gap-2">
                   <input
@@ -310,6 +491,199 @@ export function SettingsDialog({ isOpen, onClose, settings, onSaveSettings }: Se
                   </span>
                 ))}
               </div>
+
+              <div className="pt-4 border-t border-light-border dark:border-surface-border">
+                <label className="flex items-center gap-3 cursor-pointer">
+                  <button
+                    type="button"
+                    role="switch"
+                    aria-checked={respectIgnoreFiles}
+                    onClick={() => handleRespectIgnoreFilesChange(!respectIgnoreFiles)}
+                    className={`relative w-11 h-6 rounded-full transition-colors ${
+                      respectIgnoreFiles
+                        ? 'bg-blue-500'
+                        : 'bg-light-border dark:bg-surface-border'
+                    }`}
+                  >
+                    <span
+                      className={`absolute top-0.5 left-0.5 w-5 h-5 bg-light-bg rounded-full shadow transition-transform ${
+                        respectIgnoreFiles ? 'translate-x-5' : 'translate-x-0'
+                      }`}
+                    />
+                  </button>
+                  <span className="text-sm text-gray-700 dark:text-content-secondary">
+                    Skip files ignored by .gitignore and .ignore
+                  </span>
+                </label>
+                <p className="text-xs text-content-tertiary mt-2">
+                  Each repository&apos;s own ignore files are used. Note that CLAUDE.local.md is
+                  often gitignored.
+                </p>
+              </div>
+
+              <div className="pt-4 border-t border-light-border dark:border-surface-border">
+                <h3 className="text-sm font-medium text-gray-700 dark:text-content-secondary mb-2">
+                  Why Is a File Excluded?
+                </h3>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={explainPath}
+                    onChange={(e) => setExplainPath(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleExplainExclusion()}
+                    placeholder="/path/to/project/CLAUDE.md"
+                    className="flex-1 px-3 py-2 text-sm font-mono bg-light-surface dark:bg-surface-bg border border-light-border dark:border-surface-border rounded-md text-gray-700 dark:text-content-secondary"
+                  />
+                  <button
+                    onClick={handleExplainExclusion}
+                    disabled={!explainPath.trim()}
+                    className="px-3 py-2 text-sm font-medium text-blue-600 dark:text-blue-400 border border-blue-300 dark:border-blue-600 rounded-md hover:bg-blue-50 dark:hover:bg-blue-900/30 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Check
+                  </button>
+                </div>
+                {explainResult && (
+                  <p
+                    className={`mt-2 text-xs ${
+                      explainResult.reason
+                        ? 'text-amber-600 dark:text-amber-400'
+                        : 'text-green-600 dark:text-green-400'
+                    }`}
+                  >
+                    {explainResult.reason
+                      ? explainResult.reason.path === explainResult.path
+                        ? `Excluded: ${explainResult.reason.message}`
+                        : `Excluded: ${explainResult.reason.path} — ${explainResult.reason.message}`
+                      : 'Included in scans'}
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+
+          {activeTab === 'budgets' && (
+            <div className="space-y-4">
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 dark:text-content-secondary mb-2">
+                  Token Budgets
+                </h3>
+                <p className="text-xs text-content-tertiary mb-3">
+                  Token counts above the warning are shown in yellow, above the budget in red.
+                  The file budget applies to each context file, the total budget to a file plus
+                  everything it inherits. A project can override these in the{' '}
+                  <code>budgets</code> section of a <code>.tokencentric.json</code> file, which
+                  is also used by <code>tokencentric validate</code>.
+                </p>
+              </div>
+              <TokenBudgetsEditor policy={budgets} profiles={toolProfiles} onChange={handleBudgetsChange} />
+            </div>
+          )}
+
+          {activeTab === 'profiles' && (
+            <div className="space-y-4">
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 dark:text-content-secondary mb-2">
+                  Tool Profiles
+                </h3>
+                <p className="text-xs text-content-tertiary mb-3">
+                  Each tool defines which files are context files and which tokenizer counts
+                  them. Tools are matched top to bottom.
+                </p>
+              </div>
+              <ToolProfilesEditor profiles={toolProfiles} onChange={handleToolProfilesChange} />
+            </div>
+          )}
+
+          {activeTab === 'patterns' && (
+            <div className="space-y-4">
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 dark:text-content-secondary mb-2">
+                  Tool File Patterns
+                </h3>
+                <p className="text-xs text-content-tertiary mb-3">
+                  One pattern per line. Globs without a slash match file names (
+                  <code>CLAUDE.md</code>); globs with a slash match the end of the path (
+                  <code>.cursor/rules/*.mdc</code>). Use <code>regex:</code> for regular
+                  expressions and prefix with <code>!</code> to exclude. Matching is
+                  case-insensitive.
+                </p>
+                <div className="flex gap-2 mb-2">
+                  <select
+                    value={patternProfileId}
+                    onChange={(e) => handlePatternProfileChange(e.target.value)}
+                    className="flex-1 px-3 py-2 text-sm bg-light-surface dark:bg-surface-bg border border-light-border dark:border-surface-border rounded-md text-gray-700 dark:text-content-secondary"
+                  >
+                    {toolProfiles.map((profile) => (
+                      <option key={profile.id} value={profile.id}>
+                        {profile.name}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={handleApplyPatterns}
+                    className="px-3 py-2 text-sm font-medium text-white bg-blue-500 hover:bg-blue-600 rounded-md transition-colors"
+                  >
+                    Apply to Tool
+                  </button>
+                </div>
+                <textarea
+                  value={patternDraft}
+                  onChange={(e) => setPatternDraft(e.target.value)}
+                  rows={5}
+                  spellCheck={false}
+                  className="w-full px-3 py-2 text-sm font-mono bg-light-surface dark:bg-surface-bg border border-light-border dark:border-surface-border rounded-md text-gray-700 dark:text-content-secondary"
+                />
+              </div>
+
+              <div className="pt-4 border-t border-light-border dark:border-surface-border">
+                <h3 className="text-sm font-medium text-gray-700 dark:text-content-secondary mb-2">
+                  Test Patterns
+                </h3>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={handleSelectPatternTestDir}
+                    className="px-3 py-1.5 text-xs font-medium text-gray-700 dark:text-content-secondary border border-light-border dark:border-surface-border rounded-md hover:bg-light-surface dark:hover:bg-surface-hover"
+                  >
+                    Choose Folder...
+                  </button>
+                  <span className="text-xs font-mono text-content-tertiary truncate flex-1">
+                    {patternTestDir || 'No folder selected'}
+                  </span>
+                  <button
+                    onClick={handleTestPatterns}
+                    disabled={!patternTestDir || isTestingPatterns}
+                    className="px-3 py-1.5 text-xs font-medium text-blue-600 dark:text-blue-400 border border-blue-300 dark:border-blue-600 rounded-md hover:bg-blue-50 dark:hover:bg-blue-900/30 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isTestingPatterns ? 'Testing...' : 'Preview Matches'}
+                  </button>
+                </div>
+
+                {patternTestResult && (
+                  <div className="mt-3 space-y-2">
+                    {patternTestResult.errors.map((error) => (
+                      <p key={error.pattern} className="text-xs text-red-600 dark:text-red-400">
+                        <code>{error.pattern}</code>: {error.message}
+                      </p>
+                    ))}
+                    <p className="text-xs text-content-tertiary">
+                      {patternTestResult.matches.length} matching file
+                      {patternTestResult.matches.length === 1 ? '' : 's'} (exclusions applied)
+                    </p>
+                    {patternTestResult.matches.length > 0 && (
+                      <ul className="max-h-40 overflow-y-auto p-2 bg-light-surface dark:bg-surface-bg rounded-md border border-light-border dark:border-surface-border">
+                        {patternTestResult.matches.map((match) => (
+                          <li
+                            key={match}
+                            className="text-xs font-mono text-gray-700 dark:text-content-secondary truncate"
+                          >
+                            {match}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+              </div>
             </div>
           )}
 
@@ -1,11 +1,15 @@
 import { useState, useMemo, useCallback, useEffect } from 'react';
-import { ContextFile, AppSettings, Template, SidebarSectionState } from '../../shared/types';
+import { ContextFile, AppSettings, ScanProgress, Template, SidebarSectionState } from '../../shared/types';
 import { buildFileTree, getExpandedPathsForFile } from '../utils/buildFileTree';
 import { TreeNode } from './TreeNode';
 import { GlobalConfigSection } from './GlobalConfigSection';
 import { SidebarHeader } from './sidebar/SidebarHeader';
 import { SidebarSection } from './sidebar/SidebarSection';
 import { TemplatesSection } from './sidebar/TemplatesSection';
+import { ScanProgressPanel } from './sidebar/ScanProgressPanel';
+import { getBudgetColorClass, getFilesBudgetStatus } from '../utils/tokenBudgets';
+import { useProjectConfigStore } from '../store/projectConfigStore';
+import { getFilesToolProfiles } from '../utils/toolProfiles';
 
 interface SidebarProps {
   files: ContextFile[];
@@ -13,6 +17,8 @@ interface SidebarProps {
   onSelectFile: (file: ContextFile) => void;
   onSelectFileAlternate?: (file: ContextFile) => void;
   onScanDirectory: () => void;
+  scanProgress?: ScanProgress | null;
+  onCancelScan?: () => void;
   onContextMenu: (file: ContextFile, x: number, y: number) => void;
   onFolderContextMenu: (folderPath: string, folderName: string, x: number, y: number) => void;
   onNewFile: (preselectedTemplate?: Template, defaultDirectory?: string) => void;
@@ -35,22 +41,6 @@ function formatTokenCount(tokens: number): string {
   return `${Math.round(tokens / 1000)}k`;
 }
 
-/**
- * Get Tailwind classes based on token count thresholds
- * Green: < 4,000 tokens (fits comfortably)
- * Yellow: 4,000 - 8,000 tokens (medium, watch the size)
- * Red: > 8,000 tokens (large, consider splitting)
- */
-function getTokenColorClass(tokens: number): string {
-  if (tokens < 4000) {
-    return 'text-green-600 dark:text-green-400';
-  }
-  if (tokens <= 8000) {
-    return 'text-yellow-600 dark:text-yellow-400';
-  }
-  return 'text-red-600 dark:text-red-400';
-}
-
 // Default section state
 const defaultSectionState: SidebarSectionState = {
   globalConfig: false,
@@ -64,6 +54,8 @@ export function Sidebar({
   onSelectFile,
   onSelectFileAlternate,
   onScanDirectory,
+  scanProgress,
+  onCancelScan,
   onContextMenu,
   onFolderContextMenu,
   onNewFile,
@@ -99,10 +91,18 @@ export function Sidebar({
   }, [onUpdateSettings]);
 
   // Get unique tools from files
-  const availableTools = useMemo(() => {
-    const toolIds = new Set(files.map((f) => f.toolId));
-    return settings?.toolProfiles.filter((p) => toolIds.has(p.id)) || [];
-  }, [files, settings]);
+  const projectConfigs = useProjectConfigStore((state) => state.configs);
+  const availableTools = useMemo(
+    () => getFilesToolProfiles(files, settings, projectConfigs),
+    [files, settings, projectConfigs]
+  );
+
+  // Fall back to all tools when the filtered tool is deleted or no longer has files
+  useEffect(() => {
+    if (toolFilter !== 'all' && !availableTools.some((tool) => tool.id === toolFilter)) {
+      setToolFilter('all');
+    }
+  }, [availableTools, toolFilter]);
 
   // Filter files by selected tool
   const filteredFiles = useMemo(() => {
@@ -176,6 +176,10 @@ export function Sidebar({
 
   // Calculate total tokens (for filtered files)
   const totalTokens = filteredFiles.reduce((sum, file) => sum + (file.tokens || 0), 0);
+  const filesBudget = useMemo(
+    () => getFilesBudgetStatus(filteredFiles, settings, projectConfigs),
+    [filteredFiles, settings, projectConfigs]
+  );
 
   // Actions for the Project Files section header
   const projectFilesActions = allDirectoryPaths.size > 0 ? (
@@ -212,8 +216,13 @@ export function Sidebar({
         onToolFilterChange={setToolFilter}
         availableTools={availableTools}
         totalFiles={files.length}
+        isScanning={!!scanProgress}
       />
 
+      {scanProgress && onCancelScan && (
+        <ScanProgressPanel progress={scanProgress} onCancel={onCancelScan} />
+      )}
+
       {/* Scrollable content area */}
       <div className="flex-1 overflow-y-auto">
         {/* Global Config Section */}
@@ -278,8 +287,12 @@ export function Sidebar({
           </span>
           {totalTokens > 0 && (
             <span
-              className={`font-medium ${getTokenColorClass(totalTokens)}`}
-              title={`${totalTokens.toLocaleString()} total tokens`}
+              className={`font-medium ${getBudgetColorClass(filesBudget.status)}`}
+              title={`${totalTokens.toLocaleString()} total tokens${
+                filesBudget.overBudget > 0
+                  ? ` (${filesBudget.overBudget} file${filesBudget.overBudget > 1 ? 's' : ''} over budget)`
+                  : ''
+              }`}
             >
               {formatTokenCount(totalTokens)} tokens
             </span>
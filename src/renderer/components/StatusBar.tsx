@@ -1,31 +1,28 @@
 import { useEffect, useState, useRef } from 'react';
-import { ContextFile, AppSettings } from '../../shared/types';
+import { ContextFile, AppSettings, ScanProgress } from '../../shared/types';
 import { getInheritanceChainWithTokens, calculateTotalTokens } from '../utils/findInheritanceChain';
+import { getFileBudget, getBudgetColorClass, describeBudget } from '../utils/tokenBudgets';
+import { getBudgetStatus } from '../../shared/budgets';
+import { useProjectConfigStore } from '../store/projectConfigStore';
+import { getFileToolProfile } from '../utils/toolProfiles';
 
 interface StatusBarProps {
   selectedFile: ContextFile | null;
   allFiles: ContextFile[];
   settings: AppSettings | null;
+  scanProgress?: ScanProgress | null;
+  onCancelScan?: () => void;
 }
 
-/**
- * Get Tailwind classes based on token count thresholds
- */
-function getTokenColorClass(tokens: number): string {
-  if (tokens < 4000) {
-    return 'text-green-600 dark:text-green-400';
-  }
-  if (tokens <= 8000) {
-    return 'text-yellow-600 dark:text-yellow-400';
-  }
-  return 'text-red-600 dark:text-red-400';
-}
-
-export function StatusBar({ selectedFile, allFiles, settings }: StatusBarProps) {
+export function StatusBar({ selectedFile, allFiles, settings, scanProgress, onCancelScan }: StatusBarProps) {
   const [tokens, setTokens] = useState<number | null>(null);
   const [totalTokens, setTotalTokens] = useState<number | null>(null);
   const [inheritedCount, setInheritedCount] = useState<number>(0);
   const thresholdTracked = useRef<string | null>(null);
+  const projectConfigs = useProjectConfigStore((state) => state.configs);
+  const budget = selectedFile
+    ? getFileBudget(selectedFile.path, selectedFile.toolId, settings, projectConfigs)
+    : null;
 
   useEffect(() => {
     async function loadTokenInfo() {
@@ -39,22 +36,27 @@ export function StatusBar({ selectedFile, allFiles, settings }: StatusBarProps)
       try {
         // Get current file tokens
         const content = await window.electronAPI.readFile(selectedFile.path);
-        const profile = settings?.toolProfiles.find((p) => p.id === selectedFile.toolId);
+        const profile = getFileToolProfile(selectedFile.path, selectedFile.toolId, settings, projectConfigs);
         const tokenizer = profile?.tokenizer || 'anthropic';
         const count = await window.electronAPI.countTokens(content, tokenizer);
         setTokens(count);
 
         // Get full inheritance chain for total
-        const chain = await getInheritanceChainWithTokens(selectedFile, allFiles, tokenizer);
+        const chain = await getInheritanceChainWithTokens(selectedFile, allFiles, profile);
         const total = calculateTotalTokens(chain);
         setTotalTokens(total);
         setInheritedCount(chain.length - 1); // Exclude current file
 
-        // Track when token threshold is hit (fire once per file)
+        // Track when the budget is exceeded (fire once per file)
         const effectiveTokens = total || count;
-        if (effectiveTokens > 8000 && thresholdTracked.current !== selectedFile.path) {
+        const fileBudget = getFileBudget(selectedFile.path, selectedFile.toolId, settings, projectConfigs);
+        const overBudget =
+          getBudgetStatus(count, fileBudget.file) === 'over' || getBudgetStatus(total, fileBudget.total) === 'over';
+        if (overBudget && thresholdTracked.current !== selectedFile.path) {
           thresholdTracked.current = selectedFile.path;
-          window.electronAPI.trackEvent('token_threshold_hit', { threshold: effectiveTokens > 100000 ? '100k' : '8k' });
+          window.electronAPI.trackEvent('token_threshold_hit', {
+            threshold: effectiveTokens > 100000 ? '100k' : 'budget',
+          });
         }
       } catch (error) {
         setTokens(null);
@@ -64,7 +66,7 @@ export function StatusBar({ selectedFile, allFiles, settings }: StatusBarProps)
     }
 
     loadTokenInfo();
-  }, [selectedFile, allFiles, settings]);
+  }, [selectedFile, allFiles, settings, projectConfigs]);
 
   const getModelFit = (tokenCount: number) => {
     // All current models support 200k context
@@ -74,8 +76,8 @@ export function StatusBar({ selectedFile, allFiles, settings }: StatusBarProps)
     return { status: 'error', text: 'Exceeds 200k' };
   };
 
-  const getToolName = (toolId: string) => {
-    const profile = settings?.toolProfiles.find((p) => p.id === toolId);
+  const getToolName = (file: ContextFile) => {
+    const profile = getFileToolProfile(file.path, file.toolId, settings, projectConfigs);
     return profile?.name || 'Unknown';
   };
 
@@ -97,22 +99,24 @@ export function StatusBar({ selectedFile, allFiles, settings }: StatusBarProps)
     <div className="h-6 px-3 flex items-center gap-4 text-xs bg-light-surface dark:bg-surface-card border-t border-light-border dark:border-surface-border text-gray-600 dark:text-content-tertiary">
       {selectedFile ? (
         <>
-          <span>{getToolName(selectedFile.toolId)}</span>
+          <span>{getToolName(selectedFile)}</span>
           <span className="text-light-border dark:text-surface-border">|</span>
-          {tokens !== null ? (
+          {tokens !== null && budget ? (
             <>
-              <span>
+              <span title={describeBudget(tokens, budget.file)}>
                 This file:{' '}
-                <span className={`font-mono ${getTokenColorClass(tokens)}`}>
+                <span className={`font-mono ${getBudgetColorClass(getBudgetStatus(tokens, budget.file))}`}>
                   {tokens.toLocaleString()}
                 </span>
               </span>
               {totalTokens !== null && inheritedCount > 0 && (
                 <>
                   <span className="text-light-border dark:text-surface-border">|</span>
-                  <span title={`Includes ${inheritedCount} inherited file${inheritedCount > 1 ? 's' : ''}`}>
+                  <span
+                    title={`Includes ${inheritedCount} inherited file${inheritedCount > 1 ? 's' : ''}: ${describeBudget(totalTokens, budget.total)}`}
+                  >
                     Total:{' '}
-                    <span className={`font-mono ${getTokenColorClass(totalTokens)}`}>
+                    <span className={`font-mono ${getBudgetColorClass(getBudgetStatus(totalTokens, budget.total))}`}>
                       {totalTokens.toLocaleString()}
                     </span>
                   </span>
@@ -133,6 +137,21 @@ export function StatusBar({ selectedFile, allFiles, settings }: StatusBarProps)
 
       {/* Right side */}
       <div className="flex-1" />
+      {scanProgress && (
+        <>
+          <span className="truncate max-w-xs" title={scanProgress.currentPath}>
+            {scanProgress.phase === 'walking'
+              ? `Scanning ${scanProgress.directoriesVisited.toLocaleString()} folders (${scanProgress.filesMatched.toLocaleString()} files found)`
+              : `Counting tokens ${scanProgress.filesTokenized.toLocaleString()} / ${scanProgress.filesMatched.toLocaleString()}`}
+          </span>
+          {onCancelScan && (
+            <button onClick={onCancelScan} className="hover:text-red-500 transition-colors">
+              Cancel
+            </button>
+          )}
+          <span className="text-light-border dark:text-surface-border">|</span>
+        </>
+      )}
       <span>v0.1.0</span>
     </div>
   );
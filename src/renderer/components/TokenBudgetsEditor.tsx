@@ -0,0 +1,121 @@
+import { ToolBadge } from './ToolBadge';
+import {
+  BudgetPolicy,
+  BudgetThresholds,
+  TokenBudget,
+  TokenBudgetOverride,
+  ToolProfile,
+} from '../../shared/types';
+import { resolveTokenBudget } from '../../shared/budgets';
+
+interface TokenBudgetsEditorProps {
+  policy: BudgetPolicy;
+  profiles: ToolProfile[];
+  onChange: (policy: BudgetPolicy) => void;
+}
+
+const COLUMNS: { scope: keyof TokenBudget; key: keyof BudgetThresholds; label: string }[] = [
+  { scope: 'file', key: 'warning', label: 'File warning' },
+  { scope: 'file', key: 'limit', label: 'File budget' },
+  { scope: 'total', key: 'warning', label: 'Total warning' },
+  { scope: 'total', key: 'limit', label: 'Total budget' },
+];
+
+const inputClass =
+  'w-full px-2 py-1 text-xs font-mono bg-light-bg dark:bg-surface-card border border-light-border dark:border-surface-border rounded text-gray-700 dark:text-content-secondary';
+
+function setThreshold(
+  override: TokenBudgetOverride | undefined,
+  scope: keyof TokenBudget,
+  key: keyof BudgetThresholds,
+  value: number | undefined
+): TokenBudgetOverride {
+  const thresholds = { ...override?.[scope], [key]: value };
+  if (value === undefined) delete thresholds[key];
+  return { ...override, [scope]: thresholds };
+}
+
+/**
+ * Edit the default token budget and per-tool overrides. Empty fields inherit
+ * the value shown as placeholder (the tool row inherits from the default row).
+ */
+export function TokenBudgetsEditor({ policy, profiles, onChange }: TokenBudgetsEditorProps) {
+  const defaultBudget = resolveTokenBudget(undefined, [{ default: policy.default }]);
+
+  const handleChange = (
+    toolId: string | null,
+    scope: keyof TokenBudget,
+    key: keyof BudgetThresholds,
+    raw: string
+  ) => {
+    const parsed = parseInt(raw, 10);
+    const value = isNaN(parsed) || parsed < 0 ? undefined : parsed;
+    if (toolId === null) {
+      onChange({ ...policy, default: setThreshold(policy.default, scope, key, value) });
+    } else {
+      onChange({
+        ...policy,
+        tools: {
+          ...policy.tools,
+          [toolId]: setThreshold(policy.tools?.[toolId], scope, key, value),
+        },
+      });
+    }
+  };
+
+  const rows: {
+    id: string | null;
+    label: React.ReactNode;
+    override?: TokenBudgetOverride;
+    inherited: TokenBudget;
+  }[] = [
+    {
+      id: null,
+      label: 'All tools',
+      override: policy.default,
+      inherited: resolveTokenBudget(undefined, []),
+    },
+    ...profiles.map((profile) => ({
+      id: profile.id,
+      label: (
+        <span className="flex items-center gap-1.5 min-w-0">
+          <ToolBadge toolId={profile.id} profile={profile} />
+          <span className="truncate">{profile.name}</span>
+        </span>
+      ),
+      override: policy.tools?.[profile.id],
+      inherited: defaultBudget,
+    })),
+  ];
+
+  return (
+    <div className="rounded-md border border-light-border dark:border-surface-border overflow-hidden">
+      <div className="grid grid-cols-[minmax(0,1.5fr)_repeat(4,minmax(0,1fr))] gap-2 px-3 py-2 text-xs font-medium text-content-tertiary bg-light-surface dark:bg-surface-bg">
+        <span>Tool</span>
+        {COLUMNS.map((column) => (
+          <span key={`${column.scope}-${column.key}`}>{column.label}</span>
+        ))}
+      </div>
+      {rows.map((row) => (
+        <div
+          key={row.id ?? 'default'}
+          className="grid grid-cols-[minmax(0,1.5fr)_repeat(4,minmax(0,1fr))] gap-2 px-3 py-2 items-center text-sm text-gray-700 dark:text-content-secondary border-t border-light-border dark:border-surface-border"
+        >
+          {row.label}
+          {COLUMNS.map((column) => (
+            <input
+              key={`${column.scope}-${column.key}`}
+              type="number"
+              min={0}
+              step={1000}
+              value={row.override?.[column.scope]?.[column.key] ?? ''}
+              placeholder={row.inherited[column.scope][column.key].toLocaleString()}
+              onChange={(e) => handleChange(row.id, column.scope, column.key, e.target.value)}
+              className={inputClass}
+            />
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,8 +1,11 @@
 import { ToolIcon } from './ToolIcon';
+import { ToolProfile } from '../../shared/types';
 
 interface ToolBadgeProps {
   toolId: string;
   size?: 'sm' | 'md';
+  /** Used for tools without built-in styling (user-defined profiles) */
+  profile?: ToolProfile;
 }
 
 const toolBadgeConfig: Record<string, { lightBg: string; darkBg: string; lightText: string; darkText: string }> = {
@@ -45,18 +48,27 @@ const defaultConfig = {
   darkText: 'dark:text-content-tertiary',
 };
 
-export function ToolBadge({ toolId, size = 'sm' }: ToolBadgeProps) {
-  const config = toolBadgeConfig[toolId] || defaultConfig;
+export function ToolBadge({ toolId, size = 'sm', profile }: ToolBadgeProps) {
+  const builtinConfig = toolBadgeConfig[toolId];
+  const config = builtinConfig || defaultConfig;
 
   const sizeClasses = size === 'sm' ? 'w-5 h-5' : 'w-6 h-6';
   const iconSize = size === 'sm' ? 12 : 14;
 
+  // Custom tools are tinted with their profile color (hex + ~15% alpha background)
+  const customStyle =
+    !builtinConfig && profile?.color
+      ? { backgroundColor: `${profile.color}26`, color: profile.color }
+      : undefined;
+
   return (
     <span
       className={`${sizeClasses} rounded flex items-center justify-center flex-shrink-0
-        ${config.lightBg} ${config.darkBg} ${config.lightText} ${config.darkText}`}
+        ${customStyle ? '' : `${config.lightBg} ${config.darkBg} ${config.lightText} ${config.darkText}`}`}
+      style={customStyle}
+      title={profile?.name}
     >
-      <ToolIcon toolId={toolId} size={iconSize} />
+      <ToolIcon toolId={toolId} size={iconSize} icon={builtinConfig ? undefined : profile?.icon} />
     </span>
   );
 }
@@ -2,13 +2,15 @@ interface ToolIconProps {
   toolId: string;
   size?: number;
   className?: string;
+  /** Emoji shown for tools without a brand icon (user-defined tool profiles) */
+  icon?: string;
 }
 
 /**
  * Renders SVG brand icons for AI coding tools and generic UI icons.
  * All icons use currentColor so they inherit the parent's text color.
  */
-export function ToolIcon({ toolId, size = 16, className = '' }: ToolIconProps) {
+export function ToolIcon({ toolId, size = 16, className = '', icon }: ToolIconProps) {
   const props = {
     width: size,
     height: size,
@@ -152,6 +154,17 @@ export function ToolIcon({ toolId, size = 16, className = '' }: ToolIconProps) {
       );
 
     default:
+      if (icon) {
+        return (
+          <span
+            className={`inline-flex items-center justify-center leading-none ${className}`}
+            style={{ width: size, height: size, fontSize: size * 0.85 }}
+            aria-hidden
+          >
+            {icon}
+          </span>
+        );
+      }
       // Fallback document icon
       return (
         <svg {...props} viewBox="0 0 24 24" fill="none">
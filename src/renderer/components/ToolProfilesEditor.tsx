@@ -0,0 +1,318 @@
+import { useState, useEffect } from 'react';
+import { ToolBadge } from './ToolBadge';
+import { InheritanceStrategy, ToolProfile, TokenizerInfo, TokenizerType } from '../../shared/types';
+import { defaultToolProfiles, toolProfilePresets } from '../../shared/defaultProfiles';
+import { INHERITANCE_STRATEGIES, getInheritanceStrategy } from '../../shared/inheritance';
+
+interface ToolProfilesEditorProps {
+  profiles: ToolProfile[];
+  onChange: (profiles: ToolProfile[]) => void;
+}
+
+// Select value that opens the file picker for a local tokenizer.json
+const LOCAL_TOKENIZER_OPTION = '__local__';
+
+function getLocalTokenizerLabel(tokenizer: TokenizerType): string {
+  const parts = tokenizer.split(/[\\/]/);
+  return `Local: ${parts.slice(-2).join('/')}`;
+}
+
+const inputClass =
+  'w-full px-2 py-1.5 text-sm bg-light-bg dark:bg-surface-card border border-light-border dark:border-surface-border rounded text-gray-700 dark:text-content-secondary';
+
+function createProfileId(name: string, profiles: ToolProfile[]): string {
+  const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'tool';
+  let id = base;
+  let n = 2;
+  while (profiles.some((p) => p.id === id)) {
+    id = `${base}-${n++}`;
+  }
+  return id;
+}
+
+/**
+ * Add, edit, reorder and delete tool profiles. Profiles are matched in list
+ * order, so a file matching several tools belongs to the first one.
+ */
+export function ToolProfilesEditor({ profiles, onChange }: ToolProfilesEditorProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [newProfileSource, setNewProfileSource] = useState('custom');
+  const [tokenizers, setTokenizers] = useState<TokenizerInfo[]>([]);
+  const [tokenizerError, setTokenizerError] = useState<string | null>(null);
+
+  useEffect(() => {
+    window.electronAPI
+      .getTokenizers()
+      .then(setTokenizers)
+      .catch((error) => console.error('Failed to load tokenizers:', error));
+  }, []);
+
+  const availablePresets = toolProfilePresets.filter((preset) => !profiles.some((p) => p.id === preset.id));
+
+  const updateProfile = (id: string, changes: Partial<ToolProfile>) => {
+    onChange(profiles.map((p) => (p.id === id ? { ...p, ...changes } : p)));
+  };
+
+  const handleTokenizerChange = async (id: string, value: string) => {
+    setTokenizerError(null);
+    if (value !== LOCAL_TOKENIZER_OPTION) {
+      updateProfile(id, { tokenizer: value as TokenizerType });
+      return;
+    }
+    const result = await window.electronAPI.selectTokenizerFile();
+    if (!result) return;
+    if ('error' in result) {
+      setTokenizerError(result.error);
+    } else {
+      updateProfile(id, { tokenizer: result.tokenizer.id });
+    }
+  };
+
+  const moveProfile = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= profiles.length) return;
+    const next = [...profiles];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const deleteProfile = (profile: ToolProfile) => {
+    if (!confirm(`Delete tool "${profile.name}"? Its files will no longer be scanned.`)) return;
+    onChange(profiles.filter((p) => p.id !== profile.id));
+    if (editingId === profile.id) setEditingId(null);
+  };
+
+  const addProfile = () => {
+    const preset = toolProfilePresets.find((p) => p.id === newProfileSource);
+    const profile: ToolProfile = preset
+      ? { ...preset, patterns: [...preset.patterns] }
+      : {
+          id: createProfileId('custom-tool', profiles),
+          name: 'Custom Tool',
+          patterns: [],
+          tokenizer: 'openai',
+          icon: '📄',
+          color: '#6B7280',
+          enabled: true,
+        };
+    onChange([...profiles, profile]);
+    setEditingId(profile.id);
+    setNewProfileSource('custom');
+  };
+
+  const resetToDefaults = () => {
+    if (!confirm('Replace all tools with the built-in defaults?')) return;
+    onChange(defaultToolProfiles.map((p) => ({ ...p, patterns: [...p.patterns] })));
+    setEditingId(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      {profiles.map((profile, index) => (
+        <div
+          key={profile.id}
+          className="bg-light-surface dark:bg-surface-bg rounded-md border border-light-border dark:border-surface-border"
+        >
+          <div className="flex items-center gap-2 p-2">
+            <ToolBadge toolId={profile.id} profile={profile} size="md" />
+            <div className="flex-1 min-w-0">
+              <div
+                className={`text-sm truncate ${
+                  profile.enabled
+                    ? 'text-gray-700 dark:text-content-secondary'
+                    : 'text-content-tertiary line-through'
+                }`}
+              >
+                {profile.name}
+              </div>
+              <div className="text-xs font-mono text-content-tertiary truncate">
+                {profile.patterns.join(', ') || 'No patterns'}
+              </div>
+            </div>
+            <button
+              type="button"
+              role="switch"
+              aria-checked={profile.enabled}
+              onClick={() => updateProfile(profile.id, { enabled: !profile.enabled })}
+              className={`relative flex-shrink-0 w-9 h-5 rounded-full transition-colors ${
+                profile.enabled ? 'bg-blue-500' : 'bg-light-border dark:bg-surface-border'
+              }`}
+              title={profile.enabled ? 'Disable' : 'Enable'}
+            >
+              <span
+                className={`absolute top-0.5 left-0.5 w-4 h-4 bg-light-bg rounded-full shadow transition-transform ${
+                  profile.enabled ? 'translate-x-4' : 'translate-x-0'
+                }`}
+              />
+            </button>
+            <button
+              onClick={() => moveProfile(index, -1)}
+              disabled={index === 0}
+              className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-content-secondary disabled:opacity-30"
+              title="Move up"
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+              </svg>
+            </button>
+            <button
+              onClick={() => moveProfile(index, 1)}
+              disabled={index === profiles.length - 1}
+              className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-content-secondary disabled:opacity-30"
+              title="Move down"
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+              </svg>
+            </button>
+            <button
+              onClick={() => setEditingId(editingId === profile.id ? null : profile.id)}
+              className="p-1 text-gray-400 hover:text-blue-500 transition-colors"
+              title="Edit"
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+              </svg>
+            </button>
+            <button
+              onClick={() => deleteProfile(profile)}
+              className="p-1 text-gray-400 hover:text-red-500 transition-colors"
+              title="Delete"
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          {editingId === profile.id && (
+            <div className="grid grid-cols-2 gap-2 p-3 border-t border-light-border dark:border-surface-border">
+              <label className="text-xs text-content-tertiary">
+                Name
+                <input
+                  type="text"
+                  value={profile.name}
+                  onChange={(e) => updateProfile(profile.id, { name: e.target.value })}
+                  className={inputClass}
+                />
+              </label>
+              <label className="text-xs text-content-tertiary">
+                Tokenizer
+                <select
+                  value={profile.tokenizer}
+                  onChange={(e) => handleTokenizerChange(profile.id, e.target.value)}
+                  className={inputClass}
+                >
+                  {tokenizers.map((tokenizer) => (
+                    <option key={tokenizer.id} value={tokenizer.id} title={tokenizer.description}>
+                      {tokenizer.name}
+                    </option>
+                  ))}
+                  {profile.tokenizer.startsWith('local:') && (
+                    <option value={profile.tokenizer} title={profile.tokenizer.slice('local:'.length)}>
+                      {getLocalTokenizerLabel(profile.tokenizer)}
+                    </option>
+                  )}
+                  <option value={LOCAL_TOKENIZER_OPTION}>Local tokenizer.json...</option>
+                </select>
+                {tokenizerError && (
+                  <span className="block mt-1 text-red-600 dark:text-red-400">{tokenizerError}</span>
+                )}
+              </label>
+              <label className="text-xs text-content-tertiary">
+                Icon (emoji)
+                <input
+                  type="text"
+                  value={profile.icon}
+                  maxLength={4}
+                  onChange={(e) => updateProfile(profile.id, { icon: e.target.value })}
+                  className={inputClass}
+                />
+              </label>
+              <label className="text-xs text-content-tertiary">
+                Color
+                <input
+                  type="color"
+                  value={profile.color}
+                  onChange={(e) => updateProfile(profile.id, { color: e.target.value })}
+                  className="w-full h-[34px] px-1 bg-light-bg dark:bg-surface-card border border-light-border dark:border-surface-border rounded"
+                />
+              </label>
+              <label className="col-span-2 text-xs text-content-tertiary">
+                Inheritance
+                <select
+                  value={getInheritanceStrategy(profile)}
+                  onChange={(e) =>
+                    updateProfile(profile.id, { inheritance: e.target.value as InheritanceStrategy })
+                  }
+                  className={inputClass}
+                >
+                  {INHERITANCE_STRATEGIES.map((strategy) => (
+                    <option key={strategy.id} value={strategy.id} title={strategy.description}>
+                      {strategy.name}
+                    </option>
+                  ))}
+                </select>
+                <span className="block mt-1">
+                  {INHERITANCE_STRATEGIES.find((s) => s.id === getInheritanceStrategy(profile))?.description}
+                </span>
+              </label>
+              <label className="col-span-2 text-xs text-content-tertiary">
+                Docs URL
+                <input
+                  type="url"
+                  value={profile.docsUrl || ''}
+                  onChange={(e) => updateProfile(profile.id, { docsUrl: e.target.value || undefined })}
+                  placeholder="https://"
+                  className={inputClass}
+                />
+              </label>
+              <label className="col-span-2 text-xs text-content-tertiary">
+                File patterns (one per line)
+                <textarea
+                  value={profile.patterns.join('\n')}
+                  onChange={(e) => updateProfile(profile.id, { patterns: e.target.value.split('\n') })}
+                  onBlur={() =>
+                    updateProfile(profile.id, {
+                      patterns: profile.patterns.map((p) => p.trim()).filter(Boolean),
+                    })
+                  }
+                  rows={3}
+                  spellCheck={false}
+                  className={`${inputClass} font-mono`}
+                />
+              </label>
+            </div>
+          )}
+        </div>
+      ))}
+
+      <div className="flex gap-2 pt-2">
+        <select
+          value={newProfileSource}
+          onChange={(e) => setNewProfileSource(e.target.value)}
+          className="flex-1 px-3 py-2 text-sm bg-light-surface dark:bg-surface-bg border border-light-border dark:border-surface-border rounded-md text-gray-700 dark:text-content-secondary"
+        >
+          <option value="custom">Custom tool</option>
+          {availablePresets.map((preset) => (
+            <option key={preset.id} value={preset.id}>
+              {preset.name} ({preset.patterns.join(', ')})
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={addProfile}
+          className="px-3 py-2 text-sm font-medium text-white bg-blue-500 hover:bg-blue-600 rounded-md transition-colors"
+        >
+          + Add Tool
+        </button>
+      </div>
+      <button
+        onClick={resetToDefaults}
+        className="text-xs text-content-tertiary hover:text-red-500 transition-colors"
+      >
+        Reset to defaults
+      </button>
+    </div>
+  );
+}
@@ -1,6 +1,11 @@
 import { useState } from 'react';
 import { FileTreeNode, ContextFile, AppSettings, Template } from '../../shared/types';
-import { getNodeTokenCount } from '../utils/buildFileTree';
+import { getNodeFiles, getNodeTokenCount } from '../utils/buildFileTree';
+import { describeBudget, getBudgetColorClass, getFileBudget, getFilesBudgetStatus } from '../utils/tokenBudgets';
+import { getBudgetStatus } from '../../shared/budgets';
+import { useProjectConfigStore } from '../store/projectConfigStore';
+import { SYNC_STATUS_LABELS, describeSyncRole, getFileSyncRole } from '../utils/syncStatus';
+import { getFileToolProfile } from '../utils/toolProfiles';
 import { ToolBadge } from './ToolBadge';
 
 interface TreeNodeProps {
@@ -31,22 +36,6 @@ function formatTokenCount(tokens: number): string {
   return `${Math.round(tokens / 1000)}k`;
 }
 
-/**
- * Get Tailwind classes based on token count thresholds
- * Green: < 4,000 tokens (fits comfortably)
- * Yellow: 4,000 - 8,000 tokens (medium, watch the size)
- * Red: > 8,000 tokens (large, consider splitting)
- */
-function getTokenColorClass(tokens: number): string {
-  if (tokens < 4000) {
-    return 'text-green-600 dark:text-green-400';
-  }
-  if (tokens <= 8000) {
-    return 'text-yellow-600 dark:text-yellow-400';
-  }
-  return 'text-red-600 dark:text-red-400';
-}
-
 export function TreeNode({
   node,
   depth,
@@ -63,6 +52,8 @@ export function TreeNode({
   const [isDropTarget, setIsDropTarget] = useState(false);
   const isExpanded = expandedPaths.has(node.path);
   const tokenCount = getNodeTokenCount(node);
+  const projectConfigs = useProjectConfigStore((state) => state.configs);
+  const syncStatuses = useProjectConfigStore((state) => state.syncStatuses);
 
   // Handle template drag over for directories
   const handleDragOver = (e: React.DragEvent) => {
@@ -96,6 +87,7 @@ export function TreeNode({
   };
 
   if (node.isDirectory) {
+    const folderBudget = getFilesBudgetStatus(getNodeFiles(node), settings, projectConfigs);
     return (
       <div className={`tree-directory ${isDropTarget ? 'template-drop-target' : ''}`}>
         <div
@@ -149,8 +141,12 @@ export function TreeNode({
           <span className="flex-1 truncate text-sm font-medium">{node.name}</span>
           {tokenCount > 0 && (
             <span
-              className={`text-xs font-medium ml-1 tabular-nums opacity-70 ${getTokenColorClass(tokenCount)}`}
-              title={`${tokenCount.toLocaleString()} total tokens`}
+              className={`text-xs font-medium ml-1 tabular-nums opacity-70 ${getBudgetColorClass(folderBudget.status)}`}
+              title={`${tokenCount.toLocaleString()} total tokens${
+                folderBudget.overBudget > 0
+                  ? ` (${folderBudget.overBudget} file${folderBudget.overBudget > 1 ? 's' : ''} over budget)`
+                  : ''
+              }`}
             >
               {formatTokenCount(tokenCount)}
             </span>
@@ -183,6 +179,20 @@ export function TreeNode({
   // File node
   const file = node.file!;
   const isSelected = selectedFile?.id === file.id;
+  const fileBudget = getFileBudget(file.path, file.toolId, settings, projectConfigs);
+  const syncRole = getFileSyncRole(file.path, syncStatuses);
+  const syncBadge =
+    syncRole?.kind === 'canonical'
+      ? { label: 'canonical', className: 'text-blue-500 bg-blue-500/10' }
+      : syncRole && syncRole.target.status !== 'in-sync'
+        ? {
+            label: SYNC_STATUS_LABELS[syncRole.target.status],
+            className:
+              syncRole.target.status === 'outdated'
+                ? 'text-content-tertiary bg-light-border dark:bg-surface-hover'
+                : 'text-amber-600 dark:text-amber-400 bg-amber-500/10',
+          }
+        : null;
 
   // Handle drag start for sidebar file
   const handleDragStart = (e: React.DragEvent) => {
@@ -223,12 +233,23 @@ export function TreeNode({
         onContextMenu(file, e.clientX, e.clientY);
       }}
     >
-      <ToolBadge toolId={file.toolId} />
+      <ToolBadge
+        toolId={file.toolId}
+        profile={getFileToolProfile(file.path, file.toolId, settings, projectConfigs)}
+      />
       <span className="flex-1 truncate text-sm">{file.name}</span>
+      {syncRole && syncBadge && (
+        <span
+          className={`text-[10px] px-1.5 rounded-full flex-shrink-0 ${syncBadge.className}`}
+          title={describeSyncRole(syncRole)}
+        >
+          {syncBadge.label}
+        </span>
+      )}
       {file.tokens !== undefined && (
         <span
-          className={`text-xs font-medium ml-1 tabular-nums ${getTokenColorClass(file.tokens)}`}
-          title={`${file.tokens.toLocaleString()} tokens`}
+          className={`text-xs font-medium ml-1 tabular-nums ${getBudgetColorClass(getBudgetStatus(file.tokens, fileBudget.file))}`}
+          title={describeBudget(file.tokens, fileBudget.file)}
         >
           {formatTokenCount(file.tokens)}
         </span>
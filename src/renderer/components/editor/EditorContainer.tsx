@@ -8,9 +8,10 @@ interface EditorContainerProps {
   allFiles: ContextFile[];
   settings: AppSettings | null;
   isDark: boolean;
+  onConvertFile?: (file: ContextFile) => void;
 }
 
-export function EditorContainer({ allFiles, settings, isDark }: EditorContainerProps) {
+export function EditorContainer({ allFiles, settings, isDark, onConvertFile }: EditorContainerProps) {
   const {
     panes,
     activePaneId,
@@ -25,13 +26,16 @@ export function EditorContainer({ allFiles, settings, isDark }: EditorContainerP
   } = useEditorStore();
 
   const isRestoringRef = useRef(false);
+  const hasRestoredRef = useRef(false);
   const lastSavedStateRef = useRef<string | null>(null);
 
-  // Restore state on mount
+  // Restore state once files are available (not on every file list update,
+  // which would discard unsaved edits when the file watcher pushes changes)
   useEffect(() => {
     const restore = async () => {
-      if (isRestoringRef.current) return;
+      if (isRestoringRef.current || hasRestoredRef.current) return;
       isRestoringRef.current = true;
+      hasRestoredRef.current = true;
 
       try {
         const savedState = await window.electronAPI.getEditorState();
@@ -129,9 +133,10 @@ export function EditorContainer({ allFiles, settings, isDark }: EditorContainerP
         onUnsplit={unsplit}
         canSplit={canSplit}
         canUnsplit={canUnsplit}
+        onConvertFile={onConvertFile}
       />
     )),
-    [panes, allFiles, settings, isDark, activePaneId, handleSplitHorizontal, handleSplitVertical, unsplit, canSplit, canUnsplit]
+    [panes, allFiles, settings, isDark, activePaneId, handleSplitHorizontal, handleSplitVertical, unsplit, canSplit, canUnsplit, onConvertFile]
   );
 
   return (
@@ -1,11 +1,16 @@
 import { useCallback, useRef, useMemo, useState, DragEvent } from 'react';
-import Editor, { OnMount, loader } from '@monaco-editor/react';
+import Editor, { BeforeMount, OnMount, loader } from '@monaco-editor/react';
 import ReactMarkdown from 'react-markdown';
 import { useEditorStore, ViewMode, EditorPane as EditorPaneType } from '../../store/editorStore';
 import { EditorTabs } from './EditorTabs';
 import { FileInfoBar } from './FileInfoBar';
 import { AIActionsPopover } from './AIActionsPopover';
+import { ProjectConfigInfo } from './ProjectConfigInfo';
+import { EffectiveContextBar } from './EffectiveContextBar';
+import { ContextDriftPanel } from '../ContextDriftPanel';
 import { ContextFile, AppSettings } from '../../../shared/types';
+import { PROJECT_CONFIG_FILE } from '../../../shared/projectConfig';
+import projectConfigSchema from '../../../shared/projectConfig.schema.json';
 
 // Configure Monaco to load from CDN (more reliable in Electron)
 loader.config({
@@ -14,6 +19,20 @@ loader.config({
   }
 });
 
+// Validate .tokencentric.json files against the project config schema while editing
+const handleEditorBeforeMount: BeforeMount = (monaco) => {
+  monaco.languages.json.jsonDefaults.setDiagnosticsOptions({
+    validate: true,
+    schemas: [
+      {
+        uri: 'tokencentric://schemas/project-config.json',
+        fileMatch: [`*${PROJECT_CONFIG_FILE}`],
+        schema: projectConfigSchema,
+      },
+    ],
+  });
+};
+
 interface EditorPaneProps {
   pane: EditorPaneType;
   allFiles: ContextFile[];
@@ -25,6 +44,7 @@ interface EditorPaneProps {
   onUnsplit?: () => void;
   canSplit: boolean;
   canUnsplit: boolean;
+  onConvertFile?: (file: ContextFile) => void;
 }
 
 // Helper function to detect language from filename
@@ -87,6 +107,7 @@ export function EditorPane({
   onUnsplit,
   canSplit,
   canUnsplit,
+  onConvertFile,
 }: EditorPaneProps) {
   const editorRef = useRef<ReturnType<OnMount> | null>(null);
   const {
@@ -162,12 +183,14 @@ export function EditorPane({
   // Detect if file is JSON
   const isJson = selectedFile?.name.match(/\.json$/i);
 
-  // Detect if file should be read-only (JSON files in ~/.claude)
-  const isReadOnly = isJson && selectedFile?.path.includes('/.claude/');
+  // Detect if file should be read-only (JSON files in ~/.claude, generated documents)
+  const isReadOnly = (isJson && selectedFile?.path.includes('/.claude/')) || !!activeTab?.virtual;
 
   // Detect if file is markdown
   const isMarkdown = selectedFile?.name.match(/\.(md|mdx|markdown)$/i);
 
+  const isProjectConfig = selectedFile?.name === PROJECT_CONFIG_FILE;
+
   // Save file handler
   const handleSave = useCallback(async () => {
     if (!activeTab || !isDirty || isSaving || isReadOnly) return;
@@ -209,13 +232,18 @@ export function EditorPane({
   // Handle file selection from breadcrumb
   const handleSelectFile = useCallback((file: ContextFile | null) => {
     if (file) {
-      const existingTab = Array.from(tabs.values()).find(t => t.file.path === file.path);
+      const existingTab = Array.from(tabs.values()).find(t => t.file.path === file.path && !t.virtual);
       if (existingTab) {
         setActiveTab(existingTab.id);
       }
     }
   }, [tabs, setActiveTab]);
 
+  const handleOpenFile = useCallback(
+    (file: ContextFile) => openFileInPane(file, pane.id),
+    [openFileInPane, pane.id]
+  );
+
   // Handle pane focus
   const handlePaneFocus = useCallback(() => {
     if (!isActive) {
@@ -287,20 +315,32 @@ export function EditorPane({
         showAIButton={!!isMarkdown && !isReadOnly}
         aiButtonRef={aiButtonRef}
         onAIClick={() => setIsAIPopoverOpen(!isAIPopoverOpen)}
+        onConvertFile={onConvertFile}
       />
 
       {/* Collapsible file info bar - replaces Breadcrumb, HierarchicalCostPanel, and file header */}
-      <FileInfoBar
-        file={currentFile}
-        allFiles={allFiles}
-        settings={settings}
-        viewMode={viewMode}
-        isDirty={isDirty}
-        isReadOnly={!!isReadOnly}
-        isSaving={isSaving}
-        onSelectFile={handleSelectFile}
-        onViewModeChange={handleViewModeChange}
-      />
+      {activeTab.virtual ? (
+        <EffectiveContextBar tab={activeTab} allFiles={allFiles} settings={settings} />
+      ) : (
+        <FileInfoBar
+          file={currentFile}
+          content={content}
+          allFiles={allFiles}
+          settings={settings}
+          viewMode={viewMode}
+          isDirty={isDirty}
+          isReadOnly={!!isReadOnly}
+          isSaving={isSaving}
+          onSelectFile={handleSelectFile}
+          onViewModeChange={handleViewModeChange}
+        />
+      )}
+
+      {!activeTab.virtual && (
+        <ContextDriftPanel selectedFile={currentFile} allFiles={allFiles} onSelectFile={handleOpenFile} />
+      )}
+
+      {isProjectConfig && !activeTab.virtual && <ProjectConfigInfo filePath={currentFile.path} content={content} />}
 
       {/* AI Actions Popover - floating popover for markdown files */}
       {isMarkdown && !isReadOnly && (
@@ -323,8 +363,11 @@ export function EditorPane({
             <Editor
               height="100%"
               language={isMarkdown ? 'markdown' : getLanguageFromFilename(currentFile.name)}
+              // The schema is matched on the model's path
+              path={isProjectConfig ? currentFile.path : undefined}
               value={content}
               onChange={handleContentChange}
+              beforeMount={handleEditorBeforeMount}
               onMount={handleEditorMount}
               theme={isDark ? 'vs-dark' : 'vs'}
               loading={<div className="flex items-center justify-center h-full text-gray-500">Loading editor...</div>}
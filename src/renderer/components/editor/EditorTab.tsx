@@ -129,7 +129,7 @@ export function EditorTab({
           : 'bg-light-surface dark:bg-surface-card text-gray-600 dark:text-content-tertiary hover:bg-light-border dark:hover:bg-surface-hover'
         }
       `}
-      title={tab.file.path}
+      title={tab.virtual ? `Effective context of ${tab.file.path}` : tab.file.path}
     >
       {/* Tool icon */}
       <span className="flex-shrink-0">
@@ -137,13 +137,29 @@ export function EditorTab({
       </span>
 
       {/* File name */}
-      <span className="truncate text-sm">{tab.file.name}</span>
+      <span className="truncate text-sm">
+        {tab.virtual ? `${tab.file.name} (effective)` : tab.file.name}
+      </span>
 
       {/* Unsaved indicator */}
       {tab.isDirty && (
         <span className="flex-shrink-0 w-2 h-2 rounded-full bg-amber-500" title="Unsaved changes" />
       )}
 
+      {/* Changed on disk indicator */}
+      {tab.externalChange && (
+        <span
+          className="flex-shrink-0 text-[10px] font-medium text-red-500 dark:text-red-400"
+          title={
+            tab.externalChange === 'deleted'
+              ? 'File was deleted on disk'
+              : 'File changed on disk while you have unsaved edits'
+          }
+        >
+          {tab.externalChange === 'deleted' ? 'D' : 'M'}
+        </span>
+      )}
+
       {/* Close button */}
       <button
         onClick={handleClose}
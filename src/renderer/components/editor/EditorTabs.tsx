@@ -14,6 +14,7 @@ interface EditorTabsProps {
   showAIButton?: boolean;
   aiButtonRef?: React.RefObject<HTMLButtonElement>;
   onAIClick?: () => void;
+  onConvertFile?: (file: EditorTabType['file']) => void;
 }
 
 interface ContextMenuState {
@@ -27,8 +28,8 @@ interface CloseConfirmationState {
   onConfirm: () => void;
 }
 
-export function EditorTabs({ paneId, tabs, activeTabId, onSplitHorizontal, onSplitVertical, onUnsplit, showAIButton, aiButtonRef, onAIClick }: EditorTabsProps) {
-  const { setActiveTab, closeTab, closeOtherTabs, closeAllTabs, closeSavedTabs, saveTab, reorderTabs, moveTabToPane } = useEditorStore();
+export function EditorTabs({ paneId, tabs, activeTabId, onSplitHorizontal, onSplitVertical, onUnsplit, showAIButton, aiButtonRef, onAIClick, onConvertFile }: EditorTabsProps) {
+  const { setActiveTab, closeTab, closeOtherTabs, closeAllTabs, closeSavedTabs, saveTab, reloadTab, reorderTabs, moveTabToPane } = useEditorStore();
   const [draggedTabId, setDraggedTabId] = useState<string | null>(null);
   const [draggedFromPaneId, setDraggedFromPaneId] = useState<string | null>(null);
   const [dropTargetIndex, setDropTargetIndex] = useState<number | null>(null);
@@ -147,11 +148,19 @@ export function EditorTabs({ paneId, tabs, activeTabId, onSplitHorizontal, onSpl
         closeSavedTabs(paneId);
         break;
 
+      case 'reload':
+        reloadTab(tab.id).catch((error) => console.error('Failed to reload tab:', error));
+        break;
+
+      case 'convert':
+        onConvertFile?.(tab.file);
+        break;
+
       case 'copyPath':
         navigator.clipboard.writeText(tab.file.path);
         break;
     }
-  }, [contextMenu, tabs, paneId, handleCloseTab, closeOtherTabs, closeAllTabs, closeSavedTabs, requestCloseWithConfirmation]);
+  }, [contextMenu, tabs, paneId, handleCloseTab, closeOtherTabs, closeAllTabs, closeSavedTabs, reloadTab, requestCloseWithConfirmation, onConvertFile]);
 
   // Handle close confirmation result
   const handleCloseConfirmationResult = useCallback(async (result: CloseConfirmationResult) => {
@@ -0,0 +1,84 @@
+import { useCallback, useState } from 'react';
+import { EditorTab } from '../../store/editorStore';
+import { useProjectConfigStore } from '../../store/projectConfigStore';
+import { AppSettings, ContextFile } from '../../../shared/types';
+import { showEffectiveContext } from '../../utils/effectiveContext';
+import { simplifyPath } from '../../utils/findInheritanceChain';
+
+interface EffectiveContextBarProps {
+  tab: EditorTab;
+  allFiles: ContextFile[];
+  settings: AppSettings | null;
+}
+
+/**
+ * Shown above an effective context tab instead of the file info bar: what the
+ * document was built from, and actions to rebuild, copy or export it.
+ */
+export function EffectiveContextBar({ tab, allFiles, settings }: EffectiveContextBarProps) {
+  const projectConfigs = useProjectConfigStore((state) => state.configs);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const flash = (message: string) => {
+    setStatus(message);
+    setTimeout(() => setStatus(null), 2000);
+  };
+
+  const handleRefresh = useCallback(async () => {
+    try {
+      await showEffectiveContext(tab.file, allFiles, settings, projectConfigs);
+      flash('Refreshed');
+    } catch (error) {
+      console.error('Failed to refresh effective context:', error);
+    }
+  }, [tab.file, allFiles, settings, projectConfigs]);
+
+  const handleCopy = useCallback(async () => {
+    await navigator.clipboard.writeText(tab.content);
+    flash('Copied');
+  }, [tab.content]);
+
+  const handleExport = useCallback(async () => {
+    const baseName = tab.file.name.replace(/\.[^.]+$/, '');
+    try {
+      const exported = await window.electronAPI.exportTextFile(
+        tab.content,
+        `${baseName}.effective.md`
+      );
+      if (exported) flash(`Exported to ${simplifyPath(exported)}`);
+    } catch (error) {
+      console.error('Failed to export effective context:', error);
+    }
+  }, [tab.file.name, tab.content]);
+
+  const buttonClass =
+    'px-2 py-0.5 text-xs rounded hover:bg-light-border dark:hover:bg-surface-hover transition-colors';
+
+  return (
+    <div className="flex items-center justify-between gap-2 px-3 py-1.5 border-b border-light-border dark:border-surface-border bg-light-surface/50 dark:bg-surface-card/30">
+      <div className="min-w-0 text-xs text-content-tertiary truncate">
+        Effective context of{' '}
+        <span className="font-mono" title={tab.file.path}>
+          {simplifyPath(tab.file.path)}
+        </span>{' '}
+        &middot; read-only
+      </div>
+      <div className="flex items-center gap-1 flex-shrink-0">
+        {status && <span className="text-xs text-content-tertiary mr-1">{status}</span>}
+        <button
+          onClick={handleRefresh}
+          className={buttonClass}
+          title="Rebuild from the files on disk"
+        >
+          Refresh
+        </button>
+        <button onClick={handleCopy} className={buttonClass} title="Copy to clipboard">
+          Copy
+        </button>
+        <button onClick={handleExport} className={buttonClass} title="Save as a Markdown file">
+          Export
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -2,9 +2,21 @@ import { useState, useEffect, useCallback, useMemo } from 'react';
 import { ContextFile, InheritanceChainItem, AppSettings } from '../../../shared/types';
 import { getInheritanceChainWithTokens, calculateTotalTokens } from '../../utils/findInheritanceChain';
 import { ViewMode } from '../../store/editorStore';
+import { useProjectConfigStore } from '../../store/projectConfigStore';
+import { describeBudget, getBudgetColorClass, getFileBudget } from '../../utils/tokenBudgets';
+import { getBudgetStatus } from '../../../shared/budgets';
+import {
+  PROJECT_CONFIG_FILE,
+  findMissingSections,
+  findProjectConfigFor,
+  getRequiredSections,
+} from '../../../shared/projectConfig';
+import { getFileToolProfile } from '../../utils/toolProfiles';
+import { showEffectiveContext } from '../../utils/effectiveContext';
 
 interface FileInfoBarProps {
   file: ContextFile;
+  content: string;
   allFiles: ContextFile[];
   settings: AppSettings | null;
   viewMode: ViewMode;
@@ -24,17 +36,9 @@ function formatTokens(tokens: number): string {
   return `${Math.round(tokens / 1000)}k`;
 }
 
-/**
- * Get token color based on thresholds
- */
-function getTokenColor(tokens: number): string {
-  if (tokens < 10000) return 'text-green-600 dark:text-green-400';
-  if (tokens < 50000) return 'text-yellow-600 dark:text-yellow-400';
-  return 'text-red-600 dark:text-red-400';
-}
-
 export function FileInfoBar({
   file,
+  content,
   allFiles,
   settings,
   viewMode,
@@ -50,15 +54,15 @@ export function FileInfoBar({
 
   // Detect if file is markdown
   const isMarkdown = useMemo(() => file.name.match(/\.(md|mdx|markdown)$/i), [file.name]);
+  const projectConfigs = useProjectConfigStore((state) => state.configs);
 
   // Load inheritance chain
   useEffect(() => {
     async function loadChain() {
       setIsLoading(true);
       try {
-        const profile = settings?.toolProfiles.find((p) => p.id === file.toolId);
-        const tokenizer = profile?.tokenizer || 'anthropic';
-        const inheritanceChain = await getInheritanceChainWithTokens(file, allFiles, tokenizer);
+        const profile = getFileToolProfile(file.path, file.toolId, settings, projectConfigs);
+        const inheritanceChain = await getInheritanceChainWithTokens(file, allFiles, profile);
         setChain(inheritanceChain);
       } catch (error) {
         console.error('Failed to load inheritance chain:', error);
@@ -69,11 +73,20 @@ export function FileInfoBar({
     }
 
     loadChain();
-  }, [file, allFiles, settings]);
+  }, [file, allFiles, settings, projectConfigs]);
 
   const totalTokens = calculateTotalTokens(chain);
   const hasInheritedFiles = chain.length > 1;
   const inheritedFileCount = chain.length - 1;
+  const totalBudget = getFileBudget(file.path, file.toolId, settings, projectConfigs).total;
+  const totalColor = getBudgetColorClass(getBudgetStatus(totalTokens, totalBudget));
+
+  // Headings the project config requires, checked against the unsaved content
+  const missingSections = useMemo(() => {
+    if (!isMarkdown) return [];
+    const config = findProjectConfigFor(file.path, projectConfigs)?.config;
+    return findMissingSections(content, getRequiredSections(config, file.toolId));
+  }, [isMarkdown, file, projectConfigs, content]);
 
   // Handle clicking on a file in the chain
   const handleFileClick = useCallback(
@@ -85,6 +98,14 @@ export function FileInfoBar({
     [onSelectFile]
   );
 
+  const handleShowEffectiveContext = useCallback(async () => {
+    try {
+      await showEffectiveContext(file, allFiles, settings, projectConfigs);
+    } catch (error) {
+      console.error('Failed to build effective context:', error);
+    }
+  }, [file, allFiles, settings, projectConfigs]);
+
   return (
     <div className="file-info-bar border-b border-light-border dark:border-surface-border bg-light-surface/50 dark:bg-surface-card/30">
       {/* Collapsed state - single line */}
@@ -121,6 +142,14 @@ export function FileInfoBar({
           {isSaving && (
             <span className="text-xs text-content-tertiary flex-shrink-0">Saving...</span>
           )}
+          {missingSections.length > 0 && (
+            <span
+              className="file-info-badge file-info-badge-warning"
+              title={`Required by ${PROJECT_CONFIG_FILE}: ${missingSections.join(', ')}`}
+            >
+              {missingSections.length} missing section{missingSections.length > 1 ? 's' : ''}
+            </span>
+          )}
 
           {/* Separator */}
           <span className="text-gray-300 dark:text-surface-border flex-shrink-0">|</span>
@@ -129,7 +158,7 @@ export function FileInfoBar({
           {isLoading ? (
             <span className="text-xs text-content-tertiary">Loading...</span>
           ) : (
-            <span className={`text-xs font-medium ${getTokenColor(totalTokens)}`}>
+            <span className={`text-xs font-medium ${totalColor}`} title={describeBudget(totalTokens, totalBudget)}>
               {formatTokens(totalTokens)} tokens
             </span>
           )}
@@ -285,7 +314,7 @@ export function FileInfoBar({
               Total context cost
             </span>
             <div className="flex items-center gap-2">
-              <span className={`font-medium ${getTokenColor(totalTokens)}`}>
+              <span className={`font-medium ${totalColor}`} title={describeBudget(totalTokens, totalBudget)}>
                 {totalTokens.toLocaleString()} tokens
               </span>
               <span className="text-content-tertiary">|</span>
@@ -298,6 +327,14 @@ export function FileInfoBar({
               )}
             </div>
           </div>
+
+          <button
+            onClick={handleShowEffectiveContext}
+            className="mt-1.5 text-xs text-blue-600 dark:text-blue-400 hover:underline"
+            title="Everything loaded with this file, merged into one read-only document"
+          >
+            Show effective context
+          </button>
         </div>
       )}
     </div>
@@ -0,0 +1,42 @@
+import { useMemo } from 'react';
+import { parseProjectConfig } from '../../../shared/projectConfig';
+
+interface ProjectConfigInfoProps {
+  filePath: string;
+  content: string;
+}
+
+/**
+ * Summary shown above a .tokencentric.json in the editor: what it applies to
+ * and what it sets, or the problems that make parts of it ignored.
+ */
+export function ProjectConfigInfo({ filePath, content }: ProjectConfigInfoProps) {
+  const { config, errors } = useMemo(() => parseProjectConfig(content), [content]);
+  const dir = filePath.slice(0, filePath.lastIndexOf('/'));
+
+  const summary = [
+    config.budgets && 'budgets',
+    config.exclusions?.length &&
+      `${config.exclusions.length} exclusion${config.exclusions.length === 1 ? '' : 's'}`,
+    config.requiredSections && 'required sections',
+    config.toolProfiles?.length &&
+      `${config.toolProfiles.length} tool profile${config.toolProfiles.length === 1 ? '' : 's'}`,
+  ].filter(Boolean);
+
+  return (
+    <div className="px-3 py-2 text-xs border-b border-light-border dark:border-surface-border bg-light-surface/50 dark:bg-surface-card/30">
+      <div className="text-content-tertiary">
+        Project config for <span className="font-mono">{dir}</span> and below
+        {summary.length > 0 && <> &middot; sets {summary.join(', ')}</>}. Saving rescans the folders
+        it applies to.
+      </div>
+      {errors.length > 0 && (
+        <ul className="mt-1.5 space-y-0.5 text-amber-700 dark:text-amber-300">
+          {errors.map((error) => (
+            <li key={error}>{error} (ignored)</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
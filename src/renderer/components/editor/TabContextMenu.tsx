@@ -1,11 +1,14 @@
 import { useEffect, useRef } from 'react';
 import { EditorTab } from '../../store/editorStore';
+import { detectContextFormat } from '../../../shared/contextFormats';
 
 export type TabContextMenuAction =
   | 'close'
   | 'closeOthers'
   | 'closeAll'
   | 'closeSaved'
+  | 'reload'
+  | 'convert'
   | 'copyPath';
 
 interface TabContextMenuProps {
@@ -50,11 +53,23 @@ const menuItems: MenuItem[] = [
     label: 'Close Saved',
     icon: 'M5 13l4 4L19 7',
   },
+  {
+    action: 'reload',
+    label: 'Reload from Disk',
+    icon: 'M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15',
+    dividerBefore: true,
+    disabled: (tab) => tab.externalChange === 'deleted' || !!tab.virtual,
+  },
+  {
+    action: 'convert',
+    label: 'Convert to…',
+    icon: 'M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4',
+    disabled: (tab) => !!tab.virtual || !detectContextFormat(tab.file.path),
+  },
   {
     action: 'copyPath',
     label: 'Copy Path',
     icon: 'M8 5H6a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2v-1M8 5a2 2 0 002 2h2a2 2 0 002-2M8 5a2 2 0 012-2h2a2 2 0 012 2m0 0h2a2 2 0 012 2v3m2 4H10m0 0l3-3m-3 3l3 3',
-    dividerBefore: true,
     shortcut: '⌥⌘C'
   },
 ];
@@ -0,0 +1,46 @@
+import { ScanProgress } from '../../../shared/types';
+
+interface ScanProgressPanelProps {
+  progress: ScanProgress;
+  onCancel: () => void;
+}
+
+/**
+ * Shows what a running scan is doing, with a Cancel action.
+ * The bar is indeterminate while walking directories (the total isn't known yet).
+ */
+export function ScanProgressPanel({ progress, onCancel }: ScanProgressPanelProps) {
+  const isWalking = progress.phase === 'walking';
+  const percent =
+    progress.filesMatched > 0 ? Math.round((progress.filesTokenized / progress.filesMatched) * 100) : 0;
+  const currentName = progress.currentPath?.split('/').pop();
+
+  return (
+    <div className="px-3 py-2 border-b border-light-border dark:border-surface-border text-xs text-gray-600 dark:text-content-tertiary">
+      <div className="flex items-center justify-between gap-2">
+        <span className="truncate">
+          {isWalking
+            ? `Scanning... ${progress.directoriesVisited.toLocaleString()} folders, ${progress.filesMatched.toLocaleString()} files`
+            : `Counting tokens ${progress.filesTokenized.toLocaleString()} / ${progress.filesMatched.toLocaleString()}`}
+        </span>
+        <button
+          onClick={onCancel}
+          className="flex-shrink-0 text-gray-500 hover:text-red-500 dark:text-content-tertiary transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+      <div className="mt-1.5 h-1 rounded-full overflow-hidden bg-light-border dark:bg-surface-border">
+        <div
+          className={`h-full bg-brand-teal transition-all ${isWalking ? 'w-1/3 animate-pulse' : ''}`}
+          style={isWalking ? undefined : { width: `${percent}%` }}
+        />
+      </div>
+      {currentName && (
+        <div className="mt-1 truncate font-mono text-content-tertiary" title={progress.currentPath}>
+          {currentName}
+        </div>
+      )}
+    </div>
+  );
+}
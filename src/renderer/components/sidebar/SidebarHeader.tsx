@@ -9,6 +9,7 @@ interface SidebarHeaderProps {
   onToolFilterChange: (value: string) => void;
   availableTools: ToolProfile[];
   totalFiles: number;
+  isScanning?: boolean;
 }
 
 /**
@@ -22,6 +23,7 @@ export function SidebarHeader({
   onToolFilterChange,
   availableTools,
   totalFiles,
+  isScanning = false,
 }: SidebarHeaderProps) {
   return (
     <div className="border-b border-light-border dark:border-surface-border">
@@ -38,9 +40,10 @@ export function SidebarHeader({
         <div className="flex gap-2">
           <button
             onClick={onScanDirectory}
-            className="flex-1 px-3 py-2 text-sm bg-brand-teal hover:bg-brand-teal-bright text-white rounded-md transition-colors"
+            disabled={isScanning}
+            className="flex-1 px-3 py-2 text-sm bg-brand-teal hover:bg-brand-teal-bright text-white rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
           >
-            Scan Directory
+            {isScanning ? 'Scanning...' : 'Scan Directory'}
           </button>
           <button
             onClick={onNewFile}
@@ -1,16 +1,22 @@
 import { useState } from 'react';
+import { PackExportOptions } from '../../shared/types';
+import { simplifyPath } from '../utils/findInheritanceChain';
 
 interface ExportDialogProps {
-  onExport: (options: { name: string; description: string; includeCommands: boolean; includeAgents: boolean; includeSettings: boolean }) => void;
+  projects: string[]; // Scanned projects the config can be exported from
+  onExport: (options: PackExportOptions) => void;
   onCancel: () => void;
 }
 
-export function ExportDialog({ onExport, onCancel }: ExportDialogProps) {
+export function ExportDialog({ projects, onExport, onCancel }: ExportDialogProps) {
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
   const [includeCommands, setIncludeCommands] = useState(true);
   const [includeAgents, setIncludeAgents] = useState(true);
   const [includeSettings, setIncludeSettings] = useState(false);
+  const [includeContext, setIncludeContext] = useState(true);
+  const [project, setProject] = useState<string | null>(null); // null exports the user config
+  const claudeDir = project ? `${simplifyPath(project)}/.claude` : '~/.claude';
 
   function handleExport() {
     if (!name.trim()) return;
@@ -20,6 +26,8 @@ export function ExportDialog({ onExport, onCancel }: ExportDialogProps) {
       includeCommands,
       includeAgents,
       includeSettings,
+      includeContext,
+      project,
     });
   }
 
@@ -32,7 +40,7 @@ export function ExportDialog({ onExport, onCancel }: ExportDialogProps) {
             Export Starter Pack
           </h3>
           <p className="text-xs text-gray-500 dark:text-content-tertiary mt-0.5">
-            Bundle your Claude Code config into a shareable .tcpack file
+            Bundle your Claude Code config and the rules of other tools into a shareable .tcpack file
           </p>
         </div>
 
@@ -66,6 +74,25 @@ export function ExportDialog({ onExport, onCancel }: ExportDialogProps) {
             />
           </div>
 
+          {/* Source */}
+          <div>
+            <label className="text-xs font-medium text-gray-700 dark:text-content-secondary block mb-1">
+              Export From
+            </label>
+            <select
+              value={project ?? ''}
+              onChange={(e) => setProject(e.target.value || null)}
+              className="w-full text-sm px-3 py-2 rounded-md border border-light-border dark:border-surface-border bg-light-bg dark:bg-surface-card text-gray-900 dark:text-content-primary focus:outline-none focus:ring-1 focus:ring-blue-500"
+            >
+              <option value="">Your user config (~/.claude)</option>
+              {projects.map((p) => (
+                <option key={p} value={p}>
+                  {simplifyPath(p)}
+                </option>
+              ))}
+            </select>
+          </div>
+
           {/* Include checkboxes */}
           <div>
             <label className="text-xs font-medium text-gray-700 dark:text-content-secondary block mb-2">
@@ -80,7 +107,7 @@ export function ExportDialog({ onExport, onCancel }: ExportDialogProps) {
                   className="w-3.5 h-3.5 rounded border-light-border text-blue-500 focus:ring-blue-500"
                 />
                 <span className="text-xs text-gray-700 dark:text-content-secondary">
-                  Commands (~/.claude/commands/)
+                  Commands ({claudeDir}/commands/)
                 </span>
               </label>
               <label className="flex items-center gap-2 cursor-pointer">
@@ -91,7 +118,7 @@ export function ExportDialog({ onExport, onCancel }: ExportDialogProps) {
                   className="w-3.5 h-3.5 rounded border-light-border text-blue-500 focus:ring-blue-500"
                 />
                 <span className="text-xs text-gray-700 dark:text-content-secondary">
-                  Agents (~/.claude/agents/)
+                  Agents ({claudeDir}/agents/)
                 </span>
               </label>
               <label className="flex items-center gap-2 cursor-pointer">
@@ -102,7 +129,18 @@ export function ExportDialog({ onExport, onCancel }: ExportDialogProps) {
                   className="w-3.5 h-3.5 rounded border-light-border text-blue-500 focus:ring-blue-500"
                 />
                 <span className="text-xs text-gray-700 dark:text-content-secondary">
-                  Settings (~/.claude/settings.json)
+                  Settings ({claudeDir}/settings.json)
+                </span>
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={includeContext}
+                  onChange={(e) => setIncludeContext(e.target.checked)}
+                  className="w-3.5 h-3.5 rounded border-light-border text-blue-500 focus:ring-blue-500"
+                />
+                <span className="text-xs text-gray-700 dark:text-content-secondary">
+                  Context files and rules (CLAUDE.md, AGENTS.md, Cursor, Copilot and Windsurf)
                 </span>
               </label>
             </div>
@@ -119,7 +157,10 @@ export function ExportDialog({ onExport, onCancel }: ExportDialogProps) {
           </button>
           <button
             onClick={handleExport}
-            disabled={!name.trim() || (!includeCommands && !includeAgents && !includeSettings)}
+            disabled={
+              !name.trim() ||
+              (!includeCommands && !includeAgents && !includeSettings && !includeContext)
+            }
             className="px-4 py-1.5 text-xs font-medium text-white bg-blue-500 hover:bg-blue-600 disabled:opacity-50 rounded-md transition-colors"
           >
             Export .tcpack
@@ -1,35 +1,77 @@
-import { useState } from 'react';
-import { StarterPackMeta } from '../../../shared/builtinPacks';
+import { useEffect, useState } from 'react';
+import { StarterPackMeta } from '../../shared/builtinPacks';
+import { PackInstallResult, SettingsMergeAction } from '../../shared/types';
+import { describeSettingsChange } from '../../shared/settingsMerge';
+import { getPackFileKey, getPackToolName } from '../../shared/packTools';
+import { simplifyPath } from '../utils/findInheritanceChain';
+
+const SETTINGS_ACTION_COLORS: Record<SettingsMergeAction, string> = {
+  add: 'text-green-600 dark:text-green-400',
+  append: 'text-blue-600 dark:text-blue-400',
+  conflict: 'text-amber-600 dark:text-amber-400',
+  unchanged: 'text-gray-400 dark:text-content-tertiary',
+};
 
 interface InstallPreviewDialogProps {
   packMeta: StarterPackMeta;
-  onInstall: (selectedFiles: string[], overwrite: boolean) => void;
+  projects: string[]; // Scanned projects the pack can be installed into
+  onInstall: (selectedFiles: string[], overwrite: boolean, project: string | null) => void;
   onCancel: () => void;
 }
 
-export function InstallPreviewDialog({ packMeta, onInstall, onCancel }: InstallPreviewDialogProps) {
+export function InstallPreviewDialog({ packMeta, projects, onInstall, onCancel }: InstallPreviewDialogProps) {
   const { pack } = packMeta;
 
-  // Collect all files
+  // Collect all files, grouped by directory prefix, and by tool when the pack has several.
+  // Files are keyed by tool and filename, since two tools can have a file of the same name.
   const allFiles: string[] = [];
-  for (const toolData of Object.values(pack.tools)) {
-    for (const file of toolData.configFiles || []) {
-      allFiles.push(file.filename);
+  const grouped: Record<string, Array<{ key: string; filename: string }>> = {};
+  const multiTool = Object.keys(pack.tools).length > 1;
+  for (const [toolId, toolData] of Object.entries(pack.tools)) {
+    for (const file of [...(toolData.contextFiles || []), ...(toolData.configFiles || [])]) {
+      const key = getPackFileKey(toolId, file.filename);
+      allFiles.push(key);
+      const parts = file.filename.split('/');
+      const dir = parts.length > 1 ? parts.slice(0, -1).join('/') : 'root';
+      const group = multiTool ? `${getPackToolName(toolId)} / ${dir}` : dir;
+      if (!grouped[group]) grouped[group] = [];
+      grouped[group].push({ key, filename: file.filename });
     }
   }
 
   const [selectedFiles, setSelectedFiles] = useState<Set<string>>(new Set(allFiles));
   const [overwrite, setOverwrite] = useState(false);
+  const [project, setProject] = useState<string | null>(null); // null installs into ~/.claude
+  const [preview, setPreview] = useState<PackInstallResult | null>(null);
 
   const hasSettings = Object.values(pack.tools).some((t) => t.settings);
 
-  function toggleFile(filename: string) {
+  // Which files exist and how the settings merge, before anything is written
+  useEffect(() => {
+    let cancelled = false;
+    window.electronAPI
+      .previewPackInstall(packMeta.id, [], overwrite, project)
+      .then((result) => {
+        if (!cancelled) setPreview(result);
+      })
+      .catch((error) => console.error('Failed to preview pack install:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [packMeta.id, overwrite, project]);
+
+  const actions = new Map((preview?.actions || []).map((a) => [getPackFileKey(a.tool, a.file), a]));
+  const settingsChanges = (preview?.settings || []).filter((c) => c.action !== 'unchanged');
+  const alreadySet = (preview?.settings || []).length - settingsChanges.length;
+  const settingsConflicts = settingsChanges.filter((c) => c.action === 'conflict').length;
+
+  function toggleFile(key: string) {
     setSelectedFiles((prev) => {
       const next = new Set(prev);
-      if (next.has(filename)) {
-        next.delete(filename);
+      if (next.has(key)) {
+        next.delete(key);
       } else {
-        next.add(filename);
+        next.add(key);
       }
       return next;
     });
@@ -43,15 +85,6 @@ export function InstallPreviewDialog({ packMeta, onInstall, onCancel }: InstallP
     }
   }
 
-  // Group files by directory prefix
-  const grouped: Record<string, string[]> = {};
-  for (const file of allFiles) {
-    const parts = file.split('/');
-    const group = parts.length > 1 ? parts.slice(0, -1).join('/') : 'root';
-    if (!grouped[group]) grouped[group] = [];
-    grouped[group].push(file);
-  }
-
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
       <div className="bg-light-bg dark:bg-surface-card rounded-lg shadow-xl w-[480px] max-h-[80vh] flex flex-col">
@@ -61,8 +94,25 @@ export function InstallPreviewDialog({ packMeta, onInstall, onCancel }: InstallP
             Install: {pack.name}
           </h3>
           <p className="text-xs text-gray-500 dark:text-content-tertiary mt-0.5">
-            Select which files to install into ~/.claude/
+            {project
+              ? `Select which files to install into ${simplifyPath(project)}, where each tool reads them`
+              : 'Select which files to install for all your projects, into ~/.claude/ and the other tools\' user config'}
           </p>
+          <div className="flex items-center gap-2 mt-2">
+            <span className="text-xs text-gray-600 dark:text-content-tertiary">Install for</span>
+            <select
+              value={project ?? ''}
+              onChange={(e) => setProject(e.target.value || null)}
+              className="min-w-0 flex-1 px-2 py-1 text-xs bg-light-surface dark:bg-surface-bg border border-light-border dark:border-surface-border rounded-md text-gray-700 dark:text-content-secondary"
+            >
+              <option value="">All projects (~/.claude)</option>
+              {projects.map((p) => (
+                <option key={p} value={p}>
+                  {simplifyPath(p)}
+                </option>
+              ))}
+            </select>
+          </div>
         </div>
 
         {/* File tree */}
@@ -87,21 +137,51 @@ export function InstallPreviewDialog({ packMeta, onInstall, onCancel }: InstallP
                 </div>
                 <div className="space-y-0.5">
                   {files.map((file) => {
-                    const filename = file.split('/').pop() || file;
+                    const filename = file.filename.split('/').pop() || file.filename;
+                    const action = actions.get(file.key);
+                    const exists = action?.action === 'skip' || action?.action === 'overwrite';
                     return (
                       <label
-                        key={file}
+                        key={file.key}
                         className="flex items-center gap-2 px-2 py-1 rounded hover:bg-light-surface dark:hover:bg-surface-hover/50 cursor-pointer"
                       >
                         <input
                           type="checkbox"
-                          checked={selectedFiles.has(file)}
-                          onChange={() => toggleFile(file)}
+                          checked={selectedFiles.has(file.key)}
+                          onChange={() => toggleFile(file.key)}
                           className="w-3.5 h-3.5 rounded border-light-border text-blue-500 focus:ring-blue-500"
                         />
-                        <span className="text-xs text-gray-700 dark:text-content-secondary font-mono">
+                        <span
+                          className="text-xs text-gray-700 dark:text-content-secondary font-mono"
+                          title={
+                            action && action.action !== 'needs-project' && action.action !== 'unsupported'
+                              ? simplifyPath(action.path)
+                              : undefined
+                          }
+                        >
                           {filename}
                         </span>
+                        {exists && (
+                          <span className="text-[10px] text-amber-600 dark:text-amber-400">
+                            {overwrite ? 'replaces existing' : 'exists, skipped'}
+                          </span>
+                        )}
+                        {action?.action === 'needs-project' && (
+                          <span
+                            className="text-[10px] text-gray-400 dark:text-content-tertiary"
+                            title={`Goes into ${action.path} in a project`}
+                          >
+                            needs a project, skipped
+                          </span>
+                        )}
+                        {action?.action === 'unsupported' && (
+                          <span
+                            className="text-[10px] text-gray-400 dark:text-content-tertiary"
+                            title="The tool doesn't read a file of this name"
+                          >
+                            unsupported, skipped
+                          </span>
+                        )}
                       </label>
                     );
                   })}
@@ -115,7 +195,25 @@ export function InstallPreviewDialog({ packMeta, onInstall, onCancel }: InstallP
                   Settings
                 </div>
                 <div className="px-2 py-1 text-xs text-gray-500 dark:text-content-tertiary">
-                  Settings will be merged into your existing settings.json
+                  Merged into your settings.json: hooks and permissions are added to yours
+                  {alreadySet > 0 && ` (${alreadySet} already set)`}
+                </div>
+                <div className="space-y-0.5">
+                  {settingsChanges.map((change) => (
+                    <div key={change.key} className="flex items-baseline gap-2 px-2 text-xs">
+                      <span
+                        className={`w-14 shrink-0 text-[10px] uppercase font-medium ${SETTINGS_ACTION_COLORS[change.action]}`}
+                      >
+                        {change.action}
+                      </span>
+                      <span className="shrink-0 font-mono text-gray-700 dark:text-content-secondary">
+                        {change.key}
+                      </span>
+                      <span className="min-w-0 truncate font-mono text-[11px] text-gray-500 dark:text-content-tertiary">
+                        {describeSettingsChange(change)}
+                      </span>
+                    </div>
+                  ))}
                 </div>
               </div>
             )}
@@ -134,6 +232,7 @@ export function InstallPreviewDialog({ packMeta, onInstall, onCancel }: InstallP
               />
               <span className="text-xs text-gray-600 dark:text-content-tertiary">
                 Overwrite existing files
+                {settingsConflicts > 0 && ` and ${settingsConflicts} conflicting setting(s)`}
               </span>
             </label>
           </div>
@@ -145,7 +244,7 @@ export function InstallPreviewDialog({ packMeta, onInstall, onCancel }: InstallP
               Cancel
             </button>
             <button
-              onClick={() => onInstall(Array.from(selectedFiles), overwrite)}
+              onClick={() => onInstall(Array.from(selectedFiles), overwrite, project)}
               disabled={selectedFiles.size === 0}
               className="px-4 py-1.5 text-xs font-medium text-white bg-blue-500 hover:bg-blue-600 disabled:opacity-50 rounded-md transition-colors"
             >
@@ -1,18 +1,23 @@
 import { useMemo } from 'react';
 import { StarterPackMeta } from '@shared/builtinPacks';
 import { parsePackContents } from '@shared/packUtils';
+import { InstalledPackStatus } from '@shared/types';
 import { ToolIcon } from '../components/ToolIcon';
 
 interface PackCardProps {
   packMeta: StarterPackMeta;
+  installs: InstalledPackStatus[]; // Where the pack is installed, if anywhere
   onInstall: (packMeta: StarterPackMeta) => void;
   onViewDetails: (packMeta: StarterPackMeta) => void;
 }
 
-export function PackCard({ packMeta, onInstall, onViewDetails }: PackCardProps) {
+export function PackCard({ packMeta, installs, onInstall, onViewDetails }: PackCardProps) {
   const { pack, builtin } = packMeta;
   const parsed = useMemo(() => parsePackContents(pack), [pack]);
   const toolIds = Object.keys(pack.tools);
+  const outdated = installs.filter((i) => i.install.version !== pack.version).length;
+  // Context files, rules and other config files, of any tool
+  const otherFiles = parsed.tools.reduce((sum, t) => sum + t.files.length, 0);
 
   // Build preview chips (first 3 items + overflow)
   const previewItems: string[] = [
@@ -46,6 +51,14 @@ export function PackCard({ packMeta, onInstall, onViewDetails }: PackCardProps)
               Built-in
             </span>
           )}
+          {installs.length > 0 && (
+            <span
+              className="text-[10px] px-1.5 py-0.5 bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400 rounded"
+              title={`Installed in ${installs.length} place${installs.length !== 1 ? 's' : ''}`}
+            >
+              {outdated > 0 ? 'Update available' : 'Installed'}
+            </span>
+          )}
           {toolIds.map((toolId) => (
             <span
               key={toolId}
@@ -75,6 +88,12 @@ export function PackCard({ packMeta, onInstall, onViewDetails }: PackCardProps)
               {parsed.agents.length} Agent{parsed.agents.length !== 1 ? 's' : ''}
             </span>
           )}
+          {otherFiles > 0 && (
+            <span className="flex items-center gap-1">
+              <ToolIcon toolId="document" size={12} />
+              {otherFiles} File{otherFiles !== 1 ? 's' : ''}
+            </span>
+          )}
           {parsed.settings && (
             <span className="flex items-center gap-1">
               <ToolIcon toolId="gear" size={12} />
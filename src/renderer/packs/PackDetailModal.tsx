@@ -1,13 +1,39 @@
 import { useMemo, useState } from 'react';
 import { StarterPackMeta } from '@shared/builtinPacks';
-import { parsePackContents, ParsedCommand } from '@shared/packUtils';
+import { parsePackContents, ParsedCommand, ParsedPackFile } from '@shared/packUtils';
+import { getPackToolName } from '@shared/packTools';
+import { InstalledPackStatus } from '@shared/types';
 import { Modal } from '../components/Modal';
 import { ToolIcon } from '../components/ToolIcon';
+import { simplifyPath } from '../utils/findInheritanceChain';
 
 interface PackDetailModalProps {
   packMeta: StarterPackMeta;
   onClose: () => void;
   onInstall: (packMeta: StarterPackMeta) => void;
+  installs: InstalledPackStatus[]; // One per place the pack is installed in
+  onUninstall?: (install: InstalledPackStatus) => Promise<void>;
+  onUpgrade?: (install: InstalledPackStatus) => void;
+  // Library packs only
+  onRename?: (name: string) => Promise<void>;
+  onReimport?: () => Promise<void>;
+  onRemove?: () => Promise<void>;
+}
+
+// Where an install went: ~/.claude or the project it was installed in
+const getInstallPlace = (install: InstalledPackStatus) =>
+  install.install.project ? simplifyPath(install.install.project) : '~/.claude';
+
+// Files and settings changed since install
+function getChanges(install: InstalledPackStatus) {
+  return [
+    ...install.files
+      .filter((f) => f.status !== 'unchanged')
+      .map((f) => ({ label: simplifyPath(f.path), status: f.status })),
+    ...install.settings
+      .filter((s) => s.status !== 'unchanged')
+      .map((s) => ({ label: `settings.json: ${s.key}`, status: s.status })),
+  ];
 }
 
 function CommandPromptBlock({ content }: { content: string }) {
@@ -72,10 +98,69 @@ function ExpandableCommand({ cmd }: { cmd: ParsedCommand }) {
   );
 }
 
-export function PackDetailModal({ packMeta, onClose, onInstall }: PackDetailModalProps) {
+function ExpandableFile({ file }: { file: ParsedPackFile }) {
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <div className="rounded-md bg-light-surface dark:bg-surface-hover/50 overflow-hidden">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="flex gap-2 p-2 w-full text-left hover:bg-light-bg/50 dark:hover:bg-surface-card/30 transition-colors"
+      >
+        <div className="mt-0.5 text-gray-400 dark:text-content-tertiary shrink-0">
+          <ToolIcon toolId="document" size={14} />
+        </div>
+        <div className="min-w-0 flex-1">
+          <div className="text-xs font-medium font-mono text-gray-900 dark:text-content-primary">
+            {file.filename}
+          </div>
+          <div className="text-[11px] text-gray-500 dark:text-content-tertiary mt-0.5 font-mono truncate">
+            {file.path === null
+              ? 'Not read by this tool, skipped'
+              : `${file.path}${file.userPath ? ` or ~/${file.userPath}` : ' (project only)'}`}
+          </div>
+        </div>
+        <svg
+          className={`w-3.5 h-3.5 text-gray-400 dark:text-content-tertiary shrink-0 mt-0.5 transition-transform ${expanded ? 'rotate-180' : ''}`}
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+      {expanded && (
+        <div className="px-2 pb-2">
+          <pre className="p-2 rounded bg-light-bg dark:bg-surface-card text-[11px] text-gray-600 dark:text-content-tertiary leading-relaxed whitespace-pre-wrap font-mono max-h-40 overflow-y-auto border border-light-border dark:border-surface-border">
+            {file.content}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function PackDetailModal({
+  packMeta,
+  onClose,
+  onInstall,
+  installs,
+  onUninstall,
+  onUpgrade,
+  onRename,
+  onReimport,
+  onRemove,
+}: PackDetailModalProps) {
   const { pack } = packMeta;
   const parsed = useMemo(() => parsePackContents(pack), [pack]);
   const toolIds = Object.keys(pack.tools);
+  const [newName, setNewName] = useState<string | null>(null);
+
+  async function handleRename() {
+    if (!onRename || !newName?.trim()) return;
+    await onRename(newName);
+    setNewName(null);
+  }
 
   function handleInstall() {
     onInstall(packMeta);
@@ -98,6 +183,14 @@ export function PackDetailModal({ packMeta, onClose, onInstall }: PackDetailModa
               Built-in
             </span>
           )}
+          {packMeta.importedAt && (
+            <span
+              className="text-[10px] text-gray-400 dark:text-content-tertiary"
+              title={packMeta.source || undefined}
+            >
+              imported {new Date(packMeta.importedAt).toLocaleDateString()}
+            </span>
+          )}
           {toolIds.map((toolId) => (
             <span
               key={toolId}
@@ -113,6 +206,65 @@ export function PackDetailModal({ packMeta, onClose, onInstall }: PackDetailModa
           {pack.description}
         </p>
 
+        {/* Install status, per place the pack is installed in */}
+        {installs.map((install) => {
+          const changed = getChanges(install);
+          return (
+            <div
+              key={install.install.project || ''}
+              className="p-2 rounded-md bg-light-surface dark:bg-surface-hover/50 text-xs text-gray-600 dark:text-content-secondary"
+            >
+              <div className="flex items-center gap-2">
+                <div className="min-w-0 flex-1">
+                  v{install.install.version} installed in{' '}
+                  <span className="font-mono">{getInstallPlace(install)}</span>{' '}
+                  {new Date(install.install.installedAt).toLocaleDateString()}
+                  {changed.length === 0
+                    ? ', unchanged since'
+                    : `, ${changed.length} change${changed.length !== 1 ? 's' : ''} since:`}
+                </div>
+                {onUpgrade && install.install.version !== pack.version && (
+                  <button
+                    onClick={() => onUpgrade(install)}
+                    className="shrink-0 px-2 py-1 text-[11px] font-medium text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded transition-colors"
+                  >
+                    Upgrade to v{pack.version}
+                  </button>
+                )}
+                {onUninstall && (
+                  <button
+                    onClick={() => onUninstall(install)}
+                    className="shrink-0 px-2 py-1 text-[11px] font-medium text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded transition-colors"
+                    title="Delete the files this pack installed, keeping the ones you changed"
+                  >
+                    Uninstall
+                  </button>
+                )}
+              </div>
+              {changed.length > 0 && (
+                <ul className="mt-1 space-y-0.5">
+                  {changed.map((c) => (
+                    <li key={c.label} className="flex gap-2 text-[11px]">
+                      <span
+                        className={`w-14 shrink-0 uppercase text-[10px] font-medium ${
+                          c.status === 'modified'
+                            ? 'text-amber-600 dark:text-amber-400'
+                            : 'text-gray-400 dark:text-content-tertiary'
+                        }`}
+                      >
+                        {c.status}
+                      </span>
+                      <span className="font-mono text-gray-500 dark:text-content-tertiary truncate">
+                        {c.label}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+
         {/* Scrollable content sections */}
         <div className="max-h-[60vh] overflow-y-auto -mx-4 px-4 space-y-4">
           {/* Commands section */}
@@ -191,6 +343,24 @@ export function PackDetailModal({ packMeta, onClose, onInstall }: PackDetailModa
             </div>
           )}
 
+          {/* Tool sections: context files, rules and other files, with where they go */}
+          {parsed.tools.map((section) => (
+            <div key={section.toolId}>
+              <div className="flex items-center gap-2 mb-2">
+                <ToolIcon toolId={section.toolId} size={12} />
+                <div className="text-[10px] uppercase tracking-wider font-semibold text-gray-400 dark:text-content-tertiary">
+                  {getPackToolName(section.toolId)} ({section.files.length})
+                </div>
+                <div className="flex-1 border-t border-light-border dark:border-surface-border" />
+              </div>
+              <div className="space-y-1.5">
+                {section.files.map((file) => (
+                  <ExpandableFile key={`${file.kind}:${file.filename}`} file={file} />
+                ))}
+              </div>
+            </div>
+          ))}
+
           {/* Settings section */}
           {parsed.settings && (
             <div>
@@ -230,6 +400,57 @@ export function PackDetailModal({ packMeta, onClose, onInstall }: PackDetailModa
 
         {/* Footer actions */}
         <div className="flex justify-end gap-2 pt-2 border-t border-light-border dark:border-surface-border">
+          {/* Install and library actions */}
+          {newName !== null ? (
+            <div className="flex items-center gap-2 mr-auto">
+              <input
+                type="text"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleRename();
+                  if (e.key === 'Escape') setNewName(null);
+                }}
+                autoFocus
+                className="px-2 py-1 text-xs bg-light-surface dark:bg-surface-bg border border-light-border dark:border-surface-border rounded-md text-gray-700 dark:text-content-secondary"
+              />
+              <button
+                onClick={handleRename}
+                disabled={!newName.trim()}
+                className="px-3 py-1.5 text-xs font-medium text-gray-600 dark:text-content-tertiary border border-light-border dark:border-surface-border hover:bg-light-surface dark:hover:bg-surface-hover disabled:opacity-50 rounded-md transition-colors"
+              >
+                Save
+              </button>
+            </div>
+          ) : (
+            <div className="flex items-center gap-2 mr-auto">
+              {onRename && (
+                <button
+                  onClick={() => setNewName(pack.name)}
+                  className="px-3 py-1.5 text-xs font-medium text-gray-600 dark:text-content-tertiary hover:bg-light-surface dark:hover:bg-surface-hover rounded-md transition-colors"
+                >
+                  Rename
+                </button>
+              )}
+              {onReimport && (
+                <button
+                  onClick={onReimport}
+                  className="px-3 py-1.5 text-xs font-medium text-gray-600 dark:text-content-tertiary hover:bg-light-surface dark:hover:bg-surface-hover rounded-md transition-colors"
+                  title="Replace this pack with a newer copy of its .tcpack file"
+                >
+                  Re-import…
+                </button>
+              )}
+              {onRemove && (
+                <button
+                  onClick={onRemove}
+                  className="px-3 py-1.5 text-xs font-medium text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-md transition-colors"
+                >
+                  Remove
+                </button>
+              )}
+            </div>
+          )}
           <button
             onClick={onClose}
             className="px-3 py-1.5 text-xs font-medium text-gray-600 dark:text-content-tertiary border border-light-border dark:border-surface-border hover:bg-light-surface dark:hover:bg-surface-hover rounded-md transition-colors"
@@ -240,7 +461,7 @@ export function PackDetailModal({ packMeta, onClose, onInstall }: PackDetailModa
             onClick={handleInstall}
             className="px-4 py-1.5 text-xs font-medium text-white bg-blue-500 hover:bg-blue-600 rounded-md transition-colors"
           >
-            Install Pack
+            {installs.length > 0 ? 'Install Elsewhere…' : 'Install Pack'}
           </button>
         </div>
       </div>
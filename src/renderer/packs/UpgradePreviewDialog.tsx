@@ -0,0 +1,180 @@
+import { useEffect, useState } from 'react';
+import { StarterPackMeta } from '../../shared/builtinPacks';
+import { PackUpgradeAction, PackUpgradeFile, PackUpgradePlan } from '../../shared/types';
+import { simplifyPath } from '../utils/findInheritanceChain';
+
+interface UpgradePreviewDialogProps {
+  packMeta: StarterPackMeta;
+  project: string | null; // The install to upgrade; null for ~/.claude
+  onUpgrade: (force: boolean) => void;
+  onCancel: () => void;
+}
+
+const ACTION_LABELS: Record<PackUpgradeAction, string> = {
+  unchanged: 'unchanged',
+  update: 'update',
+  add: 'add',
+  remove: 'remove',
+  keep: 'keep yours',
+  merge: 'merge',
+  conflict: 'conflict',
+};
+
+const ACTION_COLORS: Record<PackUpgradeAction, string> = {
+  unchanged: 'text-gray-400 dark:text-content-tertiary',
+  update: 'text-blue-600 dark:text-blue-400',
+  add: 'text-green-600 dark:text-green-400',
+  remove: 'text-red-600 dark:text-red-400',
+  keep: 'text-gray-500 dark:text-content-secondary',
+  merge: 'text-amber-600 dark:text-amber-400',
+  conflict: 'text-red-600 dark:text-red-400',
+};
+
+// What the file will look like: the merge result, or the new version
+function getPreview(file: PackUpgradeFile): string | null {
+  if (file.action === 'remove') return file.current;
+  return file.content;
+}
+
+export function UpgradePreviewDialog({
+  packMeta,
+  project,
+  onUpgrade,
+  onCancel,
+}: UpgradePreviewDialogProps) {
+  const { pack } = packMeta;
+  const [plan, setPlan] = useState<PackUpgradePlan | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+  const [writeConflicts, setWriteConflicts] = useState(false);
+
+  useEffect(() => {
+    window.electronAPI
+      .previewPackUpgrade(packMeta.id, project)
+      .then((result) => {
+        setPlan(result);
+        // Start with the file that needs the most attention
+        const first =
+          result.files.find((f) => f.action === 'conflict') ||
+          result.files.find((f) => f.action === 'merge') ||
+          result.files.find((f) => getPreview(f) !== null);
+        setSelectedPath(first?.path ?? null);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to preview upgrade'));
+  }, [packMeta.id, project]);
+
+  const changes = plan ? plan.files.filter((f) => f.action !== 'unchanged') : [];
+  const selected = plan?.files.find((f) => f.path === selectedPath) || null;
+  const preview = selected ? getPreview(selected) : null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-light-bg dark:bg-surface-card rounded-lg shadow-xl w-[720px] max-h-[80vh] flex flex-col">
+        {/* Header */}
+        <div className="px-4 py-3 border-b border-light-border dark:border-surface-border">
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-content-primary">
+            Upgrade: {pack.name}
+            <span className="ml-2 text-xs font-normal font-mono text-gray-500 dark:text-content-tertiary">
+              {project ? simplifyPath(project) : '~/.claude'}
+            </span>
+          </h3>
+          <p className="text-xs text-gray-500 dark:text-content-tertiary mt-0.5">
+            {plan
+              ? `v${plan.from} → v${plan.to}. Your changes since install are kept and merged.`
+              : 'Comparing your files with the new version…'}
+          </p>
+        </div>
+
+        {/* Files and preview */}
+        <div className="flex-1 min-h-0 flex">
+          <div className="w-64 shrink-0 overflow-y-auto p-2 border-r border-light-border dark:border-surface-border space-y-0.5">
+            {error && <div className="p-2 text-xs text-red-600 dark:text-red-400">{error}</div>}
+            {plan && changes.length === 0 && (
+              <div className="p-2 text-xs text-gray-500 dark:text-content-tertiary">
+                Your files already match this version.
+              </div>
+            )}
+            {changes.map((file) => (
+              <button
+                key={file.path}
+                onClick={() => setSelectedPath(file.path)}
+                className={`w-full flex items-baseline gap-2 px-2 py-1 rounded text-left ${
+                  file.path === selectedPath
+                    ? 'bg-light-surface dark:bg-surface-hover'
+                    : 'hover:bg-light-surface dark:hover:bg-surface-hover/50'
+                }`}
+              >
+                <span
+                  className={`w-16 shrink-0 text-[10px] uppercase font-medium ${ACTION_COLORS[file.action]}`}
+                >
+                  {ACTION_LABELS[file.action]}
+                </span>
+                <span
+                  className="min-w-0 truncate text-xs font-mono text-gray-700 dark:text-content-secondary"
+                  title={simplifyPath(file.path)}
+                >
+                  {file.path.split('/').pop()}
+                </span>
+              </button>
+            ))}
+          </div>
+
+          <div className="flex-1 min-w-0 overflow-auto p-3">
+            {selected && preview !== null ? (
+              <>
+                <div className="text-[10px] text-gray-400 dark:text-content-tertiary mb-1.5 font-mono">
+                  {simplifyPath(selected.path)}
+                  {selected.action === 'remove' && ' (will be deleted)'}
+                  {selected.action === 'conflict' && ` (${selected.conflicts} conflict(s))`}
+                </div>
+                <pre className="text-[11px] text-gray-600 dark:text-content-tertiary leading-relaxed whitespace-pre-wrap font-mono">
+                  {preview}
+                </pre>
+              </>
+            ) : (
+              selected && (
+                <div className="text-xs text-gray-500 dark:text-content-tertiary">
+                  {selected.action === 'keep'
+                    ? 'Left as it is: changed by you, or not installed by this pack.'
+                    : 'No changes.'}
+                </div>
+              )
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="px-4 py-3 border-t border-light-border dark:border-surface-border">
+          {plan && plan.conflicts > 0 && (
+            <label className="flex items-center gap-2 mb-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={writeConflicts}
+                onChange={(e) => setWriteConflicts(e.target.checked)}
+                className="w-3.5 h-3.5 rounded border-light-border text-blue-500 focus:ring-blue-500"
+              />
+              <span className="text-xs text-gray-600 dark:text-content-tertiary">
+                Write {plan.conflicts} conflict(s) with markers, to resolve them by hand
+              </span>
+            </label>
+          )}
+          <div className="flex gap-2 justify-end">
+            <button
+              onClick={onCancel}
+              className="px-4 py-1.5 text-xs text-gray-600 dark:text-content-tertiary hover:text-gray-800 dark:hover:text-gray-200"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onUpgrade(writeConflicts)}
+              disabled={!plan || (plan.conflicts > 0 && !writeConflicts)}
+              className="px-4 py-1.5 text-xs font-medium text-white bg-blue-500 hover:bg-blue-600 disabled:opacity-50 rounded-md transition-colors"
+            >
+              Upgrade to v{pack.version}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { create } from 'zustand';
-import { ContextFile, EditorStatePersisted, SplitDirection } from '../../shared/types';
+import { ContextFile, ContextFileEvent, EditorStatePersisted, SplitDirection } from '../../shared/types';
 
 export type ViewMode = 'editor' | 'preview' | 'split';
 
@@ -11,6 +11,8 @@ export interface EditorTab {
   isDirty: boolean;
   viewMode: ViewMode;
   cursorPosition?: { line: number; column: number };
+  externalChange?: 'modified' | 'deleted'; // Set when the file changed on disk under unsaved edits
+  virtual?: 'effective-context'; // Read-only generated document about `file`, not the file itself
 }
 
 export interface EditorPane {
@@ -22,6 +24,11 @@ export interface EditorPane {
 
 export type { SplitDirection, EditorStatePersisted };
 
+// Id of the virtual tab showing a file's effective context
+export function getEffectiveContextTabId(filePath: string): string {
+  return `effective-context:${filePath}`;
+}
+
 interface EditorState {
   // State
   tabs: Map<string, EditorTab>;
@@ -32,6 +39,7 @@ interface EditorState {
   // Tab Actions
   openFile: (file: ContextFile) => Promise<void>;
   openFileInPane: (file: ContextFile, targetPaneId: string) => Promise<void>;
+  openEffectiveContext: (file: ContextFile, content: string) => void;
   closeTab: (tabId: string, paneId?: string) => void;
   closeOtherTabs: (tabId: string, paneId?: string) => void;
   closeAllTabs: (paneId?: string) => void;
@@ -47,6 +55,8 @@ interface EditorState {
   getActiveTab: (paneId?: string) => EditorTab | null;
   getActivePane: () => EditorPane | null;
   getUnsavedTabs: (paneId?: string) => EditorTab[];
+  applyExternalChanges: (events: ContextFileEvent[]) => Promise<void>;
+  reloadTab: (tabId: string) => Promise<void>;
 
   // Split View Actions
   splitPane: (direction: SplitDirection, tabId?: string) => void;
@@ -227,6 +237,41 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     });
   },
 
+  // Open (or refresh) the read-only effective context tab of a file
+  openEffectiveContext: (file: ContextFile, content: string) => {
+    const { tabs, panes, activePaneId } = get();
+    const tabId = getEffectiveContextTabId(file.path);
+
+    const existingTab = tabs.get(tabId);
+    const newTabs = new Map(tabs);
+    newTabs.set(tabId, {
+      id: tabId,
+      file,
+      content,
+      originalContent: content,
+      isDirty: false,
+      viewMode: existingTab?.viewMode || 'editor', // Source markers only show in the editor
+      virtual: 'effective-context',
+    });
+
+    const paneWithTab = panes.find(p => p.tabIds.includes(tabId));
+    const targetPaneId = paneWithTab?.id || activePaneId;
+
+    set({
+      tabs: newTabs,
+      activePaneId: targetPaneId,
+      panes: panes.map(p =>
+        p.id === targetPaneId
+          ? {
+              ...p,
+              tabIds: paneWithTab ? p.tabIds : [...p.tabIds, tabId],
+              activeTabId: tabId,
+            }
+          : p
+      ),
+    });
+  },
+
   // Close a tab
   closeTab: (tabId: string, paneId?: string) => {
     const { tabs, panes, activePaneId } = get();
@@ -410,6 +455,7 @@ export const useEditorStore = create<EditorState>((set, get) => ({
         ...tab,
         originalContent: tab.content,
         isDirty: false,
+        externalChange: undefined,
       });
 
       set({ tabs: newTabs });
@@ -535,6 +581,67 @@ export const useEditorStore = create<EditorState>((set, get) => ({
       .filter((tab): tab is EditorTab => tab !== undefined && tab.isDirty);
   },
 
+  // Sync open tabs with changes made on disk (from the file watcher)
+  applyExternalChanges: async (events: ContextFileEvent[]) => {
+    const { tabs } = get();
+    const affected = events.filter(e => tabs.has(e.path));
+    if (affected.length === 0) return;
+
+    // Read new contents first so the tabs map is only updated once
+    const contents = new Map<string, string>();
+    for (const event of affected) {
+      const tab = tabs.get(event.path);
+      if (event.type === 'unlink' || !tab || tab.isDirty) continue;
+      try {
+        contents.set(event.path, await window.electronAPI.readFile(event.path));
+      } catch (error) {
+        console.error('Failed to reload file:', event.path, error);
+      }
+    }
+
+    const newTabs = new Map(get().tabs);
+    for (const event of affected) {
+      const tab = newTabs.get(event.path);
+      if (!tab) continue;
+
+      if (event.type === 'unlink') {
+        newTabs.set(tab.id, { ...tab, externalChange: 'deleted' });
+      } else if (tab.isDirty) {
+        newTabs.set(tab.id, { ...tab, file: event.file || tab.file, externalChange: 'modified' });
+      } else {
+        const content = contents.get(event.path);
+        if (content === undefined) continue;
+        newTabs.set(tab.id, {
+          ...tab,
+          file: event.file || tab.file,
+          content,
+          originalContent: content,
+          externalChange: undefined,
+        });
+      }
+    }
+
+    set({ tabs: newTabs });
+  },
+
+  // Discard unsaved edits and load the file's current content from disk
+  reloadTab: async (tabId: string) => {
+    const tab = get().tabs.get(tabId);
+    if (!tab) return;
+
+    const content = await window.electronAPI.readFile(tab.file.path);
+    const newTabs = new Map(get().tabs);
+    newTabs.set(tabId, {
+      ...tab,
+      content,
+      originalContent: content,
+      isDirty: false,
+      externalChange: undefined,
+    });
+
+    set({ tabs: newTabs });
+  },
+
   // Split the current pane
   splitPane: (direction: SplitDirection, tabId?: string) => {
     const { panes, activePaneId, tabs } = get();
@@ -659,12 +766,13 @@ export const useEditorStore = create<EditorState>((set, get) => ({
 
   // Get state for persistence (serializable)
   getPersistedState: () => {
-    const { panes, activePaneId, splitDirection } = get();
+    const { tabs, panes, activePaneId, splitDirection } = get();
 
     return {
       panes: panes.map(p => ({
         id: p.id,
-        tabPaths: p.tabIds,
+        // Virtual tabs are generated, not restored
+        tabPaths: p.tabIds.filter(id => !tabs.get(id)?.virtual),
         activeTabPath: p.activeTabId,
         size: p.size,
       })),
@@ -0,0 +1,45 @@
+import { create } from 'zustand';
+import { ContextFile, ProjectConfigFile, ProjectSyncStatus } from '../../shared/types';
+
+interface ProjectConfigState {
+  // .tokencentric.json files that apply to the scanned files
+  configs: ProjectConfigFile[];
+  // Generated files of the projects with a canonical file
+  syncStatuses: ProjectSyncStatus[];
+
+  loadConfigs: (files: ContextFile[]) => Promise<void>;
+  loadSyncStatuses: () => Promise<void>;
+}
+
+export const useProjectConfigStore = create<ProjectConfigState>((set, get) => ({
+  configs: [],
+  syncStatuses: [],
+
+  loadConfigs: async (files: ContextFile[]) => {
+    try {
+      const configs = await window.electronAPI.getProjectConfigs(files.map((f) => f.path));
+      for (const config of configs) {
+        if (config.errors.length > 0) {
+          console.warn(`Problems in ${config.path}:`, config.errors);
+        }
+      }
+      set({ configs });
+    } catch (error) {
+      console.error('Failed to load project configs:', error);
+    }
+    await get().loadSyncStatuses();
+  },
+
+  loadSyncStatuses: async () => {
+    const configPaths = get()
+      .configs.filter((config) => config.config.sync)
+      .map((config) => config.path);
+    try {
+      set({
+        syncStatuses: configPaths.length > 0 ? await window.electronAPI.getSyncStatuses(configPaths) : [],
+      });
+    } catch (error) {
+      console.error('Failed to check synced files:', error);
+    }
+  },
+}));
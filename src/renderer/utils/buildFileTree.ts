@@ -134,6 +134,16 @@ export function getNodeTokenCount(node: FileTreeNode): number {
   return 0;
 }
 
+/**
+ * Gets all files in a node and its descendants.
+ */
+export function getNodeFiles(node: FileTreeNode): ContextFile[] {
+  if (!node.isDirectory && node.file) {
+    return [node.file];
+  }
+  return (node.children || []).flatMap(getNodeFiles);
+}
+
 /**
  * Gets all paths that should be expanded to show a specific file.
  */
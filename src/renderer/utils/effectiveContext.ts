@@ -0,0 +1,107 @@
+import {
+  AppSettings,
+  ContextFile,
+  MemoryFile,
+  ProjectConfigFile,
+  ToolProfile,
+} from '../../shared/types';
+import { useEditorStore } from '../store/editorStore';
+import { getContextCost, simplifyPath } from './findInheritanceChain';
+import { getFileToolProfile } from './toolProfiles';
+
+export interface EffectiveContextSection {
+  path: string;
+  tokens: number;
+  content: string;
+  importedBy?: string; // Path of the importing file, for @imports
+  reference?: string; // The @reference as written in the importing file
+}
+
+export interface EffectiveContext {
+  sections: EffectiveContextSection[];
+  tokens: number;
+}
+
+const formatCount = (tokens: number) =>
+  `${tokens.toLocaleString()} token${tokens === 1 ? '' : 's'}`;
+
+/**
+ * Everything loaded with a context file, in load order: the inheritance chain
+ * from getContextCost, each file followed by the files it @imports.
+ */
+export async function getEffectiveContext(
+  file: ContextFile,
+  allFiles: ContextFile[],
+  profile?: ToolProfile
+): Promise<EffectiveContext> {
+  const { chain } = await getContextCost(file, allFiles, profile);
+  const sections: EffectiveContextSection[] = [];
+
+  const read = async (filePath: string) => {
+    try {
+      return await window.electronAPI.readFile(filePath);
+    } catch (error) {
+      console.error('Failed to read context file:', filePath, error);
+      return '';
+    }
+  };
+
+  const addImports = async (imports: MemoryFile[], importedBy: string) => {
+    for (const imported of imports) {
+      // Missing files, cycles and files already loaded add nothing
+      if (imported.status !== 'loaded') continue;
+      sections.push({
+        path: imported.path,
+        tokens: imported.tokens || 0,
+        content: await read(imported.path),
+        importedBy,
+        reference: imported.reference,
+      });
+      await addImports(imported.imports, imported.path);
+    }
+  };
+
+  for (const item of chain) {
+    sections.push({ path: item.path, tokens: item.tokens || 0, content: await read(item.path) });
+    await addImports(item.imports || [], item.path);
+  }
+
+  return { sections, tokens: sections.reduce((sum, section) => sum + section.tokens, 0) };
+}
+
+/**
+ * Renders the effective context as one Markdown document. Source markers are
+ * HTML comments, so they stay out of the rendered preview but survive a copy.
+ */
+export function formatEffectiveContext(file: ContextFile, context: EffectiveContext): string {
+  const count = context.sections.length;
+  const lines = [
+    `<!-- Effective context for ${simplifyPath(file.path)}: ${count} file${count === 1 ? '' : 's'}, ` +
+      `${formatCount(context.tokens)}, in load order -->`,
+  ];
+
+  for (const section of context.sections) {
+    const source = section.importedBy
+      ? `${simplifyPath(section.path)}, imported by ${simplifyPath(section.importedBy)} as @${section.reference}`
+      : simplifyPath(section.path);
+    lines.push('', `<!-- source: ${source} (${formatCount(section.tokens)}) -->`, '');
+    lines.push(section.content.replace(/\s+$/, ''));
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Opens a file's effective context in a read-only tab, or refreshes the tab
+ * when it's already open.
+ */
+export async function showEffectiveContext(
+  file: ContextFile,
+  allFiles: ContextFile[],
+  settings: AppSettings | null,
+  projectConfigs: ProjectConfigFile[]
+): Promise<void> {
+  const profile = getFileToolProfile(file.path, file.toolId, settings, projectConfigs);
+  const context = await getEffectiveContext(file, allFiles, profile);
+  useEditorStore.getState().openEffectiveContext(file, formatEffectiveContext(file, context));
+}
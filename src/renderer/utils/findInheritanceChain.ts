@@ -1,4 +1,20 @@
-import { ContextFile, InheritanceChainItem, TokenizerType } from '../../shared/types';
+import {
+  ContextFile,
+  InheritanceChainItem,
+  InheritanceStrategy,
+  MemoryFile,
+  TokenizerType,
+  ToolProfile,
+} from '../../shared/types';
+import {
+  getInheritanceStrategy,
+  getInheritedFiles,
+  getParentContextFiles,
+} from '../../shared/inheritance';
+import { sumMemoryTokens } from '../../shared/claudeMemory';
+
+// Shared with the CLI, re-exported for existing imports
+export { getParentContextFiles };
 
 export interface InheritanceItem {
   path: string;
@@ -7,39 +23,113 @@ export interface InheritanceItem {
   isGlobal?: boolean;
 }
 
+export interface ContextCost {
+  chain: InheritanceChainItem[]; // Loaded with the file
+  onDemand: InheritanceChainItem[]; // Loaded for some paths only: nested CLAUDE.md, scoped rules
+}
+
+/**
+ * Everything loaded with a context file, with token counts, following the
+ * inheritance strategy of the file's tool profile. Claude Code files are
+ * resolved the way Claude Code loads memory (CLAUDE.local.md, @imports,
+ * nested files).
+ */
+export async function getContextCost(
+  currentFile: ContextFile,
+  allFiles: ContextFile[],
+  profile?: ToolProfile
+): Promise<ContextCost> {
+  const tokenizer = profile?.tokenizer || 'anthropic';
+  const strategy = getInheritanceStrategy(profile || { id: currentFile.toolId });
+  if (strategy === 'claude') {
+    try {
+      return await getClaudeMemoryCost(currentFile, allFiles, tokenizer);
+    } catch (error) {
+      console.error('Failed to resolve Claude memory:', error);
+    }
+  }
+  return getInheritedCost(currentFile, allFiles, tokenizer, strategy);
+}
+
 /**
  * Builds a complete inheritance chain with token counts for hierarchical cost display.
- * Order: Global (~/.claude/CLAUDE.md) -> Parent files -> Current file
+ * Order: inherited files in load order -> Current file (for Claude Code, the
+ * global ~/.claude/CLAUDE.md comes first and each directory's CLAUDE.local.md
+ * follows its CLAUDE.md)
  */
 export async function getInheritanceChainWithTokens(
   currentFile: ContextFile,
   allFiles: ContextFile[],
-  tokenizer: TokenizerType = 'anthropic'
+  profile?: ToolProfile
 ): Promise<InheritanceChainItem[]> {
+  return (await getContextCost(currentFile, allFiles, profile)).chain;
+}
+
+async function getClaudeMemoryCost(
+  currentFile: ContextFile,
+  allFiles: ContextFile[],
+  tokenizer: TokenizerType
+): Promise<ContextCost> {
+  const memory = await window.electronAPI.resolveClaudeMemory(currentFile.path, tokenizer);
+
+  const toItem = (memoryFile: MemoryFile): InheritanceChainItem => {
+    const isCurrent = memoryFile.path === currentFile.path;
+    return {
+      path: memoryFile.path,
+      name: memoryFile.path.split('/').pop() || memoryFile.path,
+      displayPath: simplifyPath(memoryFile.path),
+      file: isCurrent ? currentFile : allFiles.find((f) => f.path === memoryFile.path),
+      tokens: memoryFile.tokens,
+      isGlobal: memoryFile.kind === 'user',
+      isCurrent,
+      imports: memoryFile.imports,
+      importTokens: sumMemoryTokens(memoryFile.imports),
+    };
+  };
+
+  return {
+    chain: memory.files.filter((f) => f.status === 'loaded').map(toItem),
+    onDemand: memory.files.filter((f) => f.status === 'on-demand').map(toItem),
+  };
+}
+
+async function getInheritedCost(
+  currentFile: ContextFile,
+  allFiles: ContextFile[],
+  tokenizer: TokenizerType,
+  strategy: InheritanceStrategy
+): Promise<ContextCost> {
   const chain: InheritanceChainItem[] = [];
 
-  // 1. Get global context file (~/.claude/CLAUDE.md) if it exists
-  try {
-    const globalFile = await window.electronAPI.getGlobalContextFile(tokenizer);
-    if (globalFile) {
-      chain.push({
-        path: globalFile.path,
-        name: globalFile.name,
-        displayPath: '~/.claude/CLAUDE.md',
-        tokens: globalFile.tokens,
-        isGlobal: true,
-        isCurrent: false,
-      });
+  // 1. Get global context file (~/.claude/CLAUDE.md) if it exists - Claude Code only
+  if (strategy === 'claude') {
+    try {
+      const globalFile = await window.electronAPI.getGlobalContextFile(tokenizer);
+      if (globalFile) {
+        chain.push({
+          path: globalFile.path,
+          name: globalFile.name,
+          displayPath: '~/.claude/CLAUDE.md',
+          tokens: globalFile.tokens,
+          isGlobal: true,
+          isCurrent: false,
+        });
+      }
+    } catch (error) {
+      console.error('Failed to get global context file:', error);
     }
-  } catch (error) {
-    console.error('Failed to get global context file:', error);
   }
 
-  // 2. Get parent context files (sorted from root to deepest)
-  const parentFiles = getParentContextFiles(currentFile, allFiles);
+  // 2. Get the files the tool loads with this one, in load order
+  const { inherited, conditional } = await getInheritedFiles(
+    currentFile,
+    allFiles,
+    strategy,
+    window.electronAPI.readFile
+  );
 
   // 3. Get token counts for all files in the chain (if not already cached)
-  const filesToCount = parentFiles.filter((f) => f.tokens === undefined);
+  const filesToCount = [...inherited, ...conditional].filter((f) => f.tokens === undefined);
   if (filesToCount.length > 0) {
     try {
       const tokenCounts = await window.electronAPI.countTokensBatch(
@@ -53,22 +143,21 @@ export async function getInheritanceChainWithTokens(
         }
       });
     } catch (error) {
-      console.error('Failed to count tokens for parent files:', error);
+      console.error('Failed to count tokens for inherited files:', error);
     }
   }
 
-  // 4. Add parent files to chain
-  for (const file of parentFiles) {
-    chain.push({
-      path: file.path,
-      name: file.name,
-      displayPath: simplifyPath(file.path),
-      file,
-      tokens: file.tokens,
-      isGlobal: false,
-      isCurrent: false,
-    });
-  }
+  // 4. Add inherited files to chain
+  const toItem = (file: ContextFile): InheritanceChainItem => ({
+    path: file.path,
+    name: file.name,
+    displayPath: simplifyPath(file.path),
+    file,
+    tokens: file.tokens,
+    isGlobal: false,
+    isCurrent: false,
+  });
+  chain.push(...inherited.map(toItem));
 
   // 5. Add current file
   // Get current file tokens if needed
@@ -92,14 +181,14 @@ export async function getInheritanceChainWithTokens(
     isCurrent: true,
   });
 
-  return chain;
+  return { chain, onDemand: conditional.map(toItem) };
 }
 
 /**
- * Calculate total tokens from an inheritance chain
+ * Calculate total tokens from an inheritance chain, imports included
  */
 export function calculateTotalTokens(chain: InheritanceChainItem[]): number {
-  return chain.reduce((total, item) => total + (item.tokens || 0), 0);
+  return chain.reduce((total, item) => total + (item.tokens || 0) + (item.importTokens || 0), 0);
 }
 
 /**
@@ -164,39 +253,6 @@ export function findInheritanceChain(
   return chain;
 }
 
-/**
- * Gets only the parent context files (excluding the current file).
- * This is useful for showing what context files are inherited.
- */
-export function getParentContextFiles(
-  currentFile: ContextFile,
-  allFiles: ContextFile[]
-): ContextFile[] {
-  const parents: ContextFile[] = [];
-
-  // Get current file's directory
-  let dirPath = currentFile.path.substring(0, currentFile.path.lastIndexOf('/'));
-
-  // Walk up looking for context files in each parent directory
-  while (dirPath && dirPath !== '/') {
-    // Move up one directory
-    dirPath = dirPath.substring(0, dirPath.lastIndexOf('/'));
-    if (!dirPath) break;
-
-    // Find context files in this directory that match the same tool
-    const parentFile = allFiles.find((f) => {
-      const fDir = f.path.substring(0, f.path.lastIndexOf('/'));
-      return fDir === dirPath && f.toolId === currentFile.toolId;
-    });
-
-    if (parentFile) {
-      parents.unshift(parentFile); // Add to beginning to maintain order
-    }
-  }
-
-  return parents;
-}
-
 /**
  * Simplifies a path by replacing the home directory with ~
  */
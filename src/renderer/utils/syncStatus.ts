@@ -0,0 +1,89 @@
+import {
+  ContextFileEvent,
+  ProjectSyncStatus,
+  SyncFileStatus,
+  SyncTarget,
+} from '../../shared/types';
+import { useProjectConfigStore } from '../store/projectConfigStore';
+import { simplifyPath } from './findInheritanceChain';
+
+export type FileSyncRole =
+  | { kind: 'canonical'; project: ProjectSyncStatus }
+  | { kind: 'generated'; project: ProjectSyncStatus; target: SyncTarget };
+
+export const SYNC_STATUS_LABELS: Record<SyncFileStatus, string> = {
+  'in-sync': 'in sync',
+  outdated: 'outdated',
+  missing: 'missing',
+  edited: 'edited',
+  untracked: 'not generated',
+};
+
+/** Whether a file is the canonical file of a project, or generated from one */
+export function getFileSyncRole(
+  filePath: string,
+  statuses: ProjectSyncStatus[]
+): FileSyncRole | null {
+  for (const project of statuses) {
+    if (project.canonical === filePath) return { kind: 'canonical', project };
+    const target = project.targets.find((t) => t.path === filePath);
+    if (target) return { kind: 'generated', project, target };
+  }
+  return null;
+}
+
+/** Tooltip for a file's sync badge in the sidebar */
+export function describeSyncRole(role: FileSyncRole): string {
+  const canonical = simplifyPath(role.project.canonical);
+  if (role.kind === 'canonical') {
+    const drifted = role.project.targets.filter((t) => t.status !== 'in-sync').length;
+    return (
+      `Canonical file: the other tools' files are generated from it` +
+      (role.project.error ? `\n${role.project.error}` : '') +
+      (drifted > 0 ? `\n${drifted} generated file${drifted > 1 ? 's' : ''} not in sync` : '')
+    );
+  }
+
+  switch (role.target.status) {
+    case 'edited':
+      return `Edited by hand since it was generated from ${canonical}. Move the change to the canonical file, or sync to overwrite it.`;
+    case 'untracked':
+      return `Not generated from ${canonical}. Sync to replace it with the generated file.`;
+    case 'outdated':
+      return `${canonical} changed since this file was generated. Sync to update it.`;
+    default:
+      return `Generated from ${canonical}`;
+  }
+}
+
+/** Files a sync only replaces when forced */
+export function getHandEditedTargets(project: ProjectSyncStatus): SyncTarget[] {
+  return project.targets.filter((t) => t.status === 'edited' || t.status === 'untracked');
+}
+
+/** Summary of a sync for a toast */
+export function describeSyncResult(project: ProjectSyncStatus): string {
+  if (project.error) return project.error;
+  const written = project.targets.filter((t) => t.written).length;
+  const kept = getHandEditedTargets(project).filter((t) => !t.written).length;
+  const parts = [written > 0 ? `${written} file${written > 1 ? 's' : ''} updated` : 'Everything in sync'];
+  if (kept > 0) parts.push(`${kept} file${kept > 1 ? 's' : ''} edited by hand kept`);
+  return parts.join(', ');
+}
+
+/**
+ * Keeps generated files up to date when a canonical file changes, in the app
+ * or on disk. Files edited by hand are left alone.
+ */
+export async function syncChangedProjects(events: ContextFileEvent[]): Promise<void> {
+  const { syncStatuses, loadSyncStatuses } = useProjectConfigStore.getState();
+  const changed = syncStatuses.filter((project) =>
+    events.some((e) => e.path === project.canonical && e.type !== 'unlink')
+  );
+  const affected = events.some((e) => getFileSyncRole(e.path, syncStatuses));
+
+  for (const project of changed) {
+    await window.electronAPI.syncProject(project.configPath);
+  }
+  if (affected) await loadSyncStatuses();
+}
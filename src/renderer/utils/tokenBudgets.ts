@@ -0,0 +1,69 @@
+import {
+  AppSettings,
+  BudgetStatus,
+  BudgetThresholds,
+  ContextFile,
+  ProjectConfigFile,
+  TokenBudget,
+} from '../../shared/types';
+import { getBudgetStatus, resolveTokenBudget, worstBudgetStatus } from '../../shared/budgets';
+import { findProjectConfigFor } from '../../shared/projectConfig';
+
+/**
+ * The budget for a file: app settings, overridden by the nearest
+ * .tokencentric.json above the file.
+ */
+export function getFileBudget(
+  filePath: string,
+  toolId: string | undefined,
+  settings: AppSettings | null,
+  projectConfigs: ProjectConfigFile[]
+): TokenBudget {
+  const projectConfig = findProjectConfigFor(filePath, projectConfigs);
+  return resolveTokenBudget(toolId, [settings?.budgets, projectConfig?.config.budgets]);
+}
+
+/**
+ * Checks each file against its own file budget. Used for folders and totals
+ * in the sidebar, where summed counts can't be compared to a single budget.
+ */
+export function getFilesBudgetStatus(
+  files: ContextFile[],
+  settings: AppSettings | null,
+  projectConfigs: ProjectConfigFile[]
+): { status: BudgetStatus; overBudget: number } {
+  const statuses = files
+    .filter((file) => file.tokens !== undefined)
+    .map((file) =>
+      getBudgetStatus(
+        file.tokens as number,
+        getFileBudget(file.path, file.toolId, settings, projectConfigs).file
+      )
+    );
+  return {
+    status: worstBudgetStatus(statuses),
+    overBudget: statuses.filter((status) => status === 'over').length,
+  };
+}
+
+export function getBudgetColorClass(status: BudgetStatus): string {
+  switch (status) {
+    case 'ok':
+      return 'text-green-600 dark:text-green-400';
+    case 'warning':
+      return 'text-yellow-600 dark:text-yellow-400';
+    case 'over':
+      return 'text-red-600 dark:text-red-400';
+  }
+}
+
+/**
+ * Tooltip text, e.g. "12,000 tokens (budget 20,000, warning above 5,000)"
+ */
+export function describeBudget(tokens: number, thresholds: BudgetThresholds): string {
+  const over =
+    tokens > thresholds.limit
+      ? ` - ${(tokens - thresholds.limit).toLocaleString()} over budget`
+      : '';
+  return `${tokens.toLocaleString()} tokens (budget ${thresholds.limit.toLocaleString()}, warning above ${thresholds.warning.toLocaleString()})${over}`;
+}
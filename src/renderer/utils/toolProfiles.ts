@@ -0,0 +1,37 @@
+import { AppSettings, ContextFile, ProjectConfigFile, ToolProfile } from '../../shared/types';
+import { getToolProfilesFor } from '../../shared/projectConfig';
+
+/**
+ * A file's tool profile: the one from settings, with the overrides of the
+ * nearest .tokencentric.json above the file (which can also add tools).
+ */
+export function getFileToolProfile(
+  filePath: string,
+  toolId: string,
+  settings: AppSettings | null,
+  projectConfigs: ProjectConfigFile[]
+): ToolProfile | undefined {
+  const profiles = getToolProfilesFor(filePath, settings?.toolProfiles || [], projectConfigs);
+  return profiles.find((profile) => profile.id === toolId);
+}
+
+/**
+ * The tools the given files belong to, in settings order followed by tools
+ * that only project configs define.
+ */
+export function getFilesToolProfiles(
+  files: ContextFile[],
+  settings: AppSettings | null,
+  projectConfigs: ProjectConfigFile[]
+): ToolProfile[] {
+  const tools = new Map<string, ToolProfile>();
+  for (const file of files) {
+    if (tools.has(file.toolId)) continue;
+    const profile = getFileToolProfile(file.path, file.toolId, settings, projectConfigs);
+    if (profile) tools.set(file.toolId, profile);
+  }
+
+  const order = (settings?.toolProfiles || []).map((profile) => profile.id);
+  const rank = (id: string) => (order.includes(id) ? order.indexOf(id) : order.length);
+  return Array.from(tools.values()).sort((a, b) => rank(a.id) - rank(b.id));
+}
@@ -1,5 +1,5 @@
 import { useEffect, useState, useCallback } from 'react';
-import { ContextFile, AppSettings, Template } from '../../shared/types';
+import { ContextFile, AppSettings, ScanProgress, Template } from '../../shared/types';
 import { Sidebar } from '../components/Sidebar';
 import { EditorContainer } from '../components/editor';
 import { StatusBar } from '../components/StatusBar';
@@ -8,8 +8,18 @@ import { DeleteConfirmDialog } from '../components/DeleteConfirmDialog';
 import { ContextMenu, ContextMenuAction } from '../components/ContextMenu';
 import { FolderContextMenu, FolderContextMenuAction } from '../components/FolderContextMenu';
 import { NewFileDialog } from '../components/NewFileDialog';
+import { ConvertDialog } from '../components/ConvertDialog';
 import { useEditorStore } from '../store/editorStore';
+import { useProjectConfigStore } from '../store/projectConfigStore';
+import { describeSyncResult, getFileSyncRole, getHandEditedTargets } from '../utils/syncStatus';
+import { simplifyPath } from '../utils/findInheritanceChain';
 import { useToast } from '../components/Toast';
+import {
+  ContextFormat,
+  ConvertOptions,
+  detectContextFormat,
+  getFormatRoot,
+} from '../../shared/contextFormats';
 
 interface ContextMenuState {
   file: ContextFile;
@@ -30,6 +40,8 @@ interface ContextFilesViewProps {
   settings: AppSettings | null;
   isDark: boolean;
   onScanDirectory: () => Promise<void>;
+  scanProgress: ScanProgress | null;
+  onCancelScan: () => void;
   onOpenSettings: () => void;
   onSaveSettings: (settings: Partial<AppSettings>) => Promise<void>;
 }
@@ -40,6 +52,8 @@ export function ContextFilesView({
   settings,
   isDark,
   onScanDirectory,
+  scanProgress,
+  onCancelScan,
   onOpenSettings,
   onSaveSettings,
 }: ContextFilesViewProps) {
@@ -89,6 +103,7 @@ export function ContextFilesView({
   const [newFilePreselectedTemplate, setNewFilePreselectedTemplate] = useState<Template | null>(
     null
   );
+  const [convertSources, setConvertSources] = useState<ContextFile[] | null>(null);
 
   const toast = useToast();
 
@@ -99,6 +114,22 @@ export function ContextFilesView({
     });
   }, []);
 
+  // Regenerates a project's files, asking before replacing files edited by hand
+  const handleSync = async (file: ContextFile) => {
+    const role = getFileSyncRole(file.path, useProjectConfigStore.getState().syncStatuses);
+    if (!role) return;
+    const handEdited = getHandEditedTargets(role.project);
+    const force =
+      handEdited.length > 0 &&
+      confirm(
+        `Replace files that weren't generated from ${simplifyPath(role.project.canonical)} or were edited by hand?\n\n` +
+          handEdited.map((t) => simplifyPath(t.path)).join('\n')
+      );
+    const result = await window.electronAPI.syncProject(role.project.configPath, force);
+    await useProjectConfigStore.getState().loadSyncStatuses();
+    if (result) toast.success('Synced', describeSyncResult(result));
+  };
+
   const handleContextMenu = (file: ContextFile, x: number, y: number) => {
     setContextMenu({ file, x, y });
   };
@@ -117,6 +148,30 @@ export function ContextFilesView({
       case 'reveal':
         await window.electronAPI.showInFolder(file.path);
         break;
+      case 'make-canonical':
+        try {
+          const configPath = await window.electronAPI.setCanonicalFile(file.path);
+          const result = await window.electronAPI.syncProject(configPath);
+          toast.success(
+            `${file.name} is now canonical`,
+            result ? describeSyncResult(result) : undefined
+          );
+        } catch (error) {
+          console.error('Failed to set canonical file:', error);
+          toast.error(
+            'Failed to set canonical file',
+            error instanceof Error ? error.message : 'Unknown error'
+          );
+        }
+        break;
+      case 'sync':
+        try {
+          await handleSync(file);
+        } catch (error) {
+          console.error('Failed to sync files:', error);
+          toast.error('Failed to sync files', error instanceof Error ? error.message : 'Unknown error');
+        }
+        break;
       case 'duplicate':
         try {
           const newFile = await window.electronAPI.duplicateFile(file.path);
@@ -148,16 +203,51 @@ export function ContextFilesView({
         setNewFileDefaultDir(folderPath);
         setIsNewFileDialogOpen(true);
         break;
+      case 'convert': {
+        // Files whose rules apply to the folder, e.g. its CLAUDE.md and .cursor/rules
+        const sources = files.filter((f) => {
+          const format = detectContextFormat(f.path);
+          return format && getFormatRoot(f.path, format) === folderPath;
+        });
+        if (sources.length > 0) {
+          setConvertSources(sources);
+        } else {
+          toast.error('Nothing to convert', 'No convertible context files in this folder');
+        }
+        break;
+      }
+      case 'project-config':
+        try {
+          handleSelectFile(await window.electronAPI.openProjectConfig(folderPath));
+        } catch (error) {
+          console.error('Failed to open project config:', error);
+          toast.error(
+            'Failed to open project config',
+            error instanceof Error ? error.message : 'Unknown error'
+          );
+        }
+        break;
       case 'reveal':
         await window.electronAPI.showInFolder(folderPath);
         break;
-      case 'remove':
+      case 'remove': {
         setFiles((prev) => prev.filter((f) => !f.path.startsWith(folderPath + '/')));
         if (selectedFile?.path.startsWith(folderPath + '/')) {
           closeActiveTab();
         }
+        // Drop scan roots inside the folder, and exclude it from roots that contain it,
+        // so the folder doesn't come back on the next rescan
+        const scanPaths = (settings?.scanPaths || [])
+          .filter((root) => root.path !== folderPath && !root.path.startsWith(folderPath + '/'))
+          .map((root) =>
+            folderPath.startsWith(root.path + '/')
+              ? { ...root, exclusions: [...root.exclusions, folderPath.slice(root.path.length + 1)] }
+              : root
+          );
+        await onSaveSettings({ scanPaths });
         toast.success('Folder removed', `Removed ${folderPath.split('/').pop()} from scan`);
         break;
+      }
     }
     setFolderContextMenu(null);
   };
@@ -225,6 +315,36 @@ export function ContextFilesView({
     }
   };
 
+  const handleConvertFile = useCallback((file: ContextFile) => {
+    setConvertSources([file]);
+  }, []);
+
+  const handleConvert = async (
+    sourcePath: string,
+    target: ContextFormat,
+    options: ConvertOptions,
+    overwrite: boolean
+  ) => {
+    try {
+      const newFile = await window.electronAPI.convertContextFile(
+        sourcePath,
+        target,
+        options,
+        overwrite
+      );
+      setFiles((prev) => [...prev.filter((f) => f.path !== newFile.path), newFile]);
+      handleSelectFile(newFile);
+      setConvertSources(null);
+      toast.success('File converted', newFile.name);
+    } catch (error) {
+      console.error('Failed to convert file:', error);
+      toast.error(
+        'Failed to convert file',
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+    }
+  };
+
   return (
     <>
       {/* Main layout */}
@@ -237,6 +357,8 @@ export function ContextFilesView({
               onSelectFile={handleSelectFile}
               onSelectFileAlternate={handleSelectFileAlternate}
               onScanDirectory={onScanDirectory}
+              scanProgress={scanProgress}
+              onCancelScan={onCancelScan}
               onContextMenu={handleContextMenu}
               onFolderContextMenu={handleFolderContextMenu}
               onNewFile={handleOpenNewFileDialog}
@@ -244,7 +366,12 @@ export function ContextFilesView({
               onOpenSettings={onOpenSettings}
               onUpdateSettings={onSaveSettings}
             />
-            <EditorContainer allFiles={files} settings={settings} isDark={isDark} />
+            <EditorContainer
+              allFiles={files}
+              settings={settings}
+              isDark={isDark}
+              onConvertFile={handleConvertFile}
+            />
           </>
         ) : (
           <EmptyState
@@ -255,7 +382,13 @@ export function ContextFilesView({
       </div>
 
       {/* Status bar */}
-      <StatusBar selectedFile={selectedFile} allFiles={files} settings={settings} />
+      <StatusBar
+        selectedFile={selectedFile}
+        allFiles={files}
+        settings={settings}
+        scanProgress={scanProgress}
+        onCancelScan={onCancelScan}
+      />
 
       {/* File context menu */}
       {contextMenu && (
@@ -296,6 +429,13 @@ export function ContextFilesView({
         defaultDirectory={newFileDefaultDir}
         preselectedTemplate={newFilePreselectedTemplate}
       />
+
+      {/* Convert to another tool's format */}
+      <ConvertDialog
+        sources={convertSources}
+        onConvert={handleConvert}
+        onClose={() => setConvertSources(null)}
+      />
     </>
   );
 }
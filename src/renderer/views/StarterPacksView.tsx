@@ -1,28 +1,55 @@
-import { useState, useEffect, useCallback } from 'react';
-import { StarterPackMeta } from '../../../shared/builtinPacks';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { StarterPackMeta } from '../../shared/builtinPacks';
+import { detectContextFormat, getFormatRoot } from '../../shared/contextFormats';
+import { ContextFile, InstalledPackStatus, PackExportOptions } from '../../shared/types';
 import { PackCard } from '../packs/PackCard';
 import { PackDetailModal } from '../packs/PackDetailModal';
 import { InstallPreviewDialog } from '../packs/InstallPreviewDialog';
+import { UpgradePreviewDialog } from '../packs/UpgradePreviewDialog';
 import { ExportDialog } from '../packs/ExportDialog';
 import { ToolIcon } from '../components/ToolIcon';
+import { simplifyPath } from '../utils/findInheritanceChain';
 
 interface StarterPacksViewProps {
+  files: ContextFile[];
   isDark: boolean;
 }
 
-export function StarterPacksView({ isDark }: StarterPacksViewProps) {
+/**
+ * The projects packs can be installed into: the outermost directories the
+ * scanned context files apply to, leaving out the home directory (that's
+ * ~/.claude, the user scope).
+ */
+function getProjects(files: ContextFile[]): string[] {
+  const roots = new Set<string>();
+  for (const file of files) {
+    const format = detectContextFormat(file.path);
+    if (!format) continue;
+    const root = getFormatRoot(file.path, format);
+    if (simplifyPath(root) !== '~') roots.add(root);
+  }
+  return Array.from(roots)
+    .filter((root) => !Array.from(roots).some((other) => root.startsWith(other + '/')))
+    .sort();
+}
+
+export function StarterPacksView({ files, isDark }: StarterPacksViewProps) {
   const [packs, setPacks] = useState<StarterPackMeta[]>([]);
-  const [importedPacks, setImportedPacks] = useState<StarterPackMeta[]>([]);
+  const [installs, setInstalls] = useState<InstalledPackStatus[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [installingPack, setInstallingPack] = useState<StarterPackMeta | null>(null);
   const [detailPack, setDetailPack] = useState<StarterPackMeta | null>(null);
+  const [upgradingPack, setUpgradingPack] = useState<{
+    packMeta: StarterPackMeta;
+    project: string | null;
+  } | null>(null);
   const [showExport, setShowExport] = useState(false);
   const [resultMessage, setResultMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
 
   const loadPacks = useCallback(async () => {
     try {
-      const builtins = await window.electronAPI.getStarterPacks();
-      setPacks(builtins);
+      setPacks(await window.electronAPI.getStarterPacks());
+      setInstalls(await window.electronAPI.getInstalledPacks());
     } catch (error) {
       console.error('Failed to load starter packs:', error);
     } finally {
@@ -34,15 +61,25 @@ export function StarterPacksView({ isDark }: StarterPacksViewProps) {
     loadPacks();
   }, [loadPacks]);
 
-  const allPacks = [...packs, ...importedPacks];
+  const projects = useMemo(() => getProjects(files), [files]);
+
+  const getInstalls = (packMeta: StarterPackMeta) =>
+    installs.filter((i) => i.install.packId === packMeta.id);
+
+  function showResult(type: 'success' | 'error', text: string) {
+    setResultMessage({ type, text });
+    // Auto-dismiss after 5 seconds
+    setTimeout(() => setResultMessage(null), 5000);
+  }
 
-  async function handleInstall(selectedFiles: string[], overwrite: boolean) {
+  async function handleInstall(selectedFiles: string[], overwrite: boolean, project: string | null) {
     if (!installingPack) return;
     try {
       const result = await window.electronAPI.installStarterPack(
         installingPack.id,
         selectedFiles,
-        overwrite
+        overwrite,
+        project
       );
       const parts: string[] = [];
       if (result.installed.length > 0) parts.push(`Installed ${result.installed.length} file(s)`);
@@ -53,6 +90,7 @@ export function StarterPacksView({ isDark }: StarterPacksViewProps) {
         text: parts.join('. '),
       });
       setInstallingPack(null);
+      await loadPacks();
       // Auto-dismiss after 5 seconds
       setTimeout(() => setResultMessage(null), 5000);
     } catch (error) {
@@ -64,7 +102,7 @@ export function StarterPacksView({ isDark }: StarterPacksViewProps) {
     }
   }
 
-  async function handleExport(options: { name: string; description: string; includeCommands: boolean; includeAgents: boolean; includeSettings: boolean }) {
+  async function handleExport(options: PackExportOptions) {
     try {
       const filePath = await window.electronAPI.exportStarterPack(options);
       setShowExport(false);
@@ -86,16 +124,96 @@ export function StarterPacksView({ isDark }: StarterPacksViewProps) {
     try {
       const imported = await window.electronAPI.importStarterPack();
       if (imported) {
-        setImportedPacks((prev) => [...prev, imported]);
-        setResultMessage({ type: 'success', text: `Imported "${imported.pack.name}"` });
-        setTimeout(() => setResultMessage(null), 5000);
+        await loadPacks();
+        showResult('success', `Imported "${imported.pack.name}" into your library`);
       }
     } catch (error) {
-      setResultMessage({
-        type: 'error',
-        text: error instanceof Error ? error.message : 'Import failed',
-      });
+      showResult('error', error instanceof Error ? error.message : 'Import failed');
+    }
+  }
+
+  // Library packs only: built-in packs can't be renamed, re-imported or removed
+  async function handleRename(packMeta: StarterPackMeta, name: string) {
+    try {
+      setDetailPack(await window.electronAPI.renameStarterPack(packMeta.id, name));
+      await loadPacks();
+    } catch (error) {
+      showResult('error', error instanceof Error ? error.message : 'Rename failed');
+    }
+  }
+
+  async function handleReimport(packMeta: StarterPackMeta) {
+    try {
+      const reimported = await window.electronAPI.reimportStarterPack(
+        packMeta.id,
+        packMeta.source ?? null
+      );
+      if (!reimported) return;
+      setDetailPack(reimported);
+      await loadPacks();
+      showResult('success', `Re-imported "${reimported.pack.name}" (v${reimported.pack.version})`);
+    } catch (error) {
+      showResult('error', error instanceof Error ? error.message : 'Re-import failed');
+    }
+  }
+
+  async function handleRemove(packMeta: StarterPackMeta) {
+    if (!confirm(`Remove "${packMeta.pack.name}" from your pack library?`)) return;
+    try {
+      await window.electronAPI.removeStarterPack(packMeta.id);
+      setDetailPack(null);
+      await loadPacks();
+      showResult('success', `Removed "${packMeta.pack.name}"`);
+    } catch (error) {
+      showResult('error', error instanceof Error ? error.message : 'Remove failed');
+    }
+  }
+
+  // Files changed since install are kept, unless the user agrees to delete them too
+  async function handleUninstall(packMeta: StarterPackMeta, install: InstalledPackStatus) {
+    if (!confirm(`Uninstall "${packMeta.pack.name}"?`)) return;
+    const modified = install.files.filter((f) => f.status === 'modified').length;
+    const force =
+      modified > 0 &&
+      confirm(`${modified} file(s) were changed since install. Delete them too? Cancel keeps them`);
+    try {
+      const result = await window.electronAPI.uninstallStarterPack(
+        packMeta.id,
+        force,
+        install.install.project ?? null
+      );
+      setDetailPack(null);
+      await loadPacks();
+      const kept = result.kept.length > 0 ? `, kept ${result.kept.length} changed` : '';
+      showResult(
+        'success',
+        `Uninstalled "${packMeta.pack.name}": removed ${result.removed.length}${kept}`
+      );
+    } catch (error) {
+      showResult('error', error instanceof Error ? error.message : 'Uninstall failed');
+    }
+  }
+
+  async function handleUpgrade(force: boolean) {
+    if (!upgradingPack) return;
+    try {
+      const plan = await window.electronAPI.upgradeStarterPack(
+        upgradingPack.packMeta.id,
+        force,
+        upgradingPack.project
+      );
+      const merged = plan.files.filter((f) => f.action === 'merge' || f.action === 'conflict');
+      showResult(
+        plan.conflicts > 0 ? 'error' : 'success',
+        `Upgraded "${plan.name}" to v${plan.to}` +
+          (merged.length > 0 ? `. Merged your changes into ${merged.length} file(s)` : '') +
+          (plan.conflicts > 0 ? `, with ${plan.conflicts} conflict(s) to resolve` : '')
+      );
+    } catch (error) {
+      showResult('error', error instanceof Error ? error.message : 'Upgrade failed');
     }
+    setUpgradingPack(null);
+    await loadPacks();
   }
 
   if (isLoading) {
@@ -150,17 +268,18 @@ export function StarterPacksView({ isDark }: StarterPacksViewProps) {
 
         {/* Pack grid */}
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
-          {allPacks.map((packMeta) => (
+          {packs.map((packMeta) => (
             <PackCard
               key={packMeta.id}
               packMeta={packMeta}
+              installs={getInstalls(packMeta)}
               onInstall={setInstallingPack}
               onViewDetails={setDetailPack}
             />
           ))}
         </div>
 
-        {allPacks.length === 0 && (
+        {packs.length === 0 && (
           <div className="text-center py-12 text-gray-400 dark:text-content-tertiary">
             <div className="mb-3 text-gray-400 dark:text-content-tertiary"><ToolIcon toolId="package" size={40} /></div>
             <div className="text-sm">No starter packs available.</div>
@@ -178,6 +297,15 @@ export function StarterPacksView({ isDark }: StarterPacksViewProps) {
             setDetailPack(null);
             setInstallingPack(pm);
           }}
+          installs={getInstalls(detailPack)}
+          onUninstall={(install) => handleUninstall(detailPack, install)}
+          onUpgrade={(install) => {
+            setDetailPack(null);
+            setUpgradingPack({ packMeta: detailPack, project: install.install.project ?? null });
+          }}
+          onRename={detailPack.builtin ? undefined : (name) => handleRename(detailPack, name)}
+          onReimport={detailPack.builtin ? undefined : () => handleReimport(detailPack)}
+          onRemove={detailPack.builtin ? undefined : () => handleRemove(detailPack)}
         />
       )}
 
@@ -185,14 +313,26 @@ export function StarterPacksView({ isDark }: StarterPacksViewProps) {
       {installingPack && (
         <InstallPreviewDialog
           packMeta={installingPack}
+          projects={projects}
           onInstall={handleInstall}
           onCancel={() => setInstallingPack(null)}
         />
       )}
 
+      {/* Upgrade preview dialog */}
+      {upgradingPack && (
+        <UpgradePreviewDialog
+          packMeta={upgradingPack.packMeta}
+          project={upgradingPack.project}
+          onUpgrade={handleUpgrade}
+          onCancel={() => setUpgradingPack(null)}
+        />
+      )}
+
       {/* Export dialog */}
       {showExport && (
         <ExportDialog
+          projects={projects}
           onExport={handleExport}
           onCancel={() => setShowExport(false)}
         />
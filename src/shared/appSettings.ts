@@ -0,0 +1,87 @@
+/**
+ * Reads the desktop app's settings for the CLI.
+ * Pure Node.js - no Electron dependencies.
+ * Used by the CLI (cli/index.ts) so it scans with the same tool profiles,
+ * exclusions and scan paths as the app.
+ *
+ * The app stores its settings with electron-store in `config.json` inside
+ * Electron's userData directory. Set TOKENCENTRIC_SETTINGS to point at a
+ * different file (e.g. a checked-in copy on CI). The pack library is in the
+ * same directory; set TOKENCENTRIC_PACKS to use a different one.
+ */
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { AppSettings, ToolProfile } from './types';
+import { addMissingDefaultPatterns, defaultToolProfiles } from './defaultProfiles';
+import { normalizeScanRoots } from './scanner';
+import { PACK_LIBRARY_DIR } from './packLibrary';
+
+// Packaged builds use the product name, dev builds the package name
+const APP_DIR_NAMES = ['Tokencentric', 'tokencentric'];
+
+function getUserDataDirs(): string[] {
+  const home = os.homedir();
+  let base: string;
+  if (process.platform === 'darwin') {
+    base = path.join(home, 'Library', 'Application Support');
+  } else if (process.platform === 'win32') {
+    base = process.env.APPDATA || path.join(home, 'AppData', 'Roaming');
+  } else {
+    base = process.env.XDG_CONFIG_HOME || path.join(home, '.config');
+  }
+  return APP_DIR_NAMES.map((name) => path.join(base, name));
+}
+
+export function getAppSettingsPaths(): string[] {
+  if (process.env.TOKENCENTRIC_SETTINGS) {
+    return [process.env.TOKENCENTRIC_SETTINGS];
+  }
+  return getUserDataDirs().map((dir) => path.join(dir, 'config.json'));
+}
+
+/** The app's pack library directory (in the userData directory the app has used) */
+export async function getPackLibraryDir(): Promise<string> {
+  if (process.env.TOKENCENTRIC_PACKS) {
+    return process.env.TOKENCENTRIC_PACKS;
+  }
+  const dirs = getUserDataDirs();
+  for (const dir of dirs) {
+    try {
+      await fs.access(dir);
+      return path.join(dir, PACK_LIBRARY_DIR);
+    } catch {
+      // Not created, try the next location
+    }
+  }
+  return path.join(dirs[0], PACK_LIBRARY_DIR);
+}
+
+/**
+ * Returns the app's saved settings, or an empty object when the app has never
+ * run on this machine (callers fall back to the defaults).
+ */
+export async function readAppSettings(): Promise<Partial<AppSettings>> {
+  for (const settingsPath of getAppSettingsPaths()) {
+    try {
+      const content = await fs.readFile(settingsPath, 'utf-8');
+      const store = JSON.parse(content) as { settings?: Partial<AppSettings> };
+      const settings = store.settings || {};
+      if (settings.scanPaths) {
+        settings.scanPaths = normalizeScanRoots(settings.scanPaths);
+      }
+      if (settings.toolProfiles) {
+        settings.toolProfiles = addMissingDefaultPatterns(settings.toolProfiles);
+      }
+      return settings;
+    } catch {
+      // Not found or unreadable, try the next location
+    }
+  }
+  return {};
+}
+
+export async function readToolProfiles(): Promise<ToolProfile[]> {
+  const settings = await readAppSettings();
+  return settings.toolProfiles || defaultToolProfiles;
+}
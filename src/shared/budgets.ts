@@ -0,0 +1,164 @@
+/**
+ * Token budget policies.
+ * Pure TypeScript - no Node or Electron dependencies, so it can be used by the
+ * main process, the CLI and the renderer alike.
+ *
+ * A budget has thresholds for a single file and for the total context a file
+ * loads (the file plus everything it inherits). Budgets are resolved from
+ * least to most specific, each level only overriding the thresholds it sets:
+ *
+ *   built-in defaults -> app settings (default, then tool)
+ *                     -> project .tokencentric.json (default, then tool)
+ */
+import {
+  BudgetPolicy,
+  BudgetStatus,
+  BudgetThresholds,
+  TokenBudget,
+  TokenBudgetOverride,
+} from './types';
+
+// ============================================================
+// Defaults
+// ============================================================
+
+export const defaultTokenBudget: TokenBudget = {
+  file: { warning: 5000, limit: 20000 },
+  total: { warning: 10000, limit: 50000 },
+};
+
+// ============================================================
+// Resolution
+// ============================================================
+
+function applyOverride(
+  budget: TokenBudget,
+  override: TokenBudgetOverride | undefined
+): TokenBudget {
+  if (!override) return budget;
+  return {
+    file: { ...budget.file, ...override.file },
+    total: { ...budget.total, ...override.total },
+  };
+}
+
+/**
+ * The budget for a tool's files. Later policies take precedence, so pass the
+ * app settings first and the project config last.
+ */
+export function resolveTokenBudget(
+  toolId: string | undefined,
+  policies: (BudgetPolicy | undefined)[]
+): TokenBudget {
+  let budget = defaultTokenBudget;
+  for (const policy of policies) {
+    if (!policy) continue;
+    budget = applyOverride(budget, policy.default);
+    if (toolId) {
+      budget = applyOverride(budget, policy.tools?.[toolId]);
+    }
+  }
+  return budget;
+}
+
+export function getBudgetStatus(tokens: number, thresholds: BudgetThresholds): BudgetStatus {
+  if (tokens > thresholds.limit) return 'over';
+  if (tokens > thresholds.warning) return 'warning';
+  return 'ok';
+}
+
+const STATUS_ORDER: BudgetStatus[] = ['ok', 'warning', 'over'];
+
+export function worstBudgetStatus(statuses: BudgetStatus[]): BudgetStatus {
+  return statuses.reduce<BudgetStatus>(
+    (worst, status) =>
+      STATUS_ORDER.indexOf(status) > STATUS_ORDER.indexOf(worst) ? status : worst,
+    'ok'
+  );
+}
+
+// ============================================================
+// Validation
+// ============================================================
+
+function parseThresholds(
+  value: unknown,
+  where: string,
+  errors: string[]
+): Partial<BudgetThresholds> | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    errors.push(`${where} must be an object with "warning" and/or "limit"`);
+    return undefined;
+  }
+
+  const thresholds: Partial<BudgetThresholds> = {};
+  for (const key of ['warning', 'limit'] as const) {
+    const tokens = (value as Record<string, unknown>)[key];
+    if (tokens === undefined) continue;
+    if (typeof tokens !== 'number' || !Number.isInteger(tokens) || tokens < 0) {
+      errors.push(`${where}.${key} must be a non-negative integer`);
+      continue;
+    }
+    thresholds[key] = tokens;
+  }
+  if (
+    thresholds.warning !== undefined &&
+    thresholds.limit !== undefined &&
+    thresholds.warning > thresholds.limit
+  ) {
+    errors.push(`${where}.warning is higher than ${where}.limit`);
+  }
+  return thresholds;
+}
+
+function parseOverride(
+  value: unknown,
+  where: string,
+  errors: string[]
+): TokenBudgetOverride | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    errors.push(`${where} must be an object with "file" and/or "total"`);
+    return undefined;
+  }
+  const record = value as Record<string, unknown>;
+  return {
+    file: parseThresholds(record.file, `${where}.file`, errors),
+    total: parseThresholds(record.total, `${where}.total`, errors),
+  };
+}
+
+/**
+ * Validates a budget policy read from JSON. Invalid entries are dropped and
+ * described in `errors`, so one typo doesn't discard the whole policy.
+ */
+export function parseBudgetPolicy(
+  value: unknown,
+  where = 'budgets'
+): { policy: BudgetPolicy; errors: string[] } {
+  const errors: string[] = [];
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    errors.push(`${where} must be an object`);
+    return { policy: {}, errors };
+  }
+
+  const record = value as Record<string, unknown>;
+  const policy: BudgetPolicy = {
+    default: parseOverride(record.default, `${where}.default`, errors),
+  };
+
+  if (record.tools !== undefined) {
+    if (typeof record.tools !== 'object' || record.tools === null || Array.isArray(record.tools)) {
+      errors.push(`${where}.tools must be an object keyed by tool id`);
+    } else {
+      policy.tools = {};
+      for (const [toolId, override] of Object.entries(record.tools)) {
+        const parsed = parseOverride(override, `${where}.tools.${toolId}`, errors);
+        if (parsed) policy.tools[toolId] = parsed;
+      }
+    }
+  }
+
+  return { policy, errors };
+}
@@ -4,6 +4,8 @@ export interface StarterPackMeta {
   id: string;
   builtin: boolean;
   pack: StarterPack;
+  source?: string | null; // Library packs: the file it was imported from
+  importedAt?: number; // Library packs: when it was imported or last re-imported
 }
 
 export const builtinPacks: StarterPackMeta[] = [
@@ -0,0 +1,66 @@
+/**
+ * Claude Code memory files.
+ * Pure TypeScript - no Node or Electron dependencies, so it can be used by the
+ * main process, the CLI and the renderer alike. Resolving the files on disk is
+ * in claudeMemoryReader.ts.
+ *
+ * Claude Code loads ~/.claude/CLAUDE.md, then CLAUDE.md, .claude/CLAUDE.md and
+ * CLAUDE.local.md from the working directory and each parent. Memory files can
+ * pull in other files with `@path/to/file`, up to MAX_IMPORT_DEPTH hops deep.
+ * CLAUDE.md files in subdirectories are only read when Claude works there.
+ */
+import { MemoryFile, MemoryFileStatus } from './types';
+
+export const MAX_IMPORT_DEPTH = 5;
+
+/** Memory files read from the working directory and each parent, in load order */
+export const PROJECT_MEMORY_FILES = ['CLAUDE.md', '.claude/CLAUDE.md'];
+export const LOCAL_MEMORY_FILE = 'CLAUDE.local.md';
+
+// Trailing punctuation is part of the sentence, not the path
+const TRAILING_PUNCTUATION = /[.,;:!?)\]}'"]+$/;
+
+/**
+ * Finds the `@path` imports in a memory file, in order and without duplicates.
+ * Like Claude Code, references inside code spans and fenced code blocks are
+ * ignored, and an `@` has to start a word (so e-mail addresses don't count).
+ */
+export function findMemoryImports(content: string): string[] {
+  const imports: string[] = [];
+  let inFence = false;
+
+  for (const line of content.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+
+    const text = line.replace(/`[^`]*`/g, '');
+    for (const match of text.matchAll(/(?:^|\s)@(\S+)/g)) {
+      const reference = match[1].replace(TRAILING_PUNCTUATION, '');
+      if (reference && !imports.includes(reference)) {
+        imports.push(reference);
+      }
+    }
+  }
+
+  return imports;
+}
+
+const COUNTED_STATUSES: MemoryFileStatus[] = ['loaded', 'on-demand'];
+
+/**
+ * Tokens of the given memory files and everything they import. Files that
+ * weren't read (missing, cycles, too deep) or were already counted elsewhere
+ * add nothing.
+ */
+export function sumMemoryTokens(files: MemoryFile[]): number {
+  return files.reduce(
+    (sum, file) =>
+      sum +
+      (COUNTED_STATUSES.includes(file.status) ? file.tokens || 0 : 0) +
+      sumMemoryTokens(file.imports),
+    0
+  );
+}
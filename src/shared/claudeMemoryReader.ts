@@ -0,0 +1,162 @@
+/**
+ * Resolves the Claude Code memory a context file is loaded with.
+ * Pure Node.js - no Electron dependencies.
+ * Used by both the main process (ipc.ts) and the CLI (cli/index.ts).
+ */
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { MemoryFile, MemoryFileKind, MemoryResolution, TokenizerType } from './types';
+import {
+  LOCAL_MEMORY_FILE,
+  MAX_IMPORT_DEPTH,
+  PROJECT_MEMORY_FILES,
+  findMemoryImports,
+  sumMemoryTokens,
+} from './claudeMemory';
+
+export interface MemoryResolveOptions {
+  tokenizer: TokenizerType;
+  countTokens: (content: string, tokenizer: TokenizerType) => number | Promise<number>;
+  /** Known context files (e.g. from a scan); CLAUDE.md files below the directory are nested memory */
+  knownFiles?: string[];
+  maxImportDepth?: number;
+  homeDir?: string;
+}
+
+interface ResolveContext {
+  options: MemoryResolveOptions;
+  home: string;
+  // Files already read, by device and inode so symlinks and case-insensitive names match
+  seen: Set<string>;
+  onDemand: boolean;
+}
+
+/**
+ * The directory a memory file belongs to (.claude/CLAUDE.md belongs to the
+ * directory containing .claude).
+ */
+export function getMemoryDir(filePath: string): string {
+  const dir = path.dirname(filePath);
+  return path.basename(dir) === '.claude' ? path.dirname(dir) : dir;
+}
+
+function resolveReference(reference: string, importer: string, home: string): string {
+  if (reference === '~' || reference.startsWith('~/')) {
+    return path.join(home, reference.slice(1));
+  }
+  return path.resolve(path.dirname(importer), reference);
+}
+
+/**
+ * Reads a memory file and, recursively, its imports. Returns null for
+ * top-level files that don't exist or were already read.
+ */
+async function readMemoryFile(
+  filePath: string,
+  kind: MemoryFileKind,
+  ctx: ResolveContext,
+  depth: number,
+  importers: string[],
+  reference?: string
+): Promise<MemoryFile | null> {
+  const isImport = kind === 'import';
+  const file: MemoryFile = { path: filePath, kind, status: 'loaded', imports: [] };
+  if (reference !== undefined) file.reference = reference;
+
+  if (importers.includes(filePath)) return { ...file, status: 'cycle' };
+  if (depth > (ctx.options.maxImportDepth ?? MAX_IMPORT_DEPTH)) {
+    return { ...file, status: 'depth-limit' };
+  }
+
+  let content: string;
+  try {
+    const stats = await fs.stat(filePath);
+    const key = `${stats.dev}:${stats.ino}`;
+    if (ctx.seen.has(key)) return isImport ? { ...file, status: 'duplicate' } : null;
+    content = await fs.readFile(filePath, 'utf-8');
+    ctx.seen.add(key);
+  } catch {
+    // Claude Code skips imports it can't read
+    return isImport ? { ...file, status: 'missing' } : null;
+  }
+
+  file.status = ctx.onDemand ? 'on-demand' : 'loaded';
+  file.tokens = await ctx.options.countTokens(content, ctx.options.tokenizer);
+  for (const ref of findMemoryImports(content)) {
+    const imported = await readMemoryFile(
+      resolveReference(ref, filePath, ctx.home),
+      'import',
+      ctx,
+      depth + 1,
+      [...importers, filePath],
+      ref
+    );
+    if (imported) file.imports.push(imported);
+  }
+  return file;
+}
+
+/**
+ * Resolves the memory Claude Code loads when started in the directory of the
+ * given file: ~/.claude/CLAUDE.md, then the memory files of each parent
+ * directory from the outermost down (not the filesystem root), each followed
+ * by its imports. The file itself is always included, whatever its name.
+ * Known CLAUDE.md files in subdirectories are added as on-demand memory.
+ */
+export async function resolveClaudeMemory(
+  filePath: string,
+  options: MemoryResolveOptions
+): Promise<MemoryResolution> {
+  const ctx: ResolveContext = {
+    options,
+    home: options.homeDir || os.homedir(),
+    seen: new Set(),
+    onDemand: false,
+  };
+  const startup: MemoryFile[] = [];
+  const add = (file: MemoryFile | null, list: MemoryFile[]) => {
+    if (file) list.push(file);
+  };
+
+  add(
+    await readMemoryFile(path.join(ctx.home, '.claude', 'CLAUDE.md'), 'user', ctx, 0, []),
+    startup
+  );
+
+  const memoryDir = getMemoryDir(filePath);
+  const dirs: string[] = [];
+  for (let dir = memoryDir; path.dirname(dir) !== dir; dir = path.dirname(dir)) {
+    dirs.unshift(dir);
+  }
+  for (const dir of dirs) {
+    const candidates = PROJECT_MEMORY_FILES.map((name) => path.join(dir, name));
+    if (dir === memoryDir && path.basename(filePath) !== LOCAL_MEMORY_FILE) {
+      if (!candidates.includes(filePath)) candidates.push(filePath);
+    }
+    for (const candidate of candidates) {
+      add(await readMemoryFile(candidate, 'project', ctx, 0, []), startup);
+    }
+    add(await readMemoryFile(path.join(dir, LOCAL_MEMORY_FILE), 'local', ctx, 0, []), startup);
+  }
+
+  ctx.onDemand = true;
+  const onDemand: MemoryFile[] = [];
+  const nested = (options.knownFiles || [])
+    .filter(
+      (known) =>
+        known.startsWith(memoryDir + '/') &&
+        path.basename(known) === 'CLAUDE.md' &&
+        getMemoryDir(known) !== memoryDir
+    )
+    .sort();
+  for (const known of nested) {
+    add(await readMemoryFile(known, 'nested', ctx, 0, []), onDemand);
+  }
+
+  return {
+    files: [...startup, ...onDemand],
+    tokens: sumMemoryTokens(startup),
+    onDemandTokens: sumMemoryTokens(onDemand),
+  };
+}
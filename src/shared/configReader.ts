@@ -6,7 +6,11 @@
 import fs from 'fs/promises';
 import path from 'path';
 import os from 'os';
-import { ConfigItem, StarterPack } from './types';
+import { ConfigItem, PackExportOptions, PackFile, StarterPack } from './types';
+import { parseFrontmatter } from './frontmatter';
+import { PACK_TOOL_LOCATIONS, getPackToolLocations, matchesContextLocation } from './packTools';
+
+export { parseFrontmatter };
 
 // ============================================================
 // Path helpers
@@ -20,46 +24,6 @@ export function getClaudeJsonPath(): string {
   return path.join(os.homedir(), '.claude.json');
 }
 
-// ============================================================
-// YAML frontmatter parser (no yaml lib dependency)
-// ============================================================
-
-export function parseFrontmatter(content: string): Record<string, unknown> {
-  const result: Record<string, unknown> = {};
-  const match = content.match(/^---\s*\n([\s\S]*?)\n---/);
-  if (!match) return result;
-
-  const lines = match[1].split('\n');
-  let currentKey = '';
-  let currentArray: string[] | null = null;
-
-  for (const line of lines) {
-    // Array item
-    if (line.match(/^\s+-\s+/) && currentKey) {
-      const value = line.replace(/^\s+-\s+/, '').trim();
-      if (!currentArray) {
-        currentArray = [];
-        result[currentKey] = currentArray;
-      }
-      currentArray.push(value);
-      continue;
-    }
-
-    // Key: value pair
-    const kvMatch = line.match(/^(\w+):\s*(.*)/);
-    if (kvMatch) {
-      currentArray = null;
-      currentKey = kvMatch[1];
-      const value = kvMatch[2].trim();
-      if (value) {
-        result[currentKey] = value.replace(/^["']|["']$/g, '');
-      }
-    }
-  }
-
-  return result;
-}
-
 // ============================================================
 // Claude Commands
 // ============================================================
@@ -249,14 +213,16 @@ export async function readDepartments(): Promise<string[]> {
 // Export helper
 // ============================================================
 
-export async function exportCurrentConfig(options: {
-  name: string;
-  description: string;
-  includeCommands: boolean;
-  includeAgents: boolean;
-  includeSettings: boolean;
-}): Promise<StarterPack> {
-  const claudeDir = getClaudeDir();
+/**
+ * Bundles the user config, or a project's, into a pack: Claude Code's
+ * commands, agents and settings, and with `includeContext` the context files
+ * and rules of every tool that has some, read from where the pack installs them
+ * (see packTools.ts).
+ */
+export async function exportCurrentConfig(options: PackExportOptions): Promise<StarterPack> {
+  const base = options.project || os.homedir();
+  const scope = options.project ? 'project' : 'user';
+  const claudeDir = path.join(base, getPackToolLocations('claude')[scope].configDir!);
   const pack: StarterPack = {
     tcpack: '1.0',
     name: options.name,
@@ -315,5 +281,27 @@ export async function exportCurrentConfig(options: {
     }
   }
 
+  if (options.includeContext) {
+    for (const [toolId, locations] of Object.entries(PACK_TOOL_LOCATIONS)) {
+      const contextFiles: PackFile[] = [];
+      for (const location of locations[scope].context) {
+        const dir = path.join(base, location.dir);
+        try {
+          const entries = await fs.readdir(dir, { withFileTypes: true });
+          for (const entry of entries) {
+            if (!entry.isFile() || !matchesContextLocation(location, entry.name)) continue;
+            const content = await fs.readFile(path.join(dir, entry.name), 'utf-8');
+            contextFiles.push({ filename: entry.name, content });
+          }
+        } catch {
+          // The tool has no files here
+        }
+      }
+      if (contextFiles.length > 0) {
+        pack.tools[toolId] = { ...pack.tools[toolId], contextFiles };
+      }
+    }
+  }
+
   return pack;
 }
@@ -0,0 +1,209 @@
+/**
+ * Drift analysis: compares context files section by section, to find the
+ * sections that are duplicated, that diverged between tools' files, or that
+ * one tool's file is missing.
+ * Pure TypeScript - no Node or Electron dependencies, so it can be used by the
+ * main process, the CLI and the renderer alike. Reading the files on disk is
+ * in contextAnalysisReader.ts.
+ *
+ * Files are grouped into projects by the directory they apply to, so
+ * CLAUDE.md, AGENTS.md and .cursor/rules/*.mdc at the same root are siblings.
+ * Within a project, a heading with different text in two files is a conflict,
+ * and a heading some of the full files have and others don't is missing.
+ * Sections with the same text are duplicates, within a project or across them.
+ */
+import { SectionFinding, SectionFindingKind } from './types';
+import { normalizeHeading } from './projectConfig';
+
+export interface ContextSection {
+  heading: string;
+  key: string; // Normalized heading, numbered when a file repeats it
+  lines: string[]; // Non-empty lines of the body, whitespace collapsed
+}
+
+export interface AnalyzedFile {
+  path: string;
+  content: string; // Without frontmatter
+  project: string; // The directory the file applies to
+  partial: boolean; // Scoped rules and additions to another file, not expected to have every section
+}
+
+// Shorter sections are only reported when they are repeated within a project,
+// so that one-line boilerplate shared by every project isn't
+export const MIN_SHARED_SECTION_LENGTH = 80;
+
+const HEADING = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+
+const KIND_ORDER: SectionFindingKind[] = ['conflict', 'missing', 'duplicate'];
+
+/**
+ * Splits Markdown into sections at its headings, of any level. Text before the
+ * first heading is left out, and so is a lone H1 at the top, which titles the
+ * file rather than a section. Headings inside fenced code blocks don't count.
+ */
+export function splitSections(content: string): ContextSection[] {
+  const lines = content.split('\n');
+  const headings: Array<{ line: number; level: number; text: string }> = [];
+  let inFence = false;
+  lines.forEach((line, index) => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    } else if (!inFence) {
+      const match = HEADING.exec(line);
+      if (match) headings.push({ line: index, level: match[1].length, text: match[2] });
+    }
+  });
+
+  const isTitled = headings[0]?.level === 1 && headings.filter((h) => h.level === 1).length === 1;
+  const seen = new Map<string, number>();
+  return headings.slice(isTitled ? 1 : 0).map((heading, index, list) => {
+    const end = index + 1 < list.length ? list[index + 1].line : lines.length;
+    const key = normalizeHeading(heading.text);
+    const count = (seen.get(key) || 0) + 1;
+    seen.set(key, count);
+    return {
+      heading: heading.text,
+      key: count > 1 ? `${key} (${count})` : key,
+      lines: lines
+        .slice(heading.line + 1, end)
+        .map((line) => line.trim().replace(/\s+/g, ' '))
+        .filter(Boolean),
+    };
+  });
+}
+
+/** Share of lines two versions of a section have in common (0-1) */
+export function sectionSimilarity(a: string[], b: string[]): number {
+  if (a.length + b.length === 0) return 1;
+  const counts = new Map<string, number>();
+  for (const line of a) counts.set(line, (counts.get(line) || 0) + 1);
+  let shared = 0;
+  for (const line of b) {
+    const count = counts.get(line) || 0;
+    if (count > 0) {
+      shared++;
+      counts.set(line, count - 1);
+    }
+  }
+  return (2 * shared) / (a.length + b.length);
+}
+
+type ParsedFile = AnalyzedFile & { sections: ContextSection[] };
+
+function groupBy<T>(items: T[], getKey: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const key = getKey(item);
+    groups.set(key, [...(groups.get(key) || []), item]);
+  }
+  return groups;
+}
+
+// Conflicting and missing sections between the files of one project
+function compareSiblings(siblings: ParsedFile[]): SectionFinding[] {
+  const findings: SectionFinding[] = [];
+  const keys = new Set(siblings.flatMap((file) => file.sections.map((s) => s.key)));
+
+  for (const key of keys) {
+    const copies = siblings.flatMap((file) => {
+      const section = file.sections.find((s) => s.key === key);
+      return section ? [{ file, section }] : [];
+    });
+    const heading = copies[0].section.heading;
+
+    let similarity = 1;
+    let differs = false;
+    for (let i = 0; i < copies.length; i++) {
+      for (let j = i + 1; j < copies.length; j++) {
+        const [a, b] = [copies[i].section.lines, copies[j].section.lines];
+        if (a.join('\n') === b.join('\n')) continue;
+        differs = true;
+        similarity = Math.min(similarity, sectionSimilarity(a, b));
+      }
+    }
+    if (differs) {
+      findings.push({
+        kind: 'conflict',
+        heading,
+        files: copies.map((c) => c.file.path),
+        similarity,
+        crossProject: false,
+      });
+    }
+
+    // A section only in scoped rules is expected to be missing elsewhere
+    const missingFrom = siblings.filter(
+      (file) => !file.partial && !copies.some((c) => c.file === file)
+    );
+    if (missingFrom.length > 0 && copies.some((c) => !c.file.partial)) {
+      findings.push({
+        kind: 'missing',
+        heading,
+        files: copies.map((c) => c.file.path),
+        missingFrom: missingFrom.map((file) => file.path),
+        crossProject: false,
+      });
+    }
+  }
+
+  return findings;
+}
+
+// Sections with the same text in more than one file
+function findDuplicates(files: ParsedFile[]): SectionFinding[] {
+  const findings: SectionFinding[] = [];
+  const copies = files.flatMap((file) =>
+    file.sections
+      .filter((section) => section.lines.length > 0)
+      .map((section) => ({ file, section, text: section.lines.join('\n') }))
+  );
+
+  for (const [text, same] of groupBy(copies, (c) => c.text)) {
+    const projects = groupBy(same, (c) => c.file.project);
+    const groups =
+      projects.size > 1 && text.length >= MIN_SHARED_SECTION_LENGTH
+        ? [same]
+        : Array.from(projects.values());
+
+    for (const group of groups) {
+      const paths = Array.from(new Set(group.map((c) => c.file.path)));
+      if (paths.length < 2) continue;
+      findings.push({
+        kind: 'duplicate',
+        heading: group[0].section.heading,
+        files: paths,
+        crossProject: group === same && projects.size > 1,
+      });
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Compares context files section by section. Files of the same project are
+ * checked for conflicting and missing sections; all files for duplicates.
+ */
+export function compareContextFiles(files: AnalyzedFile[]): SectionFinding[] {
+  const parsed = files.map((file) => ({ ...file, sections: splitSections(file.content) }));
+  const findings = [
+    ...Array.from(groupBy(parsed, (file) => file.project).values())
+      .filter((siblings) => siblings.length > 1)
+      .flatMap(compareSiblings),
+    ...findDuplicates(parsed),
+  ];
+
+  return findings.sort(
+    (a, b) =>
+      KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind) ||
+      a.heading.localeCompare(b.heading) ||
+      a.files[0].localeCompare(b.files[0])
+  );
+}
+
+/** The findings a file is part of, with or without the section */
+export function getFileFindings(findings: SectionFinding[], filePath: string): SectionFinding[] {
+  return findings.filter(
+    (finding) => finding.files.includes(filePath) || finding.missingFrom?.includes(filePath)
+  );
+}
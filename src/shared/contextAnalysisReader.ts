@@ -0,0 +1,56 @@
+/**
+ * Reads context files for the drift analysis in contextAnalysis.ts.
+ * Pure Node.js - no Electron dependencies.
+ * Used by both the main process (ipc.ts) and the CLI (cli/index.ts).
+ */
+import fs from 'fs/promises';
+import path from 'path';
+import { ContextAnalysis } from './types';
+import { AnalyzedFile, compareContextFiles } from './contextAnalysis';
+import { detectContextFormat, getFormatRoot, parseContextDocument } from './contextFormats';
+import { LOCAL_MEMORY_FILE } from './claudeMemory';
+import { isGeneratedFile } from './sync';
+
+const MARKDOWN_FILE = /(\.(md|mdc|markdown)|\/\.cursorrules)$/i;
+
+/**
+ * Compares the Markdown files among the given context files. Files generated
+ * by a sync are left out: they repeat their canonical file on purpose.
+ */
+export async function analyzeContextFiles(filePaths: string[]): Promise<ContextAnalysis> {
+  const files: AnalyzedFile[] = [];
+  const generated: string[] = [];
+
+  for (const filePath of Array.from(new Set(filePaths)).sort()) {
+    if (!MARKDOWN_FILE.test(filePath)) continue;
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf-8');
+    } catch {
+      continue; // Removed since it was scanned
+    }
+    if (isGeneratedFile(content)) {
+      generated.push(filePath);
+      continue;
+    }
+
+    // Other tools' files are only compared for duplicates
+    const format = detectContextFormat(filePath);
+    if (!format) {
+      files.push({ path: filePath, content, project: path.dirname(filePath), partial: true });
+      continue;
+    }
+    const { body, scope } = parseContextDocument(content, format);
+    files.push({
+      path: filePath,
+      content: body,
+      project: getFormatRoot(filePath, format),
+      partial:
+        !scope.alwaysApply ||
+        scope.globs.length > 0 ||
+        path.basename(filePath) === LOCAL_MEMORY_FILE,
+    });
+  }
+
+  return { files: files.map((f) => f.path), generated, findings: compareContextFiles(files) };
+}
@@ -0,0 +1,279 @@
+/**
+ * Conversion between context file formats.
+ * Pure TypeScript - no Node or Electron dependencies, so it can be used by the
+ * main process, the CLI and the renderer alike. Reading and writing the files
+ * on disk is in contextFormatsWriter.ts.
+ *
+ * The instructions themselves are Markdown in every format; what differs is
+ * where the file lives and how it says which paths it applies to:
+ * - CLAUDE.md, AGENTS.md and .cursorrules apply to their whole directory
+ * - .cursor/rules/<name>.mdc has `description`, `globs` and `alwaysApply`
+ * - .github/copilot-instructions.md applies to the whole repository
+ * - .github/instructions/<name>.instructions.md has `applyTo` globs
+ */
+import { ContextFormat } from './types';
+import { findMemoryImports } from './claudeMemory';
+import { parseFrontmatter } from './frontmatter';
+
+export type { ContextFormat };
+
+export interface ContextFormatInfo {
+  id: ContextFormat;
+  name: string;
+  toolId: string; // Built-in tool profile the format belongs to
+  scoped: boolean; // Whether the format can limit itself to some paths
+}
+
+export const CONTEXT_FORMATS: ContextFormatInfo[] = [
+  { id: 'claude', name: 'CLAUDE.md', toolId: 'claude', scoped: false },
+  { id: 'agents', name: 'AGENTS.md', toolId: 'openai', scoped: false },
+  { id: 'cursorrules', name: '.cursorrules', toolId: 'cursor', scoped: false },
+  { id: 'cursor-rule', name: 'Cursor rule (.mdc)', toolId: 'cursor', scoped: true },
+  { id: 'copilot', name: 'Copilot instructions', toolId: 'copilot', scoped: false },
+  {
+    id: 'copilot-instructions',
+    name: 'Copilot path instructions',
+    toolId: 'copilot',
+    scoped: true,
+  },
+];
+
+export const DEFAULT_RULE_NAME = 'project';
+
+/** Which paths a context file applies to */
+export interface ContextScope {
+  globs: string[]; // Empty when the file applies everywhere
+  alwaysApply: boolean; // Cursor: loaded with every request
+  description?: string; // Cursor: lets the agent decide when to load the rule
+}
+
+export interface ContextDocument {
+  body: string; // The instructions, without frontmatter
+  scope: ContextScope;
+}
+
+export interface ConvertOptions {
+  name?: string; // File name for rule and path instruction files
+  globs?: string[]; // Replaces the scope of the source
+  description?: string;
+}
+
+export interface ConversionResult {
+  content: string;
+  relativePath: string; // Relative to the directory the rules apply to
+  warnings: string[];
+}
+
+export function getContextFormat(id: ContextFormat): ContextFormatInfo {
+  return CONTEXT_FORMATS.find((format) => format.id === id)!;
+}
+
+export function isContextFormat(value: unknown): value is ContextFormat {
+  return CONTEXT_FORMATS.some((format) => format.id === value);
+}
+
+const getDir = (filePath: string) => filePath.substring(0, filePath.lastIndexOf('/'));
+const getBaseName = (filePath: string) => filePath.substring(filePath.lastIndexOf('/') + 1);
+
+/** The format of a context file, from its path. Null for other files. */
+export function detectContextFormat(filePath: string): ContextFormat | null {
+  const normalized = filePath.replace(/\\/g, '/');
+  const name = getBaseName(normalized);
+  const dir = getDir(normalized);
+
+  if (name === 'copilot-instructions.md' && dir.endsWith('.github')) return 'copilot';
+  if (name.endsWith('.instructions.md') && dir.endsWith('.github/instructions')) {
+    return 'copilot-instructions';
+  }
+  if (name.endsWith('.mdc') && dir.includes('.cursor/rules')) return 'cursor-rule';
+  if (name === '.cursorrules') return 'cursorrules';
+  if (['CLAUDE.md', 'claude.md', 'CLAUDE.local.md'].includes(name)) return 'claude';
+  if (['AGENTS.md', 'agents.md'].includes(name)) return 'agents';
+  return null;
+}
+
+/**
+ * The directory a context file applies to: the one containing .cursor or
+ * .github for rule files, otherwise the file's own directory
+ * (.claude/CLAUDE.md belongs to the directory containing .claude).
+ */
+export function getFormatRoot(filePath: string, format: ContextFormat): string {
+  const configDir =
+    format === 'cursor-rule'
+      ? '/.cursor/'
+      : format === 'copilot' || format === 'copilot-instructions'
+        ? '/.github/'
+        : null;
+  if (configDir) {
+    const index = filePath.lastIndexOf(configDir);
+    if (index >= 0) return filePath.substring(0, index);
+  }
+  const dir = getDir(filePath);
+  return getBaseName(dir) === '.claude' ? getDir(dir) : dir;
+}
+
+/** The name of a rule or path instructions file, without its extension */
+export function getRuleName(filePath: string, format: ContextFormat): string | undefined {
+  const name = getBaseName(filePath);
+  if (format === 'cursor-rule') return name.replace(/\.mdc$/, '');
+  if (format === 'copilot-instructions') return name.replace(/\.instructions\.md$/, '');
+  return undefined;
+}
+
+/** Rule names become file names: keep them to safe characters */
+export function normalizeRuleName(name: string): string {
+  return (
+    name
+      .trim()
+      .toLowerCase()
+      .replace(/[^a-z0-9._-]+/g, '-')
+      .replace(/^[-.]+|-+$/g, '') || DEFAULT_RULE_NAME
+  );
+}
+
+/** Where a file of the format lives, relative to the directory it applies to */
+export function getFormatPath(format: ContextFormat, name = DEFAULT_RULE_NAME): string {
+  switch (format) {
+    case 'claude':
+      return 'CLAUDE.md';
+    case 'agents':
+      return 'AGENTS.md';
+    case 'cursorrules':
+      return '.cursorrules';
+    case 'cursor-rule':
+      return `.cursor/rules/${normalizeRuleName(name)}.mdc`;
+    case 'copilot':
+      return '.github/copilot-instructions.md';
+    case 'copilot-instructions':
+      return `.github/instructions/${normalizeRuleName(name)}.instructions.md`;
+  }
+}
+
+/** Globs are written as a comma-separated list, a YAML list or `[...]` */
+export function parseGlobs(value: unknown): string[] {
+  const items = Array.isArray(value)
+    ? value.map(String)
+    : String(value ?? '')
+        .replace(/^\s*\[|\]\s*$/g, '')
+        .split(',');
+  return items.map((item) => item.trim().replace(/^["']|["']$/g, '')).filter(Boolean);
+}
+
+// Everything in the file after its frontmatter, if any
+function stripFrontmatter(content: string): string {
+  const match = content.match(/^---\s*\n[\s\S]*?\n---[^\n]*\n?/);
+  return match ? content.slice(match[0].length).replace(/^\s*\n/, '') : content;
+}
+
+/** Splits a context file into its instructions and the paths it applies to */
+export function parseContextDocument(content: string, format: ContextFormat): ContextDocument {
+  const unscoped: ContextScope = { globs: [], alwaysApply: true };
+
+  if (format === 'cursor-rule') {
+    const frontmatter = parseFrontmatter(content);
+    const description = String(frontmatter.description || '').trim();
+    return {
+      body: stripFrontmatter(content),
+      scope: {
+        globs: parseGlobs(frontmatter.globs),
+        alwaysApply: String(frontmatter.alwaysApply || '').trim() === 'true',
+        ...(description ? { description } : {}),
+      },
+    };
+  }
+
+  if (format === 'copilot-instructions') {
+    const globs = parseGlobs(parseFrontmatter(content).applyTo);
+    const everywhere = globs.length === 0 || globs.some((glob) => glob === '**' || glob === '**/*');
+    return {
+      body: stripFrontmatter(content),
+      scope: everywhere ? unscoped : { globs, alwaysApply: false },
+    };
+  }
+
+  return { body: content, scope: unscoped };
+}
+
+const quote = (value: string) => JSON.stringify(value);
+
+function formatDocument(body: string, format: ContextFormat, scope: ContextScope): string {
+  const text = body.replace(/\s+$/, '') + '\n';
+
+  if (format === 'cursor-rule') {
+    return [
+      '---',
+      `description: ${scope.description || ''}`.trimEnd(),
+      `globs: ${scope.globs.join(',')}`.trimEnd(),
+      `alwaysApply: ${scope.alwaysApply}`,
+      '---',
+      '',
+      text,
+    ].join('\n');
+  }
+
+  if (format === 'copilot-instructions') {
+    const applyTo = scope.globs.length > 0 ? scope.globs.join(',') : '**';
+    return ['---', `applyTo: ${quote(applyTo)}`, '---', '', text].join('\n');
+  }
+
+  return text;
+}
+
+/**
+ * Converts a context file to another format. The instructions are kept as
+ * they are; the scope is carried over where the target can express it, and
+ * the warnings say what the target can't.
+ */
+export function convertContext(
+  content: string,
+  from: ContextFormat,
+  to: ContextFormat,
+  options: ConvertOptions = {}
+): ConversionResult {
+  const source = parseContextDocument(content, from);
+  const target = getContextFormat(to);
+  const warnings: string[] = [];
+
+  const scope: ContextScope = { ...source.scope };
+  if (options.globs) {
+    scope.globs = options.globs;
+    scope.alwaysApply = options.globs.length === 0;
+  }
+  if (options.description !== undefined) scope.description = options.description || undefined;
+
+  const agentRequested = !scope.alwaysApply && scope.globs.length === 0;
+  if (!target.scoped) {
+    if (scope.globs.length > 0) {
+      warnings.push(
+        `Only applied to ${scope.globs.join(', ')} in the source; ${target.name} applies to every file.`
+      );
+    } else if (agentRequested) {
+      warnings.push(
+        `The source is only loaded when the agent finds it relevant; ${target.name} is always loaded.`
+      );
+    }
+  } else if (to === 'copilot-instructions' && agentRequested) {
+    warnings.push(
+      'Copilot has no agent-requested instructions; the file will apply to every file.'
+    );
+  }
+  if (to !== 'cursor-rule' && scope.description && from === 'cursor-rule') {
+    warnings.push(`${target.name} has no rule description; it was dropped.`);
+  }
+
+  if (from === 'claude' && to !== 'claude') {
+    const imports = findMemoryImports(source.body);
+    if (imports.length > 0) {
+      warnings.push(
+        `@imports are only followed by Claude Code: ${imports.map((ref) => `@${ref}`).join(', ')}. ` +
+          'Copy their content into the converted file if it is needed.'
+      );
+    }
+  }
+
+  return {
+    content: formatDocument(source.body, to, scope),
+    relativePath: getFormatPath(to, options.name),
+    warnings,
+  };
+}
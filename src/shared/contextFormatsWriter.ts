@@ -0,0 +1,86 @@
+/**
+ * Converts context files on disk to other formats.
+ * Pure Node.js - no Electron dependencies.
+ * Used by both the main process (ipc.ts) and the CLI (cli/index.ts).
+ */
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  ContextFormat,
+  ConvertOptions,
+  convertContext,
+  detectContextFormat,
+  getFormatRoot,
+  getRuleName,
+} from './contextFormats';
+
+export interface ConvertedFile {
+  sourcePath: string;
+  from: ContextFormat;
+  to: ContextFormat;
+  path: string; // Where the converted file goes
+  content: string;
+  warnings: string[];
+  exists: boolean; // Whether a file is already at the target path
+}
+
+const fileExists = async (filePath: string): Promise<boolean> => {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Converts a context file without writing anything. The converted file goes
+ * next to the source, in the directory its rules apply to; rule files keep
+ * the source's rule name unless options.name is given.
+ */
+export async function convertContextFile(
+  sourcePath: string,
+  to: ContextFormat,
+  options: ConvertOptions = {}
+): Promise<ConvertedFile> {
+  const from = detectContextFormat(sourcePath);
+  if (!from) {
+    throw new Error(`Not a context file that can be converted: ${path.basename(sourcePath)}`);
+  }
+
+  const content = await fs.readFile(sourcePath, 'utf-8');
+  const result = convertContext(content, from, to, {
+    ...options,
+    name: options.name || getRuleName(sourcePath, from),
+  });
+  const targetPath = path.join(getFormatRoot(sourcePath, from), result.relativePath);
+  if (targetPath === path.resolve(sourcePath)) {
+    throw new Error('The converted file would replace the source file');
+  }
+
+  return {
+    sourcePath,
+    from,
+    to,
+    path: targetPath,
+    content: result.content,
+    warnings: result.warnings,
+    exists: await fileExists(targetPath),
+  };
+}
+
+/** Writes a converted file. Existing files are only replaced with overwrite. */
+export async function writeConvertedFile(file: ConvertedFile, overwrite = false): Promise<void> {
+  await fs.mkdir(path.dirname(file.path), { recursive: true });
+  try {
+    await fs.writeFile(file.path, file.content, {
+      encoding: 'utf-8',
+      flag: overwrite ? 'w' : 'wx',
+    });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+      throw new Error(`File already exists: ${file.path}`);
+    }
+    throw error;
+  }
+}
@@ -4,32 +4,35 @@ export const defaultToolProfiles: ToolProfile[] = [
   {
     id: 'claude',
     name: 'Claude Code',
-    patterns: ['CLAUDE.md', 'claude.md', '.claude/CLAUDE.md'],
+    patterns: ['CLAUDE.md', 'claude.md', '.claude/CLAUDE.md', 'CLAUDE.local.md'],
     tokenizer: 'anthropic',
     icon: '🟠',
     color: '#D97706',
     docsUrl: 'https://docs.anthropic.com/en/docs/claude-code',
     enabled: true,
+    inheritance: 'claude',
   },
   {
     id: 'cursor',
     name: 'Cursor',
-    patterns: ['.cursorrules'],
+    patterns: ['.cursorrules', '.cursor/rules/*.mdc'],
     tokenizer: 'openai',
     icon: '⬛',
     color: '#1F2937',
     docsUrl: 'https://docs.cursor.com/',
     enabled: true,
+    inheritance: 'cursor',
   },
   {
     id: 'copilot',
     name: 'GitHub Copilot',
-    patterns: ['.github/copilot-instructions.md'],
+    patterns: ['.github/copilot-instructions.md', '.github/instructions/*.instructions.md'],
     tokenizer: 'openai',
     icon: '🐙',
     color: '#6366F1',
     docsUrl: 'https://docs.github.com/en/copilot',
     enabled: true,
+    inheritance: 'copilot',
   },
   {
     id: 'windsurf',
@@ -48,6 +51,7 @@ export const defaultToolProfiles: ToolProfile[] = [
     icon: '🟢',
     color: '#10B981',
     enabled: true,
+    inheritance: 'nearest',
   },
 ];
 
@@ -65,3 +69,75 @@ export const defaultExclusions = [
   '.cache',
   'coverage',
 ];
+
+// Ready-made profiles for other tools, offered when adding a tool in Settings
+export const toolProfilePresets: ToolProfile[] = [
+  {
+    id: 'cline',
+    name: 'Cline',
+    patterns: ['.clinerules', '.clinerules/*.md'],
+    tokenizer: 'anthropic',
+    icon: '🤖',
+    color: '#8B5CF6',
+    docsUrl: 'https://docs.cline.bot/',
+    enabled: true,
+  },
+  {
+    id: 'aider',
+    name: 'Aider',
+    patterns: ['CONVENTIONS.md'],
+    tokenizer: 'openai',
+    icon: '🛠️',
+    color: '#22C55E',
+    docsUrl: 'https://aider.chat/docs/usage/conventions.html',
+    enabled: true,
+  },
+  {
+    id: 'gemini',
+    name: 'Gemini CLI',
+    patterns: ['GEMINI.md'],
+    tokenizer: 'openai',
+    icon: '✨',
+    color: '#4285F4',
+    docsUrl: 'https://github.com/google-gemini/gemini-cli',
+    enabled: true,
+  },
+  {
+    id: 'zed',
+    name: 'Zed',
+    patterns: ['.rules'],
+    tokenizer: 'anthropic',
+    icon: '⚡',
+    color: '#084CCF',
+    docsUrl: 'https://zed.dev/docs/ai/rules',
+    enabled: true,
+  },
+  {
+    id: 'continue',
+    name: 'Continue',
+    patterns: ['.continuerules', '.continue/rules/*.md'],
+    tokenizer: 'openai',
+    icon: '▶️',
+    color: '#F97316',
+    docsUrl: 'https://docs.continue.dev/',
+    enabled: true,
+  },
+];
+
+/**
+ * Adds the default patterns that saved copies of the built-in profiles are
+ * missing. Profiles are saved to the settings on first run, so patterns added
+ * to the defaults since would otherwise only reach new installs. Returns the
+ * same array when nothing is missing.
+ */
+export function addMissingDefaultPatterns(profiles: ToolProfile[]): ToolProfile[] {
+  let changed = false;
+  const updated = profiles.map((profile) => {
+    const defaults = defaultToolProfiles.find((p) => p.id === profile.id);
+    const missing = (defaults?.patterns || []).filter((p) => !profile.patterns.includes(p));
+    if (missing.length === 0) return profile;
+    changed = true;
+    return { ...profile, patterns: [...profile.patterns, ...missing] };
+  });
+  return changed ? updated : profiles;
+}
@@ -0,0 +1,41 @@
+/**
+ * YAML frontmatter parser (no yaml lib dependency).
+ * Pure TypeScript - no Node or Electron dependencies, so it can be used by the
+ * main process, the CLI and the renderer alike.
+ */
+
+export function parseFrontmatter(content: string): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  const match = content.match(/^---\s*\n([\s\S]*?)\n---/);
+  if (!match) return result;
+
+  const lines = match[1].split('\n');
+  let currentKey = '';
+  let currentArray: string[] | null = null;
+
+  for (const line of lines) {
+    // Array item
+    if (line.match(/^\s+-\s+/) && currentKey) {
+      const value = line.replace(/^\s+-\s+/, '').trim();
+      if (!currentArray) {
+        currentArray = [];
+        result[currentKey] = currentArray;
+      }
+      currentArray.push(value);
+      continue;
+    }
+
+    // Key: value pair
+    const kvMatch = line.match(/^(\w+):\s*(.*)/);
+    if (kvMatch) {
+      currentArray = null;
+      currentKey = kvMatch[1];
+      const value = kvMatch[2].trim();
+      if (value) {
+        result[currentKey] = value.replace(/^["']|["']$/g, '');
+      }
+    }
+  }
+
+  return result;
+}
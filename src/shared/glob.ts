@@ -0,0 +1,192 @@
+/**
+ * Glob pattern matching (no glob lib dependency).
+ * Pure TypeScript - no Node or Electron dependencies, so it can be used by the
+ * main process, the CLI and the renderer alike.
+ *
+ * Patterns follow .gitignore conventions:
+ * - `*` matches within a path segment, `**` across segments, `?` one character
+ * - `[abc]` / `[!abc]` character classes and `{a,b}` alternatives
+ * - a leading `!` negates the pattern (the last matching pattern wins)
+ * - a trailing `/` only matches directories
+ * - patterns without a slash match a file or directory name at any depth;
+ *   patterns with a slash are matched against the path relative to the base
+ */
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface PatternOptions {
+  caseInsensitive?: boolean;
+  /**
+   * Let patterns containing a slash match the end of a path at any depth
+   * (`.github/*.md` matches `repo/.github/a.md`) instead of only from the base.
+   * A leading slash still anchors the pattern.
+   */
+  matchSuffix?: boolean;
+}
+
+export interface CompiledPattern {
+  /** The pattern as written by the user */
+  source: string;
+  negated: boolean;
+  directoryOnly: boolean;
+  /** Matched against the relative path (true) or just the entry name (false) */
+  matchPath: boolean;
+  regex: RegExp;
+}
+
+// ============================================================
+// Compiling
+// ============================================================
+
+function escapeRegExp(char: string): string {
+  return /[.+^$()|\\]/.test(char) ? `\\${char}` : char;
+}
+
+/**
+ * Converts a glob to a regular expression source (without anchors).
+ */
+export function globToRegExpSource(glob: string): string {
+  let source = '';
+  let i = 0;
+  let braceDepth = 0;
+
+  while (i < glob.length) {
+    const char = glob[i];
+
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        const atSegmentStart = i === 0 || glob[i - 1] === '/';
+        const atSegmentEnd = i + 2 === glob.length || glob[i + 2] === '/';
+        if (atSegmentStart && atSegmentEnd) {
+          if (glob[i + 2] === '/') {
+            // `**/` matches zero or more directories
+            source += '(?:.*/)?';
+            i += 3;
+          } else {
+            source += '.*';
+            i += 2;
+          }
+          continue;
+        }
+        source += '[^/]*';
+        i += 2;
+        continue;
+      }
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i + 1);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        let body = glob.slice(i + 1, end).replace(/\\/g, '\\\\');
+        if (body.startsWith('!')) body = '^' + body.slice(1);
+        source += `[${body}]`;
+        i = end;
+      }
+    } else if (char === '{') {
+      braceDepth++;
+      source += '(?:';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--;
+      source += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else if (char === '\\' && i + 1 < glob.length) {
+      i++;
+      source += /[a-zA-Z0-9]/.test(glob[i]) ? glob[i] : `\\${glob[i]}`;
+    } else {
+      source += escapeRegExp(char);
+    }
+    i++;
+  }
+
+  // Unbalanced braces are treated literally
+  while (braceDepth-- > 0) source += ')';
+  return source;
+}
+
+export function globToRegExp(glob: string, flags = ''): RegExp {
+  return new RegExp(`^${globToRegExpSource(glob)}$`, flags);
+}
+
+/**
+ * Compiles a .gitignore-style pattern. Returns null for blank lines and comments.
+ */
+export function compilePattern(pattern: string, options: PatternOptions = {}): CompiledPattern | null {
+  let body = pattern.trim();
+  if (!body || body.startsWith('#')) return null;
+
+  const negated = body.startsWith('!');
+  if (negated) body = body.slice(1);
+
+  const directoryOnly = body.endsWith('/');
+  if (directoryOnly) body = body.replace(/\/+$/, '');
+
+  // A leading slash anchors to the base; any inner slash does too
+  const matchPath = body.includes('/');
+  const anchored = body.startsWith('/');
+  if (anchored) body = body.slice(1);
+  if (!body) return null;
+
+  const prefix = matchPath && options.matchSuffix && !anchored ? '(?:^|/)' : '^';
+  return {
+    source: pattern.trim(),
+    negated,
+    directoryOnly,
+    matchPath,
+    regex: new RegExp(`${prefix}${globToRegExpSource(body)}$`, options.caseInsensitive ? 'i' : ''),
+  };
+}
+
+export function compilePatterns(patterns: string[], options: PatternOptions = {}): CompiledPattern[] {
+  const compiled: CompiledPattern[] = [];
+  for (const pattern of patterns) {
+    const result = compilePattern(pattern, options);
+    if (result) compiled.push(result);
+  }
+  return compiled;
+}
+
+// ============================================================
+// Matching
+// ============================================================
+
+/**
+ * Tests a single pattern against a path relative to the pattern's base.
+ * Negation is not applied here; see findLastMatch.
+ */
+export function patternMatches(
+  pattern: CompiledPattern,
+  relativePath: string,
+  isDirectory: boolean
+): boolean {
+  if (pattern.directoryOnly && !isDirectory) return false;
+  const target = pattern.matchPath ? relativePath : relativePath.split('/').pop() || '';
+  return pattern.regex.test(target);
+}
+
+/**
+ * Returns the last pattern matching the path, or null. The path is excluded
+ * when the returned pattern is not negated.
+ */
+export function findLastMatch<T extends CompiledPattern>(
+  patterns: T[],
+  relativePath: string,
+  isDirectory: boolean
+): T | null {
+  for (let i = patterns.length - 1; i >= 0; i--) {
+    if (patternMatches(patterns[i], relativePath, isDirectory)) {
+      return patterns[i];
+    }
+  }
+  return null;
+}
+
+export function matchesGlob(relativePath: string, pattern: string): boolean {
+  const compiled = compilePattern(pattern);
+  return compiled ? patternMatches(compiled, relativePath, false) : false;
+}
@@ -0,0 +1,118 @@
+/**
+ * Reads .gitignore / .ignore files so scans can skip what a repository ignores.
+ * Pure Node.js - no Electron dependencies.
+ * Used by the shared scanner (scanner.ts).
+ */
+import fs from 'fs/promises';
+import path from 'path';
+import { CompiledPattern, compilePattern, patternMatches } from './glob';
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface IgnoreRule extends CompiledPattern {
+  /** Directory containing the ignore file; patterns are relative to it */
+  baseDir: string;
+  /** Absolute path of the ignore file */
+  file: string;
+  line: number;
+}
+
+export const IGNORE_FILE_NAMES = ['.gitignore', '.ignore'];
+
+// ============================================================
+// Parsing
+// ============================================================
+
+export function parseIgnoreFile(content: string, file: string): IgnoreRule[] {
+  const baseDir = path.dirname(file);
+  const rules: IgnoreRule[] = [];
+
+  content.split(/\r?\n/).forEach((line, i) => {
+    const compiled = compilePattern(line);
+    if (compiled) {
+      rules.push({ ...compiled, baseDir, file, line: i + 1 });
+    }
+  });
+
+  return rules;
+}
+
+/**
+ * Reads the ignore files directly inside a directory.
+ * Missing or unreadable files are skipped.
+ */
+export async function readIgnoreRules(dir: string): Promise<IgnoreRule[]> {
+  const rules: IgnoreRule[] = [];
+  for (const name of IGNORE_FILE_NAMES) {
+    const file = path.join(dir, name);
+    try {
+      const content = await fs.readFile(file, 'utf-8');
+      rules.push(...parseIgnoreFile(content, file));
+    } catch {
+      // No ignore file here
+    }
+  }
+  return rules;
+}
+
+async function isRepositoryRoot(dir: string): Promise<boolean> {
+  try {
+    await fs.access(path.join(dir, '.git'));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Reads the ignore rules that apply at a scan root: the root's own ignore files
+ * plus those of its ancestors up to the enclosing repository (the nearest
+ * directory containing `.git`). Roots outside a repository only use their own.
+ */
+export async function readRootIgnoreRules(rootPath: string): Promise<IgnoreRule[]> {
+  const dirs = [rootPath];
+  let dir = rootPath;
+
+  while (!(await isRepositoryRoot(dir))) {
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      // Reached the filesystem root without finding a repository
+      dirs.splice(0, dirs.length - 1);
+      break;
+    }
+    dir = parent;
+    dirs.unshift(dir);
+  }
+
+  const rules: IgnoreRule[] = [];
+  for (const d of dirs) {
+    rules.push(...(await readIgnoreRules(d)));
+  }
+  return rules;
+}
+
+// ============================================================
+// Matching
+// ============================================================
+
+/**
+ * Returns the rule that decides whether the path is ignored (the last matching
+ * rule, gitignore-style), or null when no rule matches.
+ */
+export function findIgnoreRule(
+  rules: IgnoreRule[],
+  fullPath: string,
+  isDirectory: boolean
+): IgnoreRule | null {
+  for (let i = rules.length - 1; i >= 0; i--) {
+    const rule = rules[i];
+    if (!fullPath.startsWith(rule.baseDir + '/')) continue;
+    const relativePath = fullPath.slice(rule.baseDir.length + 1);
+    if (patternMatches(rule, relativePath, isDirectory)) {
+      return rule;
+    }
+  }
+  return null;
+}
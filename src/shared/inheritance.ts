@@ -0,0 +1,195 @@
+/**
+ * Context file inheritance.
+ * Pure TypeScript - no Node or Electron dependencies, so it can be used by the
+ * main process, the CLI and the renderer alike.
+ *
+ * Tools combine their context files differently, so each tool profile picks
+ * an inheritance strategy:
+ * - claude: ~/.claude/CLAUDE.md, then memory files in each parent directory
+ *   (resolved on disk, with @imports, by claudeMemoryReader.ts)
+ * - parents: context files of the same tool in parent directories
+ * - nearest: only the nearest file applies (AGENTS.md)
+ * - copilot: .github/copilot-instructions.md for the whole repository, plus
+ *   .github/instructions/*.instructions.md for the paths in their `applyTo`
+ * - cursor: .cursorrules and .cursor/rules/*.mdc rules; `alwaysApply` rules
+ *   are always loaded, rules with globs or a description only when relevant
+ */
+import { ContextFile, InheritanceStrategy, ToolProfile } from './types';
+import { defaultToolProfiles, toolProfilePresets } from './defaultProfiles';
+import { parseFrontmatter } from './frontmatter';
+
+export const INHERITANCE_STRATEGIES: {
+  id: InheritanceStrategy;
+  name: string;
+  description: string;
+}[] = [
+  {
+    id: 'claude',
+    name: 'Claude Code memory',
+    description: '~/.claude/CLAUDE.md, memory files in parent directories and @imports',
+  },
+  {
+    id: 'parents',
+    name: 'Parent directories',
+    description: 'Files of this tool in parent directories',
+  },
+  {
+    id: 'nearest',
+    name: 'Nearest file',
+    description: 'Only the nearest file applies, like AGENTS.md',
+  },
+  {
+    id: 'copilot',
+    name: 'GitHub Copilot',
+    description: 'Repository-wide instructions plus path-scoped .instructions.md files',
+  },
+  {
+    id: 'cursor',
+    name: 'Cursor rules',
+    description: 'Always-applied rules plus rules scoped by globs or description',
+  },
+];
+
+export interface InheritedFiles {
+  inherited: ContextFile[]; // Always loaded with the file, in load order
+  conditional: ContextFile[]; // Only loaded for some paths or requests
+}
+
+/**
+ * A tool's inheritance strategy. Profiles saved before strategies existed
+ * get the strategy of the built-in profile or preset with the same id.
+ */
+export function getInheritanceStrategy(
+  profile: Pick<ToolProfile, 'id' | 'inheritance'>
+): InheritanceStrategy {
+  if (profile.inheritance) return profile.inheritance;
+  const builtin = [...defaultToolProfiles, ...toolProfilePresets].find((p) => p.id === profile.id);
+  return builtin?.inheritance || 'parents';
+}
+
+export function isInheritanceStrategy(value: unknown): value is InheritanceStrategy {
+  return INHERITANCE_STRATEGIES.some((strategy) => strategy.id === value);
+}
+
+const getDir = (filePath: string) => filePath.substring(0, filePath.lastIndexOf('/'));
+
+/**
+ * Gets only the parent context files (excluding the current file).
+ * This is useful for showing what context files are inherited.
+ */
+export function getParentContextFiles(
+  currentFile: ContextFile,
+  allFiles: ContextFile[]
+): ContextFile[] {
+  const parents: ContextFile[] = [];
+
+  // Get current file's directory
+  let dirPath = getDir(currentFile.path);
+
+  // Walk up looking for context files in each parent directory
+  while (dirPath && dirPath !== '/') {
+    // Move up one directory
+    dirPath = dirPath.substring(0, dirPath.lastIndexOf('/'));
+    if (!dirPath) break;
+
+    // Find context files in this directory that match the same tool
+    const parentFile = allFiles.find((f) => {
+      const fDir = getDir(f.path);
+      return fDir === dirPath && f.toolId === currentFile.toolId;
+    });
+
+    if (parentFile) {
+      parents.unshift(parentFile); // Add to beginning to maintain order
+    }
+  }
+
+  return parents;
+}
+
+// ============================================================
+// Rule-based tools (Copilot, Cursor)
+// ============================================================
+
+// The directory rules apply to: the one containing .github or .cursor
+function getRuleRoot(filePath: string, configDir: string): string {
+  const index = filePath.lastIndexOf(`/${configDir}/`);
+  return index >= 0 ? filePath.substring(0, index) : getDir(filePath);
+}
+
+const isSameOrInside = (dir: string, root: string) => dir === root || dir.startsWith(root + '/');
+
+function isAlwaysApplied(
+  file: ContextFile,
+  content: string,
+  strategy: 'copilot' | 'cursor'
+): boolean {
+  const frontmatter = parseFrontmatter(content);
+  if (strategy === 'copilot') {
+    if (file.name === 'copilot-instructions.md') return true;
+    const applyTo = String(frontmatter.applyTo || '').trim();
+    return applyTo === '**' || applyTo === '**/*';
+  }
+  if (file.name === '.cursorrules') return true;
+  return String(frontmatter.alwaysApply || '').trim() === 'true';
+}
+
+/**
+ * Rules of the same tool that share a project with the current file: always
+ * applied rules at its level or above are inherited, everything else
+ * (scoped rules, rules of subdirectories) is conditional.
+ */
+async function getRuleFiles(
+  currentFile: ContextFile,
+  allFiles: ContextFile[],
+  strategy: 'copilot' | 'cursor',
+  readFile: (filePath: string) => Promise<string>
+): Promise<InheritedFiles> {
+  const configDir = strategy === 'copilot' ? '.github' : '.cursor';
+  const root = getRuleRoot(currentFile.path, configDir);
+  const result: InheritedFiles = { inherited: [], conditional: [] };
+
+  const rules = allFiles
+    .filter((f) => f.toolId === currentFile.toolId && f.path !== currentFile.path)
+    .map((f) => ({ file: f, root: getRuleRoot(f.path, configDir) }))
+    .filter((rule) => isSameOrInside(root, rule.root) || isSameOrInside(rule.root, root))
+    // Outer rules first, then by path
+    .sort((a, b) => a.root.length - b.root.length || a.file.path.localeCompare(b.file.path));
+
+  for (const rule of rules) {
+    let content = '';
+    try {
+      content = await readFile(rule.file.path);
+    } catch {
+      // Unreadable rules only apply by name
+    }
+    const applies =
+      isSameOrInside(root, rule.root) && isAlwaysApplied(rule.file, content, strategy);
+    (applies ? result.inherited : result.conditional).push(rule.file);
+  }
+
+  return result;
+}
+
+/**
+ * The context files loaded together with a file, by strategy. For 'claude'
+ * this only covers scanned files; claudeMemoryReader.ts resolves the full
+ * memory on disk.
+ */
+export async function getInheritedFiles(
+  currentFile: ContextFile,
+  allFiles: ContextFile[],
+  strategy: InheritanceStrategy,
+  readFile: (filePath: string) => Promise<string>
+): Promise<InheritedFiles> {
+  switch (strategy) {
+    case 'nearest':
+      // Files further up are shadowed by this one
+      return { inherited: [], conditional: [] };
+    case 'copilot':
+    case 'cursor':
+      return getRuleFiles(currentFile, allFiles, strategy, readFile);
+    default:
+      // 'parents', and 'claude' as far as scanned files go
+      return { inherited: getParentContextFiles(currentFile, allFiles), conditional: [] };
+  }
+}
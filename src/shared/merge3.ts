@@ -0,0 +1,125 @@
+/**
+ * Line-based three-way merge, for upgrading files installed from a pack that
+ * were edited since: the version as installed is the base, the file on disk
+ * is "ours" and the new pack version "theirs".
+ * Pure TypeScript - no Node or Electron dependencies, so it can be used by the
+ * main process, the CLI and the renderer alike.
+ */
+
+export interface MergeResult {
+  content: string; // Conflicting lines are between <<<<<<< and >>>>>>> markers
+  conflicts: number;
+}
+
+export interface MergeLabels {
+  ours: string;
+  theirs: string;
+}
+
+/**
+ * The longest common subsequence of two lists of lines, as a map from each
+ * matched line of `a` to its line in `b`.
+ */
+function matchLines(a: string[], b: string[]): Map<number, number> {
+  const matches = new Map<number, number>();
+
+  // Lines the lists start and end with are matched without the table
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    matches.set(start, start);
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+    matches.set(endA, endB);
+  }
+
+  const rows = endA - start;
+  const cols = endB - start;
+  const lengths = new Int32Array((rows + 1) * (cols + 1));
+  const at = (i: number, j: number) => i * (cols + 1) + j;
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lengths[at(i, j)] =
+        a[start + i] === b[start + j]
+          ? lengths[at(i + 1, j + 1)] + 1
+          : Math.max(lengths[at(i + 1, j)], lengths[at(i, j + 1)]);
+    }
+  }
+
+  for (let i = 0, j = 0; i < rows && j < cols; ) {
+    if (a[start + i] === b[start + j]) {
+      matches.set(start + i, start + j);
+      i++;
+      j++;
+    } else if (lengths[at(i + 1, j)] >= lengths[at(i, j + 1)]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  return matches;
+}
+
+const sameLines = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((line, i) => line === b[i]);
+
+/**
+ * Merges the changes from base to ours and from base to theirs. Where both
+ * changed the same lines differently, both versions are kept between
+ * conflict markers.
+ */
+export function mergeThreeWay(
+  base: string,
+  ours: string,
+  theirs: string,
+  labels: MergeLabels = { ours: 'yours', theirs: 'theirs' }
+): MergeResult {
+  const baseLines = base.split('\n');
+  const ourLines = ours.split('\n');
+  const theirLines = theirs.split('\n');
+  const toOurs = matchLines(baseLines, ourLines);
+  const toTheirs = matchLines(baseLines, theirLines);
+
+  const output: string[] = [];
+  let conflicts = 0;
+  let [i, a, b] = [0, 0, 0];
+
+  // Base lines kept by both sides split the files into chunks that changed on
+  // one side, both, or neither
+  const mergeChunk = (baseEnd: number, oursEnd: number, theirsEnd: number) => {
+    const baseChunk = baseLines.slice(i, baseEnd);
+    const ourChunk = ourLines.slice(a, oursEnd);
+    const theirChunk = theirLines.slice(b, theirsEnd);
+    if (sameLines(ourChunk, baseChunk) || sameLines(ourChunk, theirChunk)) {
+      output.push(...theirChunk);
+    } else if (sameLines(theirChunk, baseChunk)) {
+      output.push(...ourChunk);
+    } else {
+      conflicts++;
+      output.push(
+        `<<<<<<< ${labels.ours}`,
+        ...ourChunk,
+        '=======',
+        ...theirChunk,
+        `>>>>>>> ${labels.theirs}`
+      );
+    }
+  };
+
+  for (let k = 0; k < baseLines.length; k++) {
+    const oursAt = toOurs.get(k);
+    const theirsAt = toTheirs.get(k);
+    if (oursAt === undefined || theirsAt === undefined) continue;
+    mergeChunk(k, oursAt, theirsAt);
+    output.push(baseLines[k]);
+    [i, a, b] = [k + 1, oursAt + 1, theirsAt + 1];
+  }
+  mergeChunk(baseLines.length, ourLines.length, theirLines.length);
+
+  return { content: output.join('\n'), conflicts };
+}
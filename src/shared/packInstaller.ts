@@ -0,0 +1,595 @@
+/**
+ * Installs starter packs into ~/.claude or a project, and records what each
+ * install wrote, so a pack can be uninstalled or upgraded later. Each tool's
+ * section goes where that tool reads it (see packTools.ts).
+ * Pure Node.js - no Electron dependencies.
+ * Used by both the main process (ipc.ts) and the CLI (cli/index.ts).
+ *
+ * The records are kept in installed.json in the pack library directory. Each
+ * file a pack wrote is recorded with its content as installed: files whose
+ * hash no longer matches were modified since, and the recorded content is the
+ * base of the three-way merge when upgrading to a newer version of the pack.
+ * A pack installed in several projects has a record for each.
+ */
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  InstalledFileStatus,
+  InstalledPackFile,
+  InstalledPackStatus,
+  PackInstallAction,
+  PackInstallRecord,
+  PackInstallResult,
+  PackUninstallResult,
+  PackUpgradeFile,
+  PackUpgradePlan,
+  PackFile,
+  SettingsMergeChange,
+  StarterPack,
+} from './types';
+import { hashContent } from './scanner';
+import { MergeLabels, mergeThreeWay } from './merge3';
+import { getPackFileKey, getPackFilePath, getPackSettingsPath } from './packTools';
+import {
+  getAppliedChanges,
+  getPendingSettingsChange,
+  getSettingsChangeStatus,
+  mergeSettings,
+  revertSettingsChange,
+} from './settingsMerge';
+
+const LEDGER_FILE = 'installed.json';
+
+export interface PackInstallOptions {
+  selectedFiles?: string[]; // Files to install, as getPackFileKey keys; all when empty
+  overwrite?: boolean; // Replace existing files, and settings values that conflict
+  dryRun?: boolean;
+  project?: string | null; // Install into this project instead of ~/.claude
+}
+
+interface PackTarget {
+  tool: string;
+  file: PackFile;
+  path: string | null; // Null when the tool doesn't read the file there
+  projectPath: string | null; // Where it goes in a project, relative to the root
+}
+
+// ============================================================
+// Install records
+// ============================================================
+
+export async function readPackInstalls(libraryDir: string): Promise<PackInstallRecord[]> {
+  try {
+    const records = JSON.parse(await fs.readFile(path.join(libraryDir, LEDGER_FILE), 'utf-8'));
+    return Array.isArray(records) ? records : [];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw new Error(`Can't read the installed packs: ${(error as Error).message}`);
+  }
+}
+
+async function writePackInstalls(libraryDir: string, records: PackInstallRecord[]) {
+  await fs.mkdir(libraryDir, { recursive: true });
+  await fs.writeFile(
+    path.join(libraryDir, LEDGER_FILE),
+    JSON.stringify(records, null, 2) + '\n',
+    'utf-8'
+  );
+}
+
+const isInstall = (record: PackInstallRecord, packId: string, project?: string | null) =>
+  record.packId === packId && (record.project || null) === (project || null);
+
+async function findPackInstall(libraryDir: string, packId: string, project?: string | null) {
+  return (await readPackInstalls(libraryDir)).find((r) => isInstall(r, packId, project));
+}
+
+// Replaces the pack's record for the project, or removes it when `record` is null
+async function savePackInstall(
+  libraryDir: string,
+  packId: string,
+  project: string | null | undefined,
+  record: PackInstallRecord | null
+) {
+  const records = (await readPackInstalls(libraryDir)).filter(
+    (r) => !isInstall(r, packId, project)
+  );
+  await writePackInstalls(libraryDir, record ? [...records, record] : records);
+}
+
+async function getPackInstall(
+  libraryDir: string,
+  packId: string,
+  project?: string | null
+): Promise<PackInstallRecord> {
+  const record = await findPackInstall(libraryDir, packId, project);
+  if (!record) {
+    throw new Error(`Pack "${packId}" is not installed${project ? ` in ${project}` : ''}`);
+  }
+  return record;
+}
+
+// The directory the pack's locations are relative to
+const getInstallBase = (project?: string | null) => project || os.homedir();
+
+// Where the pack's settings are merged: Claude Code's settings.json
+const getSettingsPath = (project?: string | null) =>
+  path.join(getInstallBase(project), getPackSettingsPath('claude', !project)!);
+
+function isWithin(dir: string, target: string): boolean {
+  const relative = path.relative(path.resolve(dir), path.resolve(target));
+  return (
+    relative !== '' &&
+    relative !== '..' &&
+    !relative.startsWith(`..${path.sep}`) &&
+    !path.isAbsolute(relative)
+  );
+}
+
+function getPackTargets(pack: StarterPack, project?: string | null): PackTarget[] {
+  const base = getInstallBase(project);
+  const target = (tool: string, kind: 'context' | 'config', file: PackFile): PackTarget => {
+    const relative = getPackFilePath(tool, kind, file.filename, !project);
+    const targetPath = relative === null ? null : path.join(base, relative);
+    // parseStarterPack rejects such names, but a pack may not have come through it
+    if (targetPath !== null && !isWithin(base, targetPath)) {
+      throw new Error(`Pack file "${file.filename}" would be written outside ${base}`);
+    }
+    return {
+      tool,
+      file,
+      path: targetPath,
+      projectPath: getPackFilePath(tool, kind, file.filename),
+    };
+  };
+  return Object.entries(pack.tools).flatMap(([tool, toolData]) => [
+    ...(toolData.contextFiles || []).map((file) => target(tool, 'context', file)),
+    ...(toolData.configFiles || []).map((file) => target(tool, 'config', file)),
+  ]);
+}
+
+// The targets the install writes, leaving out those the tool doesn't read there
+function getInstallTargets(pack: StarterPack, project?: string | null) {
+  return getPackTargets(pack, project).filter(
+    (t): t is PackTarget & { path: string } => t.path !== null
+  );
+}
+
+// ============================================================
+// Files and settings
+// ============================================================
+
+async function readIfExists(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+async function writeFile(filePath: string, content: string) {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, content, 'utf-8');
+}
+
+const recordFile = (filePath: string, content: string): InstalledPackFile => ({
+  path: filePath,
+  hash: hashContent(content),
+  content,
+});
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+async function readSettings(settingsPath: string): Promise<Record<string, unknown>> {
+  const raw = await readIfExists(settingsPath);
+  if (raw === null) return {};
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`Can't read ${settingsPath}: ${(error as Error).message}`);
+  }
+}
+
+const writeSettings = (settingsPath: string, settings: Record<string, unknown>) =>
+  writeFile(settingsPath, JSON.stringify(settings, null, 2) + '\n');
+
+// The settings of the tools whose settings are installed, as they are merged into settings.json
+function getPackSettings(pack: StarterPack): Record<string, unknown> {
+  return Object.entries(pack.tools).reduce<Record<string, unknown>>(
+    (settings, [toolId, toolData]) =>
+      toolData.settings && getPackSettingsPath(toolId)
+        ? mergeSettings(settings, toolData.settings, { overwrite: true }).settings
+        : settings,
+    {}
+  );
+}
+
+// ============================================================
+// Install, status and uninstall
+// ============================================================
+
+/**
+ * Writes each tool's files where it reads them, in ~/.claude and the home
+ * directory or in the project (see packTools.ts), and merges the settings into
+ * settings.json (see settingsMerge.ts). Files of tools that only read them in
+ * a project are left out of an install into ~/.claude. Files that already
+ * exist and settings values that conflict are kept unless `overwrite` is set. What was written is recorded
+ * under `packId` and the project, on top of what an earlier install there wrote.
+ */
+export async function installPack(
+  libraryDir: string,
+  packId: string,
+  pack: StarterPack,
+  options: PackInstallOptions = {}
+): Promise<PackInstallResult> {
+  const project = options.project || null;
+  const targets = getPackTargets(pack, project);
+  const settingsPath = getSettingsPath(project);
+  const actions: PackInstallAction[] = [];
+  const errors: string[] = [];
+  const written: InstalledPackFile[] = [];
+  // settings.json is read once, merged with each tool's settings and written once
+  let settings: Record<string, unknown> | null = null;
+  const settingsChanges: SettingsMergeChange[] = [];
+
+  for (const [toolId, toolData] of Object.entries(pack.tools)) {
+    for (const { file, path: targetPath, projectPath } of targets.filter(
+      (t) => t.tool === toolId
+    )) {
+      const selected = options.selectedFiles || [];
+      if (selected.length > 0 && !selected.includes(getPackFileKey(toolId, file.filename))) {
+        continue;
+      }
+      if (targetPath === null) {
+        actions.push(
+          !project && projectPath !== null
+            ? { tool: toolId, action: 'needs-project', file: file.filename, path: projectPath }
+            : { tool: toolId, action: 'unsupported', file: file.filename, path: file.filename }
+        );
+        continue;
+      }
+
+      try {
+        const exists = (await readIfExists(targetPath)) !== null;
+        if (exists && !options.overwrite) {
+          actions.push({ tool: toolId, action: 'skip', file: file.filename, path: targetPath });
+          continue;
+        }
+        actions.push({
+          tool: toolId,
+          action: exists ? 'overwrite' : 'install',
+          file: file.filename,
+          path: targetPath,
+        });
+        if (options.dryRun) continue;
+        await writeFile(targetPath, file.content);
+        written.push(recordFile(targetPath, file.content));
+      } catch (error) {
+        errors.push(
+          `${file.filename}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+
+    if (toolData.settings && getPackSettingsPath(toolId)) {
+      actions.push({
+        tool: toolId,
+        action: 'merge',
+        file: path.basename(settingsPath),
+        path: settingsPath,
+      });
+      try {
+        if (!settings) settings = await readSettings(settingsPath);
+        const merged = mergeSettings(settings, toolData.settings, {
+          overwrite: options.overwrite,
+        });
+        settings = merged.settings;
+        settingsChanges.push(...merged.changes);
+      } catch (error) {
+        errors.push(`settings: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+  }
+
+  let applied = getAppliedChanges(settingsChanges);
+  if (!options.dryRun && settings && applied.length > 0) {
+    try {
+      await writeSettings(settingsPath, settings);
+    } catch (error) {
+      errors.push(`settings: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      applied = [];
+    }
+  }
+
+  if (!options.dryRun && (written.length > 0 || applied.length > 0)) {
+    const previous = await findPackInstall(libraryDir, packId, project);
+    const writtenPaths = new Set(written.map((f) => f.path));
+    const allSettings = [
+      ...(previous?.settings || []).filter((c) => !applied.some((a) => a.key === c.key)),
+      ...applied,
+    ];
+    await savePackInstall(libraryDir, packId, project, {
+      packId,
+      name: pack.name,
+      version: pack.version,
+      installedAt: Date.now(),
+      ...(project && { project }),
+      files: [...(previous?.files || []).filter((f) => !writtenPaths.has(f.path)), ...written],
+      ...(allSettings.length > 0 && { settingsPath, settings: allSettings }),
+    });
+  }
+
+  return { actions, settings: settingsChanges, errors };
+}
+
+/** Which of the files and settings an installed pack wrote were changed since */
+export async function getInstalledPackStatus(
+  record: PackInstallRecord
+): Promise<InstalledPackStatus> {
+  const files: InstalledPackStatus['files'] = [];
+  for (const file of record.files) {
+    const current = await readIfExists(file.path);
+    const status: InstalledFileStatus =
+      current === null ? 'missing' : hashContent(current) === file.hash ? 'unchanged' : 'modified';
+    files.push({ path: file.path, status });
+  }
+
+  const settings: InstalledPackStatus['settings'] = [];
+  if (record.settingsPath && record.settings) {
+    let current: Record<string, unknown> | null = null;
+    try {
+      current = await readSettings(record.settingsPath);
+    } catch {
+      // Unreadable settings count as modified
+    }
+    for (const change of record.settings) {
+      const status = current ? getSettingsChangeStatus(current, change) : 'modified';
+      settings.push({ key: change.key, status });
+    }
+  }
+
+  return { install: record, files, settings };
+}
+
+export async function listInstalledPacks(libraryDir: string): Promise<InstalledPackStatus[]> {
+  const statuses: InstalledPackStatus[] = [];
+  for (const record of await readPackInstalls(libraryDir)) {
+    statuses.push(await getInstalledPackStatus(record));
+  }
+  return statuses;
+}
+
+/**
+ * Deletes the files an installed pack wrote and removes the settings it set.
+ * Files and settings modified since install are kept unless `force` is set.
+ * Either way the pack is no longer recorded as installed.
+ */
+export async function uninstallPack(
+  libraryDir: string,
+  packId: string,
+  options: { force?: boolean; dryRun?: boolean; project?: string | null } = {}
+): Promise<PackUninstallResult> {
+  const record = await getPackInstall(libraryDir, packId, options.project);
+  const status = await getInstalledPackStatus(record);
+  const result: PackUninstallResult = { removed: [], kept: [] };
+
+  for (const file of status.files) {
+    if (file.status === 'missing') continue;
+    if (file.status === 'modified' && !options.force) {
+      result.kept.push(file.path);
+      continue;
+    }
+    result.removed.push(file.path);
+    if (!options.dryRun) await fs.rm(file.path, { force: true });
+  }
+
+  if (record.settingsPath && record.settings) {
+    const label = (key: string) => `${record.settingsPath} (${key})`;
+    const current = await readSettings(record.settingsPath);
+    let changed = false;
+    // Latest first, so a replaced value is put back as it was before the install
+    for (const change of [...record.settings].reverse()) {
+      const settingStatus = getSettingsChangeStatus(current, change);
+      if (settingStatus === 'missing') continue;
+      if (settingStatus === 'modified' && !options.force) {
+        result.kept.push(label(change.key));
+        continue;
+      }
+      result.removed.push(label(change.key));
+      revertSettingsChange(current, change);
+      changed = true;
+    }
+    if (changed && !options.dryRun) await writeSettings(record.settingsPath, current);
+  }
+
+  if (!options.dryRun) await savePackInstall(libraryDir, packId, options.project, null);
+  return result;
+}
+
+// ============================================================
+// Upgrade
+// ============================================================
+
+function planFile(
+  filePath: string,
+  base: string | null,
+  current: string | null,
+  theirs: string,
+  labels: MergeLabels
+): PackUpgradeFile {
+  const plan = (action: PackUpgradeFile['action'], content: string | null): PackUpgradeFile => ({
+    path: filePath,
+    action,
+    content,
+    base,
+    current,
+  });
+
+  // Deleted since install: stays deleted
+  if (current === null) return base === null ? plan('add', theirs) : plan('keep', null);
+  if (current === theirs) return plan('unchanged', null);
+  // Not written by the pack: left alone, as on install
+  if (base === null) return plan('keep', null);
+  if (current === base) return plan('update', theirs);
+  if (theirs === base) return plan('keep', null);
+
+  const merged = mergeThreeWay(base, current, theirs, labels);
+  return merged.conflicts > 0
+    ? { ...plan('conflict', merged.content), conflicts: merged.conflicts }
+    : plan('merge', merged.content);
+}
+
+interface SettingsPlan {
+  file: PackUpgradeFile | null;
+  changes: SettingsMergeChange[]; // Against settings.json as it is, for the preview
+  applied: SettingsMergeChange[]; // What the new version sets, recorded for uninstall
+}
+
+// settings.json with what the installed version's settings added taken out,
+// except where it was changed since, and the new version's settings merged in
+async function planSettings(
+  record: PackInstallRecord,
+  incoming: Record<string, unknown>,
+  settingsPath: string
+): Promise<SettingsPlan> {
+  const previous = record.settings || [];
+  if (previous.length === 0 && Object.keys(incoming).length === 0) {
+    return { file: null, changes: [], applied: [] };
+  }
+
+  const raw = await readIfExists(settingsPath);
+  const current = await readSettings(settingsPath);
+  const reverted: Record<string, unknown> = JSON.parse(JSON.stringify(current));
+  let keptChanges = false;
+  for (const change of [...previous].reverse()) {
+    const status = getSettingsChangeStatus(reverted, change);
+    if (status === 'unchanged') revertSettingsChange(reverted, change);
+    else if (status === 'modified') keptChanges = true;
+  }
+  const merged = mergeSettings(reverted, incoming);
+  const { settings } = merged;
+  keptChanges = keptChanges || merged.changes.some((c) => c.action === 'conflict');
+  const applied = getAppliedChanges(merged.changes);
+  // Only what settings.json doesn't have yet, not what the installed version set
+  const changes = merged.changes.map((change) => getPendingSettingsChange(current, change));
+
+  const file = (action: PackUpgradeFile['action'], content: string | null): PackUpgradeFile => ({
+    path: settingsPath,
+    action,
+    content,
+    base: null,
+    current: raw,
+  });
+  if (raw !== null && sameValue(settings, current)) {
+    return { file: file(keptChanges ? 'keep' : 'unchanged', null), changes, applied };
+  }
+  const content = JSON.stringify(settings, null, 2) + '\n';
+  const action = keptChanges ? 'merge' : raw === null ? 'add' : 'update';
+  return { file: file(action, content), changes, applied };
+}
+
+/**
+ * What upgrading an installed pack to `pack` would do with each file: files
+ * unchanged since install are replaced, files changed on one side keep that
+ * side's version, and files changed on both are merged line by line.
+ */
+export async function planPackUpgrade(
+  libraryDir: string,
+  packId: string,
+  pack: StarterPack,
+  project: string | null = null
+): Promise<PackUpgradePlan> {
+  return (await planUpgrade(libraryDir, packId, pack, project)).plan;
+}
+
+async function planUpgrade(
+  libraryDir: string,
+  packId: string,
+  pack: StarterPack,
+  project: string | null
+): Promise<{ plan: PackUpgradePlan; appliedSettings: SettingsMergeChange[] }> {
+  const record = await getPackInstall(libraryDir, packId, project);
+  const recorded = new Map(record.files.map((f) => [f.path, f]));
+  const labels = { ours: 'your changes', theirs: `${pack.name} v${pack.version}` };
+  const files: PackUpgradeFile[] = [];
+
+  for (const { file, path: targetPath } of getInstallTargets(pack, project)) {
+    const base = recorded.get(targetPath)?.content ?? null;
+    files.push(planFile(targetPath, base, await readIfExists(targetPath), file.content, labels));
+  }
+
+  // Files the new version no longer has
+  const packPaths = new Set(files.map((f) => f.path));
+  for (const file of record.files) {
+    if (packPaths.has(file.path)) continue;
+    const current = await readIfExists(file.path);
+    const action = current === null ? 'unchanged' : current === file.content ? 'remove' : 'keep';
+    files.push({ path: file.path, action, content: null, base: file.content, current });
+  }
+
+  const settingsPath = record.settingsPath || getSettingsPath(project);
+  const settings = await planSettings(record, getPackSettings(pack), settingsPath);
+  if (settings.file) files.push(settings.file);
+
+  const plan: PackUpgradePlan = {
+    packId,
+    name: pack.name,
+    from: record.version,
+    to: pack.version,
+    files,
+    settings: settings.changes,
+    conflicts: files.reduce((sum, f) => sum + (f.conflicts || 0), 0),
+  };
+  return { plan, appliedSettings: settings.applied };
+}
+
+/**
+ * Upgrades an installed pack to `pack` as planned by planPackUpgrade. When a
+ * merge has conflicts nothing is written unless `force` is set, in which case
+ * the conflict markers are written into the files.
+ */
+export async function upgradePack(
+  libraryDir: string,
+  packId: string,
+  pack: StarterPack,
+  options: { force?: boolean; dryRun?: boolean; project?: string | null } = {}
+): Promise<PackUpgradePlan> {
+  const project = options.project || null;
+  const { plan, appliedSettings: settings } = await planUpgrade(libraryDir, packId, pack, project);
+  if (options.dryRun || (plan.conflicts > 0 && !options.force)) return plan;
+
+  const record = await getPackInstall(libraryDir, packId, project);
+  const settingsPath = record.settingsPath || getSettingsPath(project);
+  for (const file of plan.files) {
+    if (file.action === 'remove') await fs.rm(file.path, { force: true });
+    else if (file.content !== null) await writeFile(file.path, file.content);
+  }
+
+  // The new version becomes the base of the next upgrade, for the files
+  // the pack wrote and still has
+  const planned = new Map(plan.files.map((f) => [f.path, f]));
+  const files: InstalledPackFile[] = [];
+  for (const { file, path: targetPath } of getInstallTargets(pack, project)) {
+    const step = planned.get(targetPath);
+    if (!step) continue;
+    // Not the files deleted since install or that the pack didn't write
+    const owned =
+      step.current === null
+        ? step.action === 'add'
+        : step.base !== null || step.current === file.content;
+    if (owned) files.push(recordFile(targetPath, file.content));
+  }
+
+  await savePackInstall(libraryDir, packId, project, {
+    packId,
+    name: pack.name,
+    version: pack.version,
+    installedAt: Date.now(),
+    ...(project && { project }),
+    files,
+    ...(settings.length > 0 && { settingsPath, settings }),
+  });
+  return plan;
+}
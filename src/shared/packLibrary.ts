@@ -0,0 +1,173 @@
+/**
+ * The user's pack library: imported .tcpack files, kept so they can be
+ * installed by id after a restart.
+ * Pure Node.js - no Electron dependencies.
+ * Used by both the main process (ipc.ts) and the CLI (cli/index.ts).
+ *
+ * The library is a directory in the app's userData directory. Each pack is
+ * stored there as <id>.tcpack, and library.json records where it was
+ * imported from and when.
+ */
+import fs from 'fs/promises';
+import path from 'path';
+import { StarterPack } from './types';
+import { StarterPackMeta, builtinPacks } from './builtinPacks';
+import { parseStarterPack } from './packUtils';
+
+export const PACK_LIBRARY_DIR = 'packs';
+const INDEX_FILE = 'library.json';
+
+interface LibraryEntry {
+  id: string;
+  source: string | null;
+  importedAt: number;
+}
+
+async function readIndex(libraryDir: string): Promise<LibraryEntry[]> {
+  try {
+    const entries = JSON.parse(await fs.readFile(path.join(libraryDir, INDEX_FILE), 'utf-8'));
+    return Array.isArray(entries) ? entries : [];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw new Error(`Can't read the pack library: ${(error as Error).message}`);
+  }
+}
+
+async function writeIndex(libraryDir: string, entries: LibraryEntry[]): Promise<void> {
+  await fs.mkdir(libraryDir, { recursive: true });
+  await fs.writeFile(
+    path.join(libraryDir, INDEX_FILE),
+    JSON.stringify(entries, null, 2) + '\n',
+    'utf-8'
+  );
+}
+
+const getPackPath = (libraryDir: string, id: string) => path.join(libraryDir, `${id}.tcpack`);
+
+async function writePack(libraryDir: string, id: string, pack: StarterPack): Promise<void> {
+  await fs.mkdir(libraryDir, { recursive: true });
+  await fs.writeFile(getPackPath(libraryDir, id), JSON.stringify(pack, null, 2) + '\n', 'utf-8');
+}
+
+async function getEntry(libraryDir: string, id: string) {
+  const entries = await readIndex(libraryDir);
+  const entry = entries.find((e) => e.id === id);
+  if (!entry) throw new Error(`Pack "${id}" is not in the library`);
+  return { entries, entry };
+}
+
+const toMeta = (entry: LibraryEntry, pack: StarterPack): StarterPackMeta => ({
+  id: entry.id,
+  builtin: false,
+  pack,
+  source: entry.source,
+  importedAt: entry.importedAt,
+});
+
+/** Reads and validates a .tcpack file */
+export async function readPackFile(filePath: string): Promise<StarterPack> {
+  return parseStarterPack(await fs.readFile(filePath, 'utf-8'));
+}
+
+/** A pack's name as an id: lowercase, words joined by dashes */
+export function getPackSlug(name: string): string {
+  return (
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'pack'
+  );
+}
+
+// An id from the pack's name, unlike the built-in packs' and those in the library
+function createPackId(name: string, entries: LibraryEntry[]): string {
+  const base = getPackSlug(name);
+  const taken = new Set([...builtinPacks.map((p) => p.id), ...entries.map((e) => e.id)]);
+  let id = base;
+  for (let n = 2; taken.has(id); n++) id = `${base}-${n}`;
+  return id;
+}
+
+/** The packs in the library, in the order they were added. Unreadable packs are left out. */
+export async function listLibraryPacks(libraryDir: string): Promise<StarterPackMeta[]> {
+  const packs: StarterPackMeta[] = [];
+  for (const entry of await readIndex(libraryDir)) {
+    try {
+      packs.push(toMeta(entry, await readPackFile(getPackPath(libraryDir, entry.id))));
+    } catch (error) {
+      console.warn(`Skipping pack "${entry.id}": ${(error as Error).message}`);
+    }
+  }
+  return packs;
+}
+
+/** Copies a .tcpack file into the library */
+export async function addLibraryPack(
+  libraryDir: string,
+  sourcePath: string
+): Promise<StarterPackMeta> {
+  const pack = await readPackFile(sourcePath);
+  const entries = await readIndex(libraryDir);
+  const entry: LibraryEntry = {
+    id: createPackId(pack.name, entries),
+    source: path.resolve(sourcePath),
+    importedAt: Date.now(),
+  };
+  await writePack(libraryDir, entry.id, pack);
+  await writeIndex(libraryDir, [...entries, entry]);
+  return toMeta(entry, pack);
+}
+
+export async function removeLibraryPack(libraryDir: string, id: string): Promise<void> {
+  const { entries } = await getEntry(libraryDir, id);
+  await fs.rm(getPackPath(libraryDir, id), { force: true });
+  await writeIndex(
+    libraryDir,
+    entries.filter((e) => e.id !== id)
+  );
+}
+
+/** Changes a library pack's display name; its id stays the same */
+export async function renameLibraryPack(
+  libraryDir: string,
+  id: string,
+  name: string
+): Promise<StarterPackMeta> {
+  if (!name.trim()) throw new Error('A pack needs a name');
+  const { entry } = await getEntry(libraryDir, id);
+  const pack = { ...(await readPackFile(getPackPath(libraryDir, id))), name: name.trim() };
+  await writePack(libraryDir, id, pack);
+  return toMeta(entry, pack);
+}
+
+/**
+ * Replaces a library pack with a newer copy of its file, from where it was
+ * imported unless another file is given. The pack keeps its id.
+ */
+export async function reimportLibraryPack(
+  libraryDir: string,
+  id: string,
+  sourcePath?: string
+): Promise<StarterPackMeta> {
+  const { entries, entry } = await getEntry(libraryDir, id);
+  const source = sourcePath ? path.resolve(sourcePath) : entry.source;
+  if (!source) throw new Error(`Pack "${id}" has no file to re-import from`);
+
+  const pack = await readPackFile(source);
+  const updated: LibraryEntry = { ...entry, source, importedAt: Date.now() };
+  await writePack(libraryDir, id, pack);
+  await writeIndex(
+    libraryDir,
+    entries.map((e) => (e.id === id ? updated : e))
+  );
+  return toMeta(updated, pack);
+}
+
+/** A built-in or library pack by id, or null */
+export async function findPack(libraryDir: string, id: string): Promise<StarterPackMeta | null> {
+  return (
+    builtinPacks.find((p) => p.id === id) ||
+    (await listLibraryPacks(libraryDir)).find((p) => p.id === id) ||
+    null
+  );
+}
@@ -0,0 +1,162 @@
+/**
+ * Where each tool's section of a starter pack is installed.
+ * Pure TypeScript - no Node or Electron dependencies, so it can be used by the
+ * main process, the CLI and the renderer alike.
+ *
+ * A section's config files are named relative to the tool's directory
+ * (`commands/review.md` goes into .claude, `mcp.json` into .cursor), and its
+ * context files by their own name, which picks where they go:
+ * - claude: CLAUDE.md in the project root, or ~/.claude
+ * - cursor: .cursorrules in the project root, *.mdc in .cursor/rules
+ * - copilot: copilot-instructions.md in .github, *.instructions.md in
+ *   .github/instructions
+ * - windsurf: .windsurfrules in the project root, *.md in .windsurf/rules, or
+ *   global_rules.md in ~/.codeium/windsurf/memories
+ * - openai: AGENTS.md in the project root, or ~/.codex
+ * Other tools with a preset profile get the context files their patterns name,
+ * in a project, and no config files; files of tools without one aren't
+ * installed. Some tools only read their files in a project: installed into
+ * ~/.claude, those files are left out. Only the Claude section's settings are
+ * merged, into its settings.json. Exporting reads the same locations back (see
+ * configReader.ts), so an exported pack installs where it came from.
+ */
+import { defaultToolProfiles, toolProfilePresets } from './defaultProfiles';
+
+/** A directory a tool reads context files from, and the names it reads there */
+export interface PackContextLocation {
+  dir: string; // Relative to the project root or the home directory; '' for the root
+  names?: string[];
+  suffix?: string;
+}
+
+export interface PackToolScope {
+  configDir: string | null; // Null when the tool has no config files here
+  context: PackContextLocation[];
+}
+
+export interface PackToolLocations {
+  project: PackToolScope;
+  user: PackToolScope; // Relative to the home directory
+  settingsFile?: string; // In the config dir, for the tools whose settings are merged
+}
+
+export const PACK_TOOL_LOCATIONS: Record<string, PackToolLocations> = {
+  claude: {
+    project: { configDir: '.claude', context: [{ dir: '', names: ['CLAUDE.md'] }] },
+    user: { configDir: '.claude', context: [{ dir: '.claude', names: ['CLAUDE.md'] }] },
+    settingsFile: 'settings.json',
+  },
+  cursor: {
+    project: {
+      configDir: '.cursor',
+      context: [
+        { dir: '', names: ['.cursorrules'] },
+        { dir: '.cursor/rules', suffix: '.mdc' },
+      ],
+    },
+    // Cursor's user rules are kept in its settings, not in files
+    user: { configDir: '.cursor', context: [] },
+  },
+  copilot: {
+    project: {
+      configDir: '.github',
+      context: [
+        { dir: '.github', names: ['copilot-instructions.md'] },
+        { dir: '.github/instructions', suffix: '.instructions.md' },
+      ],
+    },
+    user: { configDir: null, context: [] },
+  },
+  windsurf: {
+    project: {
+      configDir: '.windsurf',
+      context: [
+        { dir: '', names: ['.windsurfrules'] },
+        { dir: '.windsurf/rules', suffix: '.md' },
+      ],
+    },
+    user: {
+      configDir: '.codeium/windsurf',
+      context: [{ dir: '.codeium/windsurf/memories', names: ['global_rules.md'] }],
+    },
+  },
+  openai: {
+    project: { configDir: '.codex', context: [{ dir: '', names: ['AGENTS.md'] }] },
+    user: { configDir: '.codex', context: [{ dir: '.codex', names: ['AGENTS.md'] }] },
+  },
+};
+
+const findToolProfile = (toolId: string) =>
+  [...defaultToolProfiles, ...toolProfilePresets].find((p) => p.id === toolId);
+
+// A plain `dir/NAME` or `dir/*.ext` profile pattern as a context location
+function toContextLocation(pattern: string): PackContextLocation | null {
+  if (pattern.startsWith('regex:') || pattern.startsWith('!')) return null;
+  const slash = pattern.lastIndexOf('/');
+  const dir = slash < 0 ? '' : pattern.substring(0, slash);
+  const name = pattern.substring(slash + 1);
+  const suffix = name.startsWith('*') ? name.substring(1) : null;
+  if (/[*?[\]{}]/.test(dir + (suffix ?? name))) return null;
+  return suffix !== null ? { dir, suffix } : { dir, names: [name] };
+}
+
+// Other tools' context files go where their preset's patterns look for them
+function getOtherToolLocations(toolId: string): PackToolLocations {
+  const patterns = findToolProfile(toolId)?.patterns || [];
+  return {
+    project: {
+      configDir: null,
+      context: patterns.map(toContextLocation).filter((l): l is PackContextLocation => l !== null),
+    },
+    user: { configDir: null, context: [] },
+  };
+}
+
+export function getPackToolLocations(toolId: string): PackToolLocations {
+  return PACK_TOOL_LOCATIONS[toolId] || getOtherToolLocations(toolId);
+}
+
+/** The tool's display name, from its built-in profile or preset */
+export function getPackToolName(toolId: string): string {
+  return findToolProfile(toolId)?.name || toolId;
+}
+
+/** Identifies a file of a pack: two tools' sections can have files of the same name */
+export const getPackFileKey = (toolId: string, filename: string) => `${toolId}:${filename}`;
+
+const joinPath = (dir: string, name: string) => (dir ? `${dir}/${name}` : name);
+
+export const matchesContextLocation = (location: PackContextLocation, name: string) =>
+  location.names
+    ? location.names.includes(name)
+    : !!location.suffix && name.endsWith(location.suffix);
+
+/**
+ * Where a file of the tool's section is installed, relative to the project
+ * root (or the home directory for `user`). Null when the tool doesn't read it
+ * there.
+ */
+export function getPackFilePath(
+  toolId: string,
+  kind: 'context' | 'config',
+  filename: string,
+  user = false
+): string | null {
+  const scope = getPackToolLocations(toolId)[user ? 'user' : 'project'];
+  if (kind === 'config') {
+    return scope.configDir === null ? null : joinPath(scope.configDir, filename);
+  }
+
+  const name = filename.substring(filename.lastIndexOf('/') + 1);
+  const location = scope.context.find((l) => matchesContextLocation(l, name));
+  return location ? joinPath(location.dir, name) : null;
+}
+
+/** Where the tool's settings are merged, or null when they aren't installed */
+export function getPackSettingsPath(toolId: string, user = false): string | null {
+  const locations = getPackToolLocations(toolId);
+  const configDir = locations[user ? 'user' : 'project'].configDir;
+  return locations.settingsFile && configDir !== null
+    ? joinPath(configDir, locations.settingsFile)
+    : null;
+}
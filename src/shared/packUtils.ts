@@ -1,4 +1,5 @@
 import { StarterPack } from './types';
+import { getPackFilePath } from './packTools';
 
 export interface ParsedCommand {
   slug: string;
@@ -21,10 +22,25 @@ export interface ParsedSettings {
   hookCommands: string[];
 }
 
+export interface ParsedPackFile {
+  filename: string;
+  kind: 'context' | 'config';
+  path: string | null; // Where it goes in a project, relative to the root; null when the tool doesn't read it
+  userPath: string | null; // Where it goes for all projects, relative to home; null when it needs a project
+  content: string;
+}
+
+// A tool's section of the pack: its files other than commands and agents
+export interface ParsedToolSection {
+  toolId: string;
+  files: ParsedPackFile[];
+}
+
 export interface ParsedPackContents {
   commands: ParsedCommand[];
   agents: ParsedAgent[];
   settings: ParsedSettings | null;
+  tools: ParsedToolSection[];
   totalFiles: number;
 }
 
@@ -124,28 +140,99 @@ function parseSettings(settings: Record<string, unknown>): ParsedSettings {
   return result;
 }
 
+/** Reads a .tcpack file's content, throwing when it isn't a pack */
+export function parseStarterPack(content: string): StarterPack {
+  let pack: Partial<StarterPack> | null;
+  try {
+    pack = JSON.parse(content);
+  } catch {
+    throw new Error('Invalid .tcpack file format: not JSON');
+  }
+  if (!pack || typeof pack !== 'object' || !pack.tcpack || !pack.name || !pack.tools) {
+    throw new Error('Invalid .tcpack file format');
+  }
+  if (!isObject(pack.tools)) {
+    throw new Error('Invalid .tcpack file format: "tools" is not an object');
+  }
+  for (const [toolId, toolData] of Object.entries(pack.tools as Record<string, unknown>)) {
+    if (!isObject(toolData)) {
+      throw new Error(`Invalid .tcpack file format: tool "${toolId}" is not an object`);
+    }
+    for (const list of [toolData.contextFiles, toolData.configFiles]) {
+      if (list === undefined) continue;
+      if (!Array.isArray(list)) {
+        throw new Error(`Invalid .tcpack file format: the files of "${toolId}" are not a list`);
+      }
+      for (const file of list) {
+        const filename = isObject(file) ? file.filename : undefined;
+        if (typeof filename !== 'string' || !filename) {
+          throw new Error(`Invalid .tcpack file format: a file of "${toolId}" has no name`);
+        }
+        if (!isSafeFilename(filename)) {
+          throw new Error(`Invalid .tcpack file format: unsafe file name "${filename}"`);
+        }
+        if (typeof file.content !== 'string') {
+          throw new Error(`Invalid .tcpack file format: "${filename}" in "${toolId}" has no content`);
+        }
+      }
+    }
+    if (toolData.settings !== undefined && !isObject(toolData.settings)) {
+      throw new Error(`Invalid .tcpack file format: the settings of "${toolId}" are not an object`);
+    }
+  }
+  return pack as StarterPack;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// File names are relative to where the tool's files go, so they can't be
+// absolute or step out of it with `..`
+function isSafeFilename(filename: string): boolean {
+  if (/^[\\/]/.test(filename) || /^[a-zA-Z]:/.test(filename)) return false;
+  return filename.split(/[\\/]/).every((segment) => segment !== '..');
+}
+
 export function parsePackContents(pack: StarterPack): ParsedPackContents {
   const commands: ParsedCommand[] = [];
   const agents: ParsedAgent[] = [];
   let settings: ParsedSettings | null = null;
+  const tools: ParsedToolSection[] = [];
   let totalFiles = 0;
 
-  for (const toolData of Object.values(pack.tools)) {
+  for (const [toolId, toolData] of Object.entries(pack.tools)) {
     const files = toolData.configFiles || [];
-    totalFiles += files.length;
-
+    const contextFiles = toolData.contextFiles || [];
+    totalFiles += files.length + contextFiles.length;
+    const section: ParsedToolSection = { toolId, files: [] };
+
+    const addFile = (kind: ParsedPackFile['kind'], filename: string, content: string) =>
+      section.files.push({
+        filename,
+        kind,
+        path: getPackFilePath(toolId, kind, filename),
+        userPath: getPackFilePath(toolId, kind, filename, true),
+        content,
+      });
+
+    for (const file of contextFiles) {
+      addFile('context', file.filename, file.content);
+    }
     for (const file of files) {
       if (file.filename.startsWith('commands/')) {
         commands.push(parseCommand(file.filename, file.content));
       } else if (file.filename.includes('agents/')) {
         agents.push(parseAgent(file.content));
+      } else {
+        addFile('config', file.filename, file.content);
       }
     }
+    if (section.files.length > 0) tools.push(section);
 
     if (toolData.settings) {
       settings = parseSettings(toolData.settings);
     }
   }
 
-  return { commands, agents, settings, totalFiles };
+  return { commands, agents, settings, tools, totalFiles };
 }
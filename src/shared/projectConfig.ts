@@ -0,0 +1,301 @@
+/**
+ * Project configuration (.tokencentric.json).
+ * Pure TypeScript - no Node or Electron dependencies, so it can be used by the
+ * main process, the CLI and the renderer alike. Reading the file from disk is
+ * in projectConfigReader.ts.
+ *
+ * The file is checked into a repository so a team shares the same settings.
+ * It applies to every file in its directory and below; the nearest one wins.
+ * Budgets, exclusions and tool profiles are applied on top of the user's own
+ * settings; required sections and sync only exist at the project level.
+ */
+import {
+  ProjectConfig,
+  ProjectConfigFile,
+  ProjectToolProfile,
+  RequiredSections,
+  SyncConfig,
+  ToolProfile,
+} from './types';
+import { parseBudgetPolicy } from './budgets';
+import { INHERITANCE_STRATEGIES, isInheritanceStrategy } from './inheritance';
+import { CONTEXT_FORMATS, isContextFormat } from './contextFormats';
+
+export const PROJECT_CONFIG_FILE = '.tokencentric.json';
+
+// ============================================================
+// Parsing
+// ============================================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseStringList(value: unknown, where: string, errors: string[]): string[] | undefined {
+  if (!Array.isArray(value)) {
+    errors.push(`${where} must be an array of strings`);
+    return undefined;
+  }
+  const strings = value.filter((item): item is string => typeof item === 'string');
+  if (strings.length < value.length) {
+    errors.push(`${where} must only contain strings`);
+  }
+  return strings;
+}
+
+const PROFILE_STRING_FIELDS = ['name', 'tokenizer', 'icon', 'color', 'docsUrl'] as const;
+
+function parseToolProfile(
+  value: unknown,
+  where: string,
+  errors: string[]
+): ProjectToolProfile | undefined {
+  if (!isRecord(value)) {
+    errors.push(`${where} must be an object`);
+    return undefined;
+  }
+  if (typeof value.id !== 'string' || !value.id.trim()) {
+    errors.push(`${where}.id must be a non-empty string`);
+    return undefined;
+  }
+
+  const profile: ProjectToolProfile = { id: value.id };
+  for (const key of PROFILE_STRING_FIELDS) {
+    if (value[key] === undefined) continue;
+    if (typeof value[key] !== 'string') {
+      errors.push(`${where}.${key} must be a string`);
+      continue;
+    }
+    // The tokenizer id is checked when counting; unknown ids fall back to an estimate
+    Object.assign(profile, { [key]: value[key] });
+  }
+  if (value.patterns !== undefined) {
+    profile.patterns = parseStringList(value.patterns, `${where}.patterns`, errors);
+  }
+  if (value.enabled !== undefined) {
+    if (typeof value.enabled !== 'boolean') {
+      errors.push(`${where}.enabled must be true or false`);
+    } else {
+      profile.enabled = value.enabled;
+    }
+  }
+  if (value.inheritance !== undefined) {
+    if (!isInheritanceStrategy(value.inheritance)) {
+      const ids = INHERITANCE_STRATEGIES.map((strategy) => `"${strategy.id}"`).join(', ');
+      errors.push(`${where}.inheritance must be one of ${ids}`);
+    } else {
+      profile.inheritance = value.inheritance;
+    }
+  }
+  return profile;
+}
+
+function parseRequiredSections(
+  value: unknown,
+  where: string,
+  errors: string[]
+): RequiredSections | undefined {
+  if (!isRecord(value)) {
+    errors.push(`${where} must be an object with "default" and/or "tools"`);
+    return undefined;
+  }
+
+  const sections: RequiredSections = {};
+  if (value.default !== undefined) {
+    sections.default = parseStringList(value.default, `${where}.default`, errors);
+  }
+  if (value.tools !== undefined) {
+    if (!isRecord(value.tools)) {
+      errors.push(`${where}.tools must be an object keyed by tool id`);
+    } else {
+      sections.tools = {};
+      for (const [toolId, list] of Object.entries(value.tools)) {
+        const parsed = parseStringList(list, `${where}.tools.${toolId}`, errors);
+        if (parsed) sections.tools[toolId] = parsed;
+      }
+    }
+  }
+  return sections;
+}
+
+function parseSyncConfig(value: unknown, where: string, errors: string[]): SyncConfig | undefined {
+  if (!isRecord(value)) {
+    errors.push(`${where} must be an object with "canonical"`);
+    return undefined;
+  }
+  if (typeof value.canonical !== 'string' || !value.canonical.trim()) {
+    errors.push(`${where}.canonical must be a non-empty string`);
+    return undefined;
+  }
+
+  const sync: SyncConfig = { canonical: value.canonical };
+  if (value.targets !== undefined) {
+    const targets = parseStringList(value.targets, `${where}.targets`, errors) || [];
+    sync.targets = targets.filter(isContextFormat);
+    if (sync.targets.length < targets.length) {
+      const ids = CONTEXT_FORMATS.map((format) => `"${format.id}"`).join(', ');
+      errors.push(`${where}.targets must only contain ${ids}`);
+    }
+  }
+  if (value.name !== undefined) {
+    if (typeof value.name !== 'string') {
+      errors.push(`${where}.name must be a string`);
+    } else {
+      sync.name = value.name;
+    }
+  }
+  return sync;
+}
+
+/**
+ * Parses the contents of a .tokencentric.json file. Unknown keys are ignored
+ * and invalid values are dropped and described in `errors`.
+ */
+export function parseProjectConfig(content: string): { config: ProjectConfig; errors: string[] } {
+  let value: unknown;
+  try {
+    value = JSON.parse(content);
+  } catch (error) {
+    return { config: {}, errors: [`Invalid JSON: ${(error as Error).message}`] };
+  }
+  if (!isRecord(value)) {
+    return { config: {}, errors: ['Expected a JSON object'] };
+  }
+
+  const record = value;
+  const config: ProjectConfig = {};
+  const errors: string[] = [];
+
+  if (record.budgets !== undefined) {
+    const parsed = parseBudgetPolicy(record.budgets);
+    config.budgets = parsed.policy;
+    errors.push(...parsed.errors);
+  }
+  if (record.exclusions !== undefined) {
+    config.exclusions = parseStringList(record.exclusions, 'exclusions', errors);
+  }
+  if (record.toolProfiles !== undefined) {
+    if (!Array.isArray(record.toolProfiles)) {
+      errors.push('toolProfiles must be an array');
+    } else {
+      config.toolProfiles = [];
+      record.toolProfiles.forEach((entry, i) => {
+        const profile = parseToolProfile(entry, `toolProfiles[${i}]`, errors);
+        if (profile) config.toolProfiles?.push(profile);
+      });
+    }
+  }
+  if (record.requiredSections !== undefined) {
+    config.requiredSections = parseRequiredSections(
+      record.requiredSections,
+      'requiredSections',
+      errors
+    );
+  }
+  if (record.sync !== undefined) {
+    config.sync = parseSyncConfig(record.sync, 'sync', errors);
+  }
+
+  return { config, errors };
+}
+
+// ============================================================
+// Applying a config
+// ============================================================
+
+/**
+ * The project config that applies to a file: the one in the nearest enclosing
+ * directory.
+ */
+export function findProjectConfigFor(
+  filePath: string,
+  configs: ProjectConfigFile[]
+): ProjectConfigFile | null {
+  let nearest: ProjectConfigFile | null = null;
+  for (const config of configs) {
+    if (
+      filePath.startsWith(config.dir + '/') &&
+      (!nearest || config.dir.length > nearest.dir.length)
+    ) {
+      nearest = config;
+    }
+  }
+  return nearest;
+}
+
+/**
+ * Merges a project's tool profiles over the user's. A profile with an existing
+ * id only overrides the fields it sets; a new id adds a tool, which needs at
+ * least a name and patterns (it is skipped otherwise).
+ */
+export function mergeToolProfiles(
+  userProfiles: ToolProfile[],
+  projectProfiles: ProjectToolProfile[] | undefined
+): ToolProfile[] {
+  if (!projectProfiles?.length) return userProfiles;
+
+  const merged = [...userProfiles];
+  for (const override of projectProfiles) {
+    const index = merged.findIndex((profile) => profile.id === override.id);
+    if (index >= 0) {
+      merged[index] = { ...merged[index], ...override };
+    } else if (override.name && override.patterns) {
+      merged.push({
+        tokenizer: 'openai',
+        icon: '',
+        color: '#6B7280',
+        enabled: true,
+        ...override,
+        name: override.name,
+        patterns: override.patterns,
+      });
+    }
+  }
+  return merged;
+}
+
+/**
+ * The tool profiles for a file: the user's, merged with the nearest project
+ * config's.
+ */
+export function getToolProfilesFor(
+  filePath: string,
+  userProfiles: ToolProfile[],
+  configs: ProjectConfigFile[]
+): ToolProfile[] {
+  return mergeToolProfiles(
+    userProfiles,
+    findProjectConfigFor(filePath, configs)?.config.toolProfiles
+  );
+}
+
+/**
+ * The headings a tool's files must contain. A tool's own list replaces the default.
+ */
+export function getRequiredSections(config: ProjectConfig | undefined, toolId: string): string[] {
+  const sections = config?.requiredSections;
+  return sections?.tools?.[toolId] ?? sections?.default ?? [];
+}
+
+/** A heading as matched against others: no #s, case or extra whitespace */
+export function normalizeHeading(heading: string): string {
+  return heading.replace(/^#+/, '').trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Returns the required sections that have no matching Markdown heading (any
+ * level) in the content. Headings inside fenced code blocks don't count.
+ */
+export function findMissingSections(content: string, sections: string[]): string[] {
+  const headings = new Set<string>();
+  let inFence = false;
+  for (const line of content.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    } else if (!inFence) {
+      const match = /^#{1,6}\s+(.+?)\s*#*\s*$/.exec(line);
+      if (match) headings.add(normalizeHeading(match[1]));
+    }
+  }
+  return sections.filter((section) => !headings.has(normalizeHeading(section)));
+}
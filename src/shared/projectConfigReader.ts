@@ -0,0 +1,72 @@
+/**
+ * Reads project configuration files (.tokencentric.json) from disk.
+ * Pure Node.js - no Electron dependencies.
+ * Used by both the main process (ipc.ts) and the CLI (cli/index.ts).
+ */
+import fs from 'fs/promises';
+import path from 'path';
+import { ProjectConfigFile } from './types';
+import { PROJECT_CONFIG_FILE, parseProjectConfig } from './projectConfig';
+
+/**
+ * Reads the .tokencentric.json in a directory, or returns null when there is
+ * none. A file that can't be parsed is returned with an empty config and the
+ * problem in `errors`.
+ */
+export async function readProjectConfig(dir: string): Promise<ProjectConfigFile | null> {
+  const configPath = path.join(dir, PROJECT_CONFIG_FILE);
+  let content: string;
+  try {
+    content = await fs.readFile(configPath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    return {
+      path: configPath,
+      dir,
+      config: {},
+      errors: [`Can't read file: ${(error as Error).message}`],
+    };
+  }
+
+  const { config, errors } = parseProjectConfig(content);
+  return { path: configPath, dir, config, errors };
+}
+
+/**
+ * Finds the project config that applies to a directory: the .tokencentric.json
+ * in the directory itself or its nearest parent that has one.
+ */
+export async function findNearestProjectConfig(dir: string): Promise<ProjectConfigFile | null> {
+  let current = dir;
+  let config = await readProjectConfig(current);
+  while (!config) {
+    const parent = path.dirname(current);
+    if (parent === current) return null;
+    current = parent;
+    config = await readProjectConfig(current);
+  }
+  return config;
+}
+
+/**
+ * Finds every project config that applies to any of the given files, i.e. the
+ * .tokencentric.json files in their directories and all parent directories.
+ * Each directory is only checked once.
+ */
+export async function findProjectConfigs(filePaths: string[]): Promise<ProjectConfigFile[]> {
+  const checked = new Map<string, ProjectConfigFile | null>();
+
+  for (const filePath of filePaths) {
+    let dir = path.dirname(filePath);
+    while (!checked.has(dir)) {
+      checked.set(dir, await readProjectConfig(dir));
+      const parent = path.dirname(dir);
+      if (parent === dir) break;
+      dir = parent;
+    }
+  }
+
+  return Array.from(checked.values()).filter(
+    (config): config is ProjectConfigFile => config !== null
+  );
+}
@@ -0,0 +1,768 @@
+/**
+ * Shared context file scanner.
+ * Pure Node.js - no Electron dependencies.
+ * Used by both the main process (ipc.ts) and the CLI (cli/index.ts).
+ *
+ * Keeps a per-file index (mtime, size, content hash, token count) so that
+ * rescans only re-read and re-tokenize files that actually changed.
+ */
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { ContextFile, ExclusionReason, PatternTestResult, ProjectConfigFile, ScanProgress, ScanRoot, ToolProfile, TokenizerType } from './types';
+import { CompiledPattern, compilePattern, compilePatterns, findLastMatch } from './glob';
+import { IgnoreRule, findIgnoreRule, readIgnoreRules, readRootIgnoreRules } from './ignoreFiles';
+import { mergeToolProfiles } from './projectConfig';
+import { findNearestProjectConfig, readProjectConfig } from './projectConfigReader';
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface ScanIndexEntry {
+  mtimeMs: number;
+  size: number;
+  hash: string;
+  tokenizer: TokenizerType;
+  tokens: number;
+}
+
+/** Index of previously scanned files, keyed by absolute path */
+export type ScanIndex = Record<string, ScanIndexEntry>;
+
+/** A directory to scan, with optional per-root limits (ScanRoot is compatible) */
+export interface ScanTarget {
+  path: string;
+  enabled?: boolean;
+  maxDepth?: number;
+  exclusions?: string[];
+}
+
+/** Options for finding context files without counting their tokens */
+export interface WalkOptions {
+  toolProfiles: ToolProfile[];
+  exclusions: string[];
+  respectIgnoreFiles?: boolean;
+  /** Stops the walk (and tokenizing); results found so far are returned */
+  signal?: AbortSignal;
+  onProgress?: (progress: ScanProgress) => void;
+}
+
+export interface ScanOptions extends WalkOptions {
+  countTokens: (content: string, tokenizer: TokenizerType) => number | Promise<number>;
+  index?: ScanIndex;
+  /** Files tokenized at once; raise it when countTokens hands off to workers */
+  concurrency?: number;
+}
+
+export interface ScanStats {
+  filesMatched: number;
+  filesTokenized: number;
+  filesReused: number;
+}
+
+export interface ScanResult {
+  files: ContextFile[];
+  index: ScanIndex;
+  stats: ScanStats;
+  /** True when the signal was aborted; files and index only hold what was counted */
+  cancelled: boolean;
+}
+
+// ============================================================
+// Matching helpers
+// ============================================================
+
+/**
+ * Compiled exclusion patterns for one scan root
+ */
+interface ExclusionMatcher {
+  global: CompiledPattern[];
+  root: CompiledPattern[];
+}
+
+function createExclusionMatcher(options: WalkOptions, target: ScanTarget): ExclusionMatcher {
+  return {
+    global: compilePatterns(options.exclusions),
+    root: compilePatterns(target.exclusions || []),
+  };
+}
+
+/**
+ * The project config (.tokencentric.json) in effect for a directory, with its
+ * exclusions compiled and its tool profiles merged over the user's
+ */
+interface ProjectScope {
+  config: ProjectConfigFile | null;
+  exclusions: CompiledPattern[];
+  toolProfiles: ToolProfile[];
+}
+
+function createProjectScope(config: ProjectConfigFile | null, options: WalkOptions): ProjectScope {
+  return {
+    config,
+    exclusions: compilePatterns(config?.config.exclusions || []),
+    toolProfiles: mergeToolProfiles(options.toolProfiles, config?.config.toolProfiles),
+  };
+}
+
+/**
+ * A root uses the nearest config at or above it, so scanning a subdirectory
+ * of a repository still picks up the repository's config.
+ */
+async function loadRootProjectScope(rootPath: string, options: WalkOptions): Promise<ProjectScope> {
+  return createProjectScope(await findNearestProjectConfig(rootPath), options);
+}
+
+/**
+ * A directory's own config replaces the one inherited from its parents.
+ */
+async function loadProjectScope(dir: string, parent: ProjectScope, options: WalkOptions): Promise<ProjectScope> {
+  const config = await readProjectConfig(dir);
+  return config ? createProjectScope(config, options) : parent;
+}
+
+/**
+ * True when the path (relative to the base the patterns are written against)
+ * is excluded by the given .gitignore-style patterns.
+ */
+export function isExcluded(relativePath: string, isDirectory: boolean, patterns: CompiledPattern[]): boolean {
+  const match = findLastMatch(patterns, relativePath, isDirectory);
+  return match !== null && !match.negated;
+}
+
+/**
+ * Checks a single entry (not its ancestors) against exclusions and ignore rules.
+ */
+function checkEntry(
+  fullPath: string,
+  relativePath: string,
+  isDirectory: boolean,
+  matcher: ExclusionMatcher,
+  project: ProjectScope,
+  ignoreRules: IgnoreRule[]
+): ExclusionReason | null {
+  const globalMatch = findLastMatch(matcher.global, relativePath, isDirectory);
+  if (globalMatch && !globalMatch.negated) {
+    return {
+      kind: 'exclusion',
+      path: fullPath,
+      pattern: globalMatch.source,
+      message: `Matches exclusion pattern "${globalMatch.source}"`,
+    };
+  }
+
+  const rootMatch = findLastMatch(matcher.root, relativePath, isDirectory);
+  if (rootMatch && !rootMatch.negated) {
+    return {
+      kind: 'root-exclusion',
+      path: fullPath,
+      pattern: rootMatch.source,
+      message: `Matches scan directory exclusion "${rootMatch.source}"`,
+    };
+  }
+
+  if (project.config) {
+    const projectPath = toRelativePath(project.config.dir, fullPath);
+    const projectMatch = findLastMatch(project.exclusions, projectPath, isDirectory);
+    if (projectMatch && !projectMatch.negated) {
+      return {
+        kind: 'project-exclusion',
+        path: fullPath,
+        pattern: projectMatch.source,
+        source: project.config.path,
+        message: `Matches exclusion "${projectMatch.source}" in ${project.config.path}`,
+      };
+    }
+  }
+
+  const ignoreRule = findIgnoreRule(ignoreRules, fullPath, isDirectory);
+  if (ignoreRule && !ignoreRule.negated) {
+    return {
+      kind: 'ignore-file',
+      path: fullPath,
+      pattern: ignoreRule.source,
+      source: ignoreRule.file,
+      line: ignoreRule.line,
+      message: `Ignored by "${ignoreRule.source}" in ${ignoreRule.file}:${ignoreRule.line}`,
+    };
+  }
+
+  return null;
+}
+
+const REGEX_PREFIX = 'regex:';
+
+/**
+ * Compiles a tool profile pattern. Globs without a slash match the file name;
+ * globs with a slash match the end of the path (or from the scan root with a
+ * leading slash). `regex:` patterns are tested against the path relative to
+ * the scan root. Matching is case-insensitive and a leading `!` negates.
+ * Returns null for blank patterns and invalid regexes.
+ */
+export function compileToolPattern(pattern: string): CompiledPattern | null {
+  const source = pattern.trim();
+  const negated = source.startsWith('!');
+  const body = negated ? source.slice(1) : source;
+
+  if (!body.startsWith(REGEX_PREFIX)) {
+    return compilePattern(source, { caseInsensitive: true, matchSuffix: true });
+  }
+
+  try {
+    const regex = new RegExp(body.slice(REGEX_PREFIX.length), 'i');
+    return { source, negated, directoryOnly: false, matchPath: true, regex };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Returns an error message for an invalid tool profile pattern, or null.
+ */
+export function validateToolPattern(pattern: string): string | null {
+  const body = pattern.trim().replace(/^!/, '');
+  if (!body) return 'Pattern is empty';
+  if (body.startsWith(REGEX_PREFIX)) {
+    try {
+      new RegExp(body.slice(REGEX_PREFIX.length));
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Invalid regular expression';
+    }
+  }
+  return null;
+}
+
+// Compiled patterns are cached per patterns array; profiles are replaced, not mutated
+const compiledToolPatterns = new WeakMap<string[], CompiledPattern[]>();
+
+function getToolPatterns(profile: ToolProfile): CompiledPattern[] {
+  let compiled = compiledToolPatterns.get(profile.patterns);
+  if (!compiled) {
+    compiled = [];
+    for (const pattern of profile.patterns) {
+      const result = compileToolPattern(pattern);
+      if (result) compiled.push(result);
+    }
+    compiledToolPatterns.set(profile.patterns, compiled);
+  }
+  return compiled;
+}
+
+/**
+ * Finds the first enabled profile whose patterns match the file. Within a
+ * profile the last matching pattern wins, so `!` patterns can carve out
+ * exceptions from earlier ones.
+ *
+ * @param relativePath Path relative to the scan root, using forward slashes
+ */
+export function matchToolProfile(relativePath: string, toolProfiles: ToolProfile[]): ToolProfile | null {
+  for (const profile of toolProfiles) {
+    if (!profile.enabled) continue;
+
+    const match = findLastMatch(getToolPatterns(profile), relativePath, false);
+    if (match && !match.negated) return profile;
+  }
+  return null;
+}
+
+export function hashContent(content: string): string {
+  return crypto.createHash('sha1').update(content).digest('hex');
+}
+
+// ============================================================
+// Tokenizing with the index
+// ============================================================
+
+/**
+ * Returns the token count for a file, reusing the indexed count when the file
+ * is unchanged. Files whose mtime/size changed are re-read and hashed; they are
+ * only re-tokenized when the content hash differs too.
+ */
+async function tokenizeWithIndex(
+  file: ContextFile,
+  tokenizer: TokenizerType,
+  options: ScanOptions,
+  nextIndex: ScanIndex,
+  stats: ScanStats
+): Promise<number> {
+  const previous = options.index?.[file.path];
+
+  if (
+    previous &&
+    previous.tokenizer === tokenizer &&
+    previous.mtimeMs === file.lastModified &&
+    previous.size === file.size
+  ) {
+    nextIndex[file.path] = previous;
+    stats.filesReused++;
+    return previous.tokens;
+  }
+
+  try {
+    const content = await fs.readFile(file.path, 'utf-8');
+    const hash = hashContent(content);
+
+    let tokens: number;
+    if (previous && previous.tokenizer === tokenizer && previous.hash === hash) {
+      tokens = previous.tokens;
+      stats.filesReused++;
+    } else {
+      tokens = await options.countTokens(content, tokenizer);
+      stats.filesTokenized++;
+    }
+
+    nextIndex[file.path] = {
+      mtimeMs: file.lastModified,
+      size: file.size,
+      hash,
+      tokenizer,
+      tokens,
+    };
+    return tokens;
+  } catch (error) {
+    if (options.signal?.aborted) throw error;
+    console.error(`Failed to count tokens for: ${file.path}`, error);
+    // Use file size as fallback estimate (1 token per 4 bytes)
+    return Math.ceil(file.size / 4);
+  }
+}
+
+// ============================================================
+// Directory walking
+// ============================================================
+
+interface WalkContext {
+  target: ScanTarget;
+  matcher: ExclusionMatcher;
+  options: WalkOptions;
+  progress: ScanProgress;
+  onMatch: (match: WalkMatch) => void;
+}
+
+/** A matched file and the tokenizer of the tool profile it matched */
+interface WalkMatch {
+  file: ContextFile;
+  tokenizer: TokenizerType;
+}
+
+async function walkDirectory(
+  dir: string,
+  depth: number,
+  ignoreRules: IgnoreRule[],
+  project: ProjectScope,
+  ctx: WalkContext
+): Promise<void> {
+  if (ctx.options.signal?.aborted) return;
+
+  let entries;
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch {
+    // Skip directories we can't read
+    console.error(`Cannot read directory: ${dir}`);
+    return;
+  }
+
+  ctx.progress.directoriesVisited++;
+  ctx.progress.currentPath = dir;
+  ctx.options.onProgress?.({ ...ctx.progress });
+
+  // The root's own ignore files are loaded up front with its repository's
+  const rules =
+    ctx.options.respectIgnoreFiles && depth > 0
+      ? [...ignoreRules, ...(await readIgnoreRules(dir))]
+      : ignoreRules;
+  const scope = depth > 0 ? await loadProjectScope(dir, project, ctx.options) : project;
+
+  for (const entry of entries) {
+    if (ctx.options.signal?.aborted) return;
+
+    const fullPath = path.join(dir, entry.name);
+    const relativePath = toRelativePath(ctx.target.path, fullPath);
+    const isDirectory = entry.isDirectory();
+
+    if (checkEntry(fullPath, relativePath, isDirectory, ctx.matcher, scope, rules)) {
+      continue;
+    }
+
+    if (isDirectory) {
+      if (ctx.target.maxDepth === undefined || depth < ctx.target.maxDepth) {
+        await walkDirectory(fullPath, depth + 1, rules, scope, ctx);
+      }
+    } else if (entry.isFile()) {
+      const profile = matchToolProfile(relativePath, scope.toolProfiles);
+      if (!profile) continue;
+
+      try {
+        const stats = await fs.stat(fullPath);
+        ctx.progress.filesMatched++;
+        ctx.onMatch({
+          file: {
+            id: fullPath,
+            path: fullPath,
+            name: entry.name,
+            toolId: profile.id,
+            lastModified: stats.mtimeMs,
+            size: stats.size,
+          },
+          tokenizer: profile.tokenizer,
+        });
+      } catch {
+        // File disappeared between readdir and stat
+      }
+    }
+  }
+}
+
+function toRelativePath(rootPath: string, fullPath: string): string {
+  return path.relative(rootPath, fullPath).split(path.sep).join('/');
+}
+
+function toTarget(root: string | ScanTarget): ScanTarget {
+  return typeof root === 'string' ? { path: root } : root;
+}
+
+/**
+ * Collapses a list of roots so that no root is nested inside another.
+ * The outermost root wins, along with its depth and exclusion settings.
+ */
+export function dedupeRoots<T extends ScanTarget>(roots: T[]): T[] {
+  const sorted = [...roots].sort((a, b) => a.path.length - b.path.length);
+  const deduped: T[] = [];
+  for (const root of sorted) {
+    const isCovered = deduped.some(
+      (parent) => root.path === parent.path || root.path.startsWith(parent.path + '/')
+    );
+    if (!isCovered) {
+      deduped.push(root);
+    }
+  }
+  return deduped;
+}
+
+/**
+ * Finds the innermost root that contains the given path.
+ */
+export function findScanRoot<T extends ScanTarget>(filePath: string, roots: T[]): T | null {
+  let best: T | null = null;
+  for (const root of roots) {
+    if (filePath === root.path || filePath.startsWith(root.path + '/')) {
+      if (!best || root.path.length > best.path.length) {
+        best = root;
+      }
+    }
+  }
+  return best;
+}
+
+function createScanProgress(): ScanProgress {
+  return { phase: 'walking', directoriesVisited: 0, filesMatched: 0, filesTokenized: 0 };
+}
+
+async function walkRoots(
+  roots: Array<string | ScanTarget>,
+  options: WalkOptions,
+  progress: ScanProgress
+): Promise<WalkMatch[]> {
+  const matches: WalkMatch[] = [];
+
+  const targets = roots.map(toTarget).filter((target) => target.enabled !== false);
+  for (const target of dedupeRoots(targets)) {
+    if (options.signal?.aborted) break;
+    try {
+      await fs.access(target.path);
+    } catch {
+      // Skip roots that no longer exist
+      continue;
+    }
+    const ignoreRules = options.respectIgnoreFiles ? await readRootIgnoreRules(target.path) : [];
+    const project = await loadRootProjectScope(target.path, options);
+    await walkDirectory(target.path, 0, ignoreRules, project, {
+      target,
+      matcher: createExclusionMatcher(options, target),
+      options,
+      progress,
+      onMatch: (match) => matches.push(match),
+    });
+  }
+
+  return matches;
+}
+
+/**
+ * Finds the context files under the given roots without reading them.
+ */
+export async function findContextFiles(
+  roots: Array<string | ScanTarget>,
+  options: WalkOptions
+): Promise<ContextFile[]> {
+  const matches = await walkRoots(roots, options, createScanProgress());
+  return matches.map((match) => match.file);
+}
+
+/**
+ * Scans the given root directories for context files and counts their tokens.
+ * Exclusions and tool profiles from .tokencentric.json files are applied to
+ * the directories they are in.
+ * Pass the index from a previous result to skip re-tokenizing unchanged files.
+ * When `options.signal` is aborted, during the walk or while tokenizing, the
+ * files counted so far are returned with `cancelled` set.
+ */
+export async function scanDirectories(
+  roots: Array<string | ScanTarget>,
+  options: ScanOptions
+): Promise<ScanResult> {
+  const index: ScanIndex = {};
+  const stats: ScanStats = { filesMatched: 0, filesTokenized: 0, filesReused: 0 };
+
+  const progress = createScanProgress();
+  const matches = await walkRoots(roots, options, progress);
+  const files = matches.map((match) => match.file);
+  stats.filesMatched = files.length;
+
+  const counted = new Set<ContextFile>();
+  const pending = [...matches];
+
+  const reportProgress = (currentPath?: string) => {
+    progress.filesTokenized = counted.size;
+    progress.currentPath = currentPath;
+    options.onProgress?.({ ...progress });
+  };
+  progress.phase = 'tokenizing';
+  reportProgress();
+
+  // Each runner takes the next file until none are left or the scan is cancelled
+  const runNext = async (): Promise<void> => {
+    let match = pending.shift();
+    while (match && !options.signal?.aborted) {
+      const { file, tokenizer } = match;
+      try {
+        file.tokens = await tokenizeWithIndex(file, tokenizer, options, index, stats);
+      } catch {
+        // Only rethrown when cancelled
+        return;
+      }
+      counted.add(file);
+      reportProgress(file.path);
+      match = pending.shift();
+    }
+  };
+
+  const concurrency = Math.max(1, options.concurrency || 1);
+  await Promise.all(Array.from({ length: concurrency }, runNext));
+
+  // Keep the walk order rather than completion order
+  const cancelled = !!options.signal?.aborted;
+  return {
+    files: cancelled ? files.filter((file) => counted.has(file)) : files,
+    index,
+    stats,
+    cancelled,
+  };
+}
+
+/**
+ * Checks a path under a scan root against the exclusions, ignore files and
+ * depth limit, walking down from the root like a scan would. Also returns the
+ * project config scope of the path's directory, for matching tool profiles.
+ */
+async function findExclusionReason(
+  filePath: string,
+  options: WalkOptions,
+  root: ScanTarget
+): Promise<{ reason: ExclusionReason | null; project: ProjectScope }> {
+  const matcher = createExclusionMatcher(options, root);
+  const segments = path.relative(root.path, filePath).split(path.sep);
+  let rules = options.respectIgnoreFiles ? await readRootIgnoreRules(root.path) : [];
+  let project = await loadRootProjectScope(root.path, options);
+
+  for (let i = 0; i < segments.length; i++) {
+    const relativePath = segments.slice(0, i + 1).join('/');
+    const fullPath = path.join(root.path, ...segments.slice(0, i + 1));
+    if (i > 0) {
+      const dir = path.dirname(fullPath);
+      if (options.respectIgnoreFiles) {
+        rules = [...rules, ...(await readIgnoreRules(dir))];
+      }
+      project = await loadProjectScope(dir, project, options);
+    }
+
+    const isDirectory = i < segments.length - 1;
+    const reason = checkEntry(fullPath, relativePath, isDirectory, matcher, project, rules);
+    if (reason) return { reason, project };
+  }
+
+  const depth = segments.length - 1;
+  if (root.maxDepth !== undefined && depth > root.maxDepth) {
+    return {
+      reason: {
+        kind: 'depth',
+        path: filePath,
+        message: `${depth} levels below ${root.path}, deeper than its depth limit of ${root.maxDepth}`,
+      },
+      project,
+    };
+  }
+
+  return { reason: null, project };
+}
+
+/**
+ * Explains why a file would not show up in a scan of the given roots.
+ * Returns null when the file would be included.
+ */
+export async function explainExclusion(
+  filePath: string,
+  options: WalkOptions,
+  roots: ScanTarget[]
+): Promise<ExclusionReason | null> {
+  const root = findScanRoot(filePath, roots);
+  if (!root) {
+    return { kind: 'outside-roots', path: filePath, message: 'Not inside any scan directory' };
+  }
+  if (root.enabled === false) {
+    return {
+      kind: 'disabled-root',
+      path: root.path,
+      message: `Scan directory ${root.path} is disabled`,
+    };
+  }
+
+  const { reason, project } = await findExclusionReason(filePath, options, root);
+  if (reason) return reason;
+
+  if (!matchToolProfile(toRelativePath(root.path, filePath), project.toolProfiles)) {
+    return {
+      kind: 'no-profile',
+      path: filePath,
+      message: 'Does not match the file patterns of any enabled tool',
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Scans a single file, e.g. in response to a file watcher event.
+ * Returns null when the file is excluded (globally, by its root, by a project
+ * config or by an ignore file), deeper than the root's depth limit, or doesn't match any
+ * tool profile. The file's index entry is written into `options.index` when provided.
+ */
+export async function scanFile(
+  filePath: string,
+  options: ScanOptions,
+  root: ScanTarget
+): Promise<ContextFile | null> {
+  const name = path.basename(filePath);
+  const { reason, project } = await findExclusionReason(filePath, options, root);
+  if (reason) return null;
+
+  const profile = matchToolProfile(toRelativePath(root.path, filePath), project.toolProfiles);
+  if (!profile) return null;
+
+  let stats;
+  try {
+    stats = await fs.stat(filePath);
+  } catch {
+    return null;
+  }
+  if (!stats.isFile()) return null;
+
+  const file: ContextFile = {
+    id: filePath,
+    path: filePath,
+    name,
+    toolId: profile.id,
+    lastModified: stats.mtimeMs,
+    size: stats.size,
+  };
+
+  const nextIndex: ScanIndex = {};
+  const scanStats: ScanStats = { filesMatched: 1, filesTokenized: 0, filesReused: 0 };
+  file.tokens = await tokenizeWithIndex(file, profile.tokenizer, options, nextIndex, scanStats);
+
+  if (options.index && nextIndex[filePath]) {
+    options.index[filePath] = nextIndex[filePath];
+  }
+  return file;
+}
+
+/**
+ * Previews which files under a directory a set of tool profile patterns would
+ * match, honouring the given exclusions.
+ */
+export async function testToolPatterns(
+  dir: string,
+  patterns: string[],
+  options: Omit<WalkOptions, 'toolProfiles'>
+): Promise<PatternTestResult> {
+  const errors: PatternTestResult['errors'] = [];
+  for (const pattern of patterns) {
+    const message = validateToolPattern(pattern);
+    if (message) errors.push({ pattern, message });
+  }
+
+  const profile: ToolProfile = {
+    id: 'pattern-test',
+    name: 'Pattern test',
+    patterns,
+    tokenizer: 'openai',
+    icon: '',
+    color: '',
+    enabled: true,
+  };
+  const files = await findContextFiles([dir], { ...options, toolProfiles: [profile] });
+
+  return {
+    matches: files.map((file) => toRelativePath(dir, file.path)).sort(),
+    errors,
+  };
+}
+
+/**
+ * Merges a partial scan index into an existing one, dropping entries under
+ * the given roots that the partial scan no longer found.
+ */
+export function mergeScanIndex(existing: ScanIndex, roots: string[], partial: ScanIndex): ScanIndex {
+  const merged: ScanIndex = {};
+  for (const [filePath, entry] of Object.entries(existing)) {
+    const underRoot = roots.some((root) => filePath === root || filePath.startsWith(root + '/'));
+    if (!underRoot) {
+      merged[filePath] = entry;
+    }
+  }
+  return { ...merged, ...partial };
+}
+
+// ============================================================
+// Scan roots
+// ============================================================
+
+export function createScanRoot(rootPath: string): ScanRoot {
+  return { path: rootPath, enabled: true, exclusions: [] };
+}
+
+/**
+ * Normalizes stored scan paths. Older versions stored plain path strings.
+ */
+export function normalizeScanRoots(scanPaths: Array<string | Partial<ScanRoot>>): ScanRoot[] {
+  const roots: ScanRoot[] = [];
+  for (const entry of scanPaths) {
+    const root =
+      typeof entry === 'string'
+        ? createScanRoot(entry)
+        : { ...createScanRoot(entry.path || ''), ...entry, exclusions: entry.exclusions || [] };
+    if (root.path && !roots.some((r) => r.path === root.path)) {
+      roots.push(root as ScanRoot);
+    }
+  }
+  return roots;
+}
+
+/**
+ * True when the file lives under one of the given roots
+ */
+export function isUnderRoots(filePath: string, roots: ScanTarget[]): boolean {
+  return findScanRoot(filePath, roots) !== null;
+}
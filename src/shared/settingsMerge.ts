@@ -0,0 +1,251 @@
+/**
+ * Structural merge of a pack's settings into Claude Code's settings.json.
+ * Pure TypeScript - no Node or Electron dependencies, so it can be used by the
+ * main process, the CLI and the renderer alike.
+ *
+ * Objects are merged key by key and lists are combined without duplicates, so
+ * a pack adds to the hooks and permissions already there instead of replacing
+ * them. Hook rules are appended per event; a rule with the same matcher as an
+ * existing one gets the pack's hooks added to it. Where the pack and the
+ * existing settings disagree on a value, the existing one is kept unless
+ * `overwrite` is set, and either way the key is reported as a conflict.
+ */
+import { InstalledFileStatus, SettingsMergeChange } from './types';
+
+export interface SettingsMergeResult {
+  settings: Record<string, unknown>;
+  changes: SettingsMergeChange[];
+}
+
+type HookRule = { matcher?: string; hooks: unknown[] };
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const clone = <T>(value: T): T => (value === undefined ? value : JSON.parse(JSON.stringify(value)));
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isHookRule = (value: unknown): value is HookRule =>
+  isObject(value) && Array.isArray(value.hooks);
+
+// The lists under hooks.<event> hold hook rules
+const isHookList = (path: string[]) => path.length === 2 && path[0] === 'hooks';
+
+const sameMatcher = (a: HookRule, b: HookRule) => (a.matcher || '') === (b.matcher || '');
+
+/**
+ * Adds the entries of `incoming` missing from `list` to it, and returns them.
+ * For hook rules, the entries are the rules as added: only the hooks that
+ * weren't already in a rule with the same matcher.
+ */
+function appendEntries(list: unknown[], incoming: unknown[], hookRules: boolean): unknown[] {
+  const added: unknown[] = [];
+  for (const entry of incoming) {
+    if (list.some((e) => sameValue(e, entry))) continue;
+    const rule =
+      hookRules && isHookRule(entry)
+        ? list.find((e) => isHookRule(e) && sameMatcher(e, entry))
+        : undefined;
+    if (isHookRule(rule) && isHookRule(entry)) {
+      const hooks = entry.hooks.filter((h) => !rule.hooks.some((r) => sameValue(r, h)));
+      if (hooks.length === 0) continue;
+      rule.hooks.push(...clone(hooks));
+      added.push({ ...entry, hooks });
+    } else {
+      list.push(clone(entry));
+      added.push(entry);
+    }
+  }
+  return added;
+}
+
+// Whether an entry added by appendEntries is still in the list
+function hasEntry(list: unknown, entry: unknown, hookRules: boolean): boolean {
+  if (!Array.isArray(list)) return false;
+  if (list.some((e) => sameValue(e, entry))) return true;
+  return (
+    hookRules &&
+    isHookRule(entry) &&
+    list.some(
+      (e) =>
+        isHookRule(e) &&
+        sameMatcher(e, entry) &&
+        entry.hooks.every((h) => e.hooks.some((r) => sameValue(r, h)))
+    )
+  );
+}
+
+function removeEntry(list: unknown[], entry: unknown, hookRules: boolean) {
+  const index = list.findIndex((e) => sameValue(e, entry));
+  if (index !== -1) {
+    list.splice(index, 1);
+    return;
+  }
+  if (!hookRules || !isHookRule(entry)) return;
+  const rule = list.find((e) => isHookRule(e) && sameMatcher(e, entry));
+  if (!isHookRule(rule)) return;
+  rule.hooks = rule.hooks.filter((h) => !entry.hooks.some((r) => sameValue(r, h)));
+  if (rule.hooks.length === 0) list.splice(list.indexOf(rule), 1);
+}
+
+function mergeInto(
+  current: Record<string, unknown>,
+  incoming: Record<string, unknown>,
+  path: string[],
+  changes: SettingsMergeChange[],
+  overwrite: boolean
+) {
+  for (const [key, value] of Object.entries(incoming)) {
+    const keyPath = [...path, key];
+    const change = { key: keyPath.join('.'), path: keyPath };
+    const existing = current[key];
+
+    if (existing === undefined) {
+      current[key] = clone(value);
+      changes.push({ ...change, action: 'add', value });
+    } else if (sameValue(existing, value)) {
+      changes.push({ ...change, action: 'unchanged', value });
+    } else if (Array.isArray(existing) && Array.isArray(value)) {
+      const added = appendEntries(existing, value, isHookList(keyPath));
+      changes.push({ ...change, action: added.length > 0 ? 'append' : 'unchanged', value: added });
+    } else if (isObject(existing) && isObject(value)) {
+      mergeInto(existing, value, keyPath, changes, overwrite);
+    } else {
+      if (overwrite) current[key] = clone(value);
+      changes.push({
+        ...change,
+        action: 'conflict',
+        value,
+        current: existing,
+        replaced: overwrite,
+      });
+    }
+  }
+}
+
+/** Merges `incoming` into a copy of `current`, reporting what happened to each key */
+export function mergeSettings(
+  current: Record<string, unknown>,
+  incoming: Record<string, unknown>,
+  options: { overwrite?: boolean } = {}
+): SettingsMergeResult {
+  const settings = clone(current);
+  const changes: SettingsMergeChange[] = [];
+  mergeInto(settings, incoming, [], changes, options.overwrite ?? false);
+  return { settings, changes };
+}
+
+/** The changes that altered the settings, which an uninstall reverts */
+export function getAppliedChanges(changes: SettingsMergeChange[]): SettingsMergeChange[] {
+  return changes.filter(
+    (c) => c.action === 'add' || c.action === 'append' || (c.action === 'conflict' && c.replaced)
+  );
+}
+
+function getParent(settings: Record<string, unknown>, path: string[]) {
+  let parent: unknown = settings;
+  for (const key of path.slice(0, -1)) {
+    parent = isObject(parent) ? parent[key] : undefined;
+  }
+  return isObject(parent) ? parent : null;
+}
+
+/** Whether an applied change is still in the settings as the merge left it */
+export function getSettingsChangeStatus(
+  settings: Record<string, unknown>,
+  change: SettingsMergeChange
+): InstalledFileStatus {
+  const value = getParent(settings, change.path)?.[change.path[change.path.length - 1]];
+  if (change.action === 'append') {
+    const entries = change.value as unknown[];
+    const present = entries.filter((e) => hasEntry(value, e, isHookList(change.path))).length;
+    return present === entries.length ? 'unchanged' : present === 0 ? 'missing' : 'modified';
+  }
+  if (value === undefined) return 'missing';
+  return sameValue(value, change.value) ? 'unchanged' : 'modified';
+}
+
+/**
+ * The part of a change that `settings` doesn't have yet: appended entries
+ * already in the list are left out, and a change that's all there becomes
+ * `unchanged`.
+ */
+export function getPendingSettingsChange(
+  settings: Record<string, unknown>,
+  change: SettingsMergeChange
+): SettingsMergeChange {
+  if (change.action === 'append') {
+    const list = getParent(settings, change.path)?.[change.path[change.path.length - 1]];
+    const entries = change.value as unknown[];
+    const pending = appendEntries(
+      Array.isArray(list) ? clone(list) : [],
+      entries,
+      isHookList(change.path)
+    );
+    return pending.length > 0 ? { ...change, value: pending } : { ...change, action: 'unchanged' };
+  }
+  if (change.action === 'add' && getSettingsChangeStatus(settings, change) === 'unchanged') {
+    return { ...change, action: 'unchanged' };
+  }
+  return change;
+}
+
+/**
+ * Undoes an applied change in place: removes an added key or the appended
+ * entries, and puts back the value a replaced one had.
+ */
+export function revertSettingsChange(
+  settings: Record<string, unknown>,
+  change: SettingsMergeChange
+): void {
+  const parent = getParent(settings, change.path);
+  const key = change.path[change.path.length - 1];
+  if (!parent || parent[key] === undefined) return;
+
+  if (change.action === 'append') {
+    const list = parent[key];
+    if (!Array.isArray(list)) return;
+    for (const entry of change.value as unknown[]) {
+      removeEntry(list, entry, isHookList(change.path));
+    }
+  } else if (change.action === 'conflict') {
+    parent[key] = clone(change.current);
+  } else {
+    delete parent[key];
+  }
+}
+
+function formatValue(value: unknown): string {
+  const text = JSON.stringify(value) ?? 'undefined';
+  return text.length > 60 ? `${text.slice(0, 59)}…` : text;
+}
+
+// Hook rules by their commands, other entries by their value
+function formatEntry(entry: unknown): string {
+  if (isHookRule(entry)) {
+    return entry.hooks
+      .map((h) => (isObject(h) && typeof h.command === 'string' ? h.command : formatValue(h)))
+      .join(', ');
+  }
+  return typeof entry === 'string' ? entry : formatValue(entry);
+}
+
+/** A one-line description of a change, e.g. `+ Bash(npm test), Read` */
+export function describeSettingsChange(change: SettingsMergeChange): string {
+  switch (change.action) {
+    case 'add':
+      return Array.isArray(change.value)
+        ? `= ${change.value.map(formatEntry).join(', ')}`
+        : `= ${formatValue(change.value)}`;
+    case 'append':
+      return `+ ${(change.value as unknown[]).map(formatEntry).join(', ')}`;
+    case 'conflict':
+      return (
+        `yours ${formatValue(change.current)}, pack ${formatValue(change.value)}` +
+        (change.replaced ? ' (replaced)' : ' (kept yours)')
+      );
+    default:
+      return 'already set';
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Single-source sync: the other tools' context files generated from one
+ * canonical file.
+ * Pure TypeScript - no Node or Electron dependencies, so it can be used by the
+ * main process, the CLI and the renderer alike. Reading and writing the files
+ * on disk is in syncWriter.ts.
+ *
+ * The canonical file is set in a project's .tokencentric.json under `sync`.
+ * Parts of it can be limited to some tools with comments:
+ *
+ *   <!-- tokencentric:only cursor, copilot -->
+ *   ...
+ *   <!-- tokencentric:end -->
+ *
+ * `tokencentric:except` does the opposite. Tools are named by format id
+ * (`agents`, `cursor-rule`) or tool profile id (`openai`, `cursor`).
+ * Generated files start with a marker holding a hash of their content, so
+ * files edited by hand can be told apart from files that are only outdated.
+ */
+import { ContextFormat, SyncConfig, SyncFileStatus } from './types';
+import {
+  DEFAULT_RULE_NAME,
+  convertContext,
+  getContextFormat,
+  getFormatPath,
+  getRuleName,
+} from './contextFormats';
+
+export const DEFAULT_SYNC_TARGETS: ContextFormat[] = ['claude', 'agents', 'cursor-rule', 'copilot'];
+
+const SECTION_START = /^\s*<!--\s*tokencentric:(only|except)\s+(.+?)\s*-->\s*$/;
+const SECTION_END = /^\s*<!--\s*tokencentric:end\s*-->\s*$/;
+const GENERATED_MARKER = /^<!-- .*\(tokencentric:generated ([0-9a-f]{8})\) -->\n/m;
+
+export interface GeneratedFile {
+  relativePath: string; // Relative to the directory the canonical file applies to
+  content: string;
+}
+
+// FNV-1a, enough to notice that a generated file changed
+function hashContent(content: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < content.length; i++) {
+    hash ^= content.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+const isForFormat = (tools: string[], format: ContextFormat) =>
+  tools.includes(format) || tools.includes(getContextFormat(format).toolId);
+
+/**
+ * The canonical content as a target sees it: sections for other tools are
+ * removed, and so are the section comments. Comments in fenced code blocks
+ * are left alone.
+ */
+export function filterToolSections(content: string, format: ContextFormat): string {
+  const lines: string[] = [];
+  let inFence = false;
+  let included = true;
+
+  for (const line of content.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    if (!inFence) {
+      const start = SECTION_START.exec(line);
+      if (start) {
+        const tools = start[2].split(/[\s,]+/).filter(Boolean);
+        included = (start[1] === 'only') === isForFormat(tools, format);
+        continue;
+      }
+      if (SECTION_END.test(line)) {
+        included = true;
+        continue;
+      }
+    }
+    if (included) lines.push(line);
+  }
+
+  return lines.join('\n');
+}
+
+// The marker goes after the frontmatter, which tools expect on the first line
+function insertMarker(content: string, marker: string): string {
+  const frontmatter = content.match(/^---\s*\n[\s\S]*?\n---[^\n]*\n/);
+  if (!frontmatter) return `${marker}\n${content}`;
+  const end = frontmatter[0].length;
+  return `${content.slice(0, end)}${marker}\n${content.slice(end)}`;
+}
+
+/** The sync targets of a project config, without the canonical file's own format */
+export function getSyncTargets(sync: SyncConfig, canonicalFormat: ContextFormat): ContextFormat[] {
+  return (sync.targets || DEFAULT_SYNC_TARGETS).filter((target) => target !== canonicalFormat);
+}
+
+/** Generates a target's file from the canonical file */
+export function generateSyncedFile(
+  canonicalContent: string,
+  canonicalPath: string,
+  canonicalFormat: ContextFormat,
+  target: ContextFormat,
+  sync: SyncConfig
+): GeneratedFile {
+  const name = sync.name || getRuleName(canonicalPath, canonicalFormat) || DEFAULT_RULE_NAME;
+  const converted = convertContext(
+    filterToolSections(canonicalContent, target),
+    canonicalFormat,
+    target,
+    { name }
+  );
+  const source = canonicalPath.substring(canonicalPath.lastIndexOf('/') + 1);
+  const marker =
+    `<!-- Generated by TokenCentric from ${source}; edit that file instead ` +
+    `(tokencentric:generated ${hashContent(converted.content)}) -->`;
+
+  return {
+    relativePath: getFormatPath(target, name),
+    content: insertMarker(converted.content, marker),
+  };
+}
+
+/**
+ * Compares a target file on disk with what the canonical file generates.
+ * `actual` is null when the file doesn't exist.
+ */
+export function getSyncFileStatus(actual: string | null, expected: string): SyncFileStatus {
+  if (actual === null) return 'missing';
+  if (actual === expected) return 'in-sync';
+
+  const marker = GENERATED_MARKER.exec(actual);
+  if (!marker) return 'untracked';
+  const body = actual.replace(GENERATED_MARKER, '');
+  return hashContent(body) === marker[1] ? 'outdated' : 'edited';
+}
+
+/** Whether a file was generated by a sync, edited since or not */
+export function isGeneratedFile(content: string): boolean {
+  return GENERATED_MARKER.test(content);
+}
+
+/** Whether a sync may write the file without being forced */
+export function canOverwrite(status: SyncFileStatus): boolean {
+  return status === 'outdated' || status === 'missing';
+}
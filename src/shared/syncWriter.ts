@@ -0,0 +1,106 @@
+/**
+ * Checks and writes the files generated from a project's canonical context file.
+ * Pure Node.js - no Electron dependencies.
+ * Used by both the main process (ipc.ts) and the CLI (cli/index.ts).
+ */
+import fs from 'fs/promises';
+import path from 'path';
+import { ProjectConfigFile, ProjectSyncStatus } from './types';
+import { detectContextFormat, getFormatRoot } from './contextFormats';
+import { canOverwrite, generateSyncedFile, getSyncFileStatus, getSyncTargets } from './sync';
+import { PROJECT_CONFIG_FILE } from './projectConfig';
+import { findNearestProjectConfig } from './projectConfigReader';
+
+export interface SyncOptions {
+  write?: boolean; // Write outdated and missing files (default: only check)
+  force?: boolean; // Also replace files that were edited by hand or not generated
+}
+
+async function readIfExists(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+/**
+ * Compares the files generated from a project's canonical file with the ones
+ * on disk, and with `write` brings them up to date. Returns null for configs
+ * without `sync`.
+ */
+export async function syncProject(
+  configFile: ProjectConfigFile,
+  options: SyncOptions = {}
+): Promise<ProjectSyncStatus | null> {
+  const sync = configFile.config.sync;
+  if (!sync) return null;
+
+  const canonical = path.resolve(configFile.dir, sync.canonical);
+  const result: ProjectSyncStatus = { configPath: configFile.path, canonical, targets: [] };
+  const format = detectContextFormat(canonical);
+  if (!format) {
+    result.error = `${sync.canonical} is not a context file format that can be synced`;
+    return result;
+  }
+
+  let content: string;
+  try {
+    content = await fs.readFile(canonical, 'utf-8');
+  } catch (error) {
+    result.error = `Can't read ${sync.canonical}: ${(error as Error).message}`;
+    return result;
+  }
+
+  const root = getFormatRoot(canonical, format);
+  for (const target of getSyncTargets(sync, format)) {
+    const generated = generateSyncedFile(content, canonical, format, target, sync);
+    const targetPath = path.join(root, generated.relativePath);
+    if (targetPath === canonical) continue;
+
+    const status = getSyncFileStatus(await readIfExists(targetPath), generated.content);
+    const syncTarget = { format: target, path: targetPath, status };
+    if (options.write && status !== 'in-sync' && (options.force || canOverwrite(status))) {
+      await fs.mkdir(path.dirname(targetPath), { recursive: true });
+      await fs.writeFile(targetPath, generated.content, 'utf-8');
+      result.targets.push({ ...syncTarget, written: true });
+    } else {
+      result.targets.push(syncTarget);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Makes a context file the canonical file of its project, in the nearest
+ * .tokencentric.json (created next to the file if there is none). Returns the
+ * config file's path.
+ */
+export async function setCanonicalFile(filePath: string): Promise<string> {
+  const format = detectContextFormat(filePath);
+  if (!format) {
+    throw new Error(`${path.basename(filePath)} is not a context file format that can be synced`);
+  }
+
+  const existing = await findNearestProjectConfig(path.dirname(filePath));
+  const configPath =
+    existing?.path || path.join(getFormatRoot(filePath, format), PROJECT_CONFIG_FILE);
+
+  let config: Record<string, unknown> = {};
+  const raw = await readIfExists(configPath);
+  if (raw !== null) {
+    try {
+      config = JSON.parse(raw);
+    } catch (error) {
+      throw new Error(`Can't update ${configPath}: ${(error as Error).message}`);
+    }
+  }
+
+  const previous = typeof config.sync === 'object' && config.sync !== null ? config.sync : {};
+  const canonical = path.relative(path.dirname(configPath), filePath).split(path.sep).join('/');
+  config.sync = { ...previous, canonical };
+  await fs.writeFile(configPath, JSON.stringify(config, null, 2) + '\n', 'utf-8');
+  return configPath;
+}
@@ -0,0 +1,264 @@
+/**
+ * Tokenizer registry.
+ * Pure Node.js - no Electron dependencies.
+ * Used by both the main process (ipc.ts) and the CLI (cli/index.ts).
+ *
+ * Tokenizers are addressed by TokenizerType ids. Besides the built-in
+ * encodings, `local:<path>` ids load a Hugging Face tokenizer.json from disk
+ * (byte-level BPE models such as GPT-2, Llama 3 or Qwen) on first use.
+ */
+import fs from 'fs';
+import path from 'path';
+import { countTokens as countAnthropicTokens } from '@anthropic-ai/tokenizer';
+import { Tiktoken, get_encoding } from 'tiktoken';
+import { BuiltinTokenizerType, TokenizerInfo, TokenizerType } from './types';
+
+// ============================================================
+// Registry
+// ============================================================
+
+export const builtinTokenizers: TokenizerInfo[] = [
+  {
+    id: 'anthropic',
+    name: 'Anthropic (Claude)',
+    description: 'Official Anthropic tokenizer',
+  },
+  {
+    id: 'openai',
+    name: 'OpenAI GPT-4',
+    description: 'cl100k_base, used by GPT-4 and GPT-3.5',
+  },
+  {
+    id: 'cl100k_base',
+    name: 'cl100k_base',
+    description: 'tiktoken encoding for GPT-4, GPT-3.5 and text-embedding-3',
+  },
+  {
+    id: 'o200k_base',
+    name: 'o200k_base',
+    description: 'tiktoken encoding for GPT-4o, GPT-4.1 and o-series models',
+  },
+  {
+    id: 'heuristic',
+    name: 'Character estimate',
+    description: 'Roughly 4 characters per token, no tokenizer needed',
+  },
+];
+
+const LOCAL_PREFIX = 'local:';
+
+export function isLocalTokenizer(tokenizer: string): tokenizer is `local:${string}` {
+  return tokenizer.startsWith(LOCAL_PREFIX);
+}
+
+export function localTokenizerId(filePath: string): TokenizerType {
+  return `${LOCAL_PREFIX}${path.resolve(filePath)}`;
+}
+
+export function isTokenizerType(value: string): value is TokenizerType {
+  return isLocalTokenizer(value) || builtinTokenizers.some((t) => t.id === value);
+}
+
+export function getTokenizerInfo(tokenizer: TokenizerType): TokenizerInfo {
+  if (isLocalTokenizer(tokenizer)) {
+    const filePath = tokenizer.slice(LOCAL_PREFIX.length);
+    return {
+      id: tokenizer,
+      name: `Local: ${path.basename(path.dirname(filePath))}/${path.basename(filePath)}`,
+      description: filePath,
+    };
+  }
+  return (
+    builtinTokenizers.find((t) => t.id === tokenizer) || {
+      id: tokenizer,
+      name: tokenizer,
+      description: 'Unknown tokenizer',
+    }
+  );
+}
+
+// ============================================================
+// Encoders (lazily created, cached for the process lifetime)
+// ============================================================
+
+const encoders = new Map<string, Tiktoken>();
+
+// Local tokenizers that failed to load, so the error is only logged once
+const failedLocalTokenizers = new Set<string>();
+
+function getBuiltinEncoder(tokenizer: Exclude<BuiltinTokenizerType, 'anthropic' | 'heuristic'>): Tiktoken {
+  const encoding = tokenizer === 'o200k_base' ? 'o200k_base' : 'cl100k_base';
+  let encoder = encoders.get(encoding);
+  if (!encoder) {
+    encoder = get_encoding(encoding);
+    encoders.set(encoding, encoder);
+  }
+  return encoder;
+}
+
+function getLocalEncoder(tokenizer: `local:${string}`): Tiktoken | null {
+  const cached = encoders.get(tokenizer);
+  if (cached) return cached;
+  if (failedLocalTokenizers.has(tokenizer)) return null;
+
+  const filePath = tokenizer.slice(LOCAL_PREFIX.length);
+  try {
+    const encoder = loadTokenizerJson(fs.readFileSync(filePath, 'utf-8'));
+    encoders.set(tokenizer, encoder);
+    return encoder;
+  } catch (error) {
+    console.error(`Failed to load local tokenizer ${filePath}:`, error);
+    failedLocalTokenizers.add(tokenizer);
+    return null;
+  }
+}
+
+/**
+ * Counts tokens with the given tokenizer. Falls back to an estimate
+ * (4 chars per token) if the tokenizer fails or can't be loaded.
+ */
+export function countTokens(content: string, tokenizer: TokenizerType): number {
+  try {
+    if (tokenizer === 'anthropic') {
+      return countAnthropicTokens(content);
+    }
+    if (tokenizer === 'openai' || tokenizer === 'cl100k_base' || tokenizer === 'o200k_base') {
+      // Special token text (e.g. <|endoftext|>) in a file is counted as plain text
+      return getBuiltinEncoder(tokenizer).encode_ordinary(content).length;
+    }
+    if (isLocalTokenizer(tokenizer)) {
+      const encoder = getLocalEncoder(tokenizer);
+      if (encoder) return encoder.encode_ordinary(content).length;
+    }
+  } catch (error) {
+    console.error(`Tokenizer error (${tokenizer}):`, error);
+  }
+
+  // Heuristic, and fallback: rough estimate of ~4 chars per token
+  return Math.ceil(content.length / 4);
+}
+
+/**
+ * Checks that a local tokenizer file can be loaded. Returns an error message, or null.
+ */
+export function validateLocalTokenizer(filePath: string): string | null {
+  try {
+    loadTokenizerJson(fs.readFileSync(filePath, 'utf-8')).free();
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Failed to load tokenizer';
+  }
+}
+
+export function freeTokenizers(): void {
+  for (const encoder of encoders.values()) {
+    encoder.free();
+  }
+  encoders.clear();
+  failedLocalTokenizers.clear();
+}
+
+// ============================================================
+// Hugging Face tokenizer.json (byte-level BPE)
+// ============================================================
+
+interface HuggingFaceTokenizer {
+  model?: {
+    type?: string;
+    vocab?: Record<string, number>;
+    merges?: Array<string | [string, string]>;
+  };
+  pre_tokenizer?: HuggingFacePreTokenizer | null;
+  decoder?: { type?: string } | null;
+}
+
+interface HuggingFacePreTokenizer {
+  type?: string;
+  pattern?: { Regex?: string; String?: string };
+  pretokenizers?: HuggingFacePreTokenizer[];
+}
+
+// GPT-2's pre-tokenization pattern, used when the file doesn't define one
+const GPT2_PATTERN =
+  "'s|'t|'re|'ve|'m|'ll|'d| ?\\p{L}+| ?\\p{N}+| ?[^\\s\\p{L}\\p{N}]+|\\s+(?!\\S)|\\s+";
+
+/**
+ * Byte-level BPE vocabularies spell bytes with printable unicode characters
+ * (GPT-2's bytes_to_unicode). Returns the reverse mapping, character to byte.
+ */
+function getByteDecoder(): Map<string, number> {
+  const printable: number[] = [];
+  for (let b = 33; b <= 126; b++) printable.push(b);
+  for (let b = 161; b <= 172; b++) printable.push(b);
+  for (let b = 174; b <= 255; b++) printable.push(b);
+
+  const decoder = new Map<string, number>();
+  let extra = 0;
+  for (let b = 0; b < 256; b++) {
+    if (printable.includes(b)) {
+      decoder.set(String.fromCharCode(b), b);
+    } else {
+      decoder.set(String.fromCharCode(256 + extra++), b);
+    }
+  }
+  return decoder;
+}
+
+function flattenPreTokenizers(preTokenizer: HuggingFacePreTokenizer | null | undefined): HuggingFacePreTokenizer[] {
+  if (!preTokenizer) return [];
+  if (preTokenizer.type === 'Sequence') {
+    return (preTokenizer.pretokenizers || []).flatMap(flattenPreTokenizers);
+  }
+  return [preTokenizer];
+}
+
+/**
+ * Builds a tiktoken encoder from a Hugging Face tokenizer.json. Merge order
+ * becomes the token rank, which reproduces the BPE merges of the original.
+ */
+export function loadTokenizerJson(json: string): Tiktoken {
+  const data = JSON.parse(json) as HuggingFaceTokenizer;
+  const model = data.model;
+  if (!model || model.type !== 'BPE' || !model.vocab || !model.merges) {
+    throw new Error('Only BPE tokenizer.json files are supported');
+  }
+
+  const preTokenizers = flattenPreTokenizers(data.pre_tokenizer);
+  const isByteLevel =
+    preTokenizers.some((p) => p.type === 'ByteLevel') || data.decoder?.type === 'ByteLevel';
+  if (!isByteLevel) {
+    throw new Error('Only byte-level BPE tokenizers are supported (e.g. GPT-2, Llama 3, Qwen)');
+  }
+
+  const byteDecoder = getByteDecoder();
+  const toBytes = (token: string): number[] | null => {
+    const bytes: number[] = [];
+    for (const char of token) {
+      const byte = byteDecoder.get(char);
+      if (byte === undefined) return null;
+      bytes.push(byte);
+    }
+    return bytes;
+  };
+
+  // Single bytes first, then one rank per merge in merge order
+  const ranks = new Map<string, number>();
+  for (let b = 0; b < 256; b++) {
+    ranks.set(Buffer.from([b]).toString('base64'), b);
+  }
+  for (const merge of model.merges) {
+    const [left, right] = typeof merge === 'string' ? merge.split(' ') : merge;
+    const bytes = toBytes(left + right);
+    if (!bytes) continue;
+    const key = Buffer.from(bytes).toString('base64');
+    if (!ranks.has(key)) {
+      ranks.set(key, ranks.size);
+    }
+  }
+
+  const bpeRanks = Array.from(ranks, ([token, rank]) => `${token} ${rank}`).join('\n');
+  const split = preTokenizers.find((p) => p.type === 'Split' && p.pattern?.Regex);
+  const pattern = split?.pattern?.Regex || GPT2_PATTERN;
+
+  return new Tiktoken(bpeRanks, {}, pattern);
+}
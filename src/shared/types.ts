@@ -54,22 +54,137 @@ export interface PackFile {
   content: string;
 }
 
+export interface PackExportOptions {
+  name: string;
+  description: string;
+  includeCommands: boolean;
+  includeAgents: boolean;
+  includeSettings: boolean;
+  includeContext?: boolean; // Every tool's context files and rules (see packTools.ts)
+  project?: string | null; // Export from this project instead of the user config
+}
+
+// How a pack's setting was merged into settings.json: `append` added entries
+// to a list (hook rules, permissions), `conflict` found a different value there
+export type SettingsMergeAction = 'add' | 'append' | 'unchanged' | 'conflict';
+
+export interface SettingsMergeChange {
+  key: string; // Dotted, e.g. "permissions.allow" or "hooks.PostToolUse"
+  path: string[];
+  action: SettingsMergeAction;
+  value: unknown; // The pack's value; for `append`, the entries added
+  current?: unknown; // For `conflict`: the value already there
+  replaced?: boolean; // For `conflict`: whether the pack's value replaced it
+}
+
+export interface PackInstallAction {
+  tool: string;
+  // needs-project: the tool only reads the file in a project, so an install
+  // into ~/.claude leaves it out
+  // unsupported: the tool doesn't read a file of that name anywhere, so it's
+  // left out
+  action: 'install' | 'overwrite' | 'skip' | 'merge' | 'needs-project' | 'unsupported';
+  file: string;
+  path: string; // For needs-project, where it goes in a project, relative to the root; for unsupported, the file name
+}
+
+export interface PackInstallResult {
+  actions: PackInstallAction[];
+  settings: SettingsMergeChange[];
+  errors: string[];
+}
+
+// What an installed pack wrote, recorded so it can be uninstalled or upgraded
+export interface InstalledPackFile {
+  path: string; // Absolute
+  hash: string;
+  content: string; // As installed: the base of a three-way merge on upgrade
+}
+
+export interface PackInstallRecord {
+  packId: string;
+  name: string;
+  version: string;
+  installedAt: number;
+  project?: string; // Absolute; absent when installed in ~/.claude for every project
+  files: InstalledPackFile[];
+  settingsPath?: string;
+  settings?: SettingsMergeChange[]; // What merging the pack's settings changed in settings.json
+}
+
+export type InstalledFileStatus = 'unchanged' | 'modified' | 'missing';
+
+export interface InstalledPackStatus {
+  install: PackInstallRecord;
+  files: Array<{ path: string; status: InstalledFileStatus }>;
+  settings: Array<{ key: string; status: InstalledFileStatus }>;
+}
+
+export interface PackUninstallResult {
+  removed: string[]; // Files deleted and settings keys removed
+  kept: string[]; // Modified since install, kept unless forced
+}
+
+// What an upgrade does with each file: `keep` leaves your version, `merge`
+// combines your changes with the pack's, `conflict` is a merge where both
+// changed the same lines
+export type PackUpgradeAction =
+  | 'unchanged'
+  | 'update'
+  | 'add'
+  | 'remove'
+  | 'keep'
+  | 'merge'
+  | 'conflict';
+
+export interface PackUpgradeFile {
+  path: string;
+  action: PackUpgradeAction;
+  content: string | null; // The file after the upgrade; null when it is removed or left alone
+  base: string | null; // As installed
+  current: string | null; // On disk now
+  conflicts?: number;
+}
+
+export interface PackUpgradePlan {
+  packId: string;
+  name: string;
+  from: string; // Installed version
+  to: string; // Version of the new pack
+  files: PackUpgradeFile[];
+  settings: SettingsMergeChange[]; // How the new version's settings merge into settings.json
+  conflicts: number; // Lines changed on both sides; settings conflicts keep your value
+}
+
 // ============================================================
 // Tool Profile Types
 // ============================================================
 
 // Tool profile types
-export type TokenizerType = 'anthropic' | 'openai';
+// 'openai' is the GPT-4 encoding (cl100k_base), kept for existing profiles
+export type BuiltinTokenizerType = 'anthropic' | 'openai' | 'cl100k_base' | 'o200k_base' | 'heuristic';
+// Local tokenizers reference a Hugging Face tokenizer.json by absolute path
+export type TokenizerType = BuiltinTokenizerType | `local:${string}`;
+
+export interface TokenizerInfo {
+  id: TokenizerType;
+  name: string;
+  description: string;
+}
+
+// How a tool combines its context files (see shared/inheritance.ts)
+export type InheritanceStrategy = 'claude' | 'parents' | 'nearest' | 'copilot' | 'cursor';
 
 export interface ToolProfile {
   id: string;
   name: string;
-  patterns: string[];
+  patterns: string[]; // Globs (file name, or path suffix when containing '/'), 'regex:...', '!' negates
   tokenizer: TokenizerType;
   icon: string;
   color: string;
   docsUrl?: string;
   enabled: boolean;
+  inheritance?: InheritanceStrategy; // Defaults to the built-in profile's, or 'parents'
 }
 
 // File types
@@ -83,6 +198,26 @@ export interface ContextFile {
   size: number;
 }
 
+// File watcher events (pushed from main process)
+export type ContextFileEventType = 'add' | 'change' | 'unlink';
+export type ContextFileEventScope = 'project' | 'global';
+
+export interface ContextFileEvent {
+  type: ContextFileEventType;
+  path: string;
+  scope: ContextFileEventScope; // 'global' for files under ~/.claude
+  file?: ContextFile; // Present for add/change of project context files, not .tokencentric.json
+}
+
+// Progress of a running scan, pushed to the renderer as 'scan-progress' events
+export interface ScanProgress {
+  phase: 'walking' | 'tokenizing';
+  directoriesVisited: number;
+  filesMatched: number;
+  filesTokenized: number; // Files counted so far, including unchanged files reused from the index
+  currentPath?: string; // Directory being walked or file just counted
+}
+
 export interface FileTreeNode {
   name: string;
   path: string;
@@ -116,6 +251,39 @@ export interface InheritanceChainItem {
   tokens?: number;
   isGlobal?: boolean; // True for ~/.claude/CLAUDE.md
   isCurrent?: boolean; // True for the currently selected file
+  imports?: MemoryFile[]; // Claude Code @imports, resolved recursively
+  importTokens?: number; // Tokens of the imports loaded with this file
+}
+
+// Claude Code memory: CLAUDE.md files, CLAUDE.local.md and their @imports
+export type MemoryFileKind =
+  | 'user' // ~/.claude/CLAUDE.md
+  | 'project' // CLAUDE.md or .claude/CLAUDE.md in the directory or a parent
+  | 'local' // CLAUDE.local.md in the directory or a parent
+  | 'nested' // CLAUDE.md in a subdirectory
+  | 'import'; // @path reference in another memory file
+
+export type MemoryFileStatus =
+  | 'loaded' // Read at startup
+  | 'on-demand' // Read when Claude works with files in its directory
+  | 'missing' // Import target doesn't exist (Claude skips it)
+  | 'cycle' // Imports a file that is importing it
+  | 'depth-limit' // Too many import hops away from a memory file
+  | 'duplicate'; // Already loaded through another file, not counted again
+
+export interface MemoryFile {
+  path: string;
+  kind: MemoryFileKind;
+  status: MemoryFileStatus;
+  reference?: string; // The @path as written, for imports
+  tokens?: number; // This file alone, without its imports (only for files that are read)
+  imports: MemoryFile[];
+}
+
+export interface MemoryResolution {
+  files: MemoryFile[]; // Top-level memory files in load order, with their imports
+  tokens: number; // Everything loaded at startup, imports included
+  onDemandTokens: number; // Nested files and their imports
 }
 
 // Template types
@@ -214,14 +382,161 @@ export interface EditorStatePersisted {
   splitDirection: SplitDirection;
 }
 
+// Scan root types
+export interface ScanRoot {
+  path: string;
+  enabled: boolean;
+  maxDepth?: number; // Directory levels below the root to descend (undefined = unlimited)
+  exclusions: string[]; // Applied in addition to the global exclusions
+  lastScanned?: number;
+}
+
+export type ExclusionReasonKind =
+  | 'exclusion' // Global exclusion pattern
+  | 'root-exclusion' // Scan root's own exclusion pattern
+  | 'project-exclusion' // Exclusion in a .tokencentric.json
+  | 'ignore-file' // .gitignore / .ignore rule
+  | 'depth' // Deeper than the scan root's depth limit
+  | 'outside-roots'
+  | 'disabled-root'
+  | 'no-profile'; // Not a context file for any enabled tool
+
+export interface ExclusionReason {
+  kind: ExclusionReasonKind;
+  path: string; // The file, or the ancestor directory that was excluded
+  pattern?: string;
+  source?: string; // Ignore file or project config containing the pattern
+  line?: number;
+  message: string;
+}
+
+export interface PatternTestResult {
+  matches: string[]; // Paths relative to the tested directory
+  errors: { pattern: string; message: string }[];
+}
+
+// Validation types
+export type IssueSeverity = 'error' | 'warning' | 'info';
+
+export interface ValidationIssue {
+  severity: IssueSeverity;
+  code: string; // Stable identifier, e.g. 'invalid-json'
+  message: string;
+  path?: string;
+}
+
+// Token budget types
+export interface BudgetThresholds {
+  warning: number; // Counts above this are flagged
+  limit: number; // Counts above this are over budget
+}
+
+export interface TokenBudget {
+  file: BudgetThresholds; // A single context file
+  total: BudgetThresholds; // A file plus everything it inherits
+}
+
+// Only the thresholds that are set override the inherited ones
+export interface TokenBudgetOverride {
+  file?: Partial<BudgetThresholds>;
+  total?: Partial<BudgetThresholds>;
+}
+
+export interface BudgetPolicy {
+  default?: TokenBudgetOverride;
+  tools?: Record<string, TokenBudgetOverride>; // Keyed by tool profile id
+}
+
+export type BudgetStatus = 'ok' | 'warning' | 'over';
+
+// Project configuration (.tokencentric.json, checked into the repository)
+// A profile with an existing id overrides the fields it sets; a new id adds a tool
+export type ProjectToolProfile = Partial<ToolProfile> & { id: string };
+
+// Markdown headings context files must contain, matched case-insensitively
+export interface RequiredSections {
+  default?: string[];
+  tools?: Record<string, string[]>; // Keyed by tool profile id, replaces the default
+}
+
+// Context file formats that can be converted into each other (see contextFormats.ts)
+export type ContextFormat =
+  | 'claude'
+  | 'agents'
+  | 'cursorrules'
+  | 'cursor-rule'
+  | 'copilot'
+  | 'copilot-instructions';
+
+// One canonical context file that the other tools' files are generated from
+export interface SyncConfig {
+  canonical: string; // Relative to the config file's directory
+  targets?: ContextFormat[]; // Defaults to DEFAULT_SYNC_TARGETS
+  name?: string; // Rule name for Cursor rules and Copilot path instructions
+}
+
+export interface ProjectConfig {
+  budgets?: BudgetPolicy;
+  exclusions?: string[]; // .gitignore-style, relative to the config file's directory
+  toolProfiles?: ProjectToolProfile[];
+  requiredSections?: RequiredSections;
+  sync?: SyncConfig;
+}
+
+export interface ProjectConfigFile {
+  path: string;
+  dir: string; // Applies to files in this directory and below
+  config: ProjectConfig;
+  errors: string[]; // Parse and validation problems; invalid parts are ignored
+}
+
+// in-sync: matches the canonical file; outdated: generated from an older version;
+// missing: not generated yet; edited: generated, then changed by hand;
+// untracked: an existing file that wasn't generated by a sync
+export type SyncFileStatus = 'in-sync' | 'outdated' | 'missing' | 'edited' | 'untracked';
+
+export interface SyncTarget {
+  format: ContextFormat;
+  path: string;
+  status: SyncFileStatus;
+  written?: boolean; // Set by a sync that wrote the file
+}
+
+export interface ProjectSyncStatus {
+  configPath: string;
+  canonical: string; // Absolute path of the canonical file
+  targets: SyncTarget[];
+  error?: string; // The canonical file can't be read or converted
+}
+
+// Drift analysis types (sections compared across context files)
+export type SectionFindingKind = 'duplicate' | 'conflict' | 'missing';
+
+export interface SectionFinding {
+  kind: SectionFindingKind;
+  heading: string; // As written in the first file that has the section
+  files: string[]; // Files with the section
+  missingFrom?: string[]; // 'missing': files of the same project without it
+  similarity?: number; // 'conflict': share of lines the versions have in common (0-1)
+  crossProject: boolean; // The files are in more than one project
+}
+
+export interface ContextAnalysis {
+  files: string[]; // Files compared
+  generated: string[]; // Files left out because they are generated by a sync
+  findings: SectionFinding[];
+}
+
 // Settings types
 export interface AppSettings {
-  scanPaths: string[];
-  exclusions: string[];
+  scanPaths: ScanRoot[];
+  exclusions: string[]; // .gitignore-style glob patterns
+  respectIgnoreFiles?: boolean; // Skip paths ignored by each repository's .gitignore/.ignore
   theme: 'system' | 'light' | 'dark';
   editorFontSize: number;
   analyticsEnabled: boolean;
   toolProfiles: ToolProfile[];
+  budgets?: BudgetPolicy;
   ai?: AISettings;
   editorState?: EditorStatePersisted;
   sidebarSections?: SidebarSectionState;